@@ -0,0 +1,198 @@
+// src/api/api-key.ts
+// ============================================================================
+// API Keys API (machine-to-machine credentials)
+// - Signed-in users mint keys for themselves, scoped to a subset of their
+//   own module/action permissions
+// - Admins may also mint keys for named service accounts (scopes only)
+// - The plain key is returned ONCE on creation; afterwards only its prefix
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Key management always needs a real login (Guards.requireAuth refuses
+//     API keys), so a leaked key cannot mint or revoke other keys.
+//   • Clients send the key as "X-API-Key: pe_..." (see AuthMiddleware).
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+
+import {ApiKeyModel, ApiKeyOwnerType} from "../models/api-key.model";
+import {ApiKeyService} from "../services/api-key.service";
+import Guards from "../middleware/guards";
+
+export default class ApiKey {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.createKey();   // POST   /create-key
+    this.myKeys();      // GET    /my-keys
+    this.allKeys();     // GET    /keys            (admin)
+    this.revokeKey();   // DELETE /revoke-key/:keyId
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  // ============================================================================
+  // POST /create-key
+  // Body: { name, scopes: [{module, actions}], expiresInDays?,
+  //         rateLimit?: {max, windowSeconds}, serviceAccount? (admin only) }
+  // ============================================================================
+
+  private createKey(): void {
+    this.router.post("/create-key", Guards.requireAuth(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const caller = req.user!;
+        const name = String(req.body?.name || "").trim();
+        const serviceAccount = String(req.body?.serviceAccount || "").trim();
+
+        if(!name || name.length > 100) {
+          res.status(400).json({status: "error", message: "name is required (max 100 chars)"});
+          return;
+        }
+
+        const scopes = ApiKeyService.normalizeScopes(req.body?.scopes);
+        if(typeof scopes === "string") {
+          res.status(400).json({status: "error", message: scopes});
+          return;
+        }
+
+        let ownerType: ApiKeyOwnerType = "user";
+        let owner = caller.username;
+        if(serviceAccount) {
+          if(caller.role !== "admin") {
+            res.status(403).json({status: "error", message: "Only admins can create service account keys"});
+            return;
+          }
+          if(!/^[a-z0-9._-]{3,40}$/.test(serviceAccount)) {
+            res.status(400).json({
+              status: "error",
+              message: "serviceAccount may contain lowercase letters, numbers, . _ - (3-40 chars)",
+            });
+            return;
+          }
+          ownerType = "service";
+          owner = serviceAccount;
+        } else {
+          const exceeding = await ApiKeyService.exceedingScopes(owner, scopes);
+          if(exceeding.length) {
+            res.status(403).json({
+              status: "error",
+              code: "SCOPE_EXCEEDS_PERMISSIONS",
+              message: "A key cannot have more access than its owner",
+              exceeding,
+            });
+            return;
+          }
+        }
+
+        const {key, doc} = await ApiKeyService.create({
+          name,
+          ownerType,
+          owner,
+          scopes,
+          rateLimit: req.body?.rateLimit ?? {},
+          expiresInDays: Number(req.body?.expiresInDays) || 0,
+          createdBy: caller.username,
+        });
+
+        res.status(201).json({
+          status: "success",
+          message: "API key created. Store it now, it will not be shown again.",
+          data: {key, ...ApiKeyService.toView(doc.toObject())},
+        });
+      } catch(error: any) {
+        console.error("[create-key] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error creating API key"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /my-keys  (keys owned by the caller)
+  // ============================================================================
+
+  private myKeys(): void {
+    this.router.get("/my-keys", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const keys = await ApiKeyModel.find({ownerType: "user", owner: req.user!.username})
+          .sort({createdAt: -1})
+          .lean();
+        res.status(200).json({
+          status: "success",
+          message: "API keys fetched successfully",
+          data: keys.map((k) => ApiKeyService.toView(k)),
+        });
+      } catch(error: any) {
+        console.error("[my-keys] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /keys?ownerType=service&owner=accounting&active=true  (admin)
+  // ============================================================================
+
+  private allKeys(): void {
+    this.router.get("/keys", Guards.requireRole("admin"), async (req: Request, res: Response) => {
+      try {
+        const filter: Record<string, unknown> = {};
+        const ownerType = String(req.query.ownerType || "").trim();
+        const owner = String(req.query.owner || "").trim();
+        if(ownerType === "user" || ownerType === "service") filter["ownerType"] = ownerType;
+        if(owner) filter["owner"] = owner;
+        if(req.query.active === "true") {
+          filter["revokedAt"] = null;
+          filter["$or"] = [{expiresAt: null}, {expiresAt: {$gt: new Date()}}];
+        }
+
+        const keys = await ApiKeyModel.find(filter).sort({createdAt: -1}).lean();
+        res.status(200).json({
+          status: "success",
+          message: "API keys fetched successfully",
+          data: keys.map((k) => ApiKeyService.toView(k)),
+        });
+      } catch(error: any) {
+        console.error("[keys] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // DELETE /revoke-key/:keyId  (owner or admin)
+  // ============================================================================
+
+  private revokeKey(): void {
+    this.router.delete(
+      "/revoke-key/:keyId",
+      Guards.requireAuth(),
+      async (req: Request<{keyId: string}>, res: Response) => {
+        try {
+          const caller = req.user!;
+          const keyId = String(req.params.keyId || "").trim();
+          const key = await ApiKeyModel.findOne({keyId}).lean();
+          const isOwner = key?.ownerType === "user" && key.owner === caller.username;
+          if(!key || (!isOwner && caller.role !== "admin")) {
+            res.status(404).json({status: "error", message: "API key not found"});
+            return;
+          }
+
+          if(!(await ApiKeyService.revoke(keyId, caller.username))) {
+            res.status(409).json({status: "error", message: "API key is already revoked"});
+            return;
+          }
+          res.status(200).json({status: "success", message: "API key revoked"});
+        } catch(error: any) {
+          console.error("[revoke-key] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error revoking API key"});
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,590 @@
+// src/api/billing.ts
+// ============================================================================
+// Billing API (invoices, payments and tenant ledgers for leases)
+// - Rent invoices are raised from the lease rent schedules; utility invoices
+//   for utilities the lease puts on the tenant
+// - Payments can be partial, larger than what is owed (kept as credit) or
+//   split across several invoices; credit can be applied later or refunded
+// - Tenants read their own ledger and receipts; staff need "billing:*"
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Amounts are in the lease currency, rounded to 2 decimals.
+//   • The payment method defaults to the lease's PaymentMethod.
+//   • Receipts are PDFs rendered with the shared lease header / footer.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+import ejs from "ejs";
+
+import {InvoiceModel, INVOICE_KINDS, INVOICE_STATUSES} from "../models/invoice.model";
+import {PaymentModel} from "../models/payment.model";
+import {LeaseModel} from "../models/lease.model";
+import {BillingActor, BillingEmit, BillingService} from "../services/billing.service";
+import {PdfService} from "../services/pdf.service";
+import Guards from "../middleware/guards";
+
+export default class Billing {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.generateInvoices();     // POST /generate-invoices                       (billing:create)
+    this.utilityInvoice();       // POST /utility-invoice                         (billing:create)
+    this.invoices();             // GET  /invoices                                (billing:view)
+    this.invoice();              // GET  /invoice/:invoiceId                      (billing:view)
+    this.voidInvoice();          // PUT  /void-invoice/:invoiceId                 (billing:edit)
+    this.recordPayment();        // POST /record-payment                          (billing:create)
+    this.recordFailedPayment();  // POST /record-failed-payment                   (billing:create)
+    this.refund();               // POST /refund/:paymentId                       (billing:edit)
+    this.applyCredit();          // POST /apply-credit/:leaseID                   (billing:edit)
+    this.payments();             // GET  /payments                                (billing:view)
+    this.tenantLedger();         // GET  /tenant-ledger/:username                 (self or billing:view)
+    this.receipt();              // GET  /receipt/:username/:paymentId/:type      (self or billing:view)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  // ------------------------------- helpers -------------------------------
+  private s(v: unknown): string {
+    return typeof v === "string" ? v.trim() : v === undefined || v === null ? "" : String(v).trim();
+  }
+
+  private toInt(v: unknown, def: number, min: number, max: number): number {
+    const n = Number(v);
+    if(!Number.isFinite(n)) return def;
+    return Math.min(max, Math.max(min, Math.floor(n)));
+  }
+
+  /** Optional date from the body; `undefined` when absent, `null` when invalid. */
+  private toDate(v: unknown): Date | undefined | null {
+    if(v === undefined || v === null || v === "") return undefined;
+    const d = new Date(String(v));
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+
+  private parseJSON<T>(v: unknown, fallback: T): T {
+    if(typeof v !== "string") return (v as T) ?? fallback;
+    try {
+      return JSON.parse(v) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private actor(req: Request): BillingActor {
+    const u = req.user;
+    if(!u?.username) return {username: "system"};
+    return u.role ? {username: u.username, role: String(u.role)} : {username: u.username};
+  }
+
+  /** Property ids the caller is limited to (null = all); see BillingService.visibleProperties. */
+  private scope(req: Request): Promise<string[] | null> {
+    return BillingService.visibleProperties(req.user, req.apiKey?.ownerType === "service");
+  }
+
+  private emitter(req: Request): BillingEmit | undefined {
+    const io = req.app.get("io") as import("socket.io").Server | undefined;
+    return io ? (rooms, payload) => rooms.forEach((room) => io.to(room).emit("notification.new", payload)) : undefined;
+  }
+
+  private money(currency: string, amount: number): string {
+    return `${currency} ${amount.toLocaleString("en-US", {minimumFractionDigits: 2, maximumFractionDigits: 2})}`.trim();
+  }
+
+  // ============================================================================
+  // POST /generate-invoices
+  // Body: { leaseID?, daysAhead?: 0-90 }  → rent invoices for installments due by then
+  // ============================================================================
+
+  private generateInvoices(): void {
+    this.router.post("/generate-invoices", Guards.requirePermission("billing", "create"), async (req: Request, res: Response) => {
+      try {
+        const leaseID = this.s(req.body?.leaseID);
+        const daysAhead = this.toInt(req.body?.daysAhead, BillingService.DEFAULT_DAYS_AHEAD, 0, 90);
+        const created = await BillingService.generateRentInvoices(
+          {...(leaseID ? {leaseID} : {}), daysAhead},
+          this.actor(req),
+          this.emitter(req)
+        );
+        res.status(200).json({
+          status: "success",
+          message: `${created.length} rent invoice(s) created`,
+          data: created,
+        });
+      } catch(error: any) {
+        console.error("[generate-invoices] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to generate invoices"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /utility-invoice
+  // Body: { leaseID, utility, amount, dueDate, description?, periodStart?, periodEnd? }
+  // ============================================================================
+
+  private utilityInvoice(): void {
+    this.router.post("/utility-invoice", Guards.requirePermission("billing", "create"), async (req: Request, res: Response) => {
+      try {
+        const leaseID = this.s(req.body?.leaseID);
+        const utility = this.s(req.body?.utility);
+        const dueDate = this.toDate(req.body?.dueDate);
+        const periodStart = this.toDate(req.body?.periodStart);
+        const periodEnd = this.toDate(req.body?.periodEnd);
+        if(!leaseID || !utility) {
+          res.status(400).json({status: "error", message: "leaseID and utility are required"});
+          return;
+        }
+        if(!dueDate || periodStart === null || periodEnd === null) {
+          res.status(400).json({status: "error", message: "dueDate is required; dates must be valid (YYYY-MM-DD)"});
+          return;
+        }
+
+        const result = await BillingService.createUtilityInvoice(
+          {
+            leaseID,
+            utility,
+            amount: Number(req.body?.amount),
+            dueDate,
+            ...(this.s(req.body?.description) ? {description: this.s(req.body.description)} : {}),
+            ...(periodStart ? {periodStart} : {}),
+            ...(periodEnd ? {periodEnd} : {}),
+          },
+          this.actor(req),
+          this.emitter(req)
+        );
+        if(typeof result === "string") {
+          res.status(result === "Lease not found" ? 404 : 400).json({status: "error", message: result});
+          return;
+        }
+        res.status(201).json({status: "success", message: "Utility invoice created", data: result});
+      } catch(error: any) {
+        console.error("[utility-invoice] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to create utility invoice"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /invoices?leaseID&tenant&status&kind&overdue=true&page&limit
+  // ============================================================================
+
+  private invoices(): void {
+    this.router.get("/invoices", Guards.requirePermission("billing", "view"), async (req: Request, res: Response) => {
+      try {
+        const filter: Record<string, unknown> = {};
+        const leaseID = this.s(req.query["leaseID"]);
+        const tenant = this.s(req.query["tenant"]);
+        const status = this.s(req.query["status"]);
+        const kind = this.s(req.query["kind"]);
+        if(leaseID) filter["leaseID"] = leaseID;
+        if(tenant) filter["tenantUsername"] = tenant;
+        if(status) {
+          if(!(INVOICE_STATUSES as string[]).includes(status)) {
+            res.status(400).json({status: "error", message: `status must be one of ${INVOICE_STATUSES.join(", ")}`});
+            return;
+          }
+          filter["status"] = status;
+        }
+        if(kind) {
+          if(!(INVOICE_KINDS as string[]).includes(kind)) {
+            res.status(400).json({status: "error", message: `kind must be one of ${INVOICE_KINDS.join(", ")}`});
+            return;
+          }
+          filter["kind"] = kind;
+        }
+        if(this.s(req.query["overdue"]) === "true") {
+          filter["status"] = {$in: ["open", "partially_paid"]};
+          filter["dueDate"] = {$lt: new Date(new Date().toISOString().slice(0, 10))};
+        }
+
+        // Owners / agents only see invoices of properties they own or manage
+        const scope = await this.scope(req);
+        if(scope) filter["propertyID"] = {$in: scope};
+
+        const page = this.toInt(req.query["page"], 1, 1, 100000);
+        const limit = this.toInt(req.query["limit"], 20, 1, 100);
+        const [items, total] = await Promise.all([
+          InvoiceModel.find(filter).select("-_id").sort({dueDate: -1}).skip((page - 1) * limit).limit(limit).lean(),
+          InvoiceModel.countDocuments(filter),
+        ]);
+        res.status(200).json({
+          status: "success",
+          message: "Invoices fetched",
+          data: {items, total, page, limit, totalPages: Math.ceil(total / limit)},
+        });
+      } catch(error: any) {
+        console.error("[invoices] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch invoices"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /invoice/:invoiceId   (with the payments applied to it)
+  // ============================================================================
+
+  private invoice(): void {
+    this.router.get("/invoice/:invoiceId", Guards.requirePermission("billing", "view"), async (req: Request<{invoiceId: string}>, res: Response) => {
+      try {
+        const invoiceId = this.s(req.params.invoiceId);
+        const invoice = await InvoiceModel.findOne({invoiceId}).select("-_id").lean();
+        const scope = await this.scope(req);
+        if(!invoice || (scope && !scope.includes(invoice.propertyID))) {
+          res.status(404).json({status: "error", message: "Invoice not found"});
+          return;
+        }
+        const payments = await PaymentModel.find({"allocations.invoiceId": invoiceId})
+          .select("-_id paymentId receiptNumber receivedAt method allocations")
+          .sort({receivedAt: 1})
+          .lean();
+        res.status(200).json({
+          status: "success",
+          message: "Invoice fetched",
+          data: {
+            ...invoice,
+            payments: payments.map((p) => ({
+              paymentId: p.paymentId,
+              receiptNumber: p.receiptNumber,
+              receivedAt: p.receivedAt,
+              method: p.method,
+              amount: BillingService.round2(
+                p.allocations.filter((a) => a.invoiceId === invoiceId).reduce((sum, a) => sum + a.amount, 0)
+              ),
+            })),
+          },
+        });
+      } catch(error: any) {
+        console.error("[invoice] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch invoice"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // PUT /void-invoice/:invoiceId
+  // Body: { reason }   (only invoices without payments)
+  // ============================================================================
+
+  private voidInvoice(): void {
+    this.router.put("/void-invoice/:invoiceId", Guards.requirePermission("billing", "edit"), async (req: Request<{invoiceId: string}>, res: Response) => {
+      try {
+        const reason = this.s(req.body?.reason);
+        if(!reason) {
+          res.status(400).json({status: "error", message: "reason is required"});
+          return;
+        }
+        const result = await BillingService.voidInvoice(this.s(req.params.invoiceId), reason.slice(0, 500), this.actor(req));
+        if(typeof result === "string") {
+          res.status(result === "Invoice not found" ? 404 : 409).json({status: "error", message: result});
+          return;
+        }
+        res.status(200).json({status: "success", message: "Invoice voided", data: result});
+      } catch(error: any) {
+        console.error("[void-invoice] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to void invoice"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /record-payment
+  // Body: { leaseID, amount, receivedAt?, reference?, note?,
+  //         paymentMethod?: {id?, name?, category?},
+  //         allocations?: [{invoiceId, amount}] }
+  // ============================================================================
+
+  private recordPayment(): void {
+    this.router.post("/record-payment", Guards.requirePermission("billing", "create"), async (req: Request, res: Response) => {
+      try {
+        const leaseID = this.s(req.body?.leaseID);
+        const receivedAt = this.toDate(req.body?.receivedAt);
+        if(!leaseID) {
+          res.status(400).json({status: "error", message: "leaseID is required"});
+          return;
+        }
+        if(receivedAt === null) {
+          res.status(400).json({status: "error", message: "receivedAt must be a valid date"});
+          return;
+        }
+        const allocations = this.parseJSON<Array<{invoiceId?: unknown; amount?: unknown}>>(req.body?.allocations, []);
+        if(!Array.isArray(allocations)) {
+          res.status(400).json({status: "error", message: "allocations must be an array of {invoiceId, amount}"});
+          return;
+        }
+        const method = this.parseJSON<Record<string, unknown> | null>(req.body?.paymentMethod, null);
+
+        const result = await BillingService.recordPayment(
+          {
+            leaseID,
+            amount: Number(req.body?.amount),
+            ...(receivedAt ? {receivedAt} : {}),
+            reference: this.s(req.body?.reference),
+            note: this.s(req.body?.note),
+            ...(method && typeof method === "object"
+              ? {method: {id: this.s(method["id"]), name: this.s(method["name"]), category: this.s(method["category"])}}
+              : {}),
+            allocations: allocations.map((a) => ({invoiceId: this.s(a?.invoiceId), amount: Number(a?.amount)})),
+          },
+          this.actor(req),
+          this.emitter(req)
+        );
+        if(typeof result === "string") {
+          res.status(result === "Lease not found" ? 404 : 400).json({status: "error", message: result});
+          return;
+        }
+        res.status(201).json({status: "success", message: "Payment recorded", data: result});
+      } catch(error: any) {
+        console.error("[record-payment] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to record payment"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /record-failed-payment
+  // Body: { leaseID, amount, reason, reference?, paymentMethod? }
+  // ============================================================================
+
+  private recordFailedPayment(): void {
+    this.router.post("/record-failed-payment", Guards.requirePermission("billing", "create"), async (req: Request, res: Response) => {
+      try {
+        const leaseID = this.s(req.body?.leaseID);
+        const reason = this.s(req.body?.reason);
+        if(!leaseID || !reason) {
+          res.status(400).json({status: "error", message: "leaseID and reason are required"});
+          return;
+        }
+        const method = this.parseJSON<Record<string, unknown> | null>(req.body?.paymentMethod, null);
+        const result = await BillingService.recordFailedPayment(
+          {
+            leaseID,
+            amount: Number(req.body?.amount),
+            reason: reason.slice(0, 500),
+            reference: this.s(req.body?.reference),
+            ...(method && typeof method === "object"
+              ? {method: {id: this.s(method["id"]), name: this.s(method["name"]), category: this.s(method["category"])}}
+              : {}),
+          },
+          this.actor(req),
+          this.emitter(req)
+        );
+        if(typeof result === "string") {
+          res.status(result === "Lease not found" ? 404 : 400).json({status: "error", message: result});
+          return;
+        }
+        res.status(201).json({status: "success", message: "Failed payment recorded", data: result});
+      } catch(error: any) {
+        console.error("[record-failed-payment] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to record failed payment"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /refund/:paymentId
+  // Body: { amount, reason }   (only the unapplied credit of the payment)
+  // ============================================================================
+
+  private refund(): void {
+    this.router.post("/refund/:paymentId", Guards.requirePermission("billing", "edit"), async (req: Request<{paymentId: string}>, res: Response) => {
+      try {
+        const reason = this.s(req.body?.reason);
+        if(!reason) {
+          res.status(400).json({status: "error", message: "reason is required"});
+          return;
+        }
+        const result = await BillingService.refund(
+          this.s(req.params.paymentId),
+          Number(req.body?.amount),
+          reason.slice(0, 500),
+          this.actor(req),
+          this.emitter(req)
+        );
+        if(typeof result === "string") {
+          res.status(result === "Payment not found" ? 404 : 409).json({status: "error", message: result});
+          return;
+        }
+        res.status(201).json({status: "success", message: "Refund issued", data: result});
+      } catch(error: any) {
+        console.error("[refund] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to issue refund"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /apply-credit/:leaseID   (credit from overpayments → open invoices)
+  // ============================================================================
+
+  private applyCredit(): void {
+    this.router.post("/apply-credit/:leaseID", Guards.requirePermission("billing", "edit"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const paid = await BillingService.applyCredit(this.s(req.params.leaseID), this.emitter(req));
+        res.status(200).json({status: "success", message: `Credit applied; ${paid} invoice(s) fully paid`, data: {paidInvoices: paid}});
+      } catch(error: any) {
+        console.error("[apply-credit] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to apply credit"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /payments?leaseID&tenant&kind&status&page&limit
+  // ============================================================================
+
+  private payments(): void {
+    this.router.get("/payments", Guards.requirePermission("billing", "view"), async (req: Request, res: Response) => {
+      try {
+        const filter: Record<string, unknown> = {};
+        const leaseID = this.s(req.query["leaseID"]);
+        const tenant = this.s(req.query["tenant"]);
+        const kind = this.s(req.query["kind"]);
+        const status = this.s(req.query["status"]);
+        if(leaseID) filter["leaseID"] = leaseID;
+        if(tenant) filter["tenantUsername"] = tenant;
+        if(kind === "payment" || kind === "refund") filter["kind"] = kind;
+        if(status === "completed" || status === "failed") filter["status"] = status;
+
+        const scope = await this.scope(req);
+        if(scope) filter["propertyID"] = {$in: scope};
+
+        const page = this.toInt(req.query["page"], 1, 1, 100000);
+        const limit = this.toInt(req.query["limit"], 20, 1, 100);
+        const [items, total] = await Promise.all([
+          PaymentModel.find(filter).select("-_id").sort({receivedAt: -1}).skip((page - 1) * limit).limit(limit).lean(),
+          PaymentModel.countDocuments(filter),
+        ]);
+        res.status(200).json({
+          status: "success",
+          message: "Payments fetched",
+          data: {items, total, page, limit, totalPages: Math.ceil(total / limit)},
+        });
+      } catch(error: any) {
+        console.error("[payments] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch payments"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /tenant-ledger/:username?leaseID
+  // Invoices, payments and refunds in date order with a running balance.
+  // ============================================================================
+
+  private tenantLedger(): void {
+    this.router.get(
+      "/tenant-ledger/:username",
+      Guards.requirePermission("billing", "view", {selfParam: "username"}),
+      async (req: Request<{username: string}>, res: Response) => {
+        try {
+          const username = this.s(req.params.username);
+          const leaseID = this.s(req.query["leaseID"]);
+          // Owners / agents read a tenant's ledger one lease at a time, for their own properties
+          const scope = req.user?.username === username ? null : await this.scope(req);
+          if(scope) {
+            const lease = leaseID ? await LeaseModel.findOne({leaseID, "tenantInformation.tenantUsername": username}).select("propertyID").lean() : null;
+            if(!lease || !scope.includes(lease.propertyID)) {
+              res.status(403).json({status: "error", message: "Pass the leaseID of a lease on one of your properties"});
+              return;
+            }
+          }
+          const data = await BillingService.ledger(username, leaseID || undefined);
+          res.status(200).json({status: "success", message: "Tenant ledger fetched", data});
+        } catch(error: any) {
+          console.error("[tenant-ledger] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Failed to fetch tenant ledger"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /receipt/:username/:paymentId/:type   (type: 'view' | 'download')
+  // ============================================================================
+
+  private receipt(): void {
+    this.router.get(
+      "/receipt/:username/:paymentId/:type",
+      Guards.requirePermission("billing", "view", {selfParam: "username"}),
+      async (req: Request<{username: string; paymentId: string; type: string}>, res: Response) => {
+        try {
+          const type = this.s(req.params.type).toLowerCase();
+          if(type !== "view" && type !== "download") {
+            res.status(400).json({status: "error", message: "type must be view or download."});
+            return;
+          }
+
+          const data = await BillingService.receipt(this.s(req.params.paymentId));
+          // A tenant only ever sees their own receipts (the username in the URL must match)
+          const scope = req.user?.username === this.s(req.params.username) ? null : await this.scope(req);
+          if(!data || data.payment.tenantUsername !== this.s(req.params.username) || (scope && !scope.includes(data.payment.propertyID))) {
+            res.status(404).json({status: "error", message: "Payment not found"});
+            return;
+          }
+          const p = data.payment;
+          if(p.status !== "completed") {
+            res.status(409).json({status: "error", message: "Failed payments have no receipt"});
+            return;
+          }
+
+          const fmtDate = (d: Date) => new Date(d).toISOString().slice(0, 10);
+          const html = ejs.render(PdfService.template("billingDocumentTemplates/payment-receipt-pdf.ejs"), {
+            data: {
+              kind: p.kind,
+              kindLabel: p.kind === "refund" ? "Refund Receipt" : "Payment Receipt",
+              receiptNumber: p.receiptNumber,
+              date: fmtDate(p.receivedAt),
+              amountLabel: this.money(p.currency, p.amount),
+              tenant: data.tenant,
+              leaseID: p.leaseID,
+              method: p.method?.name || "",
+              reference: p.reference,
+              note: p.note,
+              refundOf: p.refundOf || "",
+              recordedBy: p.recordedBy,
+              allocations: p.allocations.map((a) => ({
+                invoiceNumber: a.invoiceNumber,
+                appliedAt: fmtDate(a.appliedAt),
+                amount: this.money(p.currency, a.amount),
+              })),
+              unappliedLabel: p.kind === "payment" && p.unapplied > 0 ? this.money(p.currency, p.unapplied) : "",
+              balanceLabel: data.balance ? this.money(p.currency, data.balance.balance) : "",
+              overdueLabel: data.balance ? this.money(p.currency, data.balance.overdue) : "",
+            },
+          });
+          const header = ejs.render(PdfService.template("leaseDocumentTemplates/header.ejs"), {
+            logoSrc: PdfService.logoDataUrl(),
+            companyName: "PropEase Real Estate",
+          });
+          const qrCodeSrc = await PdfService.qrCode(p.receiptNumber);
+          const footer = ejs.render(PdfService.template("leaseDocumentTemplates/footer.ejs"), {qrCodeSrc});
+
+          const pdf = await PdfService.render({
+            html,
+            headerTemplate: header,
+            footerTemplate: footer,
+            margin: {top: "150px", bottom: "150px"},
+          });
+
+          const filename = `${p.receiptNumber}.pdf`;
+          res.setHeader("Content-Type", "application/pdf");
+          res.setHeader(
+            "Content-Disposition",
+            type === "download" ? `attachment; filename=${filename}` : `inline; filename=${filename}`
+          );
+          res.send(Buffer.from(pdf));
+        } catch(error: any) {
+          console.error("[receipt] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error occurred while generating the receipt."});
+        }
+      }
+    );
+  }
+}
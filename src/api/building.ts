@@ -0,0 +1,414 @@
+// src/api/building.ts
+// ============================================================================
+// Buildings API (multi-unit properties)
+// - A building holds what its units share (address, location, developer,
+//   amenities, ownership …); units are regular properties with `buildingId`
+// - Units inherit the shared fields listed in their `inheritedFields` and
+//   override the rest; building edits are pushed to the units
+// - Occupancy roll-ups and leases per building
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Units are created / edited through /api-property (buildingId, unitNumber,
+//     floor, inheritedFields); existing standalone properties can be attached.
+//   • Buildings use the "property" permissions (and "lease:view" for leases).
+//   • A building with units cannot be deleted; detach or delete them first.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+import {v4 as uuidv4} from "uuid";
+
+import {BuildingModel} from "../models/building.model";
+import {PropertyModel} from "../models/property.model";
+import {LeaseModel} from "../models/lease.model";
+import {BuildingService} from "../services/building.service";
+import Guards from "../middleware/guards";
+
+export default class Building {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  private readonly MAX_ATTACH = 500;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.createBuilding();     // POST   /create-building
+    this.buildings();          // GET    /buildings?page&limit&search
+    this.getBuilding();        // GET    /building/:buildingId
+    this.updateBuilding();     // PUT    /update-building/:buildingId
+    this.deleteBuilding();     // DELETE /delete-building/:buildingId
+    this.units();              // GET    /building-units/:buildingId
+    this.attachUnits();        // POST   /attach-units/:buildingId
+    this.detachUnit();         // DELETE /detach-unit/:buildingId/:propertyId
+    this.occupancy();          // GET    /building-occupancy/:buildingId?at=
+    this.leases();             // GET    /building-leases/:buildingId
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  private toInt(v: unknown, def: number, min: number, max: number): number {
+    const n = Math.floor(Number(v));
+    return Number.isFinite(n) ? Math.min(Math.max(n, min), max) : def;
+  }
+
+  private escapeRegex(v: string): string {
+    return v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  // ============================================================================
+  // POST /create-building
+  // Body: { name, address: {city, country, …}, kind?, description?, plannedUnits?,
+  //         countryDetails?, location?: {lat, lng, embeddedUrl?}, developerName?,
+  //         projectName?, builtYear?, totalFloors?, ownerShipType?, owner?,
+  //         featuresAndAmenities? }
+  // ============================================================================
+
+  private createBuilding(): void {
+    this.router.post("/create-building", Guards.requirePermission("property", "create"), async (req: Request, res: Response) => {
+      try {
+        const {data, errors} = BuildingService.normalize(req.body ?? {}, false);
+        if(errors.length) {
+          res.status(400).json({status: "fail", message: "Validation failed", errors});
+          return;
+        }
+
+        const doc = await BuildingModel.create({...data, buildingId: uuidv4(), createdBy: req.user!.username});
+        res.status(201).json({status: "success", message: "Building created", data: doc.toObject()});
+      } catch(error: any) {
+        console.error("[create-building] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to create building"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /buildings?page=1&limit=20&search=
+  // ============================================================================
+
+  private buildings(): void {
+    this.router.get("/buildings", Guards.requirePermission("property", "view"), async (req: Request, res: Response) => {
+      try {
+        const page = this.toInt(req.query.page, 1, 1, 10_000);
+        const limit = this.toInt(req.query.limit, 20, 1, 100);
+        const search = String(req.query.search ?? "").trim();
+        const filter = search
+          ? {
+            $or: ["name", "projectName", "address.city", "address.country"].map((f) => ({
+              [f]: {$regex: new RegExp(this.escapeRegex(search), "i")},
+            })),
+          }
+          : {};
+
+        const [items, total] = await Promise.all([
+          BuildingModel.find(filter).select("-_id -__v").sort({name: 1}).skip((page - 1) * limit).limit(limit).lean(),
+          BuildingModel.countDocuments(filter),
+        ]);
+        const counts = await BuildingService.unitCounts(items.map((b) => b.buildingId));
+
+        res.status(200).json({
+          status: "success",
+          message: "Buildings fetched",
+          data: {items: items.map((b) => ({...b, unitCount: counts.get(b.buildingId) ?? 0})), total, page, limit},
+        });
+      } catch(error: any) {
+        console.error("[buildings] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch buildings"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /building/:buildingId
+  // ============================================================================
+
+  private getBuilding(): void {
+    this.router.get("/building/:buildingId", Guards.requirePermission("property", "view"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const building = await BuildingModel.findOne({buildingId: String(req.params.buildingId)}).select("-_id -__v").lean();
+        if(!building) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+        const counts = await BuildingService.unitCounts([building.buildingId]);
+        res.status(200).json({
+          status: "success",
+          message: "Building fetched",
+          data: {...building, unitCount: counts.get(building.buildingId) ?? 0, sharedFields: BuildingService.SHARED_FIELDS},
+        });
+      } catch(error: any) {
+        console.error("[building] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch building"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // PUT /update-building/:buildingId
+  // Body: any building field; shared fields are pushed to inheriting units.
+  // ============================================================================
+
+  private updateBuilding(): void {
+    this.router.put("/update-building/:buildingId", Guards.requirePermission("property", "edit"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const {data, errors} = BuildingService.normalize(req.body ?? {}, true);
+        if(errors.length) {
+          res.status(400).json({status: "fail", message: "Validation failed", errors});
+          return;
+        }
+
+        const building = await BuildingModel.findOneAndUpdate(
+          {buildingId: String(req.params.buildingId)},
+          {$set: {...data, updatedBy: req.user!.username}},
+          {new: true}
+        ).lean();
+        if(!building) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+
+        const touchesUnits = Object.keys(data).some((k) => BuildingService.SHARED_FIELDS.includes(k));
+        const unitsUpdated = touchesUnits ? await BuildingService.propagate(building) : 0;
+
+        res.status(200).json({status: "success", message: "Building updated", data: {building, unitsUpdated}});
+      } catch(error: any) {
+        console.error("[update-building] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to update building"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // DELETE /delete-building/:buildingId
+  // ============================================================================
+
+  private deleteBuilding(): void {
+    this.router.delete("/delete-building/:buildingId", Guards.requirePermission("property", "delete"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const buildingId = String(req.params.buildingId);
+        const units = await PropertyModel.countDocuments({buildingId});
+        if(units) {
+          res.status(409).json({status: "error", message: `Building still has ${units} unit(s). Detach or delete them first.`});
+          return;
+        }
+        const result = await BuildingModel.deleteOne({buildingId});
+        if(!result.deletedCount) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+        res.status(200).json({status: "success", message: "Building deleted", data: null});
+      } catch(error: any) {
+        console.error("[delete-building] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to delete building"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /building-units/:buildingId?page=1&limit=50
+  // Units with their own (overridden) fields and the current lease.
+  // ============================================================================
+
+  private units(): void {
+    this.router.get("/building-units/:buildingId", Guards.requirePermission("property", "view"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const buildingId = String(req.params.buildingId);
+        if(!(await BuildingModel.exists({buildingId}))) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+        const page = this.toInt(req.query.page, 1, 1, 10_000);
+        const limit = this.toInt(req.query.limit, 50, 1, 200);
+
+        const [units, total] = await Promise.all([
+          PropertyModel.find({buildingId})
+            .select("-_id id title type listing status availabilityStatus unitNumber floor inheritedFields bedrooms bathrooms builtInArea price currency expectedRentMonthly images")
+            .sort({floor: 1, unitNumber: 1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+          PropertyModel.countDocuments({buildingId}),
+        ]);
+        const leases = await BuildingService.currentLeases(units.map((u) => u.id), new Date());
+
+        const items = units.map(({images, ...u}) => {
+          const inherited = u.inheritedFields ?? [...BuildingService.SHARED_FIELDS];
+          const lease = leases.get(u.id);
+          return {
+            ...u,
+            mainImageURL: images?.[0]?.imageURL ?? "",
+            inheritedFields: inherited,
+            overriddenFields: BuildingService.SHARED_FIELDS.filter((f) => !inherited.includes(f)),
+            currentLease: lease
+              ? {leaseID: lease.leaseID, tenantUsername: lease.tenantInformation?.tenantUsername ?? "", endDate: lease.leaseAgreement.endDate}
+              : null,
+          };
+        });
+
+        res.status(200).json({status: "success", message: "Building units fetched", data: {items, total, page, limit}});
+      } catch(error: any) {
+        console.error("[building-units] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch building units"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /attach-units/:buildingId
+  // Body: { units: [{ propertyId, unitNumber?, floor?, inheritedFields? }] }
+  // Converts existing standalone properties into units of this building.
+  // ============================================================================
+
+  private attachUnits(): void {
+    this.router.post("/attach-units/:buildingId", Guards.requirePermission("property", "edit"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const building = await BuildingModel.findOne({buildingId: String(req.params.buildingId)}).lean();
+        if(!building) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+
+        const raw = req.body?.units;
+        if(!Array.isArray(raw) || !raw.length || raw.length > this.MAX_ATTACH) {
+          res.status(400).json({status: "error", message: `units must be a list of 1-${this.MAX_ATTACH} entries`});
+          return;
+        }
+
+        const errors: string[] = [];
+        const units: Array<{propertyId: string; unitNumber?: string; floor?: number; inheritedFields?: string[]}> = [];
+        const seenNumbers = new Set<string>();
+        raw.forEach((u: any, i: number) => {
+          const propertyId = String(u?.propertyId ?? "").trim();
+          const unitNumber = String(u?.unitNumber ?? "").trim();
+          const floor = u?.floor === undefined || u?.floor === "" ? undefined : Number(u.floor);
+          const inherited = BuildingService.parseInheritedFields(u?.inheritedFields);
+          if(!propertyId) errors.push(`units[${i}].propertyId is required`);
+          if(unitNumber.length > 20) errors.push(`units[${i}].unitNumber must be at most 20 characters`);
+          if(unitNumber && seenNumbers.has(unitNumber)) errors.push(`units[${i}].unitNumber "${unitNumber}" is repeated`);
+          if(floor !== undefined && (!Number.isInteger(floor) || floor < -10 || floor > 300)) errors.push(`units[${i}].floor must be a whole number between -10 and 300`);
+          if(typeof inherited === "string") errors.push(`units[${i}]: ${inherited}`);
+          seenNumbers.add(unitNumber);
+          units.push({
+            propertyId,
+            ...(unitNumber ? {unitNumber} : {}),
+            ...(floor !== undefined ? {floor} : {}),
+            ...(Array.isArray(inherited) ? {inheritedFields: inherited} : {}),
+          });
+        });
+        if(errors.length) {
+          res.status(400).json({status: "fail", message: "Validation failed", errors});
+          return;
+        }
+
+        // Unit numbers must not clash with other units of this building
+        const numbers = units.map((u) => u.unitNumber).filter((n): n is string => !!n);
+        const taken = numbers.length
+          ? await PropertyModel.find({
+            buildingId: building.buildingId,
+            unitNumber: {$in: numbers},
+            id: {$nin: units.map((u) => u.propertyId)},
+          }).select("id unitNumber").lean()
+          : [];
+        if(taken.length) {
+          res.status(409).json({
+            status: "error",
+            message: "Some unit numbers are already used in this building",
+            data: taken.map((t) => ({propertyId: t.id, unitNumber: t.unitNumber})),
+          });
+          return;
+        }
+
+        const result = await BuildingService.attach(building, units);
+        res.status(200).json({status: "success", message: `${result.attached.length} unit(s) attached`, data: result});
+      } catch(error: any) {
+        console.error("[attach-units] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to attach units"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // DELETE /detach-unit/:buildingId/:propertyId
+  // The property becomes standalone again and keeps its current values.
+  // ============================================================================
+
+  private detachUnit(): void {
+    this.router.delete(
+      "/detach-unit/:buildingId/:propertyId",
+      Guards.requirePermission("property", "edit"),
+      async (req: Request<{buildingId: string; propertyId: string}>, res: Response) => {
+        try {
+          const unit = await PropertyModel.findOne({id: String(req.params.propertyId), buildingId: String(req.params.buildingId)})
+            .select("id")
+            .lean();
+          if(!unit) {
+            res.status(404).json({status: "error", message: "Unit not found in this building"});
+            return;
+          }
+          await BuildingService.detach(unit.id);
+          res.status(200).json({status: "success", message: "Unit detached", data: {propertyId: unit.id}});
+        } catch(error: any) {
+          console.error("[detach-unit] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Failed to detach unit"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /building-occupancy/:buildingId?at=2025-01-31
+  // ============================================================================
+
+  private occupancy(): void {
+    this.router.get("/building-occupancy/:buildingId", Guards.requirePermission("property", "view"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const building = await BuildingModel.findOne({buildingId: String(req.params.buildingId)}).lean();
+        if(!building) {
+          res.status(404).json({status: "error", message: "Building not found"});
+          return;
+        }
+        const at = req.query.at ? new Date(String(req.query.at)) : new Date();
+        if(Number.isNaN(at.getTime())) {
+          res.status(400).json({status: "error", message: "at must be a valid date"});
+          return;
+        }
+
+        const data = await BuildingService.occupancy(building, at);
+        res.status(200).json({status: "success", message: "Building occupancy fetched", data});
+      } catch(error: any) {
+        console.error("[building-occupancy] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch building occupancy"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /building-leases/:buildingId?page=1&limit=20
+  // ============================================================================
+
+  private leases(): void {
+    this.router.get("/building-leases/:buildingId", Guards.requirePermission("lease", "view"), async (req: Request<{buildingId: string}>, res: Response) => {
+      try {
+        const buildingID = String(req.params.buildingId);
+        const page = this.toInt(req.query.page, 1, 1, 10_000);
+        const limit = this.toInt(req.query.limit, 20, 1, 100);
+        const [items, total] = await Promise.all([
+          LeaseModel.find({buildingID})
+            .select("leaseID propertyID buildingID tenantInformation.tenantUsername tenantInformation.fullName leaseAgreement.startDate leaseAgreement.endDate leaseAgreement.monthlyRent systemMetadata.validationStatus")
+            .sort({"leaseAgreement.startDate": -1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+          LeaseModel.countDocuments({buildingID}),
+        ]);
+        res.status(200).json({status: "success", message: "Building leases fetched", data: {items, total, page, limit}});
+      } catch(error: any) {
+        console.error("[building-leases] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch building leases"});
+      }
+    });
+  }
+}
@@ -10,6 +10,7 @@ import axios from "axios";
 import * as libre from "libreoffice-convert";
 import {CryptoService} from "../services/crypto.service";
 import {FILE, TokenViceData, ScannedFileRecordJSON} from "../models/lease.model";
+import Guards from "../middleware/guards";
 
 dotenv.config();
 
@@ -280,6 +281,7 @@ export default class FileTransfer {
   private registerRecentUploadsByTenantUsername(): void {
     this.router.get(
       "/get-reason-file-uploads-by-tenant-username/:tenant",
+      Guards.requirePermission("file", "view", {selfParam: "tenant"}),
       async (req: Request<{tenant: string}>, res: Response) => {
         try {
           const tenant = (req.params.tenant || "").trim();
@@ -433,7 +435,7 @@ export default class FileTransfer {
    * - This does NOT save to disk; it just converts in-memory and sends.
    */
   private registerConvertToPDF(): void {
-    this.router.post("/convert-to-pdf", async (req: Request, res: Response) => {
+    this.router.post("/convert-to-pdf", Guards.requirePermission("file", "view"), async (req: Request, res: Response) => {
       try {
         const fileUrl = (req.body?.fileUrl || "").trim();
         if(!fileUrl) {
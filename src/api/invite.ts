@@ -0,0 +1,640 @@
+// src/api/invite.ts
+// ============================================================================
+// Invites API (invitation-based onboarding)
+// - Admin/manager invites an email with a role + initial access map
+// - Invitee opens the emailed link, completes profile + password themselves
+// - Lifecycle: pending → accepted | expired | revoked (kept for auditing)
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Invite tokens are random 32-byte values; only their SHA-256 is stored.
+//   • "expired" is applied lazily (on read) so no cron job is needed.
+//   • Non-admin inviters cannot hand out the admin role.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+import dotenv from "dotenv";
+import path from "path";
+import crypto from "crypto";
+import fse from "fs-extra";
+import multer from "multer";
+import sharp from "sharp";
+import nodemailer from "nodemailer";
+import * as Argon2 from "argon2";
+import {v4 as uuidv4} from "uuid";
+
+import {IInvite, InviteModel, InviteStatus, INVITE_STATUSES} from "../models/invite.model";
+import {UserModel, ROLE_ACCESS_MAP} from "../models/user.model";
+import NotificationService from "../services/notification.service";
+import {ApiKeyService} from "../services/api-key.service";
+import {PermissionService} from "../services/permission.service";
+import Guards from "../middleware/guards";
+import {PERMISSION_ACTIONS, PERMISSION_MODULES, PERMISSION_WILDCARD} from "../configs/permissions";
+import {Role} from "../types/roles";
+
+dotenv.config();
+
+export default class Invite {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  // ---------------------------- User image paths --------------------------
+  // Must match UserRoute (profile images live under /public/uploads/users/<username>/)
+  private readonly USER_UPLOAD_ROOT = path.join(__dirname, "../../public/uploads/users/");
+  private readonly USER_UPLOAD_URL = "uploads/users";
+
+  // ---------------------------- Rules -------------------------------------
+  private readonly ROLES: ReadonlyArray<Role> = ["admin", "agent", "tenant", "owner", "operator", "manager", "developer", "user"];
+  private readonly DEFAULT_TTL_HOURS = 72;
+  private readonly MAX_TTL_HOURS = 24 * 14;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.createInvite();      // POST   /create-invite
+    this.listInvites();       // GET    /invites
+    this.getInvite();         // GET    /invite/:inviteId
+    this.resendInvite();      // POST   /resend-invite/:inviteId
+    this.revokeInvite();      // DELETE /revoke-invite/:inviteId
+    this.getInviteByToken();  // GET    /invite-token/:token   (public)
+    this.acceptInvite();      // POST   /accept-invite         (public)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private newToken(): {token: string; tokenHash: string} {
+    const token = crypto.randomBytes(32).toString("base64url");
+    return {token, tokenHash: this.hashToken(token)};
+  }
+
+  private isEmail(v: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+  }
+
+  private isSafeSegment(v: string): boolean {
+    return /^[a-zA-Z0-9._-]{3,40}$/.test(v);
+  }
+
+  private parseJSON<T = unknown>(value: unknown, fallback: T): T {
+    if(typeof value !== "string") return (value as T) ?? fallback;
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /** Validate the initial access map (same vocabulary as configs/permissions). */
+  private parseAccess(raw: unknown, role: Role): ROLE_ACCESS_MAP | string {
+    const input = this.parseJSON<any>(raw, undefined);
+    if(input === undefined || input === null || input === "") return {role, permissions: []};
+
+    const permissions = Array.isArray(input) ? input : input?.permissions;
+    if(!Array.isArray(permissions)) return "access must be a list of {module, actions}";
+
+    const modules: ReadonlyArray<string> = [...PERMISSION_MODULES, PERMISSION_WILDCARD];
+    const actions: ReadonlyArray<string> = [...PERMISSION_ACTIONS, PERMISSION_WILDCARD];
+    const clean: ROLE_ACCESS_MAP = {role, permissions: []};
+    for(const p of permissions) {
+      const module = String(p?.module ?? "").trim();
+      const acts = Array.isArray(p?.actions) ? p.actions.map((a: unknown) => String(a).trim()) : [];
+      if(!modules.includes(module)) return `Unknown module "${module}"`;
+      const bad = acts.find((a: string) => !actions.includes(a));
+      if(bad) return `Unknown action "${bad}" for module "${module}"`;
+      clean.permissions.push({module, actions: acts});
+    }
+    return clean;
+  }
+
+  private inviteLink(token: string): string {
+    const front = (process.env.FRONTEND_ORIGIN || "http://localhost:4200").trim();
+    return `${front}/accept-invite?token=${encodeURIComponent(token)}`;
+  }
+
+  /** Public shape (never includes tokenHash). */
+  private toView(invite: any) {
+    const {tokenHash: _t, __v, _id, ...rest} = invite;
+    return rest;
+  }
+
+  /** Lazily flip overdue pending invites to "expired" (with an audit entry). */
+  private async expireOverdue(filter: Record<string, unknown> = {}): Promise<void> {
+    const now = new Date();
+    await InviteModel.updateMany(
+      {...filter, status: "pending", expiresAt: {$lte: now}},
+      {
+        $set: {status: "expired"},
+        $push: {history: {action: "expired", by: "system", at: now}},
+      }
+    );
+  }
+
+  /** Only the creator (or an admin) may see / manage an invite. */
+  private canManage(req: Request, invite: Pick<IInvite, "invitedBy">): boolean {
+    return req.user?.role === "admin" || invite.invitedBy === req.user?.username;
+  }
+
+  private async sendInviteEmail(invite: Pick<IInvite, "email" | "name" | "role" | "message" | "invitedBy" | "expiresAt">, token: string): Promise<boolean> {
+    const link = this.inviteLink(token);
+    const escape = (v: string) =>
+      v.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+    const note = invite.message
+      ? `<blockquote style="border-left:3px solid #007bff;margin:16px 0;padding-left:12px;color:#555">${escape(invite.message)}</blockquote>`
+      : "";
+    const html = `
+      <div style="max-width:600px;margin:auto;border:1px solid #e0e0e0;border-radius:8px;padding:20px;font-family:Arial,sans-serif">
+        <h2 style="text-align:center;color:#007bff">You're invited to PropEase</h2>
+        <p>Hi ${invite.name ? escape(invite.name) : "there"},</p>
+        <p>${invite.invitedBy} invited you to join PropEase as <b>${invite.role}</b>.</p>
+        ${note}
+        <div style="text-align:center;margin:30px 0">
+          <a href="${link}" style="background:#007bff;color:#fff;padding:12px 24px;text-decoration:none;border-radius:5px">Accept Invitation</a>
+        </div>
+        <p>This invitation expires on ${invite.expiresAt.toUTCString()}.</p>
+        <p>If the button doesn't work, copy this link:</p>
+        <p style="word-break:break-word">${link}</p>
+      </div>
+    `;
+
+    const transporter = nodemailer.createTransport({
+      service: "gmail",
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+
+    const sent = await transporter.sendMail({
+      from: '"PropEase Real Estate" <no-reply@propease.com>',
+      to: invite.email,
+      subject: "You're invited to PropEase",
+      html,
+    });
+
+    return !!sent;
+  }
+
+  // ============================================================================
+  // POST /create-invite
+  // Body: { email, role, access?, name?, message?, expiresInHours? }
+  // ============================================================================
+
+  private createInvite(): void {
+    const upload = multer(); // accept multipart/form-data as well as JSON
+
+    this.router.post(
+      "/create-invite",
+      Guards.requirePermission("user", "create"),
+      upload.none(),
+      async (req: Request, res: Response) => {
+        try {
+          const inviter = req.user!;
+          const email = String(req.body.email || "").trim().toLowerCase();
+          const role = String(req.body.role || "").trim() as Role;
+          const name = String(req.body.name || "").trim();
+          const message = String(req.body.message || "").trim().slice(0, 500);
+          const ttlHours = Math.min(
+            Math.max(Number(req.body.expiresInHours) || this.DEFAULT_TTL_HOURS, 1),
+            this.MAX_TTL_HOURS
+          );
+
+          if(!this.isEmail(email)) {
+            res.status(400).json({status: "error", message: "A valid email is required"});
+            return;
+          }
+          if(!this.ROLES.includes(role)) {
+            res.status(400).json({status: "error", message: `Role must be one of: ${this.ROLES.join(", ")}`});
+            return;
+          }
+          if(role === "admin" && inviter.role !== "admin") {
+            res.status(403).json({status: "error", message: "Only admins can invite admins"});
+            return;
+          }
+
+          const access = this.parseAccess(req.body.access, role);
+          if(typeof access === "string") {
+            res.status(400).json({status: "error", message: access});
+            return;
+          }
+          // An inviter cannot hand out access they do not hold themselves (role defaults included)
+          const exceeding = await ApiKeyService.exceedingScopes(inviter.username, PermissionService.merge(role, access.permissions));
+          if(exceeding.length) {
+            res.status(403).json({
+              status: "error",
+              code: "ACCESS_EXCEEDS_PERMISSIONS",
+              message: "An invite cannot grant more access than its creator has",
+              exceeding,
+            });
+            return;
+          }
+
+          if(await UserModel.exists({email: {$regex: `^${email.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, $options: "i"}})) {
+            res.status(409).json({status: "error", message: "A user with this email already exists"});
+            return;
+          }
+          await this.expireOverdue({email});
+          if(await InviteModel.exists({email, status: "pending"})) {
+            res.status(409).json({status: "error", message: "A pending invite already exists for this email"});
+            return;
+          }
+
+          const {token, tokenHash} = this.newToken();
+          const now = new Date();
+          const invite = await InviteModel.create({
+            inviteId: uuidv4(),
+            email,
+            ...(name ? {name} : {}),
+            role,
+            access,
+            ...(message ? {message} : {}),
+            tokenHash,
+            status: "pending",
+            expiresAt: new Date(now.getTime() + ttlHours * 60 * 60 * 1000),
+            invitedBy: inviter.username,
+            sentCount: 1,
+            lastSentAt: now,
+            history: [{action: "created", by: inviter.username, at: now}],
+          });
+
+          const sent = await this.sendInviteEmail(invite, token);
+          if(!sent) {
+            res.status(502).json({status: "error", message: "Invite saved but the email could not be sent"});
+            return;
+          }
+
+          res.status(201).json({
+            status: "success",
+            message: "Invite sent successfully",
+            data: this.toView(invite.toObject()),
+          });
+        } catch(error: any) {
+          console.error("[create-invite] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error creating invite"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /invites?status=pending&page=1&limit=20&scope=all
+  // Creator sees their own invites; admins may pass scope=all.
+  // ============================================================================
+
+  private listInvites(): void {
+    this.router.get("/invites", Guards.requirePermission("user", "create"), async (req: Request, res: Response) => {
+      try {
+        const status = String(req.query.status || "").trim() as InviteStatus;
+        const page = Math.max(parseInt(String(req.query.page || "1"), 10) || 1, 1);
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20"), 10) || 20, 1), 100);
+
+        const filter: Record<string, unknown> = {};
+        if(!(req.user!.role === "admin" && req.query.scope === "all")) filter["invitedBy"] = req.user!.username;
+        if(status) {
+          if(!INVITE_STATUSES.includes(status)) {
+            res.status(400).json({status: "error", message: `status must be one of: ${INVITE_STATUSES.join(", ")}`});
+            return;
+          }
+          filter["status"] = status;
+        }
+
+        await this.expireOverdue(filter["invitedBy"] ? {invitedBy: filter["invitedBy"]} : {});
+
+        const [items, total] = await Promise.all([
+          InviteModel.find(filter)
+            .select("-tokenHash -history")
+            .sort({createdAt: -1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+          InviteModel.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+          status: "success",
+          message: "Invites fetched successfully",
+          data: {items: items.map((i) => this.toView(i)), total, page, limit},
+        });
+      } catch(error: any) {
+        console.error("[invites] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /invite/:inviteId  (includes the audit history)
+  // ============================================================================
+
+  private getInvite(): void {
+    this.router.get(
+      "/invite/:inviteId",
+      Guards.requirePermission("user", "create"),
+      async (req: Request<{inviteId: string}>, res: Response) => {
+        try {
+          const inviteId = String(req.params.inviteId || "").trim();
+          await this.expireOverdue({inviteId});
+          const invite = await InviteModel.findOne({inviteId}).lean();
+          if(!invite || !this.canManage(req, invite)) {
+            res.status(404).json({status: "error", message: "Invite not found"});
+            return;
+          }
+          res.status(200).json({status: "success", message: "Invite fetched successfully", data: this.toView(invite)});
+        } catch(error: any) {
+          console.error("[invite] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Server error"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // POST /resend-invite/:inviteId  (new token + fresh expiry; old link dies)
+  // ============================================================================
+
+  private resendInvite(): void {
+    this.router.post(
+      "/resend-invite/:inviteId",
+      Guards.requirePermission("user", "create"),
+      async (req: Request<{inviteId: string}>, res: Response) => {
+        try {
+          const inviteId = String(req.params.inviteId || "").trim();
+          const existing = await InviteModel.findOne({inviteId}).lean();
+          if(!existing || !this.canManage(req, existing)) {
+            res.status(404).json({status: "error", message: "Invite not found"});
+            return;
+          }
+          if(existing.status === "accepted" || existing.status === "revoked") {
+            res.status(409).json({status: "error", message: `Invite is already ${existing.status}`});
+            return;
+          }
+
+          const {token, tokenHash} = this.newToken();
+          const now = new Date();
+          const invite = await InviteModel.findOneAndUpdate(
+            {inviteId, status: {$in: ["pending", "expired"]}},
+            {
+              $set: {
+                tokenHash,
+                status: "pending",
+                expiresAt: new Date(now.getTime() + this.DEFAULT_TTL_HOURS * 60 * 60 * 1000),
+                lastSentAt: now,
+              },
+              $inc: {sentCount: 1},
+              $push: {history: {action: "resent", by: req.user!.username, at: now}},
+            },
+            {new: true}
+          );
+          if(!invite) {
+            res.status(409).json({status: "error", message: "Invite can no longer be resent"});
+            return;
+          }
+
+          await this.sendInviteEmail(invite, token);
+          res.status(200).json({status: "success", message: "Invite resent", data: this.toView(invite.toObject())});
+        } catch(error: any) {
+          console.error("[resend-invite] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error resending invite"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // DELETE /revoke-invite/:inviteId
+  // ============================================================================
+
+  private revokeInvite(): void {
+    this.router.delete(
+      "/revoke-invite/:inviteId",
+      Guards.requirePermission("user", "create"),
+      async (req: Request<{inviteId: string}>, res: Response) => {
+        try {
+          const inviteId = String(req.params.inviteId || "").trim();
+          const existing = await InviteModel.findOne({inviteId}).lean();
+          if(!existing || !this.canManage(req, existing)) {
+            res.status(404).json({status: "error", message: "Invite not found"});
+            return;
+          }
+
+          const now = new Date();
+          const invite = await InviteModel.findOneAndUpdate(
+            {inviteId, status: {$in: ["pending", "expired"]}},
+            {
+              $set: {status: "revoked", revokedAt: now, revokedBy: req.user!.username},
+              $push: {
+                history: {action: "revoked", by: req.user!.username, at: now, note: String(req.body?.reason || "").slice(0, 200)},
+              },
+            },
+            {new: true}
+          );
+          if(!invite) {
+            res.status(409).json({status: "error", message: `Invite is already ${existing.status}`});
+            return;
+          }
+
+          res.status(200).json({status: "success", message: "Invite revoked", data: this.toView(invite.toObject())});
+        } catch(error: any) {
+          console.error("[revoke-invite] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error revoking invite"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /invite-token/:token  (public; prefill the accept form)
+  // ============================================================================
+
+  private getInviteByToken(): void {
+    this.router.get("/invite-token/:token", async (req: Request<{token: string}>, res: Response) => {
+      try {
+        const invite = await InviteModel.findOne({tokenHash: this.hashToken(String(req.params.token || ""))}).lean();
+        if(!invite || invite.status !== "pending" || invite.expiresAt <= new Date()) {
+          res.status(410).json({status: "error", message: "This invitation is invalid or has expired"});
+          return;
+        }
+        res.status(200).json({
+          status: "success",
+          message: "Invite is valid",
+          data: {email: invite.email, name: invite.name ?? "", role: invite.role, expiresAt: invite.expiresAt},
+        });
+      } catch(error: any) {
+        console.error("[invite-token] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /accept-invite  (public; multipart with optional "userimage")
+  // Body: token, username, password, name, dateOfBirth, gender, phoneNumber?,
+  //       bio?, street, houseNumber, city, postcode, country?, stateOrProvince?
+  // ============================================================================
+
+  private acceptInvite(): void {
+    const upload = multer({
+      storage: multer.memoryStorage(),
+      limits: {fileSize: 5 * 1024 * 1024},
+      fileFilter: (_req, file, cb) => {
+        if(/^image\/(jpeg|jpg|png|webp|gif)$/.test(file.mimetype)) cb(null, true);
+        else cb(new Error("Only image files are allowed"));
+      },
+    });
+
+    this.router.post("/accept-invite", upload.fields([{name: "userimage", maxCount: 1}]), async (req: Request, res: Response) => {
+      let claimed: IInvite | null = null;
+      let created = false;
+      try {
+        const body = req.body as Record<string, any>;
+        const token = String(body.token || "").trim();
+        const username = String(body.username || "").trim();
+        const password = String(body.password || "");
+        const name = String(body.name || "").trim();
+        const gender = String(body.gender || "").trim();
+        const dob = body.dateOfBirth ? new Date(body.dateOfBirth) : null;
+        const address = {
+          street: String(body.street || "").trim(),
+          houseNumber: String(body.houseNumber || "").trim(),
+          city: String(body.city || "").trim(),
+          postcode: String(body.postcode || "").trim(),
+          country: String(body.country || "").trim() || undefined,
+          stateOrProvince: String(body.stateOrProvince || "").trim() || undefined,
+        };
+
+        // ---------------- 1) Validate profile ----------------
+        const missing: string[] = [];
+        if(!token) missing.push("token");
+        if(!username) missing.push("username");
+        if(!name) missing.push("name");
+        if(!gender) missing.push("gender");
+        if(!dob || isNaN(dob.getTime())) missing.push("dateOfBirth");
+        if(!address.street || !address.houseNumber || !address.city || !address.postcode) missing.push("address");
+        if(missing.length) {
+          res.status(400).json({status: "error", message: `Missing or invalid fields: ${missing.join(", ")}`});
+          return;
+        }
+        if(!this.isSafeSegment(username)) {
+          res.status(400).json({status: "error", message: "Username may contain letters, numbers, . _ - (3-40 chars)"});
+          return;
+        }
+        if(password.trim().length < 8) {
+          res.status(400).json({status: "error", message: "Password must be at least 8 characters"});
+          return;
+        }
+        if(await UserModel.exists({username})) {
+          res.status(409).json({status: "error", message: "Username already exists"});
+          return;
+        }
+
+        // ---------------- 2) Claim the invite (single use) ----------------
+        const now = new Date();
+        claimed = await InviteModel.findOneAndUpdate(
+          {tokenHash: this.hashToken(token), status: "pending", expiresAt: {$gt: now}},
+          {$set: {status: "accepted", acceptedAt: now, acceptedUsername: username}},
+          {new: true}
+        );
+        if(!claimed) {
+          res.status(410).json({status: "error", message: "This invitation is invalid or has expired"});
+          return;
+        }
+
+        // ---------------- 3) Optional profile image ----------------
+        const files = req.files as Record<string, Express.Multer.File[] | undefined>;
+        const image = files?.userimage?.[0];
+        let imageUrl: string | undefined;
+        if(image) {
+          const imagePath = path.join(this.USER_UPLOAD_ROOT, username, "image.webp");
+          await fse.ensureDir(path.dirname(imagePath));
+          await sharp(image.buffer).webp({quality: 80}).toFile(imagePath);
+          imageUrl = `${req.protocol}://${req.get("host")}/${this.USER_UPLOAD_URL}/${encodeURIComponent(username)}/image.webp`;
+        }
+
+        // ---------------- 4) Create the user ----------------
+        const birth = dob as Date;
+        const age = Math.floor((now.getTime() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+        const user = await UserModel.create({
+          name,
+          username,
+          email: claimed.email,
+          password: await Argon2.hash(password.trim()),
+          dateOfBirth: birth,
+          age,
+          gender,
+          bio: String(body.bio || "").trim(),
+          phoneNumber: String(body.phoneNumber || "").trim() || undefined,
+          ...(imageUrl ? {image: imageUrl} : {}),
+          role: claimed.role,
+          address,
+          isActive: true,
+          access: {role: claimed.role, permissions: claimed.access?.permissions ?? []},
+          otpVerifycation: false, // phone (if any) is verified via /api-user/resend-phone-otp + /verify-phone-otp
+          emailVerified: true, // the emailed invite link proves ownership
+          autoDelete: false,
+          creator: claimed.invitedBy,
+        });
+
+        // From here on the account exists: the invite stays accepted and the
+        // remaining steps are best effort
+        created = true;
+        const invite = claimed;
+
+        await InviteModel.updateOne(
+          {_id: invite._id},
+          {$push: {history: {action: "accepted", by: username, at: now}}}
+        ).catch((e) => console.warn("[accept-invite] history not recorded:", e?.message || e));
+
+        // ---------------- 5) Tell the inviter + back-office ----------------
+        try {
+          const notificationService = new NotificationService();
+          const io = req.app.get("io") as import("socket.io").Server | undefined;
+          const emit = io
+            ? (rooms: string[], payload: unknown) => rooms.forEach((room) => io.to(room).emit("notification.new", payload))
+            : undefined;
+          const base = {
+            title: "New User" as const,
+            body: `${user.name} (${user.username}) accepted the invitation from ${invite.invitedBy}.`,
+            type: "create" as const,
+            severity: "success" as const,
+            channels: ["inapp" as const],
+            metadata: {username: user.username, email: user.email, role: user.role, inviteId: invite.inviteId},
+          };
+          await notificationService.createNotification(
+            {...base, audience: {mode: "user", usernames: [invite.invitedBy]}},
+            emit
+          );
+          await notificationService.createNotification({...base, audience: {mode: "role", roles: ["admin"]}}, emit);
+        } catch(e: any) {
+          console.warn("[accept-invite] notification failed:", e?.message || e);
+        }
+
+        res.status(201).json({
+          status: "success",
+          message: "Invitation accepted. You can now sign in.",
+          data: {username: user.username, email: user.email, role: user.role},
+        });
+      } catch(error: any) {
+        // Roll the invite back so the link can be used again after fixing the form
+        // (never once the account was created, or the link would create a second one)
+        if(claimed && !created) {
+          await InviteModel.updateOne(
+            {_id: claimed._id, status: "accepted"},
+            {$set: {status: "pending"}, $unset: {acceptedAt: "", acceptedUsername: ""}}
+          ).catch(() => {});
+        }
+        console.error("[accept-invite] error:", error?.message || error);
+        res.status(500).json({status: "error", message: `Failed to accept invite: ${error?.message || "Internal error"}`});
+      }
+    });
+  }
+}
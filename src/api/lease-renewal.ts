@@ -0,0 +1,219 @@
+// src/api/lease-renewal.ts
+// ============================================================================
+// Lease Renewal API (successor leases with rent escalation)
+// - Staff quote / propose a renewal of a running lease: a successor lease is
+//   created from the current one with new dates and the escalated rent
+// - Escalation: fixed amount, percentage, or a CPI-style index table
+// - Tenants see their proposals in the portal and accept or decline them
+// - Staff can withdraw a proposal the tenant has not answered
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Accepting approves the successor and marks the current lease "renewed";
+//     the successor becomes active on its start date (daily lease job).
+//   • The agreement snapshot + PDF of the successor are regenerated on
+//     proposal and on acceptance (systemMetadata.pdfDownloadUrl).
+//   • Proposals with a respondBy date lapse when it passes.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+
+import {RenewalInput, RenewalResult, LeaseRenewalService} from "../services/lease-renewal.service";
+import {LeaseModel} from "../models/lease.model";
+import Guards from "../middleware/guards";
+
+export default class LeaseRenewal {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.quote();              // POST /quote/:leaseID                  (lease:view)
+    this.propose();            // POST /propose/:leaseID                (lease:create, a role that can renew)
+    this.withdraw();           // POST /withdraw/:leaseID               (lease:edit, reason required)
+    this.respond("accept");    // POST /accept/:username/:leaseID       (the tenant)
+    this.respond("decline");   // POST /decline/:username/:leaseID      (the tenant)
+    this.tenantRenewals();     // GET  /renewals/:username              (self or lease:view)
+    this.chain();              // GET  /chain/:leaseID                  (lease:view)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  // ------------------------------- helpers -------------------------------
+  private s(v: unknown): string {
+    return typeof v === "string" ? v.trim() : v === undefined || v === null ? "" : String(v).trim();
+  }
+
+  private parseJSON<T>(v: unknown, fallback: T): T {
+    if(typeof v !== "string") return (v as T) ?? fallback;
+    try {
+      return JSON.parse(v) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /** Body → RenewalInput (escalation may arrive as a JSON string from form posts). */
+  private input(req: Request): RenewalInput {
+    const b = req.body ?? {};
+    const durationMonths = this.s(b.durationMonths);
+    return {
+      escalation: this.parseJSON(b.escalation, null as any),
+      ...(this.s(b.startDate) ? {startDate: this.s(b.startDate)} : {}),
+      ...(durationMonths ? {durationMonths: Number(durationMonths)} : {}),
+      ...(this.s(b.respondBy) ? {respondBy: this.s(b.respondBy)} : {}),
+      ...(this.s(b.note) ? {note: this.s(b.note)} : {}),
+    };
+  }
+
+  private emitter(req: Request) {
+    const io = req.app.get("io") as import("socket.io").Server | undefined;
+    return io ? (rooms: string[], payload: unknown) => rooms.forEach((room) => io.to(room).emit("notification.new", payload)) : undefined;
+  }
+
+  private send(res: Response, result: RenewalResult, message: string): void {
+    if(!result.ok) {
+      res.status(result.httpStatus).json({status: "error", message: result.message});
+      return;
+    }
+    res.status(200).json({status: "success", message, data: result.lease});
+  }
+
+  // ============================================================================
+  // POST /quote/:leaseID
+  // Body: { escalation, startDate?, durationMonths? }
+  // Dates and rent a renewal would get, without creating anything.
+  // ============================================================================
+
+  private quote(): void {
+    this.router.post("/quote/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const lease = await LeaseModel.findOne({leaseID: String(req.params.leaseID)}).select("leaseID leaseAgreement").lean();
+        if(!lease) {
+          res.status(404).json({status: "error", message: "No lease agreement found for this lease ID."});
+          return;
+        }
+        const quote = LeaseRenewalService.quote(lease, this.input(req));
+        if(typeof quote === "string") {
+          res.status(400).json({status: "error", message: quote});
+          return;
+        }
+        res.status(200).json({status: "success", message: "Renewal quote", data: {leaseID: lease.leaseID, ...quote}});
+      } catch(error: any) {
+        console.error("[renewal-quote] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to quote renewal"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /propose/:leaseID
+  // Body: { escalation, startDate?, durationMonths?, respondBy?, note? }
+  //   escalation: { type: "fixed" | "percentage", value, capPercent?, floorPercent? }
+  //             | { type: "index", indexTable: [{period: "YYYY-MM", value}],
+  //                 basePeriod?, currentPeriod?, capPercent?, floorPercent? }
+  // ============================================================================
+
+  private propose(): void {
+    this.router.post("/propose/:leaseID", Guards.requirePermission("lease", "create"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const result = await LeaseRenewalService.propose(String(req.params.leaseID), this.input(req), {user: req.user}, this.emitter(req));
+        this.send(res, result, "Renewal proposed to the tenant");
+      } catch(error: any) {
+        console.error("[renewal-propose] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to propose renewal"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /withdraw/:leaseID   (leaseID of the proposed successor)
+  // Body: { reason }
+  // ============================================================================
+
+  private withdraw(): void {
+    this.router.post("/withdraw/:leaseID", Guards.requirePermission("lease", "edit"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const result = await LeaseRenewalService.withdraw(String(req.params.leaseID), {user: req.user}, req.body?.reason, this.emitter(req));
+        this.send(res, result, "Renewal withdrawn");
+      } catch(error: any) {
+        console.error("[renewal-withdraw] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to withdraw renewal"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST /accept/:username/:leaseID | /decline/:username/:leaseID
+  // Body: { note? }   (leaseID of the proposed successor)
+  // ============================================================================
+
+  private respond(decision: "accept" | "decline"): void {
+    this.router.post(
+      `/${decision}/:username/:leaseID`,
+      Guards.requirePermission("lease", "view", {selfParam: "username"}),
+      async (req: Request<{username: string; leaseID: string}>, res: Response) => {
+        try {
+          const result = await LeaseRenewalService.respond(
+            String(req.params.leaseID),
+            String(req.params.username),
+            decision,
+            {user: req.user},
+            req.body?.note,
+            {
+              ipAddress: (req.headers["x-forwarded-for"] as string | undefined) ?? req.socket.remoteAddress ?? "Unknown IP",
+              userAgent: String(req.headers["user-agent"] ?? ""),
+            },
+            this.emitter(req)
+          );
+          this.send(res, result, decision === "accept" ? "Renewal accepted" : "Renewal declined");
+        } catch(error: any) {
+          console.error(`[renewal-${decision}] error:`, error?.message || error);
+          res.status(500).json({status: "error", message: `Failed to ${decision} renewal`});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /renewals/:username
+  // Renewal proposals of a tenant (portal), newest first.
+  // ============================================================================
+
+  private tenantRenewals(): void {
+    this.router.get("/renewals/:username", Guards.requirePermission("lease", "view", {selfParam: "username"}), async (req: Request<{username: string}>, res: Response) => {
+      try {
+        const data = await LeaseRenewalService.forTenant(String(req.params.username));
+        res.status(200).json({status: "success", message: "Renewals fetched", data});
+      } catch(error: any) {
+        console.error("[tenant-renewals] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch renewals"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /chain/:leaseID
+  // Every lease of the renewal chain the lease belongs to, oldest first.
+  // ============================================================================
+
+  private chain(): void {
+    this.router.get("/chain/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const data = await LeaseRenewalService.chain(String(req.params.leaseID));
+        if(!data) {
+          res.status(404).json({status: "error", message: "No lease agreement found for this lease ID."});
+          return;
+        }
+        res.status(200).json({status: "success", message: "Renewal chain fetched", data});
+      } catch(error: any) {
+        console.error("[renewal-chain] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch renewal chain"});
+      }
+    });
+  }
+}
@@ -12,13 +12,8 @@ import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
 import multer from "multer";
-import axios from "axios";
 import * as libre from "libreoffice-convert"; // (kept if you later reuse for docs)
 import {promisify} from "util";
-import * as puppeteer from "puppeteer";
-import ejs from "ejs";
-import * as os from "os";
-import QRCode from "qrcode";
 
 import {
   LeaseModel,
@@ -46,12 +41,19 @@ import {
   ScannedFileRecordJSON,
   LeasePayload,
   LeasePayloadWithProperty,
+  LEASE_ACTIONS,
+  LeaseAction,
 } from "../models/lease.model";
 
 import {Property} from "../models/property.model";
 import {UserModel} from "../models/user.model";
 import {CryptoService} from "../services/crypto.service";
 import NotificationService from "../services/notification.service";
+import {LeaseDocumentService} from "../services/lease-document.service";
+import {BuildingService} from "../services/building.service";
+import {RentScheduleService} from "../services/rent-schedule.service";
+import {LeaseLifecycleService} from "../services/lease-lifecycle.service";
+import Guards from "../middleware/guards";
 
 dotenv.config();
 
@@ -115,15 +117,6 @@ export default class Lease {
   // -------------------- Express + services + caches -------------------
   private readonly router: Router;
   private readonly cryptoService: CryptoService = new CryptoService();
-  private puppeteerBrowser: puppeteer.Browser | null = null;
-
-  // Cache EJS templates + logo so PDF generation is fast
-  private cachedTemplates: {
-    header: string;
-    footer: string;
-    main: string;
-    logoBase64: string;
-  } = {header: "", footer: "", main: "", logoBase64: ""};
 
   constructor () {
     this.router = express.Router();
@@ -136,11 +129,11 @@ export default class Lease {
     this.getAllLeaseAgreementsByUsername();        // GET  /lease-agreements/:username
     this.getLeaseAgreementsByLeaseID();            // GET  /lease-agreement/:leaseID
     this.getLeaseAgreementByIDAndUpdateValidationStatus(); // PUT /lease-status-updated/:leaseID
+    this.getLeaseStatusHistory();                  // GET  /lease-status-history/:leaseID
     this.getTenantByUsername();                    // GET  /get-tenant-by-username/:username
     this.getAllLeases();                           // GET  /all-leases?page=&limit=
-
-    // Load templates once
-    this.preloadTemplates();
+    this.getRentSchedule();                        // GET  /rent-schedule/:leaseID
+    this.regenerateRentSchedule();                 // POST /regenerate-rent-schedule/:leaseID
   }
 
   /** Expose router to app: app.use('/lease', new Lease().route) */
@@ -295,6 +288,7 @@ export default class Lease {
     // 2) Route handler
     this.router.post(
       "/register/:leaseID",
+      Guards.requirePermission("lease", "create"),
       upload.fields([
         {name: "tenantScanedDocuments", maxCount: 50},
         {name: "tenantSignature", maxCount: 1},
@@ -585,6 +579,8 @@ export default class Lease {
             utilityResponsibilities: selectedUtilityResponsibilities,
             noticePeriodDays,
           };
+          const rentTermsError = RentScheduleService.expand(INSERT_DATA_leaseAgreement);
+          if(typeof rentTermsError === "string") throw new Error(`Invalid rent terms: ${rentTermsError}`);
 
           const INSERT_DATA_signatures: Signatures = {
             tenantSignature: organizedTenantSignature,
@@ -597,13 +593,19 @@ export default class Lease {
           if(!this.checkSystemMetaDataFormat(this.mustString(req.body.systemMetaData, "System metadata")))
             throw new Error("Invalid system metadata");
           const systemMetaData: SystemMetadata = this.mustJSON(req.body.systemMetaData, "System metadata");
+          const initialState = LeaseLifecycleService.initialState(systemMetaData.validationStatus);
+          if(!initialState) throw new Error(`A new lease starts as ${LeaseLifecycleService.INITIAL_STATES.join(" or ")}.`);
+          systemMetaData.validationStatus = initialState;
 
           // -------------------- Parent payloads --------------------
+          // Units of a building also carry the building id (occupancy roll-ups)
+          const buildingID = await BuildingService.buildingOf((selectedProperty as any).id);
           const INSERT_DATA: LeasePayload = {
             leaseID,
             tenantInformation: INSERT_DATA_TenantInformation,
             ...(INSERT_DATA_coTenant ? {coTenant: INSERT_DATA_coTenant} : {}),
             propertyID: (selectedProperty as any).id, // keep as your current FE sends
+            ...(buildingID ? {buildingID} : {}),
             leaseAgreement: INSERT_DATA_leaseAgreement,
             rulesAndRegulations: selectedRuleAndRegulations,
             isReadTheCompanyPolicy,
@@ -628,9 +630,23 @@ export default class Lease {
           await fs.promises.writeFile(LEASE_JSON_PATH, JSON.stringify(INSERT_DOCUMENT_DATA, null, 2), "utf8");
 
           // -------------------- Persist in DB --------------------
-          const INSERT = new LeaseModel(INSERT_DATA);
+          const INSERT = new LeaseModel({
+            ...INSERT_DATA,
+            statusHistory: [{
+              action: "create",
+              from: "",
+              to: initialState,
+              actor: req.user?.username || INSERT_DATA_signatures.userAgent.username || "system",
+              ...(req.user?.role ? {actorRole: String(req.user.role)} : {}),
+              at: new Date(),
+            }],
+          });
           await INSERT.save();
 
+          // -------------------- Rent schedule --------------------
+          await RentScheduleService.regenerate(INSERT_DATA)
+            .catch((e) => console.warn("[register-lease] rent schedule not generated:", e?.message || e));
+
           // -------------------- Notify relevant users --------------------
           const notificationService = new NotificationService();
           const io = req.app.get("io") as import("socket.io").Server;
@@ -723,6 +739,7 @@ export default class Lease {
 
     this.router.put(
       "/update-lease-agreement/:leaseID",
+      Guards.requirePermission("lease", "edit"),
       upload.fields([
         {name: "tenantScanedDocuments", maxCount: 50},
         {name: "tenantSignature", maxCount: 1},
@@ -878,6 +895,8 @@ export default class Lease {
             throw new Error("Invalid system metadata format!");
           const systemMetaData: SystemMetadata = this.mustJSON(req.body.systemMetaData, "System metadata");
           systemMetaData.lastUpdated = new Date().toISOString();
+          // The lifecycle state only moves through PUT /lease-status-updated/:leaseID
+          systemMetaData.validationStatus = leaseAgreementDB.systemMetadata.validationStatus;
 
           // scanned docs: merge & move new
           const baseUrl = this.getBaseUrl(req);
@@ -1026,6 +1045,8 @@ export default class Lease {
             utilityResponsibilities: selectedUtilityResponsibilities,
             noticePeriodDays,
           };
+          const rentTermsError = RentScheduleService.expand(UPDATE_DATA_leaseAgreement);
+          if(typeof rentTermsError === "string") throw new Error(`Invalid rent terms: ${rentTermsError}`);
 
           const UPDATE_DATA_signatures: Signatures = {
             tenantSignature: organizedTenantSignature,
@@ -1036,11 +1057,13 @@ export default class Lease {
           };
 
           // parent payloads (omit coTenant if undefined)
+          const buildingID = await BuildingService.buildingOf((selectedProperty as any).id);
           const UPDATE_DATA: LeasePayload = {
             leaseID,
             tenantInformation: UPDATE_DATA_TenantInformation,
             ...(UPDATE_DATA_coTenant ? {coTenant: UPDATE_DATA_coTenant} : {}),
             propertyID: (selectedProperty as any).id,
+            ...(buildingID ? {buildingID} : {}),
             leaseAgreement: UPDATE_DATA_leaseAgreement,
             rulesAndRegulations: selectedRuleAndRegulations,
             isReadTheCompanyPolicy,
@@ -1061,19 +1084,20 @@ export default class Lease {
           };
 
           // persist JSON snapshot (version the old copy)
-          const todayStamp = new Date().toISOString().replace(/[:.]/g, "-").replace("T", "_").replace("Z", "");
-          const JSON_CURR = this.safeJoin(this.LEASE_UPLOAD_ROOT, leaseID, "data.json");
-          const JSON_OLD = this.safeJoin(this.LEASE_UPLOAD_ROOT, leaseID, "oldAgreements", todayStamp, "data.json");
-
-          if(fs.existsSync(JSON_CURR)) {
-            await fs.promises.mkdir(path.dirname(JSON_OLD), {recursive: true});
-            await fs.promises.rename(JSON_CURR, JSON_OLD);
-          }
-          await fs.promises.mkdir(path.dirname(JSON_CURR), {recursive: true});
-          await fs.promises.writeFile(JSON_CURR, JSON.stringify(UPDATE_DOCUMENT_DATA, null, 2), "utf8");
+          await LeaseDocumentService.writeSnapshot(UPDATE_DOCUMENT_DATA);
 
           // DB update
-          const result = await LeaseModel.updateOne({leaseID}, {$set: UPDATE_DATA});
+          const previous = await LeaseModel.findOne({leaseID}).select("leaseAgreement").lean();
+          const result = await LeaseModel.updateOne(
+            {leaseID},
+            buildingID ? {$set: UPDATE_DATA} : {$set: UPDATE_DATA, $unset: {buildingID: 1}}
+          );
+
+          // Rent schedule follows the terms (also built for leases that predate it)
+          if(!(await RentScheduleService.exists(leaseID)) || RentScheduleService.termsChanged(previous?.leaseAgreement, UPDATE_DATA_leaseAgreement)) {
+            await RentScheduleService.regenerate(UPDATE_DATA)
+              .catch((e) => console.warn("[update-lease] rent schedule not regenerated:", e?.message || e));
+          }
 
           // notify
           const notificationService = new NotificationService();
@@ -1123,7 +1147,7 @@ export default class Lease {
   // ============================================================================
 
   private setupEjsPreview(): void {
-    this.router.get("/preview-lease-agreement/:leaseID", async (req: Request<{leaseID: string}>, res: Response) => {
+    this.router.get("/preview-lease-agreement/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
       try {
         const leaseID = this.mustString(req.params.leaseID, "Lease ID");
         const jsonPath = this.safeJoin(this.LEASE_UPLOAD_ROOT, leaseID, "data.json");
@@ -1141,131 +1165,20 @@ export default class Lease {
     });
   }
 
-  // ============================================================================
-  // Puppeteer Browser (singleton-ish)
-  // ============================================================================
-
-  private async getBrowser(): Promise<puppeteer.Browser> {
-    if(this.puppeteerBrowser && this.puppeteerBrowser.isConnected()) return this.puppeteerBrowser;
-
-    const launchOptions: puppeteer.LaunchOptions = {
-      headless: true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    };
-
-    // Resolve Chrome path cross-platform if available
-    const getChromePath = (): string | undefined => {
-      const platform = os.platform();
-      if(platform === "win32") {
-        const paths = [
-          "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
-          "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
-        ];
-        return paths.find((p) => fs.existsSync(p));
-      }
-      if(platform === "darwin") {
-        const mac = "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome";
-        return fs.existsSync(mac) ? mac : undefined;
-      }
-      if(platform === "linux") {
-        const linux = ["/usr/bin/google-chrome", "/usr/bin/chromium-browser", "/usr/bin/chromium"];
-        return linux.find((p) => fs.existsSync(p));
-      }
-      return undefined;
-    };
-
-    const chromePath = getChromePath();
-    if(chromePath) launchOptions.executablePath = chromePath;
-
-    this.puppeteerBrowser = await puppeteer.launch(launchOptions);
-    return this.puppeteerBrowser;
-  }
-
-  // ============================================================================
-  // Preload EJS templates + logo (memory cache)
-  // ============================================================================
-
-  private preloadTemplates(): void {
-    try {
-      const baseDir = path.join(__dirname, "../../public/view/leaseDocumentTemplates/");
-      this.cachedTemplates = {
-        header: fs.readFileSync(path.join(baseDir, "header.ejs"), "utf8"),
-        footer: fs.readFileSync(path.join(baseDir, "footer.ejs"), "utf8"),
-        main: fs.readFileSync(path.join(baseDir, "lease-agreement-pdf.ejs"), "utf8"),
-        logoBase64: fs.readFileSync(path.join(__dirname, "../../public/companyData/images/PropEase.png")).toString("base64"),
-      };
-    } catch(e) {
-      // If preload fails, leave empty; we render-time throw with a clearer error.
-      console.error("[Templates] Preload failed:", e);
-      this.cachedTemplates = {header: "", footer: "", main: "", logoBase64: ""};
-    }
-  }
-
   // ============================================================================
   // Generate Lease PDF (inline view or download)
   // GET /lease-agreement-pdf/:leaseID/:type/:generator   (type: 'download'|'view')
   // ============================================================================
 
   private generatePDFOfLeaseAgreement(): void {
-    this.router.get("/lease-agreement-pdf/:leaseID/:type/:generator", async (req: Request, res: Response) => {
+    this.router.get("/lease-agreement-pdf/:leaseID/:type/:generator", Guards.requirePermission("lease", "view"), async (req: Request, res: Response) => {
       try {
         const {leaseID, type, generator} = req.params;
         if(!leaseID || !type || !generator) throw new Error("Missing parameters");
 
-        const jsonPath = this.safeJoin(this.LEASE_UPLOAD_ROOT, leaseID, "data.json");
-        if(!fs.existsSync(jsonPath)) throw new Error("Lease data not found");
-
-        const leaseData = JSON.parse(await fs.promises.readFile(jsonPath, "utf8"));
-
-        // Attach map as data URL if location present
-        if(leaseData.property?.location) {
-          leaseData.property.location.embeddedUrl = await this.makeDinamicMAPURL(leaseData.property.location);
-        }
-
-        // Small date formatter for printable output
-        const fmt = (d: string) => {
-          const dt = new Date(d);
-          const y = dt.getFullYear();
-          const m = (dt.getMonth() + 1).toString().padStart(2, "0");
-          const dd = dt.getDate().toString().padStart(2, "0");
-          return `${y}/${m}/${dd}`;
-        };
-
-        leaseData.tenantInformation.dateOfBirth = fmt(leaseData.tenantInformation.dateOfBirth);
-        leaseData.leaseAgreement.startDate = fmt(leaseData.leaseAgreement.startDate);
-        leaseData.leaseAgreement.endDate = fmt(leaseData.leaseAgreement.endDate);
-        leaseData.signatures.signedAt = fmt(leaseData.signatures.signedAt);
-        leaseData.systemMetadata.lastUpdated = fmt(new Date(leaseData.systemMetadata.lastUpdated).toISOString());
-
-        if(!this.cachedTemplates.main || !this.cachedTemplates.header || !this.cachedTemplates.footer) {
-          throw new Error("Templates not loaded. Check template paths and preload.");
-        }
-
-        const html = await ejs.render(this.cachedTemplates.main, {data: leaseData});
-        const header = await ejs.render(this.cachedTemplates.header, {
-          logoSrc: `data:image/png;base64,${this.cachedTemplates.logoBase64}`,
-          companyName: "PropEase Real Estate",
-        });
-        const footer = await ejs.render(this.cachedTemplates.footer, {
-          qrCodeSrc: await this.generateQRCode(leaseID),
-        });
-
-        const browser = await this.getBrowser();
-        const page = await browser.newPage();
-        await page.setContent(html, {waitUntil: "networkidle0"});
-        await page.emulateMediaType("screen");
-
-        const pdfBuffer = await page.pdf({
-          format: "A4",
-          printBackground: true,
-          displayHeaderFooter: true,
-          headerTemplate: header,
-          footerTemplate: footer,
-          margin: {top: "150px", bottom: "150px"},
-          preferCSSPageSize: true,
-        });
-
-        await page.close();
+        const leaseData = await LeaseDocumentService.readSnapshot(leaseID);
+        if(!leaseData) throw new Error("Lease data not found");
+        const pdfBuffer = await LeaseDocumentService.renderAgreement(leaseData);
 
         // Notify download/view
         const notificationService = new NotificationService();
@@ -1307,50 +1220,13 @@ export default class Lease {
     });
   }
 
-  // ============================================================================
-  // Utilities used by PDF
-  // ============================================================================
-
-  /** Generate a base64 PNG QR code from input text. */
-  private async generateQRCode(data: string): Promise<string> {
-    try {
-      return await QRCode.toDataURL(data, {
-        errorCorrectionLevel: "H",
-        type: "image/png",
-        margin: 2,
-        width: 512,
-        color: {dark: "#000000", light: "#ffffff"},
-      });
-    } catch(error) {
-      console.error("QR code generation failed:", error);
-      return "";
-    }
-  }
-
-  /** Build a Static Maps image (base64) for PDFs. Falls back to embeddedUrl string. */
-  private async makeDinamicMAPURL(input: any): Promise<string> {
-    try {
-      const APIkey = process.env.GOOGLE_API_KEY;
-      const {lat, lng, embeddedUrl} = input;
-      const staticMapUrl = `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=14&size=800x300&maptype=roadmap&markers=color:red%7C${lat},${lng}&key=${APIkey}`;
-      const response = await axios.get(staticMapUrl, {responseType: "arraybuffer", timeout: 15_000});
-      if(response.status === 200) {
-        return `data:image/png;base64,${Buffer.from(response.data).toString("base64")}`;
-      }
-      return embeddedUrl || "";
-    } catch(error) {
-      console.error("Error generating map URL:", error);
-      return "";
-    }
-  }
-
   // ============================================================================
   // GET: Lease by leaseID
   // GET /lease-agreement/:leaseID
   // ============================================================================
 
   private getLeaseAgreementsByLeaseID(): void {
-    this.router.get("/lease-agreement/:leaseID", async (req: Request<{leaseID: string}>, res: Response) => {
+    this.router.get("/lease-agreement/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
       try {
         const leaseID = this.mustString(req.params.leaseID, "Lease ID");
         const data = await LeaseModel.findOne({leaseID}).lean();
@@ -1374,7 +1250,7 @@ export default class Lease {
   // ============================================================================
 
   private getAllLeaseAgreementsByUsername(): void {
-    this.router.get("/lease-agreements/:username", async (req: Request<{username: string}>, res: Response) => {
+    this.router.get("/lease-agreements/:username", Guards.requirePermission("lease", "view", {selfParam: "username"}), async (req: Request<{username: string}>, res: Response) => {
       try {
         const safeUsername = this.sanitizeIdentifier(req.params.username);
         if(!safeUsername) throw new Error("Username is required!");
@@ -1408,36 +1284,63 @@ export default class Lease {
   }
 
   // ============================================================================
-  // PUT: Update validation status of a lease (by leaseID)
+  // PUT: Move a lease through its lifecycle (by leaseID)
   // PUT /lease-status-updated/:leaseID
+  // Body: { action, reason? }  or  { validationStatus, reason? } (target state;
+  //       legacy names are mapped). See LeaseLifecycleService.RULES for the
+  //       allowed steps, the roles per step and which ones need a reason.
   // ============================================================================
 
   private getLeaseAgreementByIDAndUpdateValidationStatus(): void {
     const upload = multer(); // for parsing form-data without files
-    this.router.put("/lease-status-updated/:leaseID", upload.none(), async (req: Request<{leaseID: string}>, res: Response) => {
+    this.router.put("/lease-status-updated/:leaseID", Guards.requirePermission("lease", "edit"), upload.none(), async (req: Request<{leaseID: string}>, res: Response) => {
       try {
         const safeLeaseID = this.mustString(req.params.leaseID, "Lease ID");
-        const validationStatus = this.mustString(req.body.validationStatus, "Validation status");
-
-        if(!this.checkIsString(validationStatus)) throw new Error("Validation should be string!");
 
-        const lastUpdated = new Date().toISOString();
-
-        const leaseAgreement = await LeaseModel.findOneAndUpdate(
-          {leaseID: safeLeaseID},
-          {"systemMetadata.validationStatus": validationStatus, "systemMetadata.lastUpdated": lastUpdated},
-          {new: true}
-        ).lean();
+        let action: LeaseAction | null = null;
+        if(req.body?.action !== undefined) {
+          const raw = String(req.body.action).trim().toLowerCase();
+          if(!(LEASE_ACTIONS as readonly string[]).includes(raw)) {
+            res.status(400).json({status: "error", message: `Unknown action. Use one of: ${LEASE_ACTIONS.join(", ")}.`});
+            return;
+          }
+          action = raw as LeaseAction;
+        } else {
+          const target = LeaseLifecycleService.normalize(this.mustString(req.body?.validationStatus, "Validation status"));
+          if(!target) {
+            res.status(400).json({status: "error", message: "Unknown lease status."});
+            return;
+          }
+          const current = await LeaseModel.findOne({leaseID: safeLeaseID}).select("systemMetadata.validationStatus").lean();
+          if(!current) {
+            res.status(404).json({status: "error", message: "No lease agreement found for this lease ID."});
+            return;
+          }
+          const from = String(current.systemMetadata?.validationStatus ?? "");
+          action = LeaseLifecycleService.actionFor(from, target);
+          if(!action) {
+            res.status(409).json({status: "error", message: `A lease cannot move from ${from || "unset"} to ${target}.`});
+            return;
+          }
+        }
 
-        if(!leaseAgreement) {
-          res.status(404).json({status: "error", message: "No lease agreement found for this lease ID."});
+        const io = req.app.get("io") as import("socket.io").Server | undefined;
+        const result = await LeaseLifecycleService.transition(
+          safeLeaseID,
+          action,
+          {user: req.user},
+          req.body?.reason,
+          io ? (rooms, payload) => rooms.forEach((room) => io.to(room).emit("notification.new", payload)) : undefined
+        );
+        if(!result.ok) {
+          res.status(result.httpStatus).json({status: "error", message: result.message});
           return;
         }
 
         res.status(200).json({
           status: "success",
-          message: "Lease agreement has been updated successfully!",
-          data: leaseAgreement,
+          message: `Lease agreement is now ${result.lease.systemMetadata.validationStatus}.`,
+          data: result.lease,
         });
         return;
       } catch(error) {
@@ -1448,13 +1351,45 @@ export default class Lease {
     });
   }
 
+  // ============================================================================
+  // GET: Lifecycle history of a lease + the steps the caller can take next
+  // GET /lease-status-history/:leaseID
+  // ============================================================================
+
+  private getLeaseStatusHistory(): void {
+    this.router.get("/lease-status-history/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const leaseID = this.mustString(req.params.leaseID, "Lease ID");
+        const lease = await LeaseLifecycleService.history(leaseID);
+        if(!lease) {
+          res.status(404).json({status: "error", message: "No lease agreement found for this lease ID."});
+          return;
+        }
+        const state = String(lease.systemMetadata?.validationStatus ?? "");
+        res.status(200).json({
+          status: "success",
+          message: "Lease status history fetched",
+          data: {
+            leaseID,
+            state,
+            availableActions: LeaseLifecycleService.availableActions(state, {user: req.user}),
+            history: [...(lease.statusHistory ?? [])].reverse(),
+          },
+        });
+      } catch(error: any) {
+        console.error("[lease-status-history] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch lease status history"});
+      }
+    });
+  }
+
   // ============================================================================
   // GET: All leases (with simple pagination)
   // GET /all-leases?page=&limit=
   // ============================================================================
 
   private getAllLeases(): void {
-    this.router.get("/all-leases", async (req: Request, res: Response) => {
+    this.router.get("/all-leases", Guards.requirePermission("lease", "view"), async (req: Request, res: Response) => {
       try {
         const page = Math.max(parseInt((req.query.page as string) || "1", 10), 1);
         const limit = Math.min(Math.max(parseInt((req.query.limit as string) || "20", 10), 1), 100);
@@ -1482,13 +1417,84 @@ export default class Lease {
     });
   }
 
+  // ============================================================================
+  // GET: Rent schedule of a lease (built on first request for older leases)
+  // GET /rent-schedule/:leaseID
+  // ============================================================================
+
+  private getRentSchedule(): void {
+    this.router.get("/rent-schedule/:leaseID", Guards.requirePermission("lease", "view"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const leaseID = this.mustString(req.params.leaseID, "Lease ID");
+        let items = await RentScheduleService.forLease(leaseID);
+        if(!items.length) {
+          const lease = await LeaseModel.findOne({leaseID}).select("leaseID propertyID tenantInformation.tenantUsername leaseAgreement").lean();
+          if(!lease) {
+            res.status(404).json({status: "error", message: `No lease agreement found for this lease ID (${leaseID}).`});
+            return;
+          }
+          const result = await RentScheduleService.regenerate(lease);
+          if(typeof result === "string") {
+            res.status(422).json({status: "error", message: `Rent schedule cannot be built: ${result}`});
+            return;
+          }
+          items = await RentScheduleService.forLease(leaseID);
+        }
+        res.status(200).json({
+          status: "success",
+          message: "Rent schedule retrieved successfully!",
+          data: {summary: RentScheduleService.summarize(items), items},
+        });
+        return;
+      } catch(error) {
+        console.log("Error in get rent schedule:", error);
+        res.status(500).json({status: "error", error: error instanceof Error ? error.message : "Unknown error"});
+        return;
+      }
+    });
+  }
+
+  // ============================================================================
+  // POST: Rebuild the rent schedule from the current lease terms
+  // POST /regenerate-rent-schedule/:leaseID
+  // ============================================================================
+
+  private regenerateRentSchedule(): void {
+    this.router.post("/regenerate-rent-schedule/:leaseID", Guards.requirePermission("lease", "edit"), async (req: Request<{leaseID: string}>, res: Response) => {
+      try {
+        const leaseID = this.mustString(req.params.leaseID, "Lease ID");
+        const lease = await LeaseModel.findOne({leaseID}).select("leaseID propertyID tenantInformation.tenantUsername leaseAgreement").lean();
+        if(!lease) {
+          res.status(404).json({status: "error", message: `No lease agreement found for this lease ID (${leaseID}).`});
+          return;
+        }
+        const result = await RentScheduleService.regenerate(lease);
+        if(typeof result === "string") {
+          res.status(422).json({status: "error", message: `Rent schedule cannot be built: ${result}`});
+          return;
+        }
+        const items = await RentScheduleService.forLease(leaseID);
+        res.status(200).json({
+          status: "success",
+          message: `Rent schedule regenerated (version ${result.version}, ${result.count} installments).`,
+          data: {summary: RentScheduleService.summarize(items), items},
+        });
+        return;
+      } catch(error) {
+        console.log("Error in regenerate rent schedule:", error);
+        res.status(500).json({status: "error", error: error instanceof Error ? error.message : "Unknown error"});
+        return;
+      }
+    });
+  }
+
   // ============================================================================
   // GET: User by username
   // GET /get-tenant-by-username/:username
   // ============================================================================
 
   private getTenantByUsername(): void {
-    this.router.get("/get-tenant-by-username/:username", async (req: Request<{username: string}>, res: Response) => {
+    this.router.get("/get-tenant-by-username/:username", Guards.requirePermission("lease", "view", {selfParam: "username"}), async (req: Request<{username: string}>, res: Response) => {
       try {
         const safeUsername = this.sanitizeIdentifier(req.params.username);
         if(!safeUsername) throw new Error("Username is required!");
@@ -1568,8 +1574,11 @@ export default class Lease {
   private checkLatePaymentPenaltiesFormat(input: any): input is LatePaymentPenalty[] {
     const data = typeof input === "string" ? JSON.parse(input) : input;
     if(!Array.isArray(data)) return false;
+    const optionalNumber = (v: unknown) => v === undefined || (typeof v === "number" && v >= 0);
     return data.every(
-      (item) => item && typeof item.label === "string" && typeof item.type === "string" && typeof item.value === "number" && typeof item.description === "string"
+      (item) => item && typeof item.label === "string" && typeof item.type === "string" && typeof item.value === "number" && typeof item.description === "string" &&
+        optionalNumber(item.graceDays) && optionalNumber(item.repeatEveryDays) && optionalNumber(item.maxAmount) && optionalNumber(item.maxPercent) &&
+        (item.compounding === undefined || typeof item.compounding === "boolean")
     );
   }
 
@@ -0,0 +1,126 @@
+// src/api/listing-review.ts
+// ============================================================================
+// Listing Review API (approval workflow on top of verificationStatus)
+// - Agents submit draft listings for review
+// - Reviewers ("review:edit") approve or reject them with a comment
+// - Only approved listings can be published; unpublish / archive take them down
+// - Every step is recorded and can be read back per property
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Transitions are compare-and-set: a listing that moved on meanwhile
+//     answers 409 instead of being overwritten.
+//   • Reviewers cannot decide on their own submissions (admins can).
+//   • The submitter gets a "Property Approved" notification on approval.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+
+import {ListingAction} from "../models/listing-transition.model";
+import {ListingWorkflowService} from "../services/listing-workflow.service";
+import Guards from "../middleware/guards";
+
+export default class ListingReview {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.transition("submit");     // POST /submit/:id      (property:edit)
+    this.transition("approve");    // POST /approve/:id     (review:edit)
+    this.transition("reject");     // POST /reject/:id      (review:edit, comment required)
+    this.transition("publish");    // POST /publish/:id     (property:edit)
+    this.transition("unpublish");  // POST /unpublish/:id   (property:edit)
+    this.transition("archive");    // POST /archive/:id     (property:edit)
+    this.reviewQueue();            // GET  /review-queue    (review:view)
+    this.transitions();            // GET  /transitions/:id (property:view)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  private toInt(v: unknown, def: number, min: number, max: number): number {
+    const n = Number(v);
+    if(!Number.isFinite(n)) return def;
+    return Math.min(max, Math.max(min, Math.floor(n)));
+  }
+
+  // ============================================================================
+  // POST /<action>/:id
+  // Body: { comment? }  (required for reject)
+  // ============================================================================
+
+  private transition(action: ListingAction): void {
+    const guard = ListingWorkflowService.RULES[action].review
+      ? Guards.requirePermission("review", "edit")
+      : Guards.requirePermission("property", "edit");
+
+    this.router.post(`/${action}/:id`, guard, async (req: Request<{id: string}>, res: Response) => {
+      try {
+        const io = req.app.get("io") as import("socket.io").Server | undefined;
+        const result = await ListingWorkflowService.transition(
+          String(req.params.id),
+          action,
+          req,
+          req.body?.comment,
+          io ? (rooms, payload) => rooms.forEach((room) => io.to(room).emit("notification.new", payload)) : undefined
+        );
+        if(!result.ok) {
+          res.status(result.httpStatus).json({status: "error", message: result.message});
+          return;
+        }
+        res.status(200).json({
+          status: "success",
+          message: `Listing ${action === "submit" ? "submitted for review" : `${action}d`}`,
+          data: result.property,
+        });
+      } catch(error: any) {
+        console.error(`[${action}-listing] error:`, error?.message || error);
+        res.status(500).json({status: "error", message: `Failed to ${action} listing`});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /review-queue?page&limit
+  // Submitted listings waiting for a decision, oldest submission first.
+  // ============================================================================
+
+  private reviewQueue(): void {
+    this.router.get("/review-queue", Guards.requirePermission("review", "view"), async (req: Request, res: Response) => {
+      try {
+        const page = this.toInt(req.query["page"], 1, 1, 100000);
+        const limit = this.toInt(req.query["limit"], 20, 1, 100);
+        const {items, total} = await ListingWorkflowService.queue((page - 1) * limit, limit);
+        res.status(200).json({
+          status: "success",
+          message: "Review queue fetched",
+          data: {items, total, page, limit, totalPages: Math.ceil(total / limit)},
+        });
+      } catch(error: any) {
+        console.error("[review-queue] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch review queue"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /transitions/:id
+  // Workflow steps of one listing, newest first.
+  // ============================================================================
+
+  private transitions(): void {
+    this.router.get("/transitions/:id", Guards.requirePermission("property", "view"), async (req: Request<{id: string}>, res: Response) => {
+      try {
+        const rows = await ListingWorkflowService.transitions(String(req.params.id));
+        res.status(200).json({status: "success", message: "Listing transitions fetched", data: rows});
+      } catch(error: any) {
+        console.error("[listing-transitions] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch listing transitions"});
+      }
+    });
+  }
+}
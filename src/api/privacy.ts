@@ -0,0 +1,186 @@
+// src/api/privacy.ts
+// ============================================================================
+// Privacy API (data-subject requests)
+// - Export: everything stored about a user/tenant as one ZIP (+ manifest.json)
+// - Erasure: admin-started background job that removes/anonymises PII while
+//   keeping lease financial records; the job keeps a report of what it did
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Users can always export their own data (selfParam).
+//   • Both operations are refused while impersonating.
+//   • dryRun=true produces the erasure report without changing anything.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+
+import {DataErasureModel} from "../models/data-erasure.model";
+import {DataSubjectService} from "../services/data-subject.service";
+import Guards from "../middleware/guards";
+
+export default class Privacy {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.exportData();      // GET  /data-export/:username
+    this.requestErasure();  // POST /data-erasure/:username   (admin)
+    this.listErasures();    // GET  /data-erasures            (admin)
+    this.getErasure();      // GET  /data-erasure-status/:requestId (admin)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  private isSafeSegment(v: string): boolean {
+    return /^[a-zA-Z0-9._-]{1,100}$/.test(v);
+  }
+
+  private toBool(v: unknown): boolean {
+    return v === true || v === "true" || v === "1" || v === 1;
+  }
+
+  // ============================================================================
+  // GET /data-export/:username  → application/zip
+  // ============================================================================
+
+  private exportData(): void {
+    this.router.get(
+      "/data-export/:username",
+      Guards.requirePermission("user", "view", {selfParam: "username"}),
+      Guards.forbidImpersonation(),
+      async (req: Request<{username: string}>, res: Response) => {
+        try {
+          const username = String(req.params.username || "").trim();
+          if(!this.isSafeSegment(username)) {
+            res.status(400).json({status: "error", message: "Invalid username"});
+            return;
+          }
+          if(!(await DataSubjectService.exists(username))) {
+            res.status(404).json({status: "error", message: "No data found for this username"});
+            return;
+          }
+
+          const {filename, buffer} = await DataSubjectService.export(username, req.user!.username);
+          res.setHeader("Content-Type", "application/zip");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+          res.setHeader("Content-Length", String(buffer.length));
+          res.status(200).end(buffer);
+        } catch(error: any) {
+          console.error("[data-export] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error exporting data"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // POST /data-erasure/:username   Body: { note?, dryRun? }  → 202 + job
+  // ============================================================================
+
+  private requestErasure(): void {
+    this.router.post(
+      "/data-erasure/:username",
+      Guards.requireAuth(),
+      Guards.requireRole("admin"),
+      Guards.forbidImpersonation(),
+      async (req: Request<{username: string}>, res: Response) => {
+        try {
+          const username = String(req.params.username || "").trim();
+          if(!this.isSafeSegment(username)) {
+            res.status(400).json({status: "error", message: "Invalid username"});
+            return;
+          }
+          if(username === req.user!.username) {
+            res.status(400).json({status: "error", message: "You cannot erase your own account"});
+            return;
+          }
+          if(!(await DataSubjectService.exists(username))) {
+            res.status(404).json({status: "error", message: "No data found for this username"});
+            return;
+          }
+
+          const io = req.app.get("io") as import("socket.io").Namespace | undefined;
+          const note = String(req.body?.note || "").trim().slice(0, 500);
+          const job = await DataSubjectService.erase(username, {
+            requestedBy: req.user!.username,
+            dryRun: this.toBool(req.body?.dryRun),
+            ...(note ? {note} : {}),
+            onSessionsRevoked: (sids) => {
+              if(io && sids.length) io.in(sids.map((sid) => `session:${sid}`)).disconnectSockets(true);
+            },
+          });
+
+          res.status(202).json({
+            status: "success",
+            message: job.dryRun ? "Erasure dry run started" : "Erasure started",
+            data: {requestId: job.requestId, status: job.status, dryRun: job.dryRun, pseudonym: job.pseudonym},
+          });
+        } catch(error: any) {
+          console.error("[data-erasure] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error starting erasure"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /data-erasures?page=1&limit=20  (admin)
+  // ============================================================================
+
+  private listErasures(): void {
+    this.router.get("/data-erasures", Guards.requireRole("admin"), async (req: Request, res: Response) => {
+      try {
+        const page = Math.max(parseInt(String(req.query.page || "1"), 10) || 1, 1);
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20"), 10) || 20, 1), 100);
+        const [items, total] = await Promise.all([
+          DataErasureModel.find({})
+            .select("-_id -__v")
+            .sort({createdAt: -1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+          DataErasureModel.countDocuments({}),
+        ]);
+        res.status(200).json({
+          status: "success",
+          message: "Erasure requests fetched successfully",
+          data: {items, total, page, limit},
+        });
+      } catch(error: any) {
+        console.error("[data-erasures] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /data-erasure-status/:requestId  (admin; includes the report)
+  // ============================================================================
+
+  private getErasure(): void {
+    this.router.get(
+      "/data-erasure-status/:requestId",
+      Guards.requireRole("admin"),
+      async (req: Request<{requestId: string}>, res: Response) => {
+        try {
+          const job = await DataErasureModel.findOne({requestId: String(req.params.requestId || "").trim()})
+            .select("-_id -__v")
+            .lean();
+          if(!job) {
+            res.status(404).json({status: "error", message: "Erasure request not found"});
+            return;
+          }
+          res.status(200).json({status: "success", message: "Erasure request fetched successfully", data: job});
+        } catch(error: any) {
+          console.error("[data-erasure-status] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Server error"});
+        }
+      }
+    );
+  }
+}
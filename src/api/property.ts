@@ -8,6 +8,7 @@ import sharp from "sharp";
 import path from "path";
 import fs from "fs";
 import fse from "fs-extra";
+import ejs from "ejs";
 import NotificationService from "../services/notification.service";
 import {
   PropertyModel,
@@ -17,6 +18,18 @@ import {
   AddedBy,
   GoogleMapLocation,
 } from "../models/property.model";
+import Guards from "../middleware/guards";
+import {PropertyGeoService} from "../services/property-geo.service";
+import {PropertySearchService} from "../services/property-search.service";
+import {PropertyHistoryService} from "../services/property-history.service";
+import {SpreadsheetService, SheetCell, SheetRow} from "../services/spreadsheet.service";
+import {PdfService} from "../services/pdf.service";
+import {BuildingService} from "../services/building.service";
+import {ListingWorkflowService} from "../services/listing-workflow.service";
+import {ImportPayload, PropertyImportService} from "../services/property-import.service";
+import {PropertyImportModel, ImportRowError} from "../models/property-import.model";
+import {UserModel} from "../models/user.model";
+import {v4 as uuidv4} from "uuid";
 
 dotenv.config();
 
@@ -92,6 +105,42 @@ export default class Property {
   private readonly PRIORITY = new Set(["high", "medium", "low"]);
   private readonly STATUS = new Set(["draft", "published", "archived"]);
 
+  /* ---------------------------- Bulk import --------------------------------- */
+  private readonly IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+  private readonly IMPORT_MAX_ROWS = 2000;
+  /** Columns a sheet may map to (flat body fields + "group.field" for nested objects). */
+  private readonly IMPORT_FIELDS = [
+    "id", "title", "type", "listing", "description",
+    "address.houseNumber", "address.street", "address.city", "address.stateOrProvince",
+    "address.postcode", "address.country", "countryDetails",
+    "location.lat", "location.lng", "location.embeddedUrl",
+    "totalArea", "builtInArea", "livingRooms", "balconies", "kitchen", "bedrooms",
+    "bathrooms", "maidrooms", "driverRooms", "furnishingStatus", "totalFloors", "numberOfParking",
+    "builtYear", "propertyCondition", "developerName", "projectName", "ownerShipType",
+    "price", "currency", "pricePerSqurFeet", "expectedRentYearly", "expectedRentQuartely",
+    "expectedRentMonthly", "expectedRentDaily", "maintenanceFees", "serviceCharges", "transferFees",
+    "availabilityStatus", "featuresAndAmenities", "videoTour", "virtualTour",
+    "listingDate", "availabilityDate", "listingExpiryDate", "rentedDate", "soldDate",
+    "addedBy.username", "addedBy.name", "addedBy.email", "addedBy.role", "addedBy.contactNumber",
+    "owner", "referenceCode", "verificationStatus", "priority", "status", "internalNote",
+  ];
+  private readonly IMPORT_DATE_FIELDS = new Set([
+    "listingDate", "availabilityDate", "listingExpiryDate", "rentedDate", "soldDate",
+  ]);
+
+  /* ------------------------------ Export / PDF ------------------------------ */
+  private readonly EXPORT_MAX_ROWS = 5000;
+  /** Same columns as the import (minus the JSON blob) so exported files re-import as-is. */
+  private readonly EXPORT_FIELDS = this.IMPORT_FIELDS.filter((f) => f !== "countryDetails");
+  /** Internal / contact columns only staff export. */
+  private readonly EXPORT_STAFF_FIELDS = new Set([
+    "addedBy.email", "addedBy.contactNumber", "owner", "referenceCode", "verificationStatus", "priority", "internalNote",
+  ]);
+  private readonly EXPORT_PUBLIC_FIELDS = this.EXPORT_FIELDS.filter((f) => !this.EXPORT_STAFF_FIELDS.has(f));
+  /** Roles that see unpublished listings and internal / contact fields (export, brochure). */
+  private readonly STAFF_ROLES = new Set(["admin", "manager", "operator"]);
+  private readonly BROCHURE_MAX_IMAGES = 6;
+
   /* -------------------------------- Router --------------------------------- */
   private router: express.Router;
 
@@ -101,6 +150,15 @@ export default class Property {
     this.test();
     this.insertProperty();
     this.getAllPropertiesWithPagination();
+    this.searchPropertiesGeo();
+    this.searchPropertiesText();
+    this.getPropertyHistory();
+    this.getPropertyChanges();
+    this.importProperties();
+    this.getImportJobs();
+    this.getImportJob();
+    this.exportProperties();
+    this.getPropertyBrochure();
     this.getSinglePropertyById();
     this.deleteProperty();
     this.updateProperty();
@@ -197,6 +255,7 @@ export default class Property {
 
     this.router.post(
       "/insert-property/:propertyID",
+      Guards.requirePermission("property", "create"),
       upload.fields([
         {name: "images", maxCount: 30},
         {name: "documents", maxCount: 20},
@@ -258,6 +317,10 @@ export default class Property {
 
           await Promise.all(conversions);
 
+          // Units: the building's inherited attributes replace the body's before validation
+          const unit = await BuildingService.resolveUnit(req.body, null);
+          if(typeof unit !== "string") Object.assign(req.body, unit.inherited);
+
           // Validate payload strictly against model (insert mode)
           const {data, errors} = this.buildValidatedPayload(req, {
             images,
@@ -265,6 +328,12 @@ export default class Property {
             isUpdate: false,
           });
           data.id = propertyID; // enforce URL id
+          if(typeof unit === "string") errors.push(unit);
+          else if(unit.link) Object.assign(data, unit.link);
+          // Non-reviewers start with a draft that goes through the review workflow
+          errors.push(...ListingWorkflowService.applyCreateRules(
+            data, await ListingWorkflowService.canReview(req), this.actor(req)
+          ));
 
           if(errors.length) {
             await this.deleteFolderWithRetry(
@@ -277,6 +346,8 @@ export default class Property {
           }
 
           const inserted = await new PropertyModel(data as IProperty).save();
+          await PropertyHistoryService.record(inserted.id, null, inserted.toObject(), this.actor(req))
+            .catch((e) => console.warn("[insert-property] history not recorded:", e?.message || e));
 
           await this.deleteFolderWithRetry(
             path.join(this.DEFAULT_UPLOAD_PATH, propertyID, "tempImages")
@@ -312,9 +383,12 @@ export default class Property {
   }
 
   // --------------------- GET ALL (pagination + filters) ----------------------
+  // Optional: facets=true[&priceBuckets=8] adds counts by type, listing,
+  // furnishingStatus, bedrooms, city, amenity and price buckets.
   private getAllPropertiesWithPagination(): void {
     this.router.get(
       "/get-all-properties-with-pagination/:start/:end/",
+      Guards.requirePermission("property", "view"),
       async (req: Request<{start: string; end: string}>, res: Response) => {
         try {
           const start = Math.max(0, parseInt(req.params.start, 10));
@@ -322,118 +396,632 @@ export default class Property {
           if(Number.isNaN(start) || Number.isNaN(end))
             throw new Error("Invalid start or end parameters.");
 
-          const rawSearch = this.s(req.query.search);
-          const rawFilter = this.s(req.query.filter);
-
-          const filterData = rawFilter
-            ? this.parseJSON<{
-              minPrice: number;
-              maxPrice: number;
-              beds: string;
-              bathrooms: string;
-              amenities: string[];
-              type: string;
-              status: string;
-            }>(rawFilter, {
-              minPrice: 0,
-              maxPrice: Number.MAX_SAFE_INTEGER,
-              beds: "",
-              bathrooms: "",
-              amenities: [],
-              type: "",
-              status: "",
-            })
-            : {
-              minPrice: 0,
-              maxPrice: Number.MAX_SAFE_INTEGER,
-              beds: "",
-              bathrooms: "",
-              amenities: [],
-              type: "",
-              status: "",
-            };
-
-          const and: any[] = [];
-
-          if(rawSearch) {
-            const rx = new RegExp(rawSearch, "i");
-            and.push({
-              $or: [
-                {title: {$regex: rx}},
-                {type: {$regex: rx}},
-                {status: {$regex: rx}},
-                {"address.country": {$regex: rx}},
-              ],
+          const match = PropertySearchService.listFilter(
+            this.s(req.query.search),
+            this.s(req.query.filter)
+          );
+
+          // facets=true → documents, total and all facet counts from ONE $facet
+          // over the same match, so drill-down counts always agree with results
+          if(this.toLower(req.query.facets) === "true") {
+            const buckets = Math.min(Math.max(Math.floor(this.toNum(req.query.priceBuckets, 8)), 1), 20);
+            const [result] = await PropertyModel.aggregate([
+              {$match: match},
+              {
+                $facet: {
+                  properties: [
+                    {$addFields: {priorityOrder: this.priorityOrderExpr()}},
+                    {$sort: {priorityOrder: 1, updatedAt: -1}},
+                    {$skip: start},
+                    {$limit: end - start},
+                  ],
+                  count: [{$count: "n"}],
+                  ...this.facetPipelines(buckets),
+                },
+              },
+            ]);
+
+            res.status(200).json({
+              status: "success",
+              message: "Properties fetched successfully.",
+              data: {
+                properties: result?.properties ?? [],
+                count: result?.count?.[0]?.n ?? 0,
+                facets: this.shapeFacets(result ?? {}),
+              },
             });
+            return;
+          }
+
+          const properties = await PropertyModel.aggregate([
+            {$match: match},
+            {$addFields: {priorityOrder: this.priorityOrderExpr()}},
+            {$sort: {priorityOrder: 1, updatedAt: -1}},
+            {$skip: start},
+            {$limit: end - start},
+          ]);
+
+          const totalCount = await PropertyModel.countDocuments(match);
+
+          res.status(200).json({
+            status: "success",
+            message: "Properties fetched successfully.",
+            data: {properties, count: totalCount},
+          });
+        } catch(error) {
+          console.error("[get-all-properties-with-pagination] error:", error);
+          res
+            .status(500)
+            .json({status: "error", message: "Error occurred while fetching properties."});
+        }
+      }
+    );
+  }
+
+  // ------------------ GEO SEARCH (radius / bbox / polygon) -------------------
+  // Query: mode=radius&lat&lng&radiusKm
+  //        mode=bbox&swLat&swLng&neLat&neLng[&lat&lng]
+  //        mode=polygon&polygon=[[lng,lat],...][&lat&lng]
+  //        + the same search / filter params as the paginated list.
+  // Results are ordered by distance and carry distanceMeters / distanceKm.
+  private searchPropertiesGeo(): void {
+    this.router.get(
+      "/search-properties-geo/:start/:end/",
+      Guards.requirePermission("property", "view"),
+      async (req: Request<{start: string; end: string}>, res: Response) => {
+        try {
+          const start = Math.max(0, parseInt(req.params.start, 10));
+          const end = Math.max(1, parseInt(req.params.end, 10));
+          if(Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+            res.status(400).json({status: "error", message: "Invalid start or end parameters."});
+            return;
+          }
+
+          const geo = PropertyGeoService.parse(req.query as Record<string, unknown>);
+          if(typeof geo === "string") {
+            res.status(400).json({status: "error", message: geo});
+            return;
+          }
+
+          const filter = PropertySearchService.listFilter(
+            this.s(req.query.search),
+            this.s(req.query.filter)
+          );
+          const match = {$and: [{geo: {$geoWithin: geo.within}}, filter]};
+
+          const [properties, totalCount] = await Promise.all([
+            PropertyModel.aggregate([
+              {
+                $geoNear: {
+                  near: geo.near,
+                  key: "geo",
+                  spherical: true,
+                  distanceField: "distanceMeters",
+                  query: match,
+                },
+              },
+              {$addFields: {distanceKm: {$round: [{$divide: ["$distanceMeters", 1000]}, 3]}}},
+              {$skip: start},
+              {$limit: end - start},
+            ]),
+            PropertyModel.countDocuments(match),
+          ]);
+
+          res.status(200).json({
+            status: "success",
+            message: "Properties fetched successfully.",
+            data: {
+              properties,
+              count: totalCount,
+              mode: geo.mode,
+              origin: {lat: geo.near.coordinates[1], lng: geo.near.coordinates[0]},
+            },
+          });
+        } catch(error) {
+          console.error("[search-properties-geo] error:", error);
+          res
+            .status(500)
+            .json({status: "error", message: "Error occurred while searching properties."});
+        }
+      }
+    );
+  }
+
+  // -------------------- FULL-TEXT SEARCH (relevance) ------------------------
+  // Query: q=sea view "private pool" -studio  (+ the list's filter param)
+  // Ranked by text score (title > address > description). When nothing
+  // matches, retries with a one-typo-per-word fallback (fuzzy: true).
+  private searchPropertiesText(): void {
+    this.router.get(
+      "/search-properties-text/:start/:end/",
+      Guards.requirePermission("property", "view"),
+      async (req: Request<{start: string; end: string}>, res: Response) => {
+        try {
+          const start = Math.max(0, parseInt(req.params.start, 10));
+          const end = Math.max(1, parseInt(req.params.end, 10));
+          if(Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+            res.status(400).json({status: "error", message: "Invalid start or end parameters."});
+            return;
+          }
+
+          const q = PropertySearchService.parse(this.s(req.query.q));
+          if(!q) {
+            res.status(400).json({status: "error", message: "q must contain at least one word or phrase"});
+            return;
+          }
+
+          const filter = PropertySearchService.listFilter("", this.s(req.query.filter));
+
+          let fuzzy = false;
+          let match: Record<string, unknown> = {$and: [{$text: {$search: q.text}}, filter]};
+          let totalCount = await PropertyModel.countDocuments(match);
+          let properties: any[] = [];
+
+          if(totalCount > 0) {
+            properties = await PropertyModel.aggregate([
+              {$match: match},
+              {$addFields: {score: {$meta: "textScore"}}},
+              {$sort: {score: -1, updatedAt: -1}},
+              {$skip: start},
+              {$limit: end - start},
+            ]);
+          } else {
+            fuzzy = true;
+            match = {$and: [PropertySearchService.fuzzyFilter(q), filter]};
+            [properties, totalCount] = await Promise.all([
+              PropertyModel.aggregate([
+                {$match: match},
+                {$addFields: {score: PropertySearchService.fuzzyScoreExpr(q)}},
+                {$sort: {score: -1, updatedAt: -1}},
+                {$skip: start},
+                {$limit: end - start},
+              ]),
+              PropertyModel.countDocuments(match),
+            ]);
           }
 
-          and.push({
-            price: {
-              $gte: Number(filterData.minPrice) || 0,
-              $lte: Number(filterData.maxPrice) || Number.MAX_SAFE_INTEGER,
+          res.status(200).json({
+            status: "success",
+            message: "Properties fetched successfully.",
+            data: {
+              properties: properties.map((p) => ({
+                ...p,
+                highlights: PropertySearchService.highlight(p, q, fuzzy),
+              })),
+              count: totalCount,
+              fuzzy,
             },
           });
+        } catch(error) {
+          console.error("[search-properties-text] error:", error);
+          res
+            .status(500)
+            .json({status: "error", message: "Error occurred while searching properties."});
+        }
+      }
+    );
+  }
 
-          if(filterData.beds === "10+") and.push({bedrooms: {$gte: 10}});
-          else if(filterData.beds)
-            and.push({bedrooms: Number.parseInt(filterData.beds, 10) || 0});
+  // ------------------------- CHANGE HISTORY ---------------------------------
+  // GET /property-history/:id?fields=price,status&from=&to=&page=1&limit=50
+  private getPropertyHistory(): void {
+    this.router.get(
+      "/property-history/:id",
+      Guards.requirePermission("property", "view"),
+      async (req: Request<{id: string}>, res: Response) => {
+        try {
+          const id = this.s(req.params.id);
+          if(!id || !(await PropertyModel.exists({id}))) {
+            res.status(404).json({status: "error", message: "Property not found."});
+            return;
+          }
 
-          if(filterData.bathrooms === "10+")
-            and.push({bathrooms: {$gte: 10}});
-          else if(filterData.bathrooms)
-            and.push({
-              bathrooms: Number.parseInt(filterData.bathrooms, 10) || 0,
+          const page = Math.max(Math.floor(this.toNum(req.query.page, 1)), 1);
+          const limit = Math.min(Math.max(Math.floor(this.toNum(req.query.limit, 50)), 1), 200);
+          const fields = this.s(req.query.fields)
+            .split(",")
+            .map((f) => f.trim())
+            .filter((f) => PropertyHistoryService.TRACKED_FIELDS.includes(f));
+          const since = this.toDateOrNull(req.query.from);
+          const until = this.toDateOrNull(req.query.to);
+
+          const {items, total} = await PropertyHistoryService.timeline(id, {
+            fields,
+            ...(since ? {since} : {}),
+            ...(until ? {until} : {}),
+            skip: (page - 1) * limit,
+            limit,
+          });
+
+          res.status(200).json({
+            status: "success",
+            message: "Property history fetched successfully.",
+            data: {propertyId: id, items, total, page, limit},
+          });
+        } catch(error) {
+          console.error("[property-history] error:", error);
+          res
+            .status(500)
+            .json({status: "error", message: "Error occurred while fetching property history."});
+        }
+      }
+    );
+  }
+
+  // GET /property-changes?field=price&direction=down&days=30[&minPercent=5&changedBy=&page&limit]
+  // e.g. "price drops in the last 30 days" across all properties
+  private getPropertyChanges(): void {
+    this.router.get(
+      "/property-changes",
+      Guards.requirePermission("property", "view"),
+      async (req: Request, res: Response) => {
+        try {
+          const field = this.s(req.query.field) || "price";
+          if(!PropertyHistoryService.TRACKED_FIELDS.includes(field)) {
+            res.status(400).json({
+              status: "error",
+              message: `field must be one of: ${PropertyHistoryService.TRACKED_FIELDS.join(", ")}`,
             });
+            return;
+          }
+          const direction = this.toLower(req.query.direction);
+          if(direction && direction !== "up" && direction !== "down") {
+            res.status(400).json({status: "error", message: "direction must be up or down"});
+            return;
+          }
+          if(direction && !PropertyHistoryService.NUMERIC_FIELDS.has(field)) {
+            res.status(400).json({status: "error", message: "direction only applies to numeric fields"});
+            return;
+          }
+
+          const days = this.toNum(req.query.days, 0);
+          const from = this.toDateOrNull(req.query.from);
+          const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : from;
+          const until = this.toDateOrNull(req.query.to);
+          const page = Math.max(Math.floor(this.toNum(req.query.page, 1)), 1);
+          const limit = Math.min(Math.max(Math.floor(this.toNum(req.query.limit, 50)), 1), 200);
+          const changedBy = this.s(req.query.changedBy);
+
+          const {items, total} = await PropertyHistoryService.changes({
+            field,
+            ...(since ? {since} : {}),
+            ...(until ? {until} : {}),
+            ...(direction ? {direction: direction as "up" | "down"} : {}),
+            minPercent: this.toNonNeg(req.query.minPercent, 0),
+            ...(changedBy ? {changedBy} : {}),
+            skip: (page - 1) * limit,
+            limit,
+          });
 
-          if(filterData.type) {
-            const t = filterData.type.toLowerCase();
-            if(this.PROPERTY_TYPES.has(t)) and.push({type: t});
+          res.status(200).json({
+            status: "success",
+            message: "Property changes fetched successfully.",
+            data: {items, total, page, limit},
+          });
+        } catch(error) {
+          console.error("[property-changes] error:", error);
+          res
+            .status(500)
+            .json({status: "error", message: "Error occurred while fetching property changes."});
+        }
+      }
+    );
+  }
+
+  // --------------------------- BULK IMPORT ----------------------------------
+  // POST /import-properties   multipart: file (.csv / .xlsx)
+  //   dryRun   = "true" (default) → per-row validation report, nothing saved
+  //   dryRun   = "false"          → valid rows are inserted by a tracked job
+  //   mapping? = JSON {"Sheet column": "field"} for headers that don't match
+  // Progress: socket event "property-import.progress" to the caller's user room.
+  private importProperties(): void {
+    const upload = multer({storage: multer.memoryStorage(), limits: {fileSize: this.IMPORT_MAX_BYTES, files: 1}});
+
+    this.router.post(
+      "/import-properties",
+      Guards.requirePermission("property", "create"),
+      (req: Request, res: Response, next) => {
+        upload.single("file")(req, res, (err: unknown) => {
+          if(!err) return next();
+          const message = (err as any)?.code === "LIMIT_FILE_SIZE"
+            ? `File is too large (max ${this.IMPORT_MAX_BYTES / 1024 / 1024}MB)`
+            : String((err as any)?.message || err);
+          res.status(400).json({status: "error", message});
+        });
+      },
+      async (req: Request, res: Response) => {
+        try {
+          const file = req.file;
+          if(!file) {
+            res.status(400).json({status: "error", message: "file is required (CSV or XLSX)."});
+            return;
+          }
+          const format = SpreadsheetService.detectFormat(file.originalname, file.mimetype);
+          if(!format) {
+            res.status(400).json({status: "error", message: "Only .csv and .xlsx files are supported."});
+            return;
           }
 
-          if(filterData.status) {
-            const st = filterData.status.toLowerCase();
-            if(this.STATUS.has(st)) and.push({status: st});
+          const mapping = this.parseJSON<Record<string, string>>(req.body.mapping, {});
+          if(!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+            res.status(400).json({status: "error", message: "mapping must be a JSON object."});
+            return;
           }
 
-          if(Array.isArray(filterData.amenities) && filterData.amenities.length) {
-            and.push({featuresAndAmenities: {$all: filterData.amenities}});
+          let sheet;
+          try {
+            sheet = SpreadsheetService.parse(file.buffer, format, this.IMPORT_MAX_ROWS);
+          } catch(e: any) {
+            res.status(400).json({status: "error", message: e?.message || "Could not read the file."});
+            return;
           }
 
-          const match = and.length ? {$and: and} : {};
+          const columns = this.mapImportColumns(sheet.headers, mapping);
+          if(!Object.keys(columns.mapped).length) {
+            res.status(400).json({status: "error", message: "No column matches a property field.", data: {columns}});
+            return;
+          }
 
-          const properties = await PropertyModel.aggregate([
-            {$match: match},
-            {
-              $addFields: {
-                priorityOrder: {
-                  $switch: {
-                    branches: [
-                      {case: {$eq: ["$priority", "high"]}, then: 1},
-                      {case: {$eq: ["$priority", "medium"]}, then: 2},
-                      {case: {$eq: ["$priority", "low"]}, then: 3},
-                    ],
-                    default: 4,
-                  },
-                },
+          const {payloads, rowErrors} = await this.validateImportRows(sheet.rows, columns.mapped, req);
+          const dryRun = this.toLower(req.body.dryRun) !== "false";
+
+          if(dryRun) {
+            res.status(200).json({
+              status: "success",
+              message: "Dry run completed. Nothing was saved.",
+              data: {
+                dryRun: true,
+                format,
+                totalRows: sheet.rows.length,
+                validRows: payloads.length,
+                invalidRows: rowErrors.length,
+                columns,
+                errors: rowErrors,
+                preview: payloads.slice(0, 5).map((p) => ({row: p.row, ...p.data})),
               },
-            },
-            {$sort: {priorityOrder: 1, updatedAt: -1}},
-            {$skip: start},
-            {$limit: end - start},
-          ]);
+            });
+            return;
+          }
 
-          const totalCount = await PropertyModel.countDocuments(match);
+          if(!payloads.length) {
+            res.status(400).json({
+              status: "error",
+              message: "No valid rows to import.",
+              data: {totalRows: sheet.rows.length, invalidRows: rowErrors.length, errors: rowErrors},
+            });
+            return;
+          }
 
-          res.status(200).json({
+          const io = req.app.get("io") as import("socket.io").Server;
+          const room = `user:${req.user!.username}`;
+          const job = await PropertyImportService.start({
+            filename: file.originalname,
+            format,
+            totalRows: sheet.rows.length,
+            rowErrors,
+            payloads,
+            actor: this.actor(req),
+            onProgress: (p) => io.to(room).emit("property-import.progress", p),
+            emitNotification: (rooms, payload) => rooms.forEach((r) => io.to(r).emit("notification.new", payload)),
+          });
+
+          res.status(202).json({
             status: "success",
-            message: "Properties fetched successfully.",
-            data: {properties, count: totalCount},
+            message: "Import started.",
+            data: {
+              importId: job.importId,
+              status: job.status,
+              totalRows: job.totalRows,
+              validRows: job.validRows,
+              invalidRows: job.invalidRows,
+              errors: rowErrors,
+            },
           });
         } catch(error) {
-          console.error("[get-all-properties-with-pagination] error:", error);
+          console.error("[import-properties] error:", error);
           res
             .status(500)
-            .json({status: "error", message: "Error occurred while fetching properties."});
+            .json({status: "error", message: "Error occurred while importing properties."});
+        }
+      }
+    );
+  }
+
+  // GET /import-jobs?page=1&limit=20   (own jobs; admins see all)
+  private getImportJobs(): void {
+    this.router.get(
+      "/import-jobs",
+      Guards.requirePermission("property", "create"),
+      async (req: Request, res: Response) => {
+        try {
+          const page = Math.max(Math.floor(this.toNum(req.query.page, 1)), 1);
+          const limit = Math.min(Math.max(Math.floor(this.toNum(req.query.limit, 20)), 1), 100);
+          const filter = req.user?.role === "admin" ? {} : {createdBy: req.user?.username};
+          const [items, total] = await Promise.all([
+            PropertyImportModel.find(filter)
+              .select("-_id -__v -rowErrors -insertedIds")
+              .sort({createdAt: -1})
+              .skip((page - 1) * limit)
+              .limit(limit)
+              .lean(),
+            PropertyImportModel.countDocuments(filter),
+          ]);
+          res.status(200).json({
+            status: "success",
+            message: "Import jobs fetched successfully.",
+            data: {items, total, page, limit},
+          });
+        } catch(error) {
+          console.error("[import-jobs] error:", error);
+          res.status(500).json({status: "error", message: "Error occurred while fetching import jobs."});
+        }
+      }
+    );
+  }
+
+  // GET /import-job/:importId   (progress + full row report)
+  private getImportJob(): void {
+    this.router.get(
+      "/import-job/:importId",
+      Guards.requirePermission("property", "create"),
+      async (req: Request<{importId: string}>, res: Response) => {
+        try {
+          const job = await PropertyImportModel.findOne({importId: this.s(req.params.importId)})
+            .select("-_id -__v")
+            .lean();
+          if(!job || (req.user?.role !== "admin" && job.createdBy !== req.user?.username)) {
+            res.status(404).json({status: "error", message: "Import job not found."});
+            return;
+          }
+          res.status(200).json({
+            status: "success",
+            message: "Import job fetched successfully.",
+            data: {...job, progress: PropertyImportService.toProgress(job)},
+          });
+        } catch(error) {
+          console.error("[import-job] error:", error);
+          res.status(500).json({status: "error", message: "Error occurred while fetching import job."});
+        }
+      }
+    );
+  }
+
+  // --------------------------------- EXPORT ----------------------------------
+  // GET /export-properties?format=csv|xlsx&search=&filter=
+  // Same search / filter params as the paginated list; columns match the import.
+  // Non-staff callers only get published listings, without internal / contact columns.
+  private exportProperties(): void {
+    this.router.get(
+      "/export-properties",
+      Guards.requirePermission("property", "view"),
+      async (req: Request, res: Response) => {
+        try {
+          const format = this.toLower(req.query.format) || "csv";
+          if(format !== "csv" && format !== "xlsx") {
+            res.status(400).json({status: "error", message: "format must be csv or xlsx."});
+            return;
+          }
+
+          const staff = this.isStaff(req);
+          const fields = staff ? this.EXPORT_FIELDS : this.EXPORT_PUBLIC_FIELDS;
+          const filter = PropertySearchService.listFilter(
+            this.s(req.query.search),
+            this.s(req.query.filter)
+          );
+          const match = staff ? filter : {$and: [filter, {status: "published"}]};
+          const total = await PropertyModel.countDocuments(match);
+          if(total > this.EXPORT_MAX_ROWS) {
+            res.status(400).json({
+              status: "error",
+              message: `Too many properties to export (${total}). Narrow the filter to at most ${this.EXPORT_MAX_ROWS}.`,
+            });
+            return;
+          }
+
+          const docs = await PropertyModel.find(match)
+            .select(fields.map((f) => f.split(".")[0]).join(" "))
+            .sort({createdAt: -1})
+            .lean();
+          const rows = docs.map((d) => this.exportRow(d as Record<string, any>, fields));
+
+          const stamp = new Date().toISOString().slice(0, 10);
+          const filename = `properties-${stamp}.${format}`;
+          const buffer = format === "xlsx"
+            ? SpreadsheetService.toXlsx(fields, rows, "Properties")
+            : SpreadsheetService.toCsv(fields, rows);
+
+          res.setHeader(
+            "Content-Type",
+            format === "xlsx"
+              ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              : "text/csv; charset=utf-8"
+          );
+          res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+          res.setHeader("X-Total-Count", String(rows.length));
+          res.send(buffer);
+        } catch(error) {
+          console.error("[export-properties] error:", error);
+          res.status(500).json({status: "error", message: "Error occurred while exporting properties."});
+        }
+      }
+    );
+  }
+
+  // -------------------------------- BROCHURE ---------------------------------
+  // GET /property-brochure/:id/:type   (type: 'view' | 'download')
+  // Printable PDF: images, specs, amenities, map and a QR link to the listing.
+  // Non-staff callers only get published listings, without internal / contact fields.
+  private getPropertyBrochure(): void {
+    this.router.get(
+      "/property-brochure/:id/:type",
+      Guards.requirePermission("property", "view"),
+      async (req: Request<{id: string; type: string}>, res: Response) => {
+        try {
+          const id = this.s(req.params.id);
+          const type = this.toLower(req.params.type);
+          if(type !== "view" && type !== "download") {
+            res.status(400).json({status: "error", message: "type must be view or download."});
+            return;
+          }
+
+          // Non-staff only get published listings, without the reference code or agent contact details
+          const staff = this.isStaff(req);
+          const property = await PropertyModel.findOne(staff ? {id} : {id, status: "published"});
+          if(!property) {
+            res.status(404).json({status: "error", message: "Property not found."});
+            return;
+          }
+          const p = property.toObject() as IProperty;
+
+          const publicUrl = this.publicPropertyUrl(p.id);
+          const [images, mapSrc, qrCodeSrc] = await Promise.all([
+            this.brochureImages(p),
+            p.location && (p.location.lat || p.location.lng) ? PdfService.staticMap(p.location) : Promise.resolve(""),
+            PdfService.qrCode(publicUrl),
+          ]);
+
+          const html = ejs.render(PdfService.template("propertyDocumentTemplates/property-brochure-pdf.ejs"), {
+            data: {
+              title: p.title,
+              type: p.type,
+              listing: p.listing,
+              description: p.description,
+              fullAddress: p.fullAddress || "",
+              furnishingStatus: p.furnishingStatus,
+              referenceCode: staff ? p.referenceCode : "",
+              priceLabel: this.priceLabel(p),
+              specs: this.brochureSpecs(p),
+              featuresAndAmenities: p.featuresAndAmenities || [],
+              addedBy: staff ? p.addedBy : p.addedBy && {name: p.addedBy.name},
+              images,
+              mapSrc,
+              qrCodeSrc,
+              publicUrl,
+            },
+          });
+          const header = ejs.render(PdfService.template("leaseDocumentTemplates/header.ejs"), {
+            logoSrc: PdfService.logoDataUrl(),
+            companyName: "PropEase Real Estate",
+          });
+          const footer = ejs.render(PdfService.template("leaseDocumentTemplates/footer.ejs"), {qrCodeSrc});
+
+          const pdf = await PdfService.render({
+            html,
+            headerTemplate: header,
+            footerTemplate: footer,
+            margin: {top: "150px", bottom: "150px"},
+          });
+
+          const filename = `${p.id}-brochure.pdf`;
+          res.setHeader("Content-Type", "application/pdf");
+          res.setHeader(
+            "Content-Disposition",
+            type === "download" ? `attachment; filename=${filename}` : `inline; filename=${filename}`
+          );
+          res.send(Buffer.from(pdf));
+        } catch(error) {
+          console.error("[property-brochure] error:", error);
+          res.status(500).json({status: "error", message: "Error occurred while generating the brochure."});
         }
       }
     );
@@ -443,6 +1031,7 @@ export default class Property {
   private getSinglePropertyById(): void {
     this.router.get(
       "/get-single-property-by-id/:id",
+      Guards.requirePermission("property", "view"),
       async (req: Request<{id: string}>, res: Response) => {
         try {
           const id = this.s(req.params.id);
@@ -468,6 +1057,7 @@ export default class Property {
   private deleteProperty(): void {
     this.router.delete(
       "/delete-property/:id/:username",
+      Guards.requirePermission("property", "delete"),
       async (req: Request<{id: string; username: string}>, res: Response) => {
         try {
           const safeID = this.s(req.params.id);
@@ -515,6 +1105,9 @@ export default class Property {
             return;
           }
 
+          await PropertyHistoryService.recordDeletion(safeID, property, {...this.actor(req), username: actorUsername})
+            .catch((e) => console.warn("[delete-property] history not recorded:", e?.message || e));
+
           try {
             const io = req.app.get("io") as import("socket.io").Server | undefined;
             if(io) {
@@ -630,6 +1223,7 @@ export default class Property {
 
     this.router.put(
       "/update-property/:id",
+      Guards.requirePermission("property", "edit"),
       upload.fields([{name: "images"}, {name: "documents"}]),
       async (req: Request<{id: string}>, res: Response): Promise<void> => {
         try {
@@ -767,6 +1361,13 @@ export default class Property {
             }
           }
 
+          // Units: re-apply inherited attributes; buildingId "" detaches
+          const current = await PropertyModel.findOne({id: propertyID})
+            .select("buildingId unitNumber floor inheritedFields status verificationStatus")
+            .lean();
+          const unit = await BuildingService.resolveUnit(req.body, current);
+          if(typeof unit !== "string") Object.assign(req.body, unit.inherited);
+
           // Validate (update mode)
           const {data, errors} = this.buildValidatedPayload(req, {
             images: Images,
@@ -774,6 +1375,10 @@ export default class Property {
             isUpdate: true,
           });
           data.id = propertyID;
+          if(typeof unit === "string") errors.push(unit);
+          else if(unit.link) Object.assign(data, unit.link);
+          // status / verificationStatus only change through the review workflow
+          if(current) errors.push(...ListingWorkflowService.updateErrors(current, data));
 
           if(errors.length) {
             await this.deleteFolderWithRetry(
@@ -785,9 +1390,19 @@ export default class Property {
             return;
           }
 
+          const before = await PropertyModel.findOne({id: propertyID})
+            .select(PropertyHistoryService.snapshotProjection())
+            .lean();
+
+          // A location that no longer maps to a point drops the stale `geo`
+          const unset: Record<string, 1> = {};
+          if(data.location !== undefined && data.geo === undefined) unset["geo"] = 1;
+          if(typeof unit !== "string" && unit.link === null) {
+            Object.assign(unset, {buildingId: 1, unitNumber: 1, floor: 1, inheritedFields: 1});
+          }
           const updated = await PropertyModel.findOneAndUpdate(
             {id: propertyID},
-            {$set: data},
+            Object.keys(unset).length ? {$set: data, $unset: unset} : {$set: data},
             {new: true}
           );
           if(!updated) {
@@ -796,6 +1411,14 @@ export default class Property {
               .json({status: "error", message: "Property not found or update failed."});
             return;
           }
+          if(before) {
+            await PropertyHistoryService.record(propertyID, before, updated.toObject(), this.actor(req))
+              .catch((e) => console.warn("[update-property] history not recorded:", e?.message || e));
+          }
+          if(typeof unit !== "string" && unit.link !== undefined && unit.link?.buildingId !== current?.buildingId) {
+            await BuildingService.linkLeases([propertyID], unit.link?.buildingId ?? null)
+              .catch((e) => console.warn("[update-property] lease link not updated:", e?.message || e));
+          }
 
           // Notify
           try {
@@ -840,7 +1463,7 @@ export default class Property {
 
   // ------------------------------- GET ALL -----------------------------------
   private getAllProperties(): void {
-    this.router.get("/get-all-properties/", async (_req, res) => {
+    this.router.get("/get-all-properties/", Guards.requirePermission("property", "view"), async (_req, res) => {
       try {
         const properties = await PropertyModel.find().sort({createdAt: -1});
         res.status(200).json({
@@ -900,6 +1523,251 @@ export default class Property {
     return d;
   }
 
+  // --- bulk import: header → field mapping ---
+  private mapImportColumns(
+    headers: string[],
+    mapping: Record<string, string>
+  ): {mapped: Record<string, string>; ignored: string[]} {
+    const norm = (v: string) => v.toLowerCase().replace(/[\s_\-]/g, "");
+    const byNorm = new Map(this.IMPORT_FIELDS.map((f) => [norm(f), f]));
+    const mapped: Record<string, string> = {};
+    const ignored: string[] = [];
+    for(const h of headers) {
+      if(!h) continue;
+      const explicit = this.s(mapping[h]);
+      const field = explicit && this.IMPORT_FIELDS.includes(explicit) ? explicit : byNorm.get(norm(h));
+      if(field) mapped[h] = field;
+      else ignored.push(h);
+    }
+    return {mapped, ignored};
+  }
+
+  // --- bulk import: sheet row → request-like body (same shape as the insert form) ---
+  private importRowToBody(values: Record<string, string>, mapped: Record<string, string>): Record<string, any> {
+    const body: Record<string, any> = {};
+    for(const [header, field] of Object.entries(mapped)) {
+      let value: unknown = values[header] ?? "";
+      if(value === "") continue;
+
+      if(this.IMPORT_DATE_FIELDS.has(field) && /^\d+(\.\d+)?$/.test(String(value))) {
+        value = SpreadsheetService.excelSerialToDate(Number(value)).toISOString(); // XLSX date cell
+      }
+      if(field === "featuresAndAmenities" && !String(value).trim().startsWith("[")) {
+        value = JSON.stringify(String(value).split(/[;|,]/).map((v) => v.trim()).filter(Boolean));
+      }
+
+      const [group, key] = field.split(".");
+      if(group && key) (body[group] ??= {})[key] = value;
+      else body[field] = value;
+    }
+    return body;
+  }
+
+  // --- export: one sheet row per property, in EXPORT_FIELDS order ---
+  private exportRow(doc: Record<string, any>, fields: string[]): SheetCell[] {
+    return fields.map((field) => {
+      const [group, key] = field.split(".");
+      const value = key ? doc[group!]?.[key] : doc[field];
+      if(value === null || value === undefined) return "";
+      if(value instanceof Date) return value.toISOString();
+      if(Array.isArray(value)) return value.join("; ");
+      if(typeof value === "object") return JSON.stringify(value);
+      return value as SheetCell;
+    });
+  }
+
+  private isStaff(req: Request): boolean {
+    return req.apiKey?.ownerType === "service" || this.STAFF_ROLES.has(String(req.user?.role ?? ""));
+  }
+
+  // --- brochure: frontend link encoded in the QR code ---
+  // PROPERTY_PUBLIC_URL may contain ":id", e.g. https://propease.example/listings/:id
+  private publicPropertyUrl(id: string): string {
+    const pattern = (process.env.PROPERTY_PUBLIC_URL || "").trim();
+    if(pattern) {
+      return pattern.includes(":id")
+        ? pattern.replace(":id", encodeURIComponent(id))
+        : `${pattern.replace(/\/+$/, "")}/${encodeURIComponent(id)}`;
+    }
+    const front = (process.env.FRONTEND_ORIGIN || "http://localhost:4200").trim();
+    return `${front}/properties/${encodeURIComponent(id)}`;
+  }
+
+  // --- brochure: first images as data URLs (the PDF renderer can't reach our URLs) ---
+  private async brochureImages(p: IProperty): Promise<string[]> {
+    const dir = path.join(this.DEFAULT_UPLOAD_PATH, p.id, "images");
+    const out: string[] = [];
+    for(const img of (p.images || []).slice(0, this.BROCHURE_MAX_IMAGES)) {
+      const name = path.basename(img.filename || "");
+      if(!name) continue;
+      try {
+        const data = await fs.promises.readFile(path.join(dir, name));
+        out.push(`data:${img.mimetype || "image/webp"};base64,${data.toString("base64")}`);
+      } catch {
+        console.warn(`[property-brochure] image missing: ${p.id}/images/${name}`);
+      }
+    }
+    return out;
+  }
+
+  private priceLabel(p: IProperty): string {
+    const prefix = p.currency ? `${p.currency.toUpperCase()} ` : "";
+    if(p.listing === "rent" && p.expectedRentMonthly) {
+      return `${prefix}${Number(p.expectedRentMonthly).toLocaleString("en-US")} / month`;
+    }
+    return `${prefix}${Number(p.price || 0).toLocaleString("en-US", {maximumFractionDigits: 2})}`;
+  }
+
+  private brochureSpecs(p: IProperty): Array<{label: string; value: string}> {
+    const specs: Array<[string, unknown]> = [
+      ["Total area", p.totalArea ? `${p.totalArea} sq ft` : ""],
+      ["Built-in area", p.builtInArea ? `${p.builtInArea} sq ft` : ""],
+      ["Bedrooms", p.bedrooms],
+      ["Bathrooms", p.bathrooms],
+      ["Living rooms", p.livingRooms],
+      ["Kitchens", p.kitchen],
+      ["Balconies", p.balconies],
+      ["Parking", p.numberOfParking],
+      ["Floors", p.totalFloors],
+      ["Built year", p.builtYear],
+      ["Condition", p.propertyCondition],
+      ["Ownership", p.ownerShipType],
+      ["Availability", p.availabilityStatus],
+      ["Developer", p.developerName],
+      ["Project", p.projectName],
+      ["Maintenance fees", p.maintenanceFees],
+      ["Service charges", p.serviceCharges],
+    ];
+    return specs
+      .filter(([, v]) => v !== undefined && v !== null && v !== "" && v !== 0)
+      .map(([label, v]) => ({label, value: String(v)}));
+  }
+
+  // --- bulk import: run the insert rules on every row ---
+  private async validateImportRows(
+    rows: SheetRow[],
+    mapped: Record<string, string>,
+    req: Request
+  ): Promise<{payloads: ImportPayload[]; rowErrors: ImportRowError[]}> {
+    // addedBy defaults to the importing user when the sheet has no such columns
+    const canReview = await ListingWorkflowService.canReview(req);
+    const me = req.user?.username
+      ? await UserModel.findOne({username: req.user.username}).select("username name email role phoneNumber").lean()
+      : null;
+
+    const candidates: Array<{row: number; id: string; data: Partial<IProperty>; errors: string[]}> = [];
+    for(const r of rows) {
+      const body = this.importRowToBody(r.values, mapped);
+      if(!this.s(body["id"])) body["id"] = uuidv4();
+      if(me && !this.s(body["addedBy"]?.username)) {
+        body["addedBy"] = {
+          username: me.username,
+          name: me.name,
+          email: me.email,
+          role: me.role,
+          contactNumber: me.phoneNumber || "",
+          ...(body["addedBy"] ?? {}),
+        };
+      }
+
+      let result: {data: Partial<IProperty>; errors: string[]};
+      try {
+        result = this.buildValidatedPayload(
+          {params: {}, body},
+          {images: [], documents: [], isUpdate: false, requireMedia: false}
+        );
+        result.errors.push(...ListingWorkflowService.applyCreateRules(result.data, canReview, this.actor(req)));
+      } catch(e: any) {
+        result = {data: {}, errors: [e?.message || "Invalid row"]};
+      }
+      candidates.push({row: r.row, id: this.s(body["id"]), data: result.data, errors: result.errors});
+    }
+
+    // ids must be unique in the file and not taken yet
+    const seen = new Map<string, number>();
+    for(const c of candidates) {
+      const first = seen.get(c.id);
+      if(first !== undefined) c.errors.push(`id "${c.id}" is repeated (first used on row ${first}).`);
+      else seen.set(c.id, c.row);
+    }
+    const taken = new Set(
+      (await PropertyModel.find({id: {$in: Array.from(seen.keys())}}).select("id").lean()).map((p) => p.id)
+    );
+
+    const payloads: ImportPayload[] = [];
+    const rowErrors: ImportRowError[] = [];
+    for(const c of candidates) {
+      if(taken.has(c.id)) c.errors.push(`A property with id "${c.id}" already exists.`);
+      if(c.errors.length) rowErrors.push({row: c.row, id: c.id, messages: c.errors});
+      else payloads.push({row: c.row, data: c.data});
+    }
+    return {payloads, rowErrors};
+  }
+
+  // --- who is making the change (for history rows) ---
+  private actor(req: Request): {username: string; role?: string} {
+    const u = req.user;
+    if(!u?.username) return {username: "system"};
+    return u.role ? {username: u.username, role: String(u.role)} : {username: u.username};
+  }
+
+  // --- list ordering: high → medium → low → unset ---
+  private priorityOrderExpr(): Record<string, unknown> {
+    return {
+      $switch: {
+        branches: [
+          {case: {$eq: ["$priority", "high"]}, then: 1},
+          {case: {$eq: ["$priority", "medium"]}, then: 2},
+          {case: {$eq: ["$priority", "low"]}, then: 3},
+        ],
+        default: 4,
+      },
+    };
+  }
+
+  // --- facet pipelines (run inside one $facet over the list match) ---
+  private facetPipelines(priceBuckets: number): Record<string, any[]> {
+    const countBy = (field: string) => [
+      {$match: {[field]: {$nin: [null, ""]}}},
+      {$group: {_id: `$${field}`, count: {$sum: 1}}},
+      {$sort: {count: -1, _id: 1}},
+      {$limit: 50},
+    ];
+    return {
+      type: countBy("type"),
+      listing: countBy("listing"),
+      furnishingStatus: countBy("furnishingStatus"),
+      bedrooms: countBy("bedrooms"),
+      city: countBy("address.city"),
+      amenities: [
+        {$unwind: "$featuresAndAmenities"},
+        {$group: {_id: "$featuresAndAmenities", count: {$sum: 1}}},
+        {$sort: {count: -1, _id: 1}},
+        {$limit: 50},
+      ],
+      price: [
+        {$bucketAuto: {groupBy: "$price", buckets: priceBuckets}},
+      ],
+    };
+  }
+  private shapeFacets(result: Record<string, any>): Record<string, unknown> {
+    const values = (rows: any[] = []) =>
+      rows.map((r) => ({value: r._id, count: r.count}));
+    return {
+      type: values(result.type),
+      listing: values(result.listing),
+      furnishingStatus: values(result.furnishingStatus),
+      bedrooms: values(result.bedrooms).sort((a, b) => Number(a.value) - Number(b.value)),
+      city: values(result.city),
+      amenities: values(result.amenities),
+      price: (result.price ?? []).map((b: any) => ({
+        min: b._id?.min ?? 0,
+        max: b._id?.max ?? 0,
+        count: b.count,
+      })),
+    };
+  }
+
   // --- shape validators ---
   private validateAddress(raw: unknown): Address {
     const a = this.parseJSON<Address>(raw, {} as any);
@@ -945,8 +1813,8 @@ export default class Property {
 
   // --- payload builder (insert/update) ---
   private buildValidatedPayload(
-    req: Request,
-    ctx: {images: UploadedImage[]; documents: UploadedDocument[]; isUpdate: boolean}
+    req: Pick<Request, "params" | "body">,
+    ctx: {images: UploadedImage[]; documents: UploadedDocument[]; isUpdate: boolean; requireMedia?: boolean}
   ): {data: Partial<IProperty>; errors: string[]} {
     const errors: string[] = [];
     const isUpdate = ctx.isUpdate;
@@ -1035,10 +1903,10 @@ export default class Property {
     if(!Array.isArray(featuresAndAmenities))
       errors.push("featuresAndAmenities must be an array of strings.");
 
-    // Media (require at least one of each on insert)
+    // Media (require at least one of each on insert; bulk import adds media later)
     const images = ctx.images || [];
     const documents = ctx.documents || [];
-    if(!isUpdate) {
+    if(!isUpdate && ctx.requireMedia !== false) {
       if(images.length === 0) errors.push("At least one image is required.");
       if(documents.length === 0) errors.push("At least one document is required.");
     }
@@ -1064,7 +1932,7 @@ export default class Property {
     // Admin
     const referenceCode = this.s(req.body.referenceCode);
     if(!isUpdate && !referenceCode) errors.push("referenceCode is required.");
-    const verificationStatus = this.toLower(req.body.verificationStatus) || "verified";
+    const verificationStatus = this.toLower(req.body.verificationStatus) || (isUpdate ? "" : "verified");
     if(verificationStatus && !this.VERIFICATION.has(verificationStatus))
       errors.push(
         `verificationStatus must be one of: ${Array.from(this.VERIFICATION).join(", ")}`
@@ -1072,7 +1940,7 @@ export default class Property {
     const priority = this.toLower(req.body.priority) || "medium";
     if(priority && !this.PRIORITY.has(priority))
       errors.push(`priority must be one of: ${Array.from(this.PRIORITY).join(", ")}`);
-    const status = this.toLower(req.body.status) || "published";
+    const status = this.toLower(req.body.status) || (isUpdate ? "" : "published");
     if(status && !this.STATUS.has(status))
       errors.push(`status must be one of: ${Array.from(this.STATUS).join(", ")}`);
     const internalNote = this.s(req.body.internalNote);
@@ -1088,7 +1956,11 @@ export default class Property {
 
     if(Object.keys(countryDetails || {}).length) data.countryDetails = countryDetails;
     if(Object.keys(address || {}).length) data.address = address;
-    if(location) data.location = location;
+    if(location) {
+      data.location = location;
+      const geo = PropertyGeoService.toGeoPoint(location);
+      if(geo) data.geo = geo;
+    }
 
     if(!isUpdate || req.body.totalArea != null) data.totalArea = totalArea;
     if(!isUpdate || req.body.builtInArea != null) data.builtInArea = builtInArea;
@@ -0,0 +1,296 @@
+// src/api/saved-search.ts
+// ============================================================================
+// Saved Searches API
+// - Users save the `search` + `filter` params of the property list under a
+//   name and re-run them later
+// - Alerts: SavedSearchAlertService reports new / price-changed properties
+//   matching each search (in-app notification and/or email digest)
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Searches are private to their owner; everything is scoped by username.
+//   • `filter` is stored exactly as the list route receives it (JSON string).
+//   • Turning alerts on (again) only reports changes from that moment on.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+import {v4 as uuidv4} from "uuid";
+
+import {SavedSearchModel, SavedSearchChannel, SAVED_SEARCH_CHANNELS} from "../models/saved-search.model";
+import Guards from "../middleware/guards";
+
+export default class SavedSearch {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  private readonly MAX_PER_USER = 50;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.createSearch();   // POST   /create-saved-search
+    this.mySearches();     // GET    /my-saved-searches
+    this.getSearch();      // GET    /saved-search/:searchId
+    this.updateSearch();   // PUT    /update-saved-search/:searchId
+    this.deleteSearch();   // DELETE /delete-saved-search/:searchId
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  private toBool(v: unknown, def: boolean): boolean {
+    if(v === undefined || v === null || v === "") return def;
+    return v === true || v === "true" || v === "1" || v === 1;
+  }
+
+  /** Accept the filter as a JSON string (like the list route) or as an object. */
+  private normalizeFilter(raw: unknown): string | null {
+    if(raw === undefined || raw === null || raw === "") return "";
+    try {
+      const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+      if(!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+      const json = JSON.stringify(parsed);
+      return json.length <= 2000 ? json : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private normalizeChannels(raw: unknown): SavedSearchChannel[] | null {
+    if(raw === undefined) return null;
+    const list = Array.isArray(raw) ? raw : String(raw).split(",");
+    const channels = Array.from(new Set(list.map((c) => String(c).trim().toLowerCase())));
+    return channels.every((c) => (SAVED_SEARCH_CHANNELS as string[]).includes(c))
+      ? (channels as SavedSearchChannel[])
+      : null;
+  }
+
+  private view(doc: Record<string, any>) {
+    return {
+      searchId: doc["searchId"],
+      name: doc["name"],
+      search: doc["search"],
+      filter: doc["filter"],
+      alertsEnabled: doc["alertsEnabled"],
+      channels: doc["channels"],
+      lastCheckedAt: doc["lastCheckedAt"],
+      lastAlertAt: doc["lastAlertAt"] ?? null,
+      lastMatchCount: doc["lastMatchCount"],
+      createdAt: doc["createdAt"],
+      updatedAt: doc["updatedAt"],
+    };
+  }
+
+  // ============================================================================
+  // POST /create-saved-search
+  // Body: { name, search?, filter?, alertsEnabled?, channels?: ["inapp","email"] }
+  // ============================================================================
+
+  private createSearch(): void {
+    this.router.post(
+      "/create-saved-search",
+      Guards.requireAuth(),
+      Guards.requirePermission("property", "view"),
+      async (req: Request, res: Response) => {
+        try {
+          const username = req.user!.username;
+          const name = String(req.body?.name || "").trim();
+          const search = String(req.body?.search || "").trim().slice(0, 200);
+          const filter = this.normalizeFilter(req.body?.filter);
+          const channels = this.normalizeChannels(req.body?.channels);
+
+          if(!name || name.length > 100) {
+            res.status(400).json({status: "error", message: "name is required (max 100 chars)"});
+            return;
+          }
+          if(filter === null) {
+            res.status(400).json({status: "error", message: "filter must be a JSON object"});
+            return;
+          }
+          if(req.body?.channels !== undefined && !channels) {
+            res.status(400).json({status: "error", message: `channels may contain: ${SAVED_SEARCH_CHANNELS.join(", ")}`});
+            return;
+          }
+          if(await SavedSearchModel.countDocuments({username}) >= this.MAX_PER_USER) {
+            res.status(409).json({status: "error", message: `You can keep at most ${this.MAX_PER_USER} saved searches`});
+            return;
+          }
+          if(await SavedSearchModel.exists({username, name})) {
+            res.status(409).json({status: "error", message: "You already have a saved search with this name"});
+            return;
+          }
+
+          const doc = await SavedSearchModel.create({
+            searchId: uuidv4(),
+            username,
+            name,
+            search,
+            filter,
+            alertsEnabled: this.toBool(req.body?.alertsEnabled, true),
+            ...(channels ? {channels} : {}),
+            lastCheckedAt: new Date(),
+          });
+
+          res.status(201).json({
+            status: "success",
+            message: "Search saved successfully",
+            data: this.view(doc.toObject()),
+          });
+        } catch(error: any) {
+          console.error("[create-saved-search] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error saving search"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // GET /my-saved-searches
+  // ============================================================================
+
+  private mySearches(): void {
+    this.router.get("/my-saved-searches", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const docs = await SavedSearchModel.find({username: req.user!.username}).sort({createdAt: -1}).lean();
+        res.status(200).json({
+          status: "success",
+          message: "Saved searches fetched successfully",
+          data: docs.map((d) => this.view(d)),
+        });
+      } catch(error: any) {
+        console.error("[my-saved-searches] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /saved-search/:searchId
+  // ============================================================================
+
+  private getSearch(): void {
+    this.router.get(
+      "/saved-search/:searchId",
+      Guards.requireAuth(),
+      async (req: Request<{searchId: string}>, res: Response) => {
+        try {
+          const doc = await SavedSearchModel.findOne({
+            searchId: String(req.params.searchId || "").trim(),
+            username: req.user!.username,
+          }).lean();
+          if(!doc) {
+            res.status(404).json({status: "error", message: "Saved search not found"});
+            return;
+          }
+          res.status(200).json({status: "success", message: "Saved search fetched successfully", data: this.view(doc)});
+        } catch(error: any) {
+          console.error("[saved-search] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Server error"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // PUT /update-saved-search/:searchId
+  // Body: any of { name, search, filter, alertsEnabled, channels }
+  // ============================================================================
+
+  private updateSearch(): void {
+    this.router.put(
+      "/update-saved-search/:searchId",
+      Guards.requireAuth(),
+      Guards.requirePermission("property", "view"),
+      async (req: Request<{searchId: string}>, res: Response) => {
+        try {
+          const username = req.user!.username;
+          const searchId = String(req.params.searchId || "").trim();
+          const existing = await SavedSearchModel.findOne({searchId, username}).lean();
+          if(!existing) {
+            res.status(404).json({status: "error", message: "Saved search not found"});
+            return;
+          }
+
+          const set: Record<string, unknown> = {};
+          const body = req.body ?? {};
+
+          if(body.name !== undefined) {
+            const name = String(body.name || "").trim();
+            if(!name || name.length > 100) {
+              res.status(400).json({status: "error", message: "name is required (max 100 chars)"});
+              return;
+            }
+            if(name !== existing.name && await SavedSearchModel.exists({username, name})) {
+              res.status(409).json({status: "error", message: "You already have a saved search with this name"});
+              return;
+            }
+            set["name"] = name;
+          }
+          if(body.search !== undefined) set["search"] = String(body.search || "").trim().slice(0, 200);
+          if(body.filter !== undefined) {
+            const filter = this.normalizeFilter(body.filter);
+            if(filter === null) {
+              res.status(400).json({status: "error", message: "filter must be a JSON object"});
+              return;
+            }
+            set["filter"] = filter;
+          }
+          if(body.channels !== undefined) {
+            const channels = this.normalizeChannels(body.channels);
+            if(!channels) {
+              res.status(400).json({status: "error", message: `channels may contain: ${SAVED_SEARCH_CHANNELS.join(", ")}`});
+              return;
+            }
+            set["channels"] = channels;
+          }
+          if(body.alertsEnabled !== undefined) {
+            const enabled = this.toBool(body.alertsEnabled, existing.alertsEnabled);
+            set["alertsEnabled"] = enabled;
+            if(enabled && !existing.alertsEnabled) set["lastCheckedAt"] = new Date();
+          }
+          // Changed criteria: start over so old changes aren't reported as matches
+          if(set["search"] !== undefined || set["filter"] !== undefined) set["lastCheckedAt"] = new Date();
+
+          const updated = await SavedSearchModel.findOneAndUpdate({searchId, username}, {$set: set}, {new: true}).lean();
+          res.status(200).json({
+            status: "success",
+            message: "Saved search updated successfully",
+            data: updated ? this.view(updated) : null,
+          });
+        } catch(error: any) {
+          console.error("[update-saved-search] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error updating saved search"});
+        }
+      }
+    );
+  }
+
+  // ============================================================================
+  // DELETE /delete-saved-search/:searchId
+  // ============================================================================
+
+  private deleteSearch(): void {
+    this.router.delete(
+      "/delete-saved-search/:searchId",
+      Guards.requireAuth(),
+      async (req: Request<{searchId: string}>, res: Response) => {
+        try {
+          const result = await SavedSearchModel.deleteOne({
+            searchId: String(req.params.searchId || "").trim(),
+            username: req.user!.username,
+          });
+          if(!result.deletedCount) {
+            res.status(404).json({status: "error", message: "Saved search not found"});
+            return;
+          }
+          res.status(200).json({status: "success", message: "Saved search deleted"});
+        } catch(error: any) {
+          console.error("[delete-saved-search] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error deleting saved search"});
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,356 @@
+// src/api/syndication.ts
+// ============================================================================
+// Listing Syndication API (feeds for external property portals)
+// - Admins register partners: which service account fetches the feed, the
+//   default format (xml | json) and which published properties it receives
+// - Portals fetch GET /feed/:partnerId with their service-account API key
+//   (X-API-Key, scoped "property:view"); `since` returns an incremental feed
+// - Every listing is validated against the feed schema before it is served;
+//   rejected listings are left out and reported on the partner
+// ----------------------------------------------------------------------------
+// NOTES
+//   • Only status "published" properties are ever syndicated.
+//   • Incremental feeds list removals too (unpublished / deleted / rejected).
+//   • Feeds are paged: a truncated page sets X-Feed-Truncated and
+//     X-Feed-Next-Cursor; pass the cursor back (same since) for the next page.
+//   • Signed-in admins can fetch any feed and preview the validation report.
+// ============================================================================
+
+import express, {Request, Response, Router} from "express";
+import {v4 as uuidv4} from "uuid";
+
+import {
+  ISyndicationPartner,
+  SyndicationCriteria,
+  SyndicationFormat,
+  SyndicationPartnerModel,
+  SYNDICATION_FORMATS,
+} from "../models/syndication-partner.model";
+import {FeedCursor, SyndicationFeedService} from "../services/syndication-feed.service";
+import Guards from "../middleware/guards";
+
+export default class Syndication {
+  // ---------------------------- Express router ----------------------------
+  private readonly router: Router;
+
+  constructor () {
+    this.router = express.Router();
+
+    // Register endpoints
+    this.createPartner();   // POST   /create-partner                (admin)
+    this.partners();        // GET    /partners                      (admin)
+    this.updatePartner();   // PUT    /update-partner/:partnerId     (admin)
+    this.deletePartner();   // DELETE /delete-partner/:partnerId     (admin)
+    this.feedReport();      // GET    /feed-report/:partnerId        (admin)
+    this.feed();            // GET    /feed/:partnerId?format&since  (partner key)
+  }
+
+  /** Expose router so the main app can mount it. */
+  public get route(): Router {
+    return this.router;
+  }
+
+  private toStrList(raw: unknown): string[] {
+    const list = Array.isArray(raw) ? raw : raw === undefined || raw === null || raw === "" ? [] : String(raw).split(",");
+    return Array.from(new Set(list.map((v) => String(v).trim()).filter(Boolean)));
+  }
+
+  /** Validate criteria from a request body (partial on update); returns an error message on failure. */
+  private normalizeCriteria(raw: unknown, base?: SyndicationCriteria): SyndicationCriteria | string {
+    const c = (raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+    const out: SyndicationCriteria = {
+      listings: c["listings"] !== undefined ? this.toStrList(c["listings"]).map((v) => v.toLowerCase()) : base?.listings ?? [],
+      types: c["types"] !== undefined ? this.toStrList(c["types"]).map((v) => v.toLowerCase()) : base?.types ?? [],
+      countries: c["countries"] !== undefined ? this.toStrList(c["countries"]) : base?.countries ?? [],
+      cities: c["cities"] !== undefined ? this.toStrList(c["cities"]) : base?.cities ?? [],
+      minImages: c["minImages"] !== undefined ? Number(c["minImages"]) : base?.minImages ?? 1,
+    };
+    if(out.listings.some((l) => l !== "sale" && l !== "rent")) return "criteria.listings may only contain sale, rent";
+    if(!Number.isInteger(out.minImages) || out.minImages < 0 || out.minImages > 50) return "criteria.minImages must be 0-50";
+    return out;
+  }
+
+  private normalizeFormat(raw: unknown): SyndicationFormat | null {
+    const f = String(raw ?? "").trim().toLowerCase();
+    return (SYNDICATION_FORMATS as string[]).includes(f) ? (f as SyndicationFormat) : null;
+  }
+
+  private view(doc: Record<string, any>) {
+    return {
+      partnerId: doc["partnerId"],
+      name: doc["name"],
+      serviceAccount: doc["serviceAccount"],
+      format: doc["format"],
+      criteria: doc["criteria"],
+      active: doc["active"],
+      lastFeed: doc["lastFeed"] ?? null,
+      feedPath: `/api-syndication/feed/${doc["partnerId"]}`,
+      createdBy: doc["createdBy"],
+      createdAt: doc["createdAt"],
+      updatedAt: doc["updatedAt"],
+    };
+  }
+
+  // ============================================================================
+  // POST /create-partner
+  // Body: { name, serviceAccount, format?: "xml"|"json", active?,
+  //         criteria?: {listings?, types?, countries?, cities?, minImages?} }
+  // ============================================================================
+
+  private createPartner(): void {
+    this.router.post("/create-partner", Guards.requireRole("admin"), async (req: Request, res: Response) => {
+      try {
+        const name = String(req.body?.name || "").trim();
+        const serviceAccount = String(req.body?.serviceAccount || "").trim();
+        if(!name || name.length > 100) {
+          res.status(400).json({status: "error", message: "name is required (max 100 chars)"});
+          return;
+        }
+        if(!/^[a-zA-Z0-9._-]{3,50}$/.test(serviceAccount)) {
+          res.status(400).json({status: "error", message: "serviceAccount must be 3-50 characters: letters, digits, . _ -"});
+          return;
+        }
+
+        const format = req.body?.format === undefined ? "xml" : this.normalizeFormat(req.body.format);
+        if(!format) {
+          res.status(400).json({status: "error", message: `format must be one of ${SYNDICATION_FORMATS.join(", ")}`});
+          return;
+        }
+        const criteria = this.normalizeCriteria(req.body?.criteria);
+        if(typeof criteria === "string") {
+          res.status(400).json({status: "error", message: criteria});
+          return;
+        }
+
+        if(await SyndicationPartnerModel.exists({serviceAccount})) {
+          res.status(409).json({status: "error", message: "This service account already belongs to a partner"});
+          return;
+        }
+
+        const doc = await SyndicationPartnerModel.create({
+          partnerId: uuidv4(),
+          name,
+          serviceAccount,
+          format,
+          criteria,
+          active: req.body?.active !== false && req.body?.active !== "false",
+          createdBy: req.user!.username,
+        });
+
+        res.status(201).json({
+          status: "success",
+          message: "Syndication partner created. Mint a service API key for it with scope property:view.",
+          data: this.view(doc.toObject()),
+        });
+      } catch(error: any) {
+        console.error("[create-partner] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to create syndication partner"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /partners
+  // ============================================================================
+
+  private partners(): void {
+    this.router.get("/partners", Guards.requireRole("admin"), async (_req: Request, res: Response) => {
+      try {
+        const docs = await SyndicationPartnerModel.find().sort({name: 1}).lean();
+        res.status(200).json({status: "success", message: "Syndication partners fetched", data: docs.map((d) => this.view(d))});
+      } catch(error: any) {
+        console.error("[partners] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to fetch syndication partners"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // PUT /update-partner/:partnerId
+  // Body: any of { name, format, active, criteria } (criteria keys merge)
+  // ============================================================================
+
+  private updatePartner(): void {
+    this.router.put("/update-partner/:partnerId", Guards.requireRole("admin"), async (req: Request<{partnerId: string}>, res: Response) => {
+      try {
+        const doc = await SyndicationPartnerModel.findOne({partnerId: String(req.params.partnerId)});
+        if(!doc) {
+          res.status(404).json({status: "error", message: "Syndication partner not found"});
+          return;
+        }
+
+        const body = req.body ?? {};
+        if(body.name !== undefined) {
+          const name = String(body.name).trim();
+          if(!name || name.length > 100) {
+            res.status(400).json({status: "error", message: "name must be 1-100 chars"});
+            return;
+          }
+          doc.name = name;
+        }
+        if(body.format !== undefined) {
+          const format = this.normalizeFormat(body.format);
+          if(!format) {
+            res.status(400).json({status: "error", message: `format must be one of ${SYNDICATION_FORMATS.join(", ")}`});
+            return;
+          }
+          doc.format = format;
+        }
+        if(body.active !== undefined) doc.active = body.active === true || body.active === "true";
+        if(body.criteria !== undefined) {
+          const criteria = this.normalizeCriteria(body.criteria, doc.criteria);
+          if(typeof criteria === "string") {
+            res.status(400).json({status: "error", message: criteria});
+            return;
+          }
+          doc.criteria = criteria;
+        }
+
+        await doc.save();
+        res.status(200).json({status: "success", message: "Syndication partner updated", data: this.view(doc.toObject())});
+      } catch(error: any) {
+        console.error("[update-partner] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to update syndication partner"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // DELETE /delete-partner/:partnerId
+  // (the partner's API key is not revoked here; do that under /api-key)
+  // ============================================================================
+
+  private deletePartner(): void {
+    this.router.delete("/delete-partner/:partnerId", Guards.requireRole("admin"), async (req: Request<{partnerId: string}>, res: Response) => {
+      try {
+        const result = await SyndicationPartnerModel.deleteOne({partnerId: String(req.params.partnerId)});
+        if(!result.deletedCount) {
+          res.status(404).json({status: "error", message: "Syndication partner not found"});
+          return;
+        }
+        res.status(200).json({status: "success", message: "Syndication partner deleted", data: null});
+      } catch(error: any) {
+        console.error("[delete-partner] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to delete syndication partner"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /feed-report/:partnerId?since=&cursor=
+  // Dry run of the feed: counts + every rejected listing with its problems.
+  // ============================================================================
+
+  private feedReport(): void {
+    this.router.get("/feed-report/:partnerId", Guards.requireRole("admin"), async (req: Request<{partnerId: string}>, res: Response) => {
+      try {
+        const partner = await SyndicationPartnerModel.findOne({partnerId: String(req.params.partnerId)}).lean();
+        if(!partner) {
+          res.status(404).json({status: "error", message: "Syndication partner not found"});
+          return;
+        }
+        const since = this.parseSince(req.query.since);
+        if(since === undefined) {
+          res.status(400).json({status: "error", message: "since must be an ISO date/time"});
+          return;
+        }
+
+        const cursor = this.parseCursor(req.query.cursor);
+        if(cursor === undefined) {
+          res.status(400).json({status: "error", message: "cursor is not valid"});
+          return;
+        }
+
+        const {feed, rejections} = await SyndicationFeedService.collect(partner, since, cursor);
+        res.status(200).json({
+          status: "success",
+          message: "Feed report generated",
+          data: {
+            partnerId: partner.partnerId,
+            since,
+            listed: feed.listings.length,
+            removed: feed.removed.length,
+            rejected: rejections.length,
+            rejections,
+            nextCursor: feed.nextCursor,
+          },
+        });
+      } catch(error: any) {
+        console.error("[feed-report] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to generate feed report"});
+      }
+    });
+  }
+
+  // ============================================================================
+  // GET /feed/:partnerId?format=xml|json&since=2025-01-01T00:00:00Z&cursor=
+  // Caller: the partner's service-account API key, or a signed-in admin.
+  // ============================================================================
+
+  private feed(): void {
+    this.router.get("/feed/:partnerId", Guards.requirePermission("property", "view"), async (req: Request<{partnerId: string}>, res: Response) => {
+      try {
+        const partner = await SyndicationPartnerModel.findOne({partnerId: String(req.params.partnerId)});
+        const isAdmin = req.user?.role === "admin" && !req.apiKey;
+        const isPartner = !!partner && req.apiKey?.ownerType === "service" && req.apiKey.owner === partner.serviceAccount;
+        if(!partner || (!isAdmin && !isPartner)) {
+          res.status(404).json({status: "error", message: "Feed not found"});
+          return;
+        }
+        if(!partner.active && !isAdmin) {
+          res.status(403).json({status: "error", code: "FEED_INACTIVE", message: "This feed is currently disabled"});
+          return;
+        }
+
+        const format = req.query.format === undefined ? partner.format : this.normalizeFormat(req.query.format);
+        if(!format) {
+          res.status(400).json({status: "error", message: `format must be one of ${SYNDICATION_FORMATS.join(", ")}`});
+          return;
+        }
+        const since = this.parseSince(req.query.since);
+        if(since === undefined) {
+          res.status(400).json({status: "error", message: "since must be an ISO date/time"});
+          return;
+        }
+
+        const cursor = this.parseCursor(req.query.cursor);
+        if(cursor === undefined) {
+          res.status(400).json({status: "error", message: "cursor is not valid"});
+          return;
+        }
+
+        const result = await SyndicationFeedService.build(partner, {format, since, cursor});
+        if(isPartner) await this.recordRun(partner, result.run);
+
+        res.setHeader("Content-Type", result.contentType);
+        res.setHeader("X-Feed-Generated-At", result.run.generatedAt.toISOString());
+        res.setHeader("X-Feed-Listings", String(result.run.listed));
+        res.setHeader("X-Feed-Rejected", String(result.run.rejected));
+        res.setHeader("X-Feed-Truncated", result.nextCursor ? "true" : "false");
+        if(result.nextCursor) res.setHeader("X-Feed-Next-Cursor", result.nextCursor);
+        res.status(200).send(result.body);
+      } catch(error: any) {
+        console.error("[feed] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Failed to generate feed"});
+      }
+    });
+  }
+
+  /** `since` query → Date, null when absent, undefined when invalid. */
+  private parseSince(raw: unknown): Date | null | undefined {
+    if(raw === undefined || raw === "") return null;
+    const d = new Date(String(raw));
+    return Number.isNaN(d.getTime()) || d.getTime() > Date.now() ? undefined : d;
+  }
+
+  /** `cursor` query → FeedCursor, null when absent, undefined when invalid. */
+  private parseCursor(raw: unknown): FeedCursor | null | undefined {
+    if(raw === undefined || raw === "") return null;
+    return typeof raw === "string" ? SyndicationFeedService.decodeCursor(raw) ?? undefined : undefined;
+  }
+
+  private async recordRun(partner: ISyndicationPartner, run: ISyndicationPartner["lastFeed"]): Promise<void> {
+    await SyndicationPartnerModel.updateOne({partnerId: partner.partnerId}, {$set: {lastFeed: run}})
+      .catch((e) => console.warn("[feed] run not recorded:", e?.message || e));
+  }
+}
@@ -23,6 +23,7 @@ import {ITenant, TenantModel} from "../models/tenant.model";
 import {LeaseModel} from "../models/lease.model";
 import NotificationService from "../services/notification.service";
 import {UserModel} from "../models/user.model";
+import Guards from "../middleware/guards";
 
 dotenv.config();
 
@@ -152,7 +153,7 @@ export default class Tenant {
   private insertTenant(): void {
     const upload = multer(); // parse multipart/form-data (no files here)
 
-    this.router.post("/insertTenant", upload.none(), async (req: Request, res: Response) => {
+    this.router.post("/insertTenant", Guards.requirePermission("tenant", "create"), upload.none(), async (req: Request, res: Response) => {
       try {
         // --------------------- 1) Validate payload (basic) ---------------------
         const username = (req.body.username || "").trim();
@@ -218,7 +219,7 @@ export default class Tenant {
   // ============================================================================
 
   private getAllTenants(): void {
-    this.router.get("/get-all-tenants", async (_req: Request, res: Response) => {
+    this.router.get("/get-all-tenants", Guards.requirePermission("tenant", "view"), async (_req: Request, res: Response) => {
       try {
         const tenants = await TenantModel.find().lean();
         if(!tenants || tenants.length === 0) throw new Error("No tenants found");
@@ -242,6 +243,7 @@ export default class Tenant {
   private deleteTenant(): void {
     this.router.delete(
       "/delete-tenant/:username/:deletor",
+      Guards.requirePermission("tenant", "delete"),
       async (req: Request<{username: string; deletor: string}>, res: Response) => {
         try {
           // --------------------- 1) Validate route params ---------------------
@@ -34,6 +34,7 @@ import {UserDocument} from "../models/file-upload.model"; // used in file activi
 import {UserModel} from "../models/user.model";
 import fs from "fs";
 import path from "path";
+import Guards from "../middleware/guards";
 
 dotenv.config();
 
@@ -65,6 +66,7 @@ export default class Tracking {
   private trackLoggedUserLogin(): void {
     this.router.post(
       "/track-logged-user-login",
+      Guards.requirePermission("tracking", "create"),
       async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
         try {
           // Detect client IP (trust x-forwarded-for when behind proxy)
@@ -132,6 +134,7 @@ export default class Tracking {
   private getLoggedUserTracking(): void {
     this.router.get(
       "/get-logged-user-tracking/:username/:start/:limit",
+      Guards.requirePermission("tracking", "view", {selfParam: "username"}),
       async (req: Request, res: Response): Promise<void> => {
         try {
           const {username, start, limit} = req.params;
@@ -231,6 +234,7 @@ export default class Tracking {
   private getAllUserLoginCounts(): void {
     this.router.get(
       "/get-all-users-login-counts",
+      Guards.requirePermission("tracking", "view"),
       async (req: Request, res: Response): Promise<void> => {
         try {
           const {startDate, endDate} = req.query as {startDate?: string; endDate?: string};
@@ -303,6 +307,7 @@ export default class Tracking {
   private getUserFileActivity(): void {
     this.router.get(
       "/user-file-management-activity/:username/:start/:limit",
+      Guards.requirePermission("tracking", "view", {selfParam: "username"}),
       async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
         try {
           const {username, start, limit} = req.params;
@@ -381,6 +386,7 @@ export default class Tracking {
   private trackActivity(): void {
     this.router.post(
       "/track-activity",
+      Guards.requirePermission("tracking", "create"),
       async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
         try {
           const {username, activity, ip, sessionId, occurredAt} = req.body as {
@@ -440,6 +446,7 @@ export default class Tracking {
   private getActivitiesByUser(): void {
     this.router.get(
       "/activities/:username/:start/:limit",
+      Guards.requirePermission("tracking", "view", {selfParam: "username"}),
       async (req: Request, res: Response): Promise<void> => {
         try {
           const {username, start, limit} = req.params;
@@ -514,6 +521,7 @@ export default class Tracking {
   private getCreatedUsersBasedOnCreator(): void {
     this.router.get(
       "/get-created-users-based-on-creator/:username/:start/:limit",
+      Guards.requirePermission("tracking", "view", {selfParam: "username"}),
       async (req: Request, res: Response): Promise<void> => {
         try {
           const {username, start, limit} = req.params;
@@ -18,18 +18,27 @@ import nodemailer from "nodemailer";
 import dotenv from "dotenv";
 import twilio, {Twilio} from "twilio";
 import crypto from "crypto";
-import jwt from "jsonwebtoken";
 
 import {UserModel, IUser} from "../models/user.model";
 import {TokenMap} from "../models/token.model";
 import {UserDocument} from "../models/file-upload.model";
 import {PropertyModel} from "../models/property.model";
 import NotificationService from "../services/notification.service";
+import {PermissionService} from "../services/permission.service";
+import {SessionService} from "../services/session.service";
+import {PasswordResetService} from "../services/password-reset.service";
+import {TwoFactorService} from "../services/two-factor.service";
+import {AccountVerificationService} from "../services/account-verification.service";
+import {VERIFICATION_MODES, VerificationMode} from "../models/security-policy.model";
+import {LoginProtectionService} from "../services/login-protection.service";
+import {ApiKeyService} from "../services/api-key.service";
+import {ImpersonationService} from "../services/impersonation.service";
 
 // If you keep a Role helper type elsewhere, you can import it.
 // (Optional; we only rely on the actual field enum in the model.)
 import {Role} from "../types/roles";
 import {Config} from "../configs/config";
+import Guards from "../middleware/guards";
 
 dotenv.config();
 
@@ -71,6 +80,28 @@ export default class UserRoute {
     this.getUserDocuments();
     this.getUserDataByUsername();
     this.deleteUserByUsername();
+    this.getMyPermissions();
+    this.refreshSession();
+    this.logout();
+    this.logoutEverywhere();
+    this.getMySessions();
+    this.revokeMySession();
+    this.requestPasswordReset();
+    this.verifyPasswordResetCode();
+    this.resetPassword();
+    this.setupTwoFactor();
+    this.enableTwoFactor();
+    this.verifyTwoFactor();
+    this.disableTwoFactor();
+    this.regenerateRecoveryCodes();
+    this.getTwoFactorStatus();
+    this.twoFactorPolicy();
+    this.verifyPhoneOtp();
+    this.resendPhoneOtp();
+    this.verificationPolicy();
+    this.unlockAccount();
+    this.startImpersonation();
+    this.stopImpersonation();
   }
 
   get route(): Router {
@@ -171,9 +202,137 @@ export default class UserRoute {
     }
   }
 
+  /** IP + user agent recorded on a session. */
+  private sessionMeta(req: Request): {ip: string; userAgent: string} {
+    return {ip: req.ip || req.socket.remoteAddress || "", userAgent: String(req.get("user-agent") || "")};
+  }
+
+  /** Refresh token also travels as an httpOnly cookie scoped to this router. */
+  private setRefreshCookie(res: Response, refreshToken: string, expiresAt: Date): void {
+    res.cookie("refreshToken", refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: "/api-user",
+      expires: expiresAt,
+    });
+  }
+
+  /** Disconnect live sockets that belong to revoked sessions. */
+  private dropSessionSockets(req: Request, sessionIds: string[]): void {
+    const io = req.app.get("io") as import("socket.io").Namespace | undefined;
+    if(!io || !sessionIds.length) return;
+    io.in(sessionIds.map((sid) => `session:${sid}`)).disconnectSockets(true);
+  }
+
+  /** Issue the session (access + refresh token) and send the login response. */
+  private async completeLogin(
+    req: Request,
+    res: Response,
+    user: IUser,
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    // Short-lived access JWT + rotating refresh token (server-side session)
+    const session = await SessionService.issue(
+      {_id: user._id, username: user.username, role: user.role as Role},
+      this.sessionMeta(req)
+    );
+    this.setRefreshCookie(res, session.refreshToken, session.refreshExpiresAt);
+
+    // Remove password + 2FA secrets (secret / pendingSecret / recovery codes) from the returned user
+    const userWithoutPassword = this.publicUser(user);
+
+    res.status(200).json({
+      status: "success",
+      message,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      sessionId: session.sessionId,
+      expiresIn: session.accessExpiresIn,
+      user: userWithoutPassword,
+      ...extra,
+    });
+  }
+
+  /** User as returned to clients: no password hash, OTP / verification tokens or 2FA secrets. */
+  private publicUser(user: any): Record<string, unknown> {
+    const plain = user?.toObject ? user.toObject() : user;
+    const {password: _pw, otpToken: _otp, emailVerificationToken: _evt, twoFactor, ...rest} = plain ?? {};
+    return {...rest, twoFactor: {enabled: !!twoFactor?.enabled}};
+  }
+
+  /** Lazily computed hash used to equalize login timing for unknown usernames. */
+  private dummyHash: Promise<string> | null = null;
+  private dummyPasswordHash(): Promise<string> {
+    if(!this.dummyHash) this.dummyHash = this.hashPassword(crypto.randomBytes(16).toString("hex"));
+    return this.dummyHash;
+  }
+
+  /** Lockout: unlock link by email + "Security Alert" to the user and admins. */
+  private async notifyAccountLocked(req: Request, user: IUser, lockedUntil: Date | null): Promise<void> {
+    const token = await LoginProtectionService.createUnlockToken(user.username);
+    const unlockLink = `${req.protocol}://${req.get("host")}/api-user/unlock-account/${encodeURIComponent(token)}`;
+    const until = lockedUntil ? lockedUntil.toISOString() : "later";
+
+    const transporter = nodemailer.createTransport({
+      service: "gmail",
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+    await transporter.sendMail({
+      from: '"PropEase Real Estate" <no-reply@propease.com>',
+      to: user.email,
+      subject: "Your account has been locked",
+      html: `
+        <div style="max-width:600px;margin:auto;border:1px solid #e0e0e0;border-radius:8px;padding:20px;font-family:Arial,sans-serif">
+          <h2 style="text-align:center;color:#dc3545">Account Temporarily Locked</h2>
+          <p>Hi ${user.name || user.username},</p>
+          <p>We locked your account after several failed sign-in attempts. It unlocks automatically at ${until}.</p>
+          <p>If this was you, you can unlock it now:</p>
+          <div style="text-align:center;margin:30px 0">
+            <a href="${unlockLink}" style="background:#007bff;color:#fff;padding:12px 24px;text-decoration:none;border-radius:5px">Unlock Account</a>
+          </div>
+          <p>If it wasn't you, consider resetting your password.</p>
+        </div>
+      `,
+    });
+
+    const notificationService = new NotificationService();
+    const io = req.app.get("io") as import("socket.io").Server;
+    const metadata = {
+      username: user.username,
+      ip: this.sessionMeta(req).ip,
+      userAgent: this.sessionMeta(req).userAgent,
+      lockedUntil,
+    };
+
+    // One alert for the account owner, one for the admins
+    for(const audience of [
+      {mode: "user" as const, usernames: [user.username]},
+      {mode: "role" as const, roles: ["admin" as Role]},
+    ]) {
+      await notificationService.createNotification(
+        {
+          title: "Security Alert",
+          body: `Account ${user.username} was locked after repeated failed sign-in attempts.`,
+          type: "notify",
+          severity: "warning",
+          audience,
+          channels: ["inapp"],
+          metadata,
+        },
+        (rooms, payload) =>
+          rooms.forEach((room) => io.to(room).emit("notification.new", payload))
+      );
+    }
+  }
+
   /** Generate a 6-digit OTP. */
   private generateOTP(): string {
-    return String(Math.floor(100000 + Math.random() * 900000));
+    return AccountVerificationService.generateCode();
   }
 
   // ==========================================================
@@ -194,41 +353,84 @@ export default class UserRoute {
             return;
           }
 
+          // Brute-force gate (per account + per IP, progressive delay / lockout)
+          const ip = this.sessionMeta(req).ip;
+          const gate = await LoginProtectionService.check(username, ip);
+          if(!gate.allowed) {
+            res.setHeader("Retry-After", String(gate.retryAfterSeconds));
+            res.status(429).json({
+              status: "error",
+              code: gate.reason === "LOCKED" ? "ACCOUNT_LOCKED" : "LOGIN_THROTTLED",
+              message:
+                gate.reason === "LOCKED"
+                  ? "Too many failed sign-in attempts. Try again later or use the unlock link sent by email."
+                  : "Please wait before trying again.",
+              retryAfter: gate.retryAfterSeconds,
+            });
+            return;
+          }
+
           const user: IUser | null = await UserModel.findOne({username});
-          if(!user) {
-            res.status(401).json({status: "error", message: "Invalid username"});
+
+          // Always run Argon2 so unknown usernames take as long as wrong passwords
+          const isPasswordValid = user
+            ? await Argon2.verify(user.password, password)
+            : await Argon2.verify(await this.dummyPasswordHash(), password).then(() => false);
+
+          if(!user || !isPasswordValid) {
+            const outcome = await LoginProtectionService.recordFailure(username, ip);
+            if(user && outcome.accountLockedNow) {
+              await this.notifyAccountLocked(req, user, outcome.lockedUntil).catch((err) =>
+                console.error("[verify-user] lockout alert failed:", err?.message || err)
+              );
+            }
+            // Same answer for unknown user and wrong password
+            res.status(401).json({status: "error", message: "Invalid username or password"});
             return;
           }
 
-          const isPasswordValid = await Argon2.verify(user.password, password);
-          if(!isPasswordValid) {
-            res.status(401).json({status: "error", message: "Invalid password"});
+          await LoginProtectionService.recordSuccess(username);
+
+          // Email/phone verification policy (off | restrict | block)
+          const verificationPolicy = await AccountVerificationService.policy();
+          const pendingVerification = AccountVerificationService.pending(user, verificationPolicy);
+          const verificationState = AccountVerificationService.state(pendingVerification, verificationPolicy);
+          if(verificationState === "block") {
+            res.status(403).json({
+              status: "error",
+              code: "ACCOUNT_NOT_VERIFIED",
+              message: "Please verify your account before signing in",
+              pending: pendingVerification,
+            });
             return;
           }
 
-          // JWT payload
-          const payload = {
-            sub: String(user._id),
-            username: user.username,
-            role: user.role as Role,
-          };
+          // Second factor: enrolled users (or roles where 2FA is mandatory) get a
+          // short-lived challenge instead of tokens
+          const twoFactorEnabled = !!user.twoFactor?.enabled;
+          if(twoFactorEnabled || (await TwoFactorService.isRequiredFor(user.role as Role))) {
+            const purpose = twoFactorEnabled ? "verify" : "enroll";
+            const mfaToken = await TwoFactorService.createChallenge(user.username, purpose);
+            res.status(200).json({
+              status: "success",
+              message: twoFactorEnabled
+                ? "Two-factor code required"
+                : "Two-factor authentication must be set up for your role",
+              mfaRequired: true,
+              mfaPurpose: purpose,
+              mfaToken,
+              expiresIn: Math.round(TwoFactorService.CHALLENGE_TTL_MS / 1000),
+            });
+            return;
+          }
 
-          const token = jwt.sign(
-            payload,
-            process.env.JWT_SECRET || "defaultsecret",
-            {expiresIn: "30d"}
+          await this.completeLogin(
+            req,
+            res,
+            user,
+            "User verified successfully!",
+            verificationState === "restrict" ? {restricted: true, pending: pendingVerification} : {}
           );
-
-          // Remove password from the returned user
-          const plain = user.toObject ? user.toObject() : (user as any);
-          const {password: _omit, ...userWithoutPassword} = plain;
-
-          res.status(200).json({
-            status: "success",
-            message: "User verified successfully!",
-            token,
-            user: userWithoutPassword,
-          });
         } catch(error) {
           console.error("[verify-user] error:", error);
           res
@@ -270,6 +472,7 @@ export default class UserRoute {
 
     this.router.post(
       "/create-user",
+      Guards.requirePermission("user", "create"),
       upload.fields([{name: "userimage", maxCount: 1}]),
       async (req: Request, res: Response): Promise<void> => {
         try {
@@ -338,6 +541,29 @@ export default class UserRoute {
             return;
           }
 
+          // Same rules as invites: only admins create admins, and the role
+          // defaults merged with `access` may not exceed the creator's permissions
+          if(role === "admin" && req.user?.role !== "admin") {
+            res.status(403).json({status: "error", message: "Only admins can create admins"});
+            return;
+          }
+          const access = this.parseJSON(req.body.access, undefined) as
+            | IUser["access"]
+            | undefined;
+          const exceeding = await ApiKeyService.exceedingScopes(
+            req.user!.username,
+            PermissionService.merge(role as Role, Array.isArray(access?.permissions) ? access.permissions : [])
+          );
+          if(exceeding.length) {
+            res.status(403).json({
+              status: "error",
+              code: "ACCESS_EXCEEDS_PERMISSIONS",
+              message: "A new user cannot get more access than its creator has",
+              exceeding,
+            });
+            return;
+          }
+
           // Ensure unique username before disk writes
           if(await UserModel.exists({username})) {
             res
@@ -356,11 +582,6 @@ export default class UserRoute {
             username
           )}/image.webp`;
 
-          // Read structured inputs
-          const access = this.parseJSON(req.body.access, undefined) as
-            | IUser["access"]
-            | undefined;
-
           // Optional email verification payload
           const verifyEmailObj = this.parseJSON<{
             token?: string;
@@ -384,11 +605,11 @@ export default class UserRoute {
             }
           }
 
-          // Prepare OTP (if you want to start with an OTP flow)
+          // Prepare phone OTP (stored hashed; raw code only goes out by SMS)
           const otp = this.generateOTP();
           // Optional custom TTL seconds; otherwise 5 minutes
           const otpTtlSecs = this.toNum(req.body.otpValidTime, 300);
-          const otpExpires = new Date(Date.now() + otpTtlSecs * 1000);
+          const otpFields = await AccountVerificationService.otpFields(otp, otpTtlSecs * 1000);
 
           // Hash password
           const password = await this.hashPassword(passRaw);
@@ -434,8 +655,7 @@ export default class UserRoute {
               permissions: [], // fallback minimal shape if not provided
             },
             otpVerifycation: false, // not verified yet
-            otpToken: otp,
-            otpTokenExpires: otpExpires, // <-- aligns with model
+            ...otpFields, // otpToken (hash), otpTokenExpires, counters
             emailVerified: false,
             emailVerificationToken: verifyEmailObj.token || undefined,
             emailVerificationTokenExpires: verifyEmailObj.expires
@@ -447,6 +667,13 @@ export default class UserRoute {
 
           await newUser.save();
 
+          // Send the phone OTP (best-effort; user can request a resend)
+          if(phoneNumber) {
+            await this.verifyPhoneNumber(phoneNumber, otp).catch((err) =>
+              console.warn("[create-user] OTP SMS not sent:", err?.message || err)
+            );
+          }
+
           // Broadcast to back-office roles (best-effort)
           const notificationService = new NotificationService();
           const io = req.app.get("io") as import("socket.io").Server;
@@ -471,10 +698,13 @@ export default class UserRoute {
               rooms.forEach((room) => io.to(room).emit("notification.new", payload))
           );
 
+          // Never echo secrets back
+          const createdUser = this.publicUser(newUser);
+
           res.status(201).json({
             status: "success",
             message: "User created successfully",
-            user: newUser,
+            user: createdUser,
           });
         } catch(error: any) {
           console.error("[create-user] error:", error?.message || error);
@@ -514,6 +744,7 @@ export default class UserRoute {
 
     this.router.put(
       "/user-update/:username",
+      Guards.requirePermission("user", "edit", {selfParam: "username"}),
       upload.fields([{name: "userimage", maxCount: 1}]),
       async (req: Request<{username: string}>, res: Response): Promise<void> => {
         try {
@@ -525,12 +756,43 @@ export default class UserRoute {
             return;
           }
 
+          // Password changes must come from the account owner, not an impersonating admin
+          if(req.user?.impersonator && String(req.body?.password ?? "").trim()) {
+            res.status(403).json({
+              status: "error",
+              code: "IMPERSONATION_RESTRICTED",
+              message: "Password cannot be changed while impersonating a user",
+            });
+            return;
+          }
+
           const user = await UserModel.findOne({username});
           if(!user) {
             res.status(404).json({status: "error", message: "User not found"});
             return;
           }
 
+          const self = req.user?.username === username;
+          const isAdmin = req.user?.role === "admin";
+          if(user.role === "admin" && !self && !isAdmin) {
+            res.status(403).json({status: "error", code: "PERMISSION_DENIED", message: "Only admins can edit an admin account"});
+            return;
+          }
+
+          // Passwords: admins may set another user's; the owner must confirm the current one
+          const newPassword = typeof req.body?.password === "string" ? req.body.password.trim() : "";
+          if(newPassword && !self && !isAdmin) {
+            res.status(403).json({status: "error", code: "PERMISSION_DENIED", message: "Only admins can change another user's password"});
+            return;
+          }
+          if(newPassword && self) {
+            const current = String(req.body?.currentPassword || "");
+            if(!current || !(await Argon2.verify(user.password, current))) {
+              res.status(401).json({status: "error", message: "Current password is incorrect"});
+              return;
+            }
+          }
+
           const files = req.files as Record<
             string,
             Express.Multer.File[] | undefined
@@ -553,6 +815,31 @@ export default class UserRoute {
 
           const body = req.body as Record<string, any>;
 
+          // Role and activation are admin-only (user:edit alone would let a manager promote anyone)
+          const adminOnly = ["role", "isActive"].filter((k) => k in body);
+          if(adminOnly.length && req.user?.role !== "admin") {
+            res.status(403).json({
+              status: "error",
+              code: "PERMISSION_DENIED",
+              message: `Only admins can change ${adminOnly.join(", ")}`,
+            });
+            return;
+          }
+
+          // Self-service edits (allowed via selfParam) must not touch access
+          if("access" in body && req.user) {
+            const decision = await PermissionService.check(req.user.username, "user", "edit");
+            if(!decision.allowed) {
+              res.status(403).json({
+                status: "error",
+                code: "PERMISSION_DENIED",
+                message: `Missing permission "user:edit" to change access`,
+                required: {module: "user", action: "edit"},
+              });
+              return;
+            }
+          }
+
           // Prepare updates (only set provided fields)
           const updates: Record<string, any> = {updatedAt: new Date()};
 
@@ -625,6 +912,21 @@ export default class UserRoute {
           // Access: expect JSON or object
           if("access" in body) {
             const access = this.parseJSON<IUser["access"]>(body.access, user.access);
+            // The caller cannot hand out access they do not hold themselves (role defaults included)
+            const role = (updates["role"] || user.role) as Role;
+            const exceeding = await ApiKeyService.exceedingScopes(
+              req.user!.username,
+              PermissionService.merge(role, Array.isArray(access?.permissions) ? access.permissions : [])
+            );
+            if(exceeding.length) {
+              res.status(403).json({
+                status: "error",
+                code: "ACCESS_EXCEEDS_PERMISSIONS",
+                message: "Access cannot exceed the permissions of the user granting it",
+                exceeding,
+              });
+              return;
+            }
             updates["access"] = access;
           }
 
@@ -633,13 +935,8 @@ export default class UserRoute {
           if("updator" in body)
             updates["updator"] = String(body.updator || "").trim();
 
-          // Optional password change
-          if("password" in body && typeof body.password === "string") {
-            const pw = body.password.trim();
-            if(pw) {
-              updates["password"] = await this.hashPassword(pw);
-            }
-          }
+          // Optional password change (authorised above)
+          if(newPassword) updates["password"] = await this.hashPassword(newPassword);
 
           // Optional: email change triggers new verify token/expiry
           if("emailVerificationToken" in body) {
@@ -665,6 +962,15 @@ export default class UserRoute {
             return;
           }
 
+          // Role/access may have changed -> drop cached permissions
+          PermissionService.invalidate(username);
+
+          // Deactivation or a password change signs the user out everywhere
+          if(updates["isActive"] === false || updates["password"]) {
+            const revoked = await SessionService.revokeAllForUser(username, "credentials-changed");
+            this.dropSessionSockets(req, revoked);
+          }
+
           // Notify back-office (best-effort)
           const notificationService = new NotificationService();
           const io = req.app.get("io") as import("socket.io").Server;
@@ -695,7 +1001,7 @@ export default class UserRoute {
           res.status(200).json({
             status: "success",
             message: "User updated successfully",
-            user: updatedUser,
+            user: this.publicUser(updatedUser),
           });
         } catch(error: any) {
           console.error("[user-update] error:", error?.message || error);
@@ -711,7 +1017,7 @@ export default class UserRoute {
   // Listing & search
   // ==========================================================
   private getAllUsers() {
-    this.router.get("/users", async (_req: Request, res: Response) => {
+    this.router.get("/users", Guards.requirePermission("user", "view"), async (_req: Request, res: Response) => {
       try {
         const users = await UserModel.find({}, {password: 0}).sort({
           createdAt: -1,
@@ -726,6 +1032,7 @@ export default class UserRoute {
   private getAllUsersWithPagination() {
     this.router.get(
       "/users-with-pagination/:start/:limit",
+      Guards.requirePermission("user", "view"),
       async (req: Request, res: Response) => {
         try {
           const start = this.toNum(req.params.start, 0);
@@ -766,6 +1073,7 @@ export default class UserRoute {
   private findUserByUsername() {
     this.router.get(
       "/user-username/:username",
+      Guards.requirePermission("user", "view"),
       async (req: Request<{username: string}>, res: Response) => {
         try {
           const username = String(req.params.username || "").trim();
@@ -786,6 +1094,7 @@ export default class UserRoute {
   private findUserByEmail() {
     this.router.get(
       "/user-email/:email",
+      Guards.requirePermission("user", "view"),
       async (req: Request<{email: string}>, res: Response) => {
         try {
           const email = decodeURIComponent(req.params.email ?? "").trim();
@@ -808,6 +1117,7 @@ export default class UserRoute {
   private findUserByPhone() {
     this.router.get(
       "/user-phone/:phone",
+      Guards.requirePermission("user", "view"),
       async (req: Request<{phone: string}>, res: Response) => {
         try {
           const phoneNumber = String(req.params.phone || "").trim();
@@ -867,6 +1177,7 @@ export default class UserRoute {
           delete (user as any).emailVerificationTokenExpires;
           user.autoDelete = false;
           await user.save();
+          PermissionService.invalidate(user.username); // lifts a "restrict" policy
 
           // Redirect to your frontend
           res.redirect(process.env.FRONTEND_ORIGIN || "http://localhost:4200");
@@ -914,12 +1225,53 @@ export default class UserRoute {
     return !!sent;
   }
 
+  /** Password reset link email (same transport as verification mails). */
+  private async sendPasswordResetEmail(
+    userEmail: string,
+    token: string
+  ): Promise<boolean> {
+    const front = (process.env.FRONTEND_ORIGIN || "http://localhost:4200").trim();
+    const resetLink = `${front}/reset-password?token=${encodeURIComponent(token)}`;
+    const minutes = Math.round(PasswordResetService.LINK_TTL_MS / 60000);
+    const html = `
+      <div style="max-width:600px;margin:auto;border:1px solid #e0e0e0;border-radius:8px;padding:20px;font-family:Arial,sans-serif">
+        <h2 style="text-align:center;color:#007bff">Reset Your Password</h2>
+        <p>Hi there,</p>
+        <p>We received a request to reset your password. The link below is valid for ${minutes} minutes and can be used once:</p>
+        <div style="text-align:center;margin:30px 0">
+          <a href="${resetLink}" style="background:#007bff;color:#fff;padding:12px 24px;text-decoration:none;border-radius:5px">Reset Password</a>
+        </div>
+        <p>If the button doesn't work, copy this link:</p>
+        <p style="word-break:break-word">${resetLink}</p>
+        <p>If you did not request this, you can ignore this email.</p>
+      </div>
+    `;
+
+    const transporter = nodemailer.createTransport({
+      service: "gmail",
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+
+    const sent = await transporter.sendMail({
+      from: '"PropEase Real Estate" <no-reply@propease.com>',
+      to: userEmail,
+      subject: "Reset Your Password",
+      html,
+    });
+
+    return !!sent;
+  }
+
   // ==========================================================
   // One-time view token endpoints (utility)
   // ==========================================================
   private generateToken() {
     this.router.post(
       "/generate-token",
+      Guards.requirePermission("user", "view"),
       async (req: Request, res: Response): Promise<void> => {
         try {
           const username = String(req.body.username || "").trim();
@@ -1065,6 +1417,7 @@ export default class UserRoute {
 
     this.router.post(
       "/user-document-upload/:username",
+      Guards.requirePermission("user", "edit", {selfParam: "username"}),
       upload.array("files", 10),
       async (req: Request<{username: string}>, res: Response): Promise<void> => {
         try {
@@ -1146,6 +1499,7 @@ export default class UserRoute {
   private getUserDocuments() {
     this.router.get(
       "/uploads/:username/documents",
+      Guards.requirePermission("user", "view", {selfParam: "username"}),
       async (req: Request<{username: string}>, res: Response) => {
         try {
           const username = String(req.params.username || "").trim();
@@ -1175,6 +1529,7 @@ export default class UserRoute {
   private getUserDataByUsername() {
     this.router.get(
       "/user-data/:username",
+      Guards.requirePermission("user", "view", {selfParam: "username"}),
       async (req: Request<{username: string}>, res: Response) => {
         try {
           const username = String(req.params.username || "").trim();
@@ -1199,6 +1554,7 @@ export default class UserRoute {
   private deleteUserByUsername() {
     this.router.delete(
       "/user-delete/:username/:deletedBy",
+      Guards.requirePermission("user", "delete"),
       async (
         req: Request<{username: string; deletedBy: string}>,
         res: Response
@@ -1312,6 +1668,10 @@ export default class UserRoute {
             res.status(404).json({status: "error", message: "User not found"});
             return;
           }
+          PermissionService.invalidate(username);
+          this.dropSessionSockets(req, await SessionService.revokeAllForUser(username, "user-deleted"));
+          // Keys must not carry over to a future account with the same username
+          await ApiKeyService.revokeAllForUser(username, req.user?.username ?? "system");
 
           res.status(200).json({
             status: "success",
@@ -1331,4 +1691,898 @@ export default class UserRoute {
       }
     );
   }
+
+  // ==========================================================
+  // Effective permissions of the caller (drives FE menus/buttons)
+  // ==========================================================
+  private getMyPermissions() {
+    this.router.get("/my-permissions", async (req: Request, res: Response) => {
+      try {
+        if(!req.user) {
+          res.status(401).json({status: "error", message: "Unauthorized"});
+          return;
+        }
+        const resolved = await PermissionService.resolve(req.user.username);
+        if(!resolved) {
+          res.status(404).json({status: "error", message: "User not found"});
+          return;
+        }
+        res.status(200).json({
+          status: "success",
+          message: "Permissions fetched successfully",
+          data: {...resolved, impersonator: req.user.impersonator ?? null},
+        });
+      } catch(error: any) {
+        console.error("[my-permissions] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ==========================================================
+  // Sessions: refresh rotation, logout, listing
+  // ==========================================================
+  private refreshSession() {
+    this.router.post("/refresh-token", async (req: Request, res: Response) => {
+      try {
+        const refreshToken = String(
+          req.body?.refreshToken || (req as any).cookies?.refreshToken || ""
+        ).trim();
+        if(!refreshToken) {
+          res.status(400).json({status: "error", message: "Refresh token required"});
+          return;
+        }
+
+        const result = await SessionService.rotate(refreshToken, this.sessionMeta(req));
+        if(!result.ok) {
+          res.clearCookie("refreshToken", {path: "/api-user"});
+          res.status(401).json({
+            status: "error",
+            code: result.reason === "REUSED" ? "REFRESH_TOKEN_REUSED" : "INVALID_REFRESH_TOKEN",
+            message:
+              result.reason === "REUSED"
+                ? "Refresh token reuse detected. Session has been revoked, please sign in again."
+                : "Session expired or revoked, please sign in again.",
+          });
+          return;
+        }
+
+        const {tokens} = result;
+        this.setRefreshCookie(res, tokens.refreshToken, tokens.refreshExpiresAt);
+        res.status(200).json({
+          status: "success",
+          message: "Session refreshed",
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          sessionId: tokens.sessionId,
+          expiresIn: tokens.accessExpiresIn,
+        });
+      } catch(error: any) {
+        console.error("[refresh-token] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error refreshing session"});
+      }
+    });
+  }
+
+  private logout() {
+    this.router.post("/logout", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const sid = req.user?.sid;
+        if(sid && req.user?.impersonator) {
+          // Logging out of an impersonation only ends the grant, not the admin's session
+          await ImpersonationService.stop(sid, "logout");
+          this.dropSessionSockets(req, [sid]);
+        } else if(sid) {
+          await SessionService.revoke(sid, "logout");
+          this.dropSessionSockets(req, [sid]);
+        }
+        res.clearCookie("refreshToken", {path: "/api-user"});
+        res.status(200).json({status: "success", message: "Logged out"});
+      } catch(error: any) {
+        console.error("[logout] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error logging out"});
+      }
+    });
+  }
+
+  private logoutEverywhere() {
+    this.router.post("/logout-all", Guards.requireAuth(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const user = req.user!;
+        // keepCurrent=true signs out every *other* device
+        const keepCurrent = this.toBool(req.body?.keepCurrent);
+        const revoked = await SessionService.revokeAllForUser(
+          user.username,
+          "logout-all",
+          keepCurrent ? user.sid : undefined
+        );
+        this.dropSessionSockets(req, revoked);
+        if(!keepCurrent) res.clearCookie("refreshToken", {path: "/api-user"});
+
+        res.status(200).json({
+          status: "success",
+          message: "Signed out from all sessions",
+          data: {revoked: revoked.length},
+        });
+      } catch(error: any) {
+        console.error("[logout-all] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error logging out"});
+      }
+    });
+  }
+
+  private getMySessions() {
+    this.router.get("/my-sessions", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const user = req.user!;
+        const sessions = await SessionService.list(user.username);
+        res.status(200).json({
+          status: "success",
+          message: "Sessions fetched successfully",
+          data: sessions.map((s) => ({...s, current: s.sessionId === user.sid})),
+        });
+      } catch(error: any) {
+        console.error("[my-sessions] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  private revokeMySession() {
+    this.router.delete(
+      "/my-sessions/:sessionId",
+      Guards.requireAuth(),
+      async (req: Request<{sessionId: string}>, res: Response) => {
+        try {
+          const sessionId = String(req.params.sessionId || "").trim();
+          const owner = sessionId ? await SessionService.ownerOf(sessionId) : null;
+          if(!owner || owner !== req.user!.username) {
+            res.status(404).json({status: "error", message: "Session not found"});
+            return;
+          }
+          await SessionService.revoke(sessionId, "revoked-by-user");
+          this.dropSessionSockets(req, [sessionId]);
+          res.status(200).json({status: "success", message: "Session revoked"});
+        } catch(error: any) {
+          console.error("[revoke-session] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Server error"});
+        }
+      }
+    );
+  }
+
+  // ==========================================================
+  // Self-service password reset (email link / SMS OTP)
+  // ==========================================================
+  private requestPasswordReset() {
+    this.router.post("/forgot-password", async (req: Request, res: Response) => {
+      // Same answer whether or not the account exists (no user enumeration)
+      const generic = {
+        status: "success",
+        message: "If the account exists, password reset instructions have been sent.",
+      };
+      try {
+        const identifier = String(req.body?.identifier || "").trim();
+        const channel = String(req.body?.channel || "email").trim().toLowerCase();
+        if(!identifier) {
+          res.status(400).json({status: "error", message: "Username or email is required"});
+          return;
+        }
+        if(channel !== "email" && channel !== "sms") {
+          res.status(400).json({status: "error", message: "Channel must be email or sms"});
+          return;
+        }
+
+        const filter = this.isEmail(identifier)
+          ? {email: {$regex: `^${this.escapeRegex(identifier)}$`, $options: "i"}}
+          : {username: identifier};
+        const user = await UserModel.findOne(filter).select("username email phoneNumber isActive").lean();
+
+        if(!user || user.isActive === false) {
+          res.status(200).json(generic);
+          return;
+        }
+        if(await PasswordResetService.isRateLimited(user.username)) {
+          console.warn(`[forgot-password] rate limited user=${user.username}`);
+          res.status(200).json(generic);
+          return;
+        }
+
+        if(channel === "sms") {
+          if(!user.phoneNumber) {
+            res.status(200).json(generic);
+            return;
+          }
+          const code = await PasswordResetService.createSmsReset(user.username);
+          await this.verifyPhoneNumber(user.phoneNumber, code);
+        } else {
+          const token = await PasswordResetService.createEmailReset(user.username);
+          await this.sendPasswordResetEmail(user.email, token);
+        }
+
+        res.status(200).json(generic);
+      } catch(error: any) {
+        console.error("[forgot-password] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error requesting password reset"});
+      }
+    });
+  }
+
+  private verifyPasswordResetCode() {
+    this.router.post("/verify-reset-code", async (req: Request, res: Response) => {
+      try {
+        const username = String(req.body?.username || "").trim();
+        const code = String(req.body?.code || "").trim();
+        if(!username || !code) {
+          res.status(400).json({status: "error", message: "Username and code are required"});
+          return;
+        }
+
+        const result = await PasswordResetService.verifyCode(username, code);
+        if(!result.ok) {
+          const tooMany = result.reason === "TOO_MANY_ATTEMPTS";
+          res.status(tooMany ? 429 : 400).json({
+            status: "error",
+            code: result.reason,
+            message: tooMany
+              ? "Too many attempts. Please request a new code."
+              : "Invalid or expired code",
+          });
+          return;
+        }
+
+        res.status(200).json({
+          status: "success",
+          message: "Code verified",
+          resetToken: result.resetToken,
+          expiresIn: Math.round(PasswordResetService.RESET_TTL_MS / 1000),
+        });
+      } catch(error: any) {
+        console.error("[verify-reset-code] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error verifying code"});
+      }
+    });
+  }
+
+  private resetPassword() {
+    this.router.post("/reset-password", async (req: Request, res: Response) => {
+      try {
+        const token = String(req.body?.token || "").trim();
+        const password = String(req.body?.password || "");
+        if(!token || !password) {
+          res.status(400).json({status: "error", message: "Token and new password are required"});
+          return;
+        }
+        if(password.trim().length < 8) {
+          res.status(400).json({status: "error", message: "Password must be at least 8 characters"});
+          return;
+        }
+
+        const username = await PasswordResetService.consume(token);
+        if(!username) {
+          res.status(400).json({status: "error", message: "Reset link is invalid or has expired"});
+          return;
+        }
+
+        const hashed = await this.hashPassword(password.trim());
+        const updated = await UserModel.findOneAndUpdate(
+          {username},
+          {$set: {password: hashed, updator: username, updatedAt: new Date()}},
+          {new: true}
+        );
+        if(!updated) {
+          res.status(404).json({status: "error", message: "User not found"});
+          return;
+        }
+
+        // Old sessions and any other pending reset tokens stop working; a lockout is lifted
+        await PasswordResetService.invalidateAll(username);
+        await LoginProtectionService.recordSuccess(username);
+        const revoked = await SessionService.revokeAllForUser(username, "password-reset");
+        this.dropSessionSockets(req, revoked);
+
+        const notificationService = new NotificationService();
+        const io = req.app.get("io") as import("socket.io").Server;
+        await notificationService.createNotification(
+          {
+            title: "User Password Reset",
+            body: `The password for ${updated.username} was reset. If this wasn't you, contact an administrator.`,
+            type: "update",
+            severity: "warning",
+            audience: {mode: "user", usernames: [updated.username]},
+            channels: ["inapp", "email"],
+            metadata: {
+              username: updated.username,
+              resetAt: new Date(),
+              ip: req.ip,
+            },
+          },
+          (rooms, payload) =>
+            rooms.forEach((room) => io.to(room).emit("notification.new", payload))
+        );
+
+        res.status(200).json({
+          status: "success",
+          message: "Password has been reset. Please sign in with your new password.",
+        });
+      } catch(error: any) {
+        console.error("[reset-password] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error resetting password"});
+      }
+    });
+  }
+
+  // ==========================================================
+  // Two-factor authentication (TOTP)
+  // ==========================================================
+
+  /**
+   * Who is managing 2FA: a signed-in user, or a user mid-login whose role
+   * requires 2FA (enrollment challenge from /verify-user).
+   */
+  private async twoFactorActor(
+    req: Request
+  ): Promise<{username: string; via: "session" | "enroll"; mfaToken?: string} | null> {
+    // Sessions only: an API key also sets req.user but must never enroll an authenticator
+    if(req.apiKey) return null;
+    if(req.user) return {username: req.user.username, via: "session"};
+
+    const mfaToken = String(req.body?.mfaToken || "").trim();
+    if(!mfaToken) return null;
+    const challenge = await TwoFactorService.findChallenge(mfaToken);
+    if(!challenge.ok || challenge.purpose !== "enroll") return null;
+    return {username: challenge.username, via: "enroll", mfaToken};
+  }
+
+  private setupTwoFactor() {
+    this.router.post("/2fa/setup", Guards.forbidApiKey(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const actor = await this.twoFactorActor(req);
+        if(!actor) {
+          res.status(401).json({status: "error", message: "Unauthorized"});
+          return;
+        }
+
+        const user = await UserModel.findOne({username: actor.username});
+        if(!user) {
+          res.status(404).json({status: "error", message: "User not found"});
+          return;
+        }
+        if(user.twoFactor?.enabled) {
+          res.status(409).json({status: "error", message: "Two-factor authentication is already enabled"});
+          return;
+        }
+
+        const secret = TwoFactorService.generateSecret();
+        await UserModel.updateOne(
+          {username: user.username},
+          {$set: {"twoFactor.pendingSecret": await TwoFactorService.encryptSecret(secret)}}
+        );
+
+        const otpauthUrl = TwoFactorService.otpauthUrl(user.username, secret);
+        res.status(200).json({
+          status: "success",
+          message: "Scan the QR code with your authenticator app, then confirm with a code",
+          data: {
+            otpauthUrl,
+            qrCode: await TwoFactorService.qrDataUrl(otpauthUrl),
+            secret, // manual entry fallback
+          },
+        });
+      } catch(error: any) {
+        console.error("[2fa-setup] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error starting two-factor setup"});
+      }
+    });
+  }
+
+  private enableTwoFactor() {
+    this.router.post("/2fa/enable", Guards.forbidApiKey(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const actor = await this.twoFactorActor(req);
+        if(!actor) {
+          res.status(401).json({status: "error", message: "Unauthorized"});
+          return;
+        }
+
+        const user = await UserModel.findOne({username: actor.username}).select("+twoFactor.pendingSecret");
+        const pending = user?.twoFactor?.pendingSecret;
+        if(!user || !pending) {
+          res.status(400).json({status: "error", message: "Start two-factor setup first"});
+          return;
+        }
+
+        const secret = await TwoFactorService.decryptSecret(pending);
+        const step = TwoFactorService.verifyCode(secret, String(req.body?.code || ""));
+        if(step === null) {
+          if(actor.mfaToken) await TwoFactorService.failChallenge(actor.mfaToken);
+          res.status(400).json({status: "error", message: "Invalid authentication code"});
+          return;
+        }
+
+        const {codes, hashes} = await TwoFactorService.generateRecoveryCodes();
+        await UserModel.updateOne(
+          {username: user.username},
+          {
+            $set: {
+              "twoFactor.enabled": true,
+              "twoFactor.secret": pending,
+              "twoFactor.recoveryCodes": hashes,
+              "twoFactor.lastUsedStep": step,
+              "twoFactor.enabledAt": new Date(),
+            },
+            $unset: {"twoFactor.pendingSecret": ""},
+          }
+        );
+
+        // Mandatory enrollment during login → finish the login now
+        if(actor.via === "enroll" && actor.mfaToken) {
+          if(!(await TwoFactorService.consumeChallenge(actor.mfaToken))) {
+            res.status(401).json({status: "error", message: "Login challenge expired, please sign in again"});
+            return;
+          }
+          await this.completeLogin(req, res, user, "Two-factor authentication enabled", {recoveryCodes: codes});
+          return;
+        }
+
+        res.status(200).json({
+          status: "success",
+          message: "Two-factor authentication enabled. Store your recovery codes safely.",
+          data: {recoveryCodes: codes},
+        });
+      } catch(error: any) {
+        console.error("[2fa-enable] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error enabling two-factor authentication"});
+      }
+    });
+  }
+
+  private verifyTwoFactor() {
+    this.router.post("/2fa/verify", async (req: Request, res: Response) => {
+      try {
+        const mfaToken = String(req.body?.mfaToken || "").trim();
+        const code = String(req.body?.code || "").trim();
+        const recoveryCode = String(req.body?.recoveryCode || "").trim();
+        if(!mfaToken || (!code && !recoveryCode)) {
+          res.status(400).json({status: "error", message: "Challenge token and code are required"});
+          return;
+        }
+
+        const challenge = await TwoFactorService.findChallenge(mfaToken);
+        if(!challenge.ok || challenge.purpose !== "verify") {
+          const tooMany = !challenge.ok && challenge.reason === "TOO_MANY_ATTEMPTS";
+          res.status(tooMany ? 429 : 401).json({
+            status: "error",
+            message: tooMany ? "Too many attempts, please sign in again" : "Login challenge expired, please sign in again",
+          });
+          return;
+        }
+
+        const user = await UserModel.findOne({username: challenge.username}).select(
+          "+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep"
+        );
+        const tf = user?.twoFactor;
+        if(!user || !tf?.enabled || !tf.secret) {
+          res.status(401).json({status: "error", message: "Login challenge expired, please sign in again"});
+          return;
+        }
+
+        let usedRecoveryCode = false;
+        if(code) {
+          const secret = await TwoFactorService.decryptSecret(tf.secret);
+          const step = TwoFactorService.verifyCode(secret, code, tf.lastUsedStep);
+          if(step === null) {
+            await TwoFactorService.failChallenge(mfaToken);
+            res.status(401).json({status: "error", message: "Invalid authentication code"});
+            return;
+          }
+          await UserModel.updateOne({username: user.username}, {$set: {"twoFactor.lastUsedStep": step}});
+        } else {
+          const hashes = tf.recoveryCodes ?? [];
+          const idx = await TwoFactorService.matchRecoveryCode(hashes, recoveryCode);
+          if(idx === -1) {
+            await TwoFactorService.failChallenge(mfaToken);
+            res.status(401).json({status: "error", message: "Invalid recovery code"});
+            return;
+          }
+          // Recovery codes are single use
+          await UserModel.updateOne(
+            {username: user.username},
+            {$set: {"twoFactor.recoveryCodes": hashes.filter((_h, i) => i !== idx)}}
+          );
+          usedRecoveryCode = true;
+        }
+
+        if(!(await TwoFactorService.consumeChallenge(mfaToken))) {
+          res.status(401).json({status: "error", message: "Login challenge expired, please sign in again"});
+          return;
+        }
+
+        await this.completeLogin(req, res, user, "User verified successfully!", {
+          recoveryCodesRemaining: usedRecoveryCode ? (tf.recoveryCodes?.length ?? 1) - 1 : undefined,
+        });
+      } catch(error: any) {
+        console.error("[2fa-verify] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error verifying two-factor code"});
+      }
+    });
+  }
+
+  private disableTwoFactor() {
+    this.router.post("/2fa/disable", Guards.requireAuth(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const username = req.user!.username;
+        const user = await UserModel.findOne({username}).select("+twoFactor.secret +twoFactor.lastUsedStep");
+        if(!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+          res.status(400).json({status: "error", message: "Two-factor authentication is not enabled"});
+          return;
+        }
+        if(await TwoFactorService.isRequiredFor(user.role as Role)) {
+          res.status(403).json({status: "error", message: "Two-factor authentication is mandatory for your role"});
+          return;
+        }
+
+        const password = String(req.body?.password || "");
+        if(!password || !(await Argon2.verify(user.password, password))) {
+          res.status(401).json({status: "error", message: "Invalid password"});
+          return;
+        }
+        const secret = await TwoFactorService.decryptSecret(user.twoFactor.secret);
+        if(TwoFactorService.verifyCode(secret, String(req.body?.code || ""), user.twoFactor.lastUsedStep) === null) {
+          res.status(401).json({status: "error", message: "Invalid authentication code"});
+          return;
+        }
+
+        await UserModel.updateOne({username}, {$set: {twoFactor: {enabled: false}}});
+        res.status(200).json({status: "success", message: "Two-factor authentication disabled"});
+      } catch(error: any) {
+        console.error("[2fa-disable] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error disabling two-factor authentication"});
+      }
+    });
+  }
+
+  private regenerateRecoveryCodes() {
+    this.router.post("/2fa/recovery-codes", Guards.requireAuth(), Guards.forbidImpersonation(), async (req: Request, res: Response) => {
+      try {
+        const username = req.user!.username;
+        const user = await UserModel.findOne({username}).select("+twoFactor.secret +twoFactor.lastUsedStep");
+        if(!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+          res.status(400).json({status: "error", message: "Two-factor authentication is not enabled"});
+          return;
+        }
+
+        const secret = await TwoFactorService.decryptSecret(user.twoFactor.secret);
+        const step = TwoFactorService.verifyCode(secret, String(req.body?.code || ""), user.twoFactor.lastUsedStep);
+        if(step === null) {
+          res.status(401).json({status: "error", message: "Invalid authentication code"});
+          return;
+        }
+
+        const {codes, hashes} = await TwoFactorService.generateRecoveryCodes();
+        await UserModel.updateOne(
+          {username},
+          {$set: {"twoFactor.recoveryCodes": hashes, "twoFactor.lastUsedStep": step}}
+        );
+        res.status(200).json({
+          status: "success",
+          message: "New recovery codes generated; previous codes no longer work",
+          data: {recoveryCodes: codes},
+        });
+      } catch(error: any) {
+        console.error("[2fa-recovery-codes] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error generating recovery codes"});
+      }
+    });
+  }
+
+  private getTwoFactorStatus() {
+    this.router.get("/2fa/status", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const user = await UserModel.findOne({username: req.user!.username})
+          .select("+twoFactor.recoveryCodes")
+          .lean();
+        if(!user) {
+          res.status(404).json({status: "error", message: "User not found"});
+          return;
+        }
+        res.status(200).json({
+          status: "success",
+          message: "Two-factor status fetched successfully",
+          data: {
+            enabled: !!user.twoFactor?.enabled,
+            enabledAt: user.twoFactor?.enabledAt ?? null,
+            required: await TwoFactorService.isRequiredFor(user.role as Role),
+            recoveryCodesRemaining: user.twoFactor?.recoveryCodes?.length ?? 0,
+          },
+        });
+      } catch(error: any) {
+        console.error("[2fa-status] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  /** Admin policy: which roles must use 2FA. */
+  private twoFactorPolicy() {
+    const ROLES: ReadonlyArray<Role> = ["admin", "agent", "tenant", "owner", "operator", "manager", "developer", "user"];
+
+    this.router.get("/2fa/policy", Guards.requireAuth(), Guards.requireRole("admin"), async (_req: Request, res: Response) => {
+      try {
+        res.status(200).json({
+          status: "success",
+          message: "Two-factor policy fetched successfully",
+          data: {requiredRoles: await TwoFactorService.requiredRoles()},
+        });
+      } catch(error: any) {
+        console.error("[2fa-policy] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+
+    this.router.put("/2fa/policy", Guards.requireAuth(), Guards.requireRole("admin"), async (req: Request, res: Response) => {
+      try {
+        const roles = this.parseJSON<unknown>(req.body?.requiredRoles, req.body?.requiredRoles);
+        if(!Array.isArray(roles) || roles.some((r) => !ROLES.includes(r as Role))) {
+          res.status(400).json({status: "error", message: `requiredRoles must be a list of: ${ROLES.join(", ")}`});
+          return;
+        }
+
+        const requiredRoles = await TwoFactorService.setRequiredRoles(roles as Role[], req.user!.username);
+        res.status(200).json({
+          status: "success",
+          message: "Two-factor policy updated",
+          data: {requiredRoles},
+        });
+      } catch(error: any) {
+        console.error("[2fa-policy] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ==========================================================
+  // Phone OTP verification (new users) + verification policy
+  // ==========================================================
+  private verifyPhoneOtp() {
+    this.router.post("/verify-phone-otp", async (req: Request, res: Response) => {
+      try {
+        const username = String(req.body?.username || "").trim();
+        const code = String(req.body?.code || "").trim();
+        if(!username || !code) {
+          res.status(400).json({status: "error", message: "Username and code are required"});
+          return;
+        }
+
+        const result = await AccountVerificationService.verifyOtp(username, code);
+        if(!result.ok) {
+          switch(result.reason) {
+            case "ALREADY_VERIFIED":
+              res.status(200).json({status: "success", message: "Phone number already verified"});
+              return;
+            case "LOCKED":
+              res.status(429).json({
+                status: "error",
+                code: "OTP_LOCKED",
+                message: "Too many wrong codes. Request a new code later.",
+                lockedUntil: result.lockedUntil,
+              });
+              return;
+            case "INVALID":
+              res.status(400).json({
+                status: "error",
+                code: "OTP_INVALID",
+                message: "Invalid verification code",
+                attemptsLeft: result.attemptsLeft,
+              });
+              return;
+            default:
+              // NOT_FOUND and EXPIRED look the same to the caller
+              res.status(400).json({status: "error", code: "OTP_EXPIRED", message: "Code expired, please request a new one"});
+              return;
+          }
+        }
+
+        PermissionService.invalidate(username);
+        res.status(200).json({status: "success", message: "Phone number verified successfully"});
+      } catch(error: any) {
+        console.error("[verify-phone-otp] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error verifying code"});
+      }
+    });
+  }
+
+  private resendPhoneOtp() {
+    this.router.post("/resend-phone-otp", async (req: Request, res: Response) => {
+      try {
+        const username = String(req.body?.username || "").trim();
+        if(!username) {
+          res.status(400).json({status: "error", message: "Username is required"});
+          return;
+        }
+
+        const check = await AccountVerificationService.canResend(username);
+        if(!check.ok) {
+          if(check.reason === "COOLDOWN" || check.reason === "LOCKED") {
+            res.setHeader("Retry-After", String(check.retryAfterSeconds));
+            res.status(429).json({
+              status: "error",
+              code: check.reason === "LOCKED" ? "OTP_LOCKED" : "OTP_COOLDOWN",
+              message: "Please wait before requesting another code",
+              retryAfter: check.retryAfterSeconds,
+            });
+            return;
+          }
+          if(check.reason === "ALREADY_VERIFIED") {
+            res.status(200).json({status: "success", message: "Phone number already verified"});
+            return;
+          }
+          res.status(400).json({status: "error", message: "No phone number to verify for this account"});
+          return;
+        }
+
+        const user = await UserModel.findOne({username}).select("phoneNumber").lean();
+        const code = await AccountVerificationService.issueOtp(username);
+        await this.verifyPhoneNumber(String(user?.phoneNumber || ""), code);
+
+        res.status(200).json({
+          status: "success",
+          message: "A new verification code has been sent",
+          expiresIn: Math.round(AccountVerificationService.OTP_TTL_MS / 1000),
+        });
+      } catch(error: any) {
+        console.error("[resend-phone-otp] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error sending verification code"});
+      }
+    });
+  }
+
+  /** Admin policy: how unverified email/phone affect sign-in. */
+  private verificationPolicy() {
+    this.router.get("/verification-policy", Guards.requireAuth(), Guards.requireRole("admin"), async (_req: Request, res: Response) => {
+      try {
+        res.status(200).json({
+          status: "success",
+          message: "Verification policy fetched successfully",
+          data: await AccountVerificationService.policy(),
+        });
+      } catch(error: any) {
+        console.error("[verification-policy] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+
+    this.router.put("/verification-policy", Guards.requireAuth(), Guards.requireRole("admin"), async (req: Request, res: Response) => {
+      try {
+        const current = await AccountVerificationService.policy();
+        const email = String(req.body?.email ?? current.email).trim() as VerificationMode;
+        const phone = String(req.body?.phone ?? current.phone).trim() as VerificationMode;
+        if(!VERIFICATION_MODES.includes(email) || !VERIFICATION_MODES.includes(phone)) {
+          res.status(400).json({status: "error", message: `email/phone must be one of: ${VERIFICATION_MODES.join(", ")}`});
+          return;
+        }
+
+        const data = await AccountVerificationService.setPolicy({email, phone}, req.user!.username);
+        res.status(200).json({status: "success", message: "Verification policy updated", data});
+      } catch(error: any) {
+        console.error("[verification-policy] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Server error"});
+      }
+    });
+  }
+
+  // ==========================================================
+  // Unlock a locked account (link from the lockout email)
+  // ==========================================================
+  private unlockAccount() {
+    this.router.get("/unlock-account/:token", async (req: Request<{token: string}>, res: Response) => {
+      const front = (process.env.FRONTEND_ORIGIN || "http://localhost:4200").trim();
+      try {
+        const username = await LoginProtectionService.unlockWithToken(String(req.params.token || ""));
+        res.redirect(`${front}/login?unlocked=${username ? "1" : "0"}`);
+      } catch(error: any) {
+        console.error("[unlock-account] error:", error?.message || error);
+        res.redirect(`${front}/login?unlocked=0`);
+      }
+    });
+  }
+
+  // ==========================================================
+  // Admin impersonation ("view as user")
+  // ==========================================================
+  private startImpersonation() {
+    this.router.post(
+      "/impersonate/:username",
+      Guards.requireAuth(),
+      Guards.requireRole("admin"),
+      Guards.forbidImpersonation(),
+      async (req: Request<{username: string}>, res: Response) => {
+        try {
+          const admin = req.user!;
+          const username = String(req.params.username || "").trim();
+          const reason = String(req.body?.reason || "").trim().slice(0, 300);
+
+          if(!admin.sid) {
+            res.status(401).json({status: "error", message: "A signed-in admin session is required"});
+            return;
+          }
+          if(reason.length < 5) {
+            res.status(400).json({status: "error", message: "A reason (min 5 chars) is required for the audit log"});
+            return;
+          }
+          if(username === admin.username) {
+            res.status(400).json({status: "error", message: "You cannot impersonate yourself"});
+            return;
+          }
+
+          const target = await UserModel.findOne({username}).select("_id username role isActive").lean();
+          if(!target) {
+            res.status(404).json({status: "error", message: "User not found"});
+            return;
+          }
+          if(target.role === "admin") {
+            res.status(403).json({status: "error", message: "Admins cannot be impersonated"});
+            return;
+          }
+          if(target.isActive === false) {
+            res.status(409).json({status: "error", message: "User is inactive"});
+            return;
+          }
+
+          const grant = await ImpersonationService.start(
+            {username: admin.username, role: admin.role, sid: admin.sid},
+            {_id: target._id, username: target.username, role: target.role as Role},
+            reason,
+            this.sessionMeta(req)
+          );
+          await ImpersonationService.audit({
+            impersonator: admin.username,
+            target: target.username,
+            sessionId: grant.sessionId,
+            ip: req.ip || "",
+            action: `started (${reason})`,
+          });
+
+          res.status(200).json({
+            status: "success",
+            message: `Now viewing as ${target.username}`,
+            token: grant.accessToken,
+            sessionId: grant.sessionId,
+            expiresIn: grant.expiresIn,
+            data: {
+              impersonating: {username: target.username, role: target.role},
+              impersonator: {username: admin.username, role: admin.role},
+              expiresAt: grant.expiresAt,
+            },
+          });
+        } catch(error: any) {
+          console.error("[impersonate] error:", error?.message || error);
+          res.status(500).json({status: "error", message: "Error starting impersonation"});
+        }
+      }
+    );
+  }
+
+  private stopImpersonation() {
+    this.router.post("/stop-impersonation", Guards.requireAuth(), async (req: Request, res: Response) => {
+      try {
+        const user = req.user!;
+        if(!user.impersonator || !user.sid) {
+          res.status(400).json({status: "error", message: "Not impersonating"});
+          return;
+        }
+
+        await ImpersonationService.stop(user.sid, "stopped");
+        this.dropSessionSockets(req, [user.sid]);
+        res.status(200).json({
+          status: "success",
+          message: "Impersonation ended",
+          data: {impersonator: user.impersonator},
+        });
+      } catch(error: any) {
+        console.error("[stop-impersonation] error:", error?.message || error);
+        res.status(500).json({status: "error", message: "Error ending impersonation"});
+      }
+    });
+  }
 }
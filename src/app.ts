@@ -40,11 +40,27 @@ import Tenant from './api/tenant';
 import FileTransfer from './api/fileTransfer';
 import Lease from './api/lease';
 import Validator from './api/validator';
+import Invite from './api/invite';
+import ApiKey from './api/api-key';
+import Privacy from './api/privacy';
+import SavedSearch from './api/saved-search';
+import Syndication from './api/syndication';
+import Building from './api/building';
+import ListingReview from './api/listing-review';
+import Billing from './api/billing';
+import LeaseRenewal from './api/lease-renewal';
 import NotificationController from './controller/notification.controller';
 import NotificationService from './services/notification.service';
 
 // Background/cron-like example
 import {AutoDeleteUserService} from './services/auto-delete.service';
+import {PropertyGeoService} from './services/property-geo.service';
+import {PropertySearchService} from './services/property-search.service';
+import {SavedSearchAlertService} from './services/saved-search-alert.service';
+import {LatePaymentPenaltyService} from './services/late-payment-penalty.service';
+import {LeaseExpiryService} from './services/lease-expiry.service';
+import {LeaseLifecycleService} from './services/lease-lifecycle.service';
+import {PdfService} from './services/pdf.service';
 
 // Socket.IO integration
 import SocketServer from './socket/socket';
@@ -185,6 +201,15 @@ export default class App {
   private fileTransfer = new FileTransfer();
   private lease = new Lease();
   private validator = new Validator();
+  private invite = new Invite();
+  private apiKey = new ApiKey();
+  private privacy = new Privacy();
+  private savedSearch = new SavedSearch();
+  private syndication = new Syndication();
+  private building = new Building();
+  private listingReview = new ListingReview();
+  private billing = new Billing();
+  private leaseRenewal = new LeaseRenewal();
 
   // Notifications (service + controller)
   private notificationService = new NotificationService();
@@ -193,6 +218,15 @@ export default class App {
   // Background-job example (auto delete users)
   private autoDeleteUserService = new AutoDeleteUserService(this.io);
 
+  // Saved-search alerts (new / price-changed properties)
+  private savedSearchAlertService = new SavedSearchAlertService(this.io);
+
+  // Late-payment penalties + overdue notices (daily)
+  private latePaymentPenaltyService = new LatePaymentPenaltyService(this.io);
+
+  // Lease lifecycle: expiring / expired by end date, renewals started or lapsed (daily)
+  private leaseExpiryService = new LeaseExpiryService(this.io);
+
   // CORS policy (allowlist driven)
   private corsOptions: cors.CorsOptions = {
     origin: (origin, cb) => {
@@ -207,7 +241,7 @@ export default class App {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Authorization', 'Content-Type', 'X-Requested-With'],
+    allowedHeaders: ['Authorization', 'Content-Type', 'X-Requested-With', 'X-API-Key'],
     optionsSuccessStatus: 204,
   };
 
@@ -265,6 +299,20 @@ export default class App {
     // 2) Optional DB handshake (e.g., change streams support)
     const hello = await this.db.handshake('prop-ease-api');
 
+    // 2b) Backfill GeoJSON points for properties saved before geo search (best effort)
+    PropertyGeoService.backfill()
+      .then((n) => { if(n) console.log(`[property-geo] backfilled ${n} properties`); })
+      .catch((err) => console.error('[property-geo] backfill error:', err?.message || err));
+
+    // 2c) Swap any older property text index for the weighted one (best effort)
+    PropertySearchService.ensureTextIndex()
+      .catch((err) => console.error('[property-search] text index error:', err?.message || err));
+
+    // 2d) Map legacy lease statuses onto the lease lifecycle (idempotent)
+    await LeaseLifecycleService.migrateLegacyStatuses()
+      .then((n) => { if(n) console.log(`[lease-lifecycle] migrated ${n} legacy lease status(es)`); })
+      .catch((err) => console.error('[lease-lifecycle] migration error:', err?.message || err));
+
     // 3) Harden Express defaults
     this.app.disable('x-powered-by');  // Hide Express fingerprint
     this.app.set('trust proxy', 1);    // Needed behind proxy/LB to make req.ip accurate
@@ -422,18 +470,30 @@ export default class App {
       return;
     });
 
-    // Public / separately guarded APIs
-    this.app.use('/api-user', this.user.route);
-    this.app.use('/api-tracking', this.tracking.route);
-    this.app.use('/api-property', this.property.route);
+    // Permission-guarded APIs: auth.optional attaches req.user when a token is sent,
+    // each route declares its module:action via Guards.requirePermission (public routes declare none)
+    this.app.use('/api-user', this.auth.optional, this.user.route);
+    this.app.use('/api-tracking', this.auth.optional, this.tracking.route);
+    this.app.use('/api-property', this.auth.optional, this.property.route);
+    this.app.use('/api-tenant', this.auth.optional, this.tenant.route);
+    this.app.use('/api-file-transfer', this.auth.optional, this.fileTransfer.route);
+    this.app.use('/api-lease', this.auth.optional, this.lease.route);
+    this.app.use('/api-invite', this.auth.optional, this.invite.route);
+    this.app.use('/api-key', this.auth.optional, this.apiKey.route);
+    this.app.use('/api-privacy', this.auth.optional, this.privacy.route);
+    this.app.use('/api-saved-search', this.auth.optional, this.savedSearch.route);
+    this.app.use('/api-syndication', this.auth.optional, this.syndication.route);
+    this.app.use('/api-building', this.auth.optional, this.building.route);
+    this.app.use('/api-listing-review', this.auth.optional, this.listingReview.route);
+    this.app.use('/api-billing', this.auth.optional, this.billing.route);
+    this.app.use('/api-lease-renewal', this.auth.optional, this.leaseRenewal.route);
+
+    // Public APIs
     this.app.use('/api-places', this.placesController.router);
-    this.app.use('/api-tenant', this.tenant.route);
-    this.app.use('/api-file-transfer', this.fileTransfer.route);
-    this.app.use('/api-lease', this.lease.route);
     this.app.use('/api-validator', this.validator.route);
 
-    // Notifications (protected)
-    this.app.use('/api-notification', this.auth.handler, this.notification.router);
+    // Notifications (protected; user sessions only, API keys carry no notification scope)
+    this.app.use('/api-notification', this.auth.handler, Guards.forbidApiKey(), this.notification.router);
 
     // Health probe (for uptime monitors/orchestrators)
     this.app.get('/api/health', async (_req: Request, res: Response) => {
@@ -558,6 +618,7 @@ export default class App {
       console.log(`\n${signal} received — shutting down…`);
       this.httpServer.close(() => console.log('HTTP server closed.'));
       try {
+        await PdfService.close();
         await this.db.close();
       } finally {
         // Failsafe exit if something hangs
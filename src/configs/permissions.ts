@@ -0,0 +1,98 @@
+// src/configs/permissions.ts
+// ─────────────────────────────────────────────────────────────────────────────
+// Permission catalogue + role defaults
+// - Single source of truth for the `module:action` pairs routes can require
+// - Role defaults are used when a user's stored `access` map has no entry
+//   for a module (see PermissionService for the merge rules)
+// - "*" is a wildcard for either the module or the action
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {PermissionEntry} from '../models/user.model';
+import type {Role} from '../types/roles';
+
+/** Modules that routes can protect (keep aligned with FE access editor). */
+export const PERMISSION_MODULES = [
+    'user',
+    'property',
+    'lease',
+    'tenant',
+    'file',
+    'tracking',
+    'review',   // listing approval workflow (view = review queue, edit = approve / reject)
+    'billing',  // invoices, payments, refunds and tenant ledgers
+] as const;
+
+/** Actions a module can grant (same vocabulary as PermissionEntry.actions). */
+export const PERMISSION_ACTIONS = ['view', 'create', 'edit', 'delete'] as const;
+
+export type PermissionModule = (typeof PERMISSION_MODULES)[number];
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+/** Wildcard that matches any module or any action. */
+export const PERMISSION_WILDCARD = '*';
+
+/** Small helper so role tables below stay readable. */
+const grant = (module: PermissionModule | '*', ...actions: Array<PermissionAction | '*'>): PermissionEntry => ({
+    module,
+    actions,
+});
+
+/**
+ * Default permissions per role.
+ * A stored access entry for the same module always wins over these defaults,
+ * so admins can narrow (or widen) a single module for a single user.
+ */
+export const ROLE_DEFAULT_PERMISSIONS: Readonly<Record<Role, ReadonlyArray<PermissionEntry>>> = {
+    admin: [grant('*', '*')],
+    manager: [
+        grant('user', 'view', 'create', 'edit'),
+        grant('property', '*'),
+        grant('lease', '*'),
+        grant('tenant', '*'),
+        grant('file', '*'),
+        grant('tracking', 'view', 'create'),
+        grant('review', 'view', 'edit'),
+        grant('billing', '*'),
+    ],
+    operator: [
+        grant('user', 'view'),
+        grant('property', 'view', 'create', 'edit'),
+        grant('lease', 'view', 'create', 'edit'),
+        grant('tenant', 'view', 'create', 'edit'),
+        grant('file', 'view', 'create'),
+        grant('tracking', 'view', 'create'),
+        grant('review', 'view'),
+        grant('billing', 'view', 'create', 'edit'),
+    ],
+    agent: [
+        grant('property', 'view', 'create', 'edit'),
+        grant('lease', 'view', 'create', 'edit'),
+        grant('tenant', 'view', 'create'),
+        grant('file', 'view', 'create'),
+        grant('tracking', 'create'),
+        grant('billing', 'view'),
+    ],
+    owner: [
+        grant('property', 'view', 'edit'),
+        grant('lease', 'view'),
+        grant('tenant', 'view'),
+        grant('file', 'view'),
+        grant('tracking', 'create'),
+        grant('billing', 'view'),
+    ],
+    developer: [
+        grant('property', 'view', 'create', 'edit'),
+        grant('file', 'view', 'create'),
+        grant('tracking', 'create'),
+    ],
+    tenant: [
+        grant('property', 'view'),
+        grant('lease', 'view'),
+        grant('file', 'view', 'create'),
+        grant('tracking', 'create'),
+    ],
+    user: [
+        grant('property', 'view'),
+        grant('tracking', 'create'),
+    ],
+};
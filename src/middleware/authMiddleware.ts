@@ -2,11 +2,19 @@
 import {Request, Response, NextFunction, RequestHandler} from 'express';
 import jwt from 'jsonwebtoken';
 import {Role} from '../types/roles';
+import {ApiKeyContext, ApiKeyService} from '../services/api-key.service';
+import {ImpersonationService, ImpersonatorClaim} from '../services/impersonation.service';
 
 declare global {
     namespace Express {
-        interface UserPayload {username: string; role: Role}
-        interface Request {user?: UserPayload}
+        interface UserPayload {
+            username: string;
+            role: Role;
+            sid?: string;
+            /** Set when an admin is viewing as this user (the real caller) */
+            impersonator?: {username: string; role: Role};
+        }
+        interface Request {user?: UserPayload; apiKey?: ApiKeyContext}
     }
 }
 
@@ -46,36 +54,155 @@ export default class AuthMiddleware {
         return bearer || cookieToken;
     }
 
+    /** Bearer token sent explicitly (takes precedence over X-API-Key) */
+    private hasBearer(req: Request): boolean {
+        return (req.headers.authorization || '').startsWith('Bearer ');
+    }
+
+    /** X-API-Key header for scripts/integrations */
+    private extractApiKey(req: Request): string | undefined {
+        const raw = req.headers['x-api-key'];
+        const key = Array.isArray(raw) ? raw[0] : raw;
+        return key?.trim() || undefined;
+    }
+
+    /**
+     * Authenticate with an API key and attach req.user + req.apiKey.
+     *  - 'ok'       → caller continues
+     *  - 'invalid'  → unknown/expired/revoked key (caller decides 401 or pass-through)
+     *  - 'rejected' → response already sent (429 rate limited)
+     */
+    private async useApiKey(req: Request, res: Response, key: string, reqId: string): Promise<'ok' | 'invalid' | 'rejected'> {
+        let result;
+        try {
+            result = await ApiKeyService.authenticate(key, req.ip || '');
+        } catch(e: any) {
+            this.log(`[${reqId}] AUTH api key lookup failed: ${e?.message || e}`);
+            return 'invalid';
+        }
+
+        if(!result.ok) {
+            if(result.reason === 'RATE_LIMITED') {
+                res.setHeader('Retry-After', String(result.rate.resetSeconds));
+                res.setHeader('X-RateLimit-Limit', String(result.rate.limit));
+                res.setHeader('X-RateLimit-Remaining', '0');
+                res.status(429).json({message: 'API key rate limit exceeded', retryAfterSeconds: result.rate.resetSeconds});
+                return 'rejected';
+            }
+            this.log(`[${reqId}] AUTH api key rejected: ${result.reason}`);
+            return 'invalid';
+        }
+
+        res.setHeader('X-RateLimit-Limit', String(result.rate.limit));
+        res.setHeader('X-RateLimit-Remaining', String(result.rate.remaining));
+        req.user = result.user;
+        req.apiKey = result.context;
+        return 'ok';
+    }
+
     /** Verify JWT safely; returns payload or undefined (and logs reason) */
-    private verifyToken(token: string, reqId: string): {username: string; role: Role} | undefined {
+    private verifyToken(token: string, reqId: string): {username: string; role: Role; sid?: string; act?: ImpersonatorClaim} | undefined {
         try {
-            return jwt.verify(token, this.secret) as {username: string; role: Role};
+            return jwt.verify(token, this.secret) as {username: string; role: Role; sid?: string; act?: ImpersonatorClaim};
         } catch(e: any) {
             this.log(`[${reqId}] AUTH invalid token: ${e?.name || 'Error'} – ${e?.message || ''}`);
             return undefined;
         }
     }
 
-    /** Use this for normal protected routes (keeps RequestHandler signature) */
-    public handler: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
-        if(req.method === 'OPTIONS') {next(); return;} // never block preflight
+    /**
+     * Verify JWT + server-side session (revoked/logged-out sessions are rejected).
+     * Tokens without a session id (legacy 30-day tokens) are no longer accepted.
+     * Impersonation tokens are checked against their grant (and the admin's session).
+     */
+    private async authenticate(token: string, reqId: string): Promise<Express.UserPayload | undefined> {
+        const payload = this.verifyToken(token, reqId);
+        if(!payload) return undefined;
 
-        const id = (req as any).reqId || '-';
-        const token = this.extractToken(req);
+        try {
+            if(!(await ImpersonationService.isTokenActive(payload))) {
+                this.log(`[${reqId}] AUTH revoked/unknown session user=${payload.username} sid=${payload.sid ?? '-'}`);
+                return undefined;
+            }
+        } catch(e: any) {
+            this.log(`[${reqId}] AUTH session lookup failed: ${e?.message || e}`);
+            return undefined;
+        }
+
+        const user: Express.UserPayload = {username: payload.username, role: payload.role};
+        if(payload.sid) user.sid = payload.sid;
+        if(payload.act) user.impersonator = {username: payload.act.username, role: payload.act.role};
+        return user;
+    }
+
+    /**
+     * Requests made while impersonating are written to the admin's activity log,
+     * and deletes are refused outright. Returns false when the response was sent.
+     */
+    private superviseImpersonation(req: Request, res: Response, reqId: string): boolean {
+        const user = req.user;
+        if(!user?.impersonator) return true;
+
+        const impersonator = user.impersonator.username;
+        res.on('finish', () => {
+            ImpersonationService.audit({
+                impersonator,
+                target: user.username,
+                sessionId: user.sid ?? '-',
+                ip: req.ip || '',
+                action: `${req.method} ${req.originalUrl} → ${res.statusCode}`,
+            }).catch((e) => this.log(`[${reqId}] AUTH impersonation audit failed: ${e?.message || e}`));
+        });
+
+        if(req.method === 'DELETE') {
+            this.log(`[${reqId}] AUTH blocked delete while impersonating user=${user.username} by=${impersonator}`);
+            res.status(403).json({
+                status: 'error',
+                code: 'IMPERSONATION_RESTRICTED',
+                message: 'This action is not allowed while impersonating a user',
+            });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Strict identification shared by handler/roles: bearer JWT, then X-API-Key, then cookie.
+     * Sends 401/429 itself and returns undefined when the caller must stop.
+     */
+    private async identify(req: Request, res: Response, id: string): Promise<Express.UserPayload | undefined> {
+        const apiKey = this.hasBearer(req) ? undefined : this.extractApiKey(req);
+        if(apiKey) {
+            const outcome = await this.useApiKey(req, res, apiKey, id);
+            if(outcome === 'invalid') this.deny(res, 401, 'Unauthorized');
+            return outcome === 'ok' ? req.user : undefined;
+        }
 
+        const token = this.extractToken(req);
         if(!token) {
-            this.log(`[${id}] AUTH miss: no token (bearer/cookie). url=${req.originalUrl}`);
+            this.log(`[${id}] AUTH miss: no token (bearer/cookie/api key). url=${req.originalUrl}`);
             this.deny(res, 401, 'Unauthorized');
-            return;
+            return undefined;
         }
 
-        const payload = this.verifyToken(token, id);
+        const payload = await this.authenticate(token, id);
         if(!payload) {
             this.deny(res, 401, 'Unauthorized');
-            return;
+            return undefined;
         }
 
-        req.user = {username: payload.username, role: payload.role};
+        req.user = payload;
+        if(!this.superviseImpersonation(req, res, id)) return undefined;
+        return payload;
+    }
+
+    /** Use this for normal protected routes (keeps RequestHandler signature) */
+    public handler: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if(req.method === 'OPTIONS') {next(); return;} // never block preflight
+
+        const id = (req as any).reqId || '-';
+        const payload = await this.identify(req, res, id);
+        if(!payload) return;
 
         // If roles are configured (non-empty), enforce
         if(this.allowedRoles.length && !this.allowedRoles.includes(payload.role)) {
@@ -90,6 +217,31 @@ export default class AuthMiddleware {
         next();
     };
 
+    /**
+     * Soft variant for routers that mix public and protected routes:
+     * attaches req.user when a valid token is present, never rejects.
+     * Per-route guards (Guards.requirePermission) decide what needs a user.
+     */
+    public optional: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const id = (req as any).reqId || '-';
+        const apiKey = this.hasBearer(req) ? undefined : this.extractApiKey(req);
+        if(apiKey) {
+            // An exhausted key is still answered with 429 rather than silently downgraded
+            if((await this.useApiKey(req, res, apiKey, id)) !== 'rejected') next();
+            return;
+        }
+
+        const token = this.extractToken(req);
+        if(!token) {next(); return;}
+
+        const payload = await this.authenticate(token, id);
+        if(payload) {
+            req.user = payload;
+            if(!this.superviseImpersonation(req, res, id)) return;
+        }
+        next();
+    };
+
     /**
      * Route-specific role filter:
      *   app.use('/admin', auth.roles(['admin']), adminRouter)
@@ -98,25 +250,12 @@ export default class AuthMiddleware {
         // Normalize once to avoid undefined and satisfy exactOptionalPropertyTypes
         const allowed = Object.freeze([...(roles ?? [])]);
 
-        return (req: Request, res: Response, next: NextFunction): void => {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
             if(req.method === 'OPTIONS') {next(); return;}
 
             const id = (req as any).reqId || '-';
-            const token = this.extractToken(req);
-
-            if(!token) {
-                this.log(`[${id}] AUTH miss: no token (bearer/cookie). url=${req.originalUrl}`);
-                this.deny(res, 401, 'Unauthorized');
-                return;
-            }
-
-            const payload = this.verifyToken(token, id);
-            if(!payload) {
-                this.deny(res, 401, 'Unauthorized');
-                return;
-            }
-
-            req.user = {username: payload.username, role: payload.role};
+            const payload = await this.identify(req, res, id);
+            if(!payload) return;
 
             if(allowed.length && !allowed.includes(payload.role)) {
                 this.log(
@@ -1,6 +1,13 @@
 ///src/middleware/guards.ts
 import {Request, Response, NextFunction, RequestHandler} from "express";
 import {Role} from "../types/roles";
+import {PermissionAction, PermissionModule} from "../configs/permissions";
+import {PermissionService} from "../services/permission.service";
+
+export type PermissionGuardOptions = {
+    /** Route param holding a username; the caller may act on their own record without the permission (if active and verified) */
+    selfParam?: string;
+};
 
 export default class Guards {
     public static requireRole(role: Role): RequestHandler {
@@ -9,7 +16,8 @@ export default class Guards {
             if(req.method === "OPTIONS") {next(); return;}
 
             const user = req.user; // <- from your declare global augmentation
-            if(user?.role === role) {
+            // Role-gated routes are for signed-in people, never API keys
+            if(user?.role === role && !req.apiKey) {
                 next();
                 return;
             }
@@ -17,4 +25,107 @@ export default class Guards {
             res.status(403).json({status: "error", message: "Forbidden"});
         };
     }
-}
\ No newline at end of file
+
+    /**
+     * Any signed-in caller (for self-service routes that need no module permission).
+     * API keys are refused here: account/session self-service needs a real login.
+     */
+    public static requireAuth(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if(req.method === "OPTIONS") {next(); return;}
+            if(req.apiKey) {
+                res.status(403).json({status: "error", code: "API_KEY_NOT_ALLOWED", message: "API keys cannot be used for this endpoint"});
+                return;
+            }
+            if(req.user) {next(); return;}
+            res.status(401).json({status: "error", message: "Unauthorized"});
+        };
+    }
+
+    /**
+     * Refuse API keys on routes that also serve anonymous callers
+     * (e.g. 2FA enrollment with an mfaToken) — like requireAuth, minus the login.
+     */
+    public static forbidApiKey(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if(req.method === "OPTIONS") {next(); return;}
+            if(!req.apiKey) {next(); return;}
+            res.status(403).json({status: "error", code: "API_KEY_NOT_ALLOWED", message: "API keys cannot be used for this endpoint"});
+        };
+    }
+
+    /**
+     * Refuse the route while an admin is impersonating someone
+     * (credential/security changes must be made by the account owner).
+     */
+    public static forbidImpersonation(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if(req.method === "OPTIONS") {next(); return;}
+            if(!req.user?.impersonator) {next(); return;}
+            res.status(403).json({
+                status: "error",
+                code: "IMPERSONATION_RESTRICTED",
+                message: "This action is not allowed while impersonating a user",
+            });
+        };
+    }
+
+    /**
+     * Per-route permission check against the caller's stored access map
+     * (merged with role defaults). Requires req.user (auth.handler/auth.optional).
+     *   router.get('/x', Guards.requirePermission('property', 'view'), handler)
+     */
+    public static requirePermission(
+        module: PermissionModule,
+        action: PermissionAction,
+        options: PermissionGuardOptions = {}
+    ): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+            if(req.method === "OPTIONS") {next(); return;}
+
+            const user = req.user;
+            if(!user) {
+                res.status(401).json({status: "error", message: "Unauthorized"});
+                return;
+            }
+
+            // API keys: the key's scopes must cover the route, whoever owns it
+            if(req.apiKey && !PermissionService.allows(req.apiKey.scopes, module, action)) {
+                res.status(403).json({
+                    status: "error",
+                    code: "API_KEY_SCOPE",
+                    message: `API key is not scoped for "${module}:${action}"`,
+                    required: {module, action},
+                    reason: "MISSING_SCOPE",
+                });
+                return;
+            }
+
+            const target = options.selfParam ? String(req.params[options.selfParam] ?? "").trim() : "";
+            const self = !!target && target === user.username;
+
+            try {
+                // Service accounts act on scopes alone; user keys also need the owner's permission
+                if(req.apiKey?.ownerType === "service") {next(); return;}
+
+                // Self access skips the module/action match only; inactive / unverified accounts are still refused
+                const decision = await PermissionService.check(user.username, module, action);
+                if(decision.allowed || (self && decision.reason === "MISSING_PERMISSION")) {next(); return;}
+
+                const unverified = decision.reason === "ACCOUNT_NOT_VERIFIED";
+                res.status(403).json({
+                    status: "error",
+                    code: unverified ? "ACCOUNT_NOT_VERIFIED" : "PERMISSION_DENIED",
+                    message: unverified
+                        ? "Please verify your email/phone to continue"
+                        : `Missing permission "${module}:${action}"`,
+                    required: {module, action},
+                    reason: decision.reason,
+                });
+            } catch(error) {
+                console.error("[guards] permission check error:", error);
+                res.status(500).json({status: "error", message: "Permission check failed"});
+            }
+        };
+    }
+}
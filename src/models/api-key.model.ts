@@ -0,0 +1,82 @@
+// models/api-key.model.ts
+// ============================================================================
+// API Key Model
+// - Long-lived credentials for scripts / integrations (sent as X-API-Key).
+// - Owned by a user (acts with that user's permissions, narrowed by scopes)
+//   or by a named service account (acts with its scopes only).
+// - Only the SHA-256 of the key is stored; `prefix` is kept for display.
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+import {PermissionEntry} from "./user.model";
+
+export type ApiKeyOwnerType = "user" | "service";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface ApiKeyRateLimit {
+  max: number;                // requests allowed per window
+  windowSeconds: number;
+}
+
+export interface IApiKey extends Document {
+  keyId: string;              // public id (uuid)
+  name: string;               // label, e.g. "Accounting nightly sync"
+  prefix: string;             // first characters of the key (shown in lists)
+  keyHash: string;            // SHA-256 of the full key
+  ownerType: ApiKeyOwnerType;
+  owner: string;              // username or service account name
+  scopes: PermissionEntry[];  // same module/action vocabulary as user access
+  rateLimit: ApiKeyRateLimit;
+  expiresAt?: Date | null;    // null → never expires
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string;
+  usageCount: number;
+  revokedAt?: Date | null;
+  revokedBy?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const ScopeSchema = new Schema<PermissionEntry>(
+  {
+    module: {type: String, required: true},
+    actions: {type: [String], default: []},
+  },
+  {_id: false}
+);
+
+const RateLimitSchema = new Schema<ApiKeyRateLimit>(
+  {
+    max: {type: Number, required: true, min: 1},
+    windowSeconds: {type: Number, required: true, min: 1},
+  },
+  {_id: false}
+);
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    keyId: {type: String, required: true, unique: true},
+    name: {type: String, required: true, trim: true},
+    prefix: {type: String, required: true},
+    keyHash: {type: String, required: true, unique: true},
+    ownerType: {type: String, enum: ["user", "service"], required: true},
+    owner: {type: String, required: true},
+    scopes: {type: [ScopeSchema], default: []},
+    rateLimit: {type: RateLimitSchema, required: true},
+    expiresAt: {type: Date, default: null},
+    lastUsedAt: {type: Date, default: null},
+    lastUsedIp: {type: String},
+    usageCount: {type: Number, default: 0},
+    revokedAt: {type: Date, default: null},
+    revokedBy: {type: String},
+    createdBy: {type: String, required: true},
+  },
+  {timestamps: true}
+);
+
+ApiKeySchema.index({ownerType: 1, owner: 1, createdAt: -1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const ApiKeyModel = model<IApiKey>("ApiKey", ApiKeySchema);
@@ -0,0 +1,105 @@
+// models/building.model.ts
+// ============================================================================
+// Building Model
+// - Parent entity of multi-unit properties (apartment block, tower, compound)
+// - Holds the attributes its units share: address, location, developer,
+//   amenities, ownership … (see BuildingService.SHARED_FIELDS)
+// - Units stay regular Property documents with `buildingId`; the shared values
+//   are copied onto them, so every existing property read keeps working
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+import {Address, CountryDetails, GeoPoint, GoogleMapLocation} from "./property.model";
+
+export type BuildingKind = "apartment block" | "tower" | "complex" | "compound" | "mixed-use" | "other";
+export const BUILDING_KINDS: BuildingKind[] = ["apartment block", "tower", "complex", "compound", "mixed-use", "other"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface IBuilding extends Document {
+  buildingId: string;          // public id (uuid)
+  name: string;                // e.g. "Harbour View Residences"
+  kind: BuildingKind;
+  description: string;
+  plannedUnits: number;        // declared number of units (0 = unknown)
+
+  // --- Shared with units ---
+  address: Address;
+  countryDetails?: CountryDetails;
+  location?: GoogleMapLocation;
+  geo?: GeoPoint;
+  developerName: string;
+  projectName: string;
+  builtYear: number;
+  totalFloors: number;
+  ownerShipType: string;
+  owner: string;
+  featuresAndAmenities: string[];
+
+  createdBy: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const AddressSchema = new Schema<Address>(
+  {
+    houseNumber: {type: String, default: ""},
+    street: {type: String, default: ""},
+    city: {type: String, required: true},
+    stateOrProvince: {type: String, default: ""},
+    postcode: {type: String, default: ""},
+    country: {type: String, required: true},
+  },
+  {_id: false}
+);
+
+const LocationSchema = new Schema<GoogleMapLocation>(
+  {
+    lat: {type: Number, required: true},
+    lng: {type: Number, required: true},
+    embeddedUrl: {type: String, default: ""},
+  },
+  {_id: false}
+);
+
+const GeoPointSchema = new Schema<GeoPoint>(
+  {
+    type: {type: String, enum: ["Point"], required: true},
+    coordinates: {type: [Number], required: true},
+  },
+  {_id: false}
+);
+
+const BuildingSchema = new Schema<IBuilding>(
+  {
+    buildingId: {type: String, required: true, unique: true},
+    name: {type: String, required: true, trim: true},
+    kind: {type: String, enum: BUILDING_KINDS, default: "apartment block"},
+    description: {type: String, default: ""},
+    plannedUnits: {type: Number, default: 0, min: 0},
+
+    address: {type: AddressSchema, required: true},
+    countryDetails: {type: Schema.Types.Mixed, default: undefined},
+    location: {type: LocationSchema, default: undefined},
+    geo: {type: GeoPointSchema, default: undefined},
+    developerName: {type: String, default: ""},
+    projectName: {type: String, default: ""},
+    builtYear: {type: Number, default: 0},
+    totalFloors: {type: Number, default: 0},
+    ownerShipType: {type: String, default: ""},
+    owner: {type: String, default: ""},
+    featuresAndAmenities: {type: [String], default: []},
+
+    createdBy: {type: String, required: true},
+    updatedBy: {type: String},
+  },
+  {timestamps: true}
+);
+
+BuildingSchema.index({name: 1});
+BuildingSchema.index({"address.city": 1, "address.country": 1});
+BuildingSchema.index({geo: "2dsphere"});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const BuildingModel = model<IBuilding>("Building", BuildingSchema);
@@ -0,0 +1,72 @@
+// models/data-erasure.model.ts
+// ============================================================================
+// Data Erasure Model
+// - One document per right-to-erasure request (runs as a background job).
+// - Stores the report of what was removed / anonymised / retained.
+// - Never stores the subject's username in clear: only its SHA-256 and the
+//   pseudonym that replaced it on retained records.
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type ErasureStatus = "queued" | "running" | "completed" | "failed";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+/** One line of the erasure report. */
+export interface ErasureReportItem {
+  source: string;              // collection or folder, e.g. "users", "uploads/tenants"
+  action: "removed" | "anonymised" | "retained";
+  count: number;               // documents / files affected
+  fields?: string[];           // anonymised fields (when action = anonymised)
+  reason?: string;             // why something was retained
+}
+
+export interface IDataErasure extends Document {
+  requestId: string;           // public id (uuid)
+  subjectHash: string;         // SHA-256 of the erased username
+  pseudonym: string;           // replacement identifier on retained records
+  requestedBy: string;
+  note?: string;
+  dryRun: boolean;             // report only, nothing changed
+  status: ErasureStatus;
+  report: ErasureReportItem[];
+  bytesRemoved: number;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const ErasureReportItemSchema = new Schema<ErasureReportItem>(
+  {
+    source: {type: String, required: true},
+    action: {type: String, enum: ["removed", "anonymised", "retained"], required: true},
+    count: {type: Number, default: 0},
+    fields: {type: [String], default: undefined},
+    reason: {type: String},
+  },
+  {_id: false}
+);
+
+const DataErasureSchema = new Schema<IDataErasure>(
+  {
+    requestId: {type: String, required: true, unique: true},
+    subjectHash: {type: String, required: true, index: true},
+    pseudonym: {type: String, required: true},
+    requestedBy: {type: String, required: true},
+    note: {type: String},
+    dryRun: {type: Boolean, default: false},
+    status: {type: String, enum: ["queued", "running", "completed", "failed"], default: "queued"},
+    report: {type: [ErasureReportItemSchema], default: []},
+    bytesRemoved: {type: Number, default: 0},
+    error: {type: String},
+    startedAt: {type: Date},
+    completedAt: {type: Date},
+  },
+  {timestamps: true}
+);
+
+// -------------------------- MODEL EXPORT --------------------------
+export const DataErasureModel = model<IDataErasure>("DataErasure", DataErasureSchema);
@@ -0,0 +1,101 @@
+// models/invite.model.ts
+// ============================================================================
+// Invite Model
+// - Invitation-based onboarding: an admin/manager invites an email address
+//   with a role + initial access map; the invitee completes their own profile.
+// - Only the SHA-256 of the invite token is stored.
+// - Invites are kept after acceptance/revocation for auditing (no TTL).
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+import {PermissionEntry, ROLE_ACCESS_MAP} from "./user.model";
+import {Role} from "../types/roles";
+
+export type InviteStatus = "pending" | "accepted" | "expired" | "revoked";
+export const INVITE_STATUSES: ReadonlyArray<InviteStatus> = ["pending", "accepted", "expired", "revoked"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+/** One audit trail entry (who did what to the invite, and when). */
+export interface InviteHistoryEntry {
+  action: "created" | "resent" | "revoked" | "accepted" | "expired";
+  by: string;           // username, invitee email or "system"
+  at: Date;
+  note?: string;
+}
+
+export interface IInvite extends Document {
+  inviteId: string;           // public id (uuid)
+  email: string;              // lower-cased invitee email
+  name?: string;              // optional prefill for the profile form
+  role: Role;
+  access: ROLE_ACCESS_MAP;    // initial access map copied to the new user
+  message?: string;           // personal note shown in the email
+  tokenHash: string;
+  status: InviteStatus;
+  expiresAt: Date;
+  invitedBy: string;
+  sentCount: number;
+  lastSentAt?: Date;
+  acceptedAt?: Date;
+  acceptedUsername?: string;
+  revokedAt?: Date;
+  revokedBy?: string;
+  history: InviteHistoryEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const PermissionEntrySchema = new Schema<PermissionEntry>(
+  {
+    module: {type: String, required: true},
+    actions: {type: [String], default: []},
+  },
+  {_id: false}
+);
+
+const InviteHistorySchema = new Schema<InviteHistoryEntry>(
+  {
+    action: {type: String, enum: ["created", "resent", "revoked", "accepted", "expired"], required: true},
+    by: {type: String, required: true},
+    at: {type: Date, required: true, default: Date.now},
+    note: {type: String},
+  },
+  {_id: false}
+);
+
+const InviteSchema = new Schema<IInvite>(
+  {
+    inviteId: {type: String, required: true, unique: true},
+    email: {type: String, required: true, lowercase: true, trim: true},
+    name: {type: String},
+    role: {
+      type: String,
+      enum: ["admin", "agent", "tenant", "owner", "operator", "manager", "developer", "user"],
+      required: true,
+    },
+    access: {
+      role: {type: String, required: true},
+      permissions: {type: [PermissionEntrySchema], default: []},
+    },
+    message: {type: String},
+    tokenHash: {type: String, required: true, unique: true},
+    status: {type: String, enum: INVITE_STATUSES, default: "pending"},
+    expiresAt: {type: Date, required: true},
+    invitedBy: {type: String, required: true},
+    sentCount: {type: Number, default: 1},
+    lastSentAt: {type: Date},
+    acceptedAt: {type: Date},
+    acceptedUsername: {type: String},
+    revokedAt: {type: Date},
+    revokedBy: {type: String},
+    history: {type: [InviteHistorySchema], default: []},
+  },
+  {timestamps: true}
+);
+
+InviteSchema.index({invitedBy: 1, createdAt: -1});
+InviteSchema.index({email: 1, status: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const InviteModel = model<IInvite>("Invite", InviteSchema);
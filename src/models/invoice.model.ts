@@ -0,0 +1,123 @@
+// models/invoice.model.ts
+// ============================================================================
+// Invoice Model
+// - What a tenant owes on a lease: one invoice per rent installment
+//   (see RentInstallmentModel) or per utility charge
+// - `amountPaid` / `balance` / `status` are kept in step by BillingService
+//   whenever a payment (or credit) is allocated to the invoice
+// - Void invoices stay for the record but no longer count towards balances
+// - Late-payment penalties are invoices too (kind "penalty"): one per overdue
+//   invoice and penalty rule, growing as LatePaymentPenaltyService re-assesses it
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type InvoiceKind = "rent" | "utility" | "penalty";
+export const INVOICE_KINDS: InvoiceKind[] = ["rent", "utility", "penalty"];
+
+export type InvoiceStatus = "open" | "partially_paid" | "paid" | "void";
+export const INVOICE_STATUSES: InvoiceStatus[] = ["open", "partially_paid", "paid", "void"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+/** How a penalty invoice's amount was worked out (latest assessment). */
+export interface PenaltyAssessment {
+  type: string;                // fixed | percentage | per-day
+  value: number;
+  daysLate: number;            // days past due date + grace
+  periods: number;             // times a fixed / percentage charge applied
+  capped: boolean;
+  assessedAt: Date;
+}
+
+export interface IInvoice extends Document {
+  invoiceId: string;           // public id (uuid)
+  invoiceNumber: string;       // human reference, e.g. "INV-20250101-4F9A2C"
+  leaseID: string;
+  propertyID: string;
+  tenantUsername: string;
+
+  kind: InvoiceKind;
+  installmentId?: string;      // rent invoices
+  utility?: string;            // utility invoices, e.g. "Electricity"
+  penaltyOf?: string;          // penalty invoices: the overdue invoiceId
+  penaltyRule?: string;        // penalty invoices: "<type>:<label>" of the lease rule
+  penaltyAssessment?: PenaltyAssessment;
+  description: string;
+
+  periodStart?: Date;
+  periodEnd?: Date;            // inclusive
+  issueDate: Date;
+  dueDate: Date;
+
+  currency: string;            // ISO code
+  amount: number;
+  amountPaid: number;
+  balance: number;             // amount - amountPaid
+  status: InvoiceStatus;
+  paidAt?: Date;
+  overdueNotifiedAt?: Date;    // "Invoice Overdue" sent (once per invoice)
+
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const InvoiceSchema = new Schema<IInvoice>(
+  {
+    invoiceId: {type: String, required: true, unique: true},
+    invoiceNumber: {type: String, required: true, unique: true},
+    leaseID: {type: String, required: true},
+    propertyID: {type: String, required: true},
+    tenantUsername: {type: String, required: true},
+
+    kind: {type: String, enum: INVOICE_KINDS, required: true},
+    installmentId: {type: String},
+    utility: {type: String},
+    penaltyOf: {type: String},
+    penaltyRule: {type: String},
+    penaltyAssessment: {type: Schema.Types.Mixed, default: undefined},
+    description: {type: String, default: ""},
+
+    periodStart: {type: Date},
+    periodEnd: {type: Date},
+    issueDate: {type: Date, required: true},
+    dueDate: {type: Date, required: true},
+
+    currency: {type: String, default: ""},
+    amount: {type: Number, required: true, min: 0},
+    amountPaid: {type: Number, default: 0, min: 0},
+    balance: {type: Number, required: true, min: 0},
+    status: {type: String, enum: INVOICE_STATUSES, default: "open"},
+    paidAt: {type: Date},
+    overdueNotifiedAt: {type: Date},
+
+    voidedAt: {type: Date},
+    voidedBy: {type: String},
+    voidReason: {type: String},
+
+    createdBy: {type: String, required: true},
+  },
+  {timestamps: true}
+);
+
+// One invoice per installment (generation is idempotent)
+InvoiceSchema.index(
+  {installmentId: 1},
+  {unique: true, partialFilterExpression: {installmentId: {$type: "string"}}}
+);
+// One penalty invoice per overdue invoice and rule
+InvoiceSchema.index(
+  {penaltyOf: 1, penaltyRule: 1},
+  {unique: true, partialFilterExpression: {penaltyOf: {$type: "string"}}}
+);
+InvoiceSchema.index({leaseID: 1, dueDate: 1});
+InvoiceSchema.index({tenantUsername: 1, dueDate: 1});
+InvoiceSchema.index({status: 1, dueDate: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const InvoiceModel = model<IInvoice>("Invoice", InvoiceSchema);
@@ -4,39 +4,43 @@ import mongoose, {Schema, Document} from "mongoose";
 import {Property} from "./property.model";
 
 // ======================= DATA =============================
-const VALIDATION_STATUSES = [
-  // Initial states
+// Lease lifecycle (see LeaseLifecycleService for the allowed transitions)
+//   draft → pending_review → approved → active → expiring → expired / renewed
+//   side exits: rejected, cancelled, suspended, terminated; archived at the end
+export const LEASE_STATES = [
   "draft",
-  "pending",
-  "waiting",
-  "hold",
-  "under review",
-  "processing",
-
-  // Approved / Completed
+  "pending_review",
   "approved",
-  "validated",
-  "reviewed",
-  "completed",
-  "active",
-
-  // Rejections and Failures
   "rejected",
   "cancelled",
-  "cancel",
-  "flagged",
-
-  // Inactive / Suspended
-  "inactive",
-  "deactivated",
-  "deactive",
+  "active",
+  "expiring",
   "suspended",
   "expired",
-
-  // Archived
+  "terminated",
+  "renewed",
   "archived"
 ] as const;
 
+export type LeaseState = (typeof LEASE_STATES)[number];
+
+export const LEASE_ACTIONS = [
+  "submit",
+  "approve",
+  "reject",
+  "cancel",
+  "activate",
+  "mark_expiring",
+  "expire",
+  "suspend",
+  "reinstate",
+  "terminate",
+  "renew",
+  "archive"
+] as const;
+
+export type LeaseAction = (typeof LEASE_ACTIONS)[number];
+
 // ======================= INTERFACES =======================
 
 export interface FILE {
@@ -188,6 +192,11 @@ export interface LatePaymentPenalty {
   value: number; // Amount, %, or per-day fee
   description: string; // Explanation for user/admin
   isEditable?: boolean;
+  graceDays?: number; // days after the due date before it applies (default: LATE_PAYMENT_GRACE_DAYS)
+  repeatEveryDays?: number; // fixed / percentage: charged again every N days while unpaid (0 = once)
+  compounding?: boolean; // percentage: each repeat also charges on earlier penalties
+  maxAmount?: number; // cap per invoice (0 = none)
+  maxPercent?: number; // cap per invoice as % of the invoice amount (0 = none)
 }
 
 // Utilities Format For The Lease Agreement
@@ -242,18 +251,67 @@ export interface Signatures {
 // System Metadata Format For The Lease Agreement
 export interface SystemMetadata {
   ocrAutoFillStatus: boolean;
-  validationStatus: string;
+  validationStatus: string; // lifecycle state (LeaseState); changed only through LeaseLifecycleService
   language: string;
   leaseTemplateVersion: string;
   pdfDownloadUrl?: string;
   lastUpdated: string; // ISO timestamp
 }
 
+// One step of the lease lifecycle (kept on the lease, newest last)
+export interface LeaseStatusChange {
+  action: LeaseAction | "create" | "migrate";
+  from: string;
+  to: LeaseState;
+  reason?: string;
+  actor: string; // username or "system"
+  actorRole?: string;
+  at: Date;
+}
+
+// CPI-style index value for one month ("YYYY-MM")
+export interface RentIndexPoint {
+  period: string;
+  value: number;
+}
+
+// How the rent moves when a lease is renewed
+export interface RentEscalation {
+  type: "fixed" | "percentage" | "index";
+  value?: number; // fixed: amount added; percentage: % added
+  indexTable?: RentIndexPoint[]; // index: rent follows current / base index value
+  basePeriod?: string; // index month of the current rent (default: start month of the lease)
+  currentPeriod?: string; // index month to move to (default: latest on or before the proposal)
+  capPercent?: number; // largest change allowed, in %
+  floorPercent?: number; // smallest change allowed, in % (may be negative)
+}
+
+// Renewal proposal, kept on the successor lease
+export interface LeaseRenewal {
+  predecessorLeaseID: string;
+  rootLeaseID: string; // first lease of the chain
+  generation: number; // 1 = first renewal
+  status: "proposed" | "accepted" | "declined" | "withdrawn" | "lapsed";
+  escalation: RentEscalation;
+  previousRent: number;
+  proposedRent: number;
+  changePercent: number;
+  respondBy?: Date;
+  note?: string;
+  proposedBy: string;
+  proposedAt: Date;
+  respondedBy?: string;
+  respondedAt?: Date;
+  responseNote?: string;
+  acceptedFrom?: {ipAddress: string; userAgent: string};
+}
+
 export interface LeasePayload {
   leaseID: string;
   tenantInformation: TenantInformation;
   coTenant?: CoTenant;
   propertyID: string;
+  buildingID?: string; // set when the property is a unit of a building
   leaseAgreement: LeaseAgreement;
   rulesAndRegulations: RulesAndRegulations[];
   isReadTheCompanyPolicy: boolean;
@@ -279,11 +337,15 @@ export interface LeaseType extends Document {
   tenantInformation: TenantInformation;
   coTenant?: CoTenant; // Optional: empty if none
   propertyID: string;
+  buildingID?: string; // set when the property is a unit of a building
   leaseAgreement: LeaseAgreement;
   rulesAndRegulations: RulesAndRegulations[];
   isReadTheCompanyPolicy: boolean;
   signatures: Signatures;
   systemMetadata: SystemMetadata;
+  statusHistory?: LeaseStatusChange[];
+  renewal?: LeaseRenewal; // set on a lease proposed as the renewal of another
+  successorLeaseID?: string; // set once a renewal of this lease was accepted
 }
 
 //<============================================================= Reusable Subschemas =============================================================>
@@ -387,6 +449,11 @@ const LatePaymentPenaltySchema = new Schema<LatePaymentPenalty>({
   value: {type: Number, required: true, default: 0},
   description: {type: String, required: true},
   isEditable: {type: Boolean, required: false, default: false},
+  graceDays: {type: Number, required: false, min: 0},
+  repeatEveryDays: {type: Number, required: false, min: 0},
+  compounding: {type: Boolean, required: false},
+  maxAmount: {type: Number, required: false, min: 0},
+  maxPercent: {type: Number, required: false, min: 0},
 });
 
 const UtilityResponsibilitySchema = new Schema<UtilityResponsibility>({
@@ -517,25 +584,8 @@ const SystemMetadataSchema = new Schema<SystemMetadata>({
   ocrAutoFillStatus: {type: Boolean, required: true, default: false},
   validationStatus: {
     type: String,
-    enum: [
-      "draft",
-      "pending",
-      "waiting",
-      "under review",
-      "processing",
-      "validated",
-      "approved",
-      "reviewed",
-      "rejected",
-      "cancelled",
-      "inactive",
-      "deactivated",
-      "suspended",
-      "expired",
-      "completed",
-      "archived",
-      "flagged"
-    ],
+    enum: LEASE_STATES,
+    default: "draft",
     required: true,
   },
   language: {type: String, required: true},
@@ -544,6 +594,54 @@ const SystemMetadataSchema = new Schema<SystemMetadata>({
   lastUpdated: {type: String, required: true},
 });
 
+const LeaseStatusChangeSchema = new Schema<LeaseStatusChange>(
+  {
+    action: {type: String, enum: [...LEASE_ACTIONS, "create", "migrate"], required: true},
+    from: {type: String, default: ""},
+    to: {type: String, enum: LEASE_STATES, required: true},
+    reason: {type: String},
+    actor: {type: String, required: true},
+    actorRole: {type: String},
+    at: {type: Date, required: true, default: () => new Date()},
+  },
+  {_id: false}
+);
+
+const RentEscalationSchema = new Schema<RentEscalation>(
+  {
+    type: {type: String, enum: ["fixed", "percentage", "index"], required: true},
+    value: {type: Number},
+    indexTable: {type: [{period: {type: String, required: true}, value: {type: Number, required: true}, _id: false}], default: undefined},
+    basePeriod: {type: String},
+    currentPeriod: {type: String},
+    capPercent: {type: Number},
+    floorPercent: {type: Number},
+  },
+  {_id: false}
+);
+
+const LeaseRenewalSchema = new Schema<LeaseRenewal>(
+  {
+    predecessorLeaseID: {type: String, required: true},
+    rootLeaseID: {type: String, required: true},
+    generation: {type: Number, required: true, min: 1},
+    status: {type: String, enum: ["proposed", "accepted", "declined", "withdrawn", "lapsed"], default: "proposed"},
+    escalation: {type: RentEscalationSchema, required: true},
+    previousRent: {type: Number, required: true},
+    proposedRent: {type: Number, required: true},
+    changePercent: {type: Number, default: 0},
+    respondBy: {type: Date},
+    note: {type: String},
+    proposedBy: {type: String, required: true},
+    proposedAt: {type: Date, required: true, default: () => new Date()},
+    respondedBy: {type: String},
+    respondedAt: {type: Date},
+    responseNote: {type: String},
+    acceptedFrom: {type: {ipAddress: String, userAgent: String, _id: false}},
+  },
+  {_id: false}
+);
+
 const LeaseSchema = new Schema<LeaseType>(
   {
     leaseID: {type: String, required: true},
@@ -558,6 +656,7 @@ const LeaseSchema = new Schema<LeaseType>(
       required: true,
       default: '',
     },
+    buildingID: {type: String, required: false},
     leaseAgreement: {type: LeaseAgreementSchema, required: true, default: {}},
     rulesAndRegulations: {
       type: [RulesAndRegulationsSchema],
@@ -567,8 +666,17 @@ const LeaseSchema = new Schema<LeaseType>(
     isReadTheCompanyPolicy: {type: Boolean, required: true, default: false},
     signatures: {type: SignaturesSchema, required: true, default: {}},
     systemMetadata: {type: SystemMetadataSchema, required: true, default: {}},
+    statusHistory: {type: [LeaseStatusChangeSchema], default: []},
+    renewal: {type: LeaseRenewalSchema, required: false},
+    successorLeaseID: {type: String, required: false},
   },
   {timestamps: true}
 );
 
+LeaseSchema.index({propertyID: 1});
+LeaseSchema.index({buildingID: 1}, {sparse: true});
+LeaseSchema.index({"systemMetadata.validationStatus": 1, "leaseAgreement.endDate": 1});
+LeaseSchema.index({"renewal.predecessorLeaseID": 1}, {sparse: true});
+LeaseSchema.index({"renewal.status": 1, "renewal.respondBy": 1}, {sparse: true});
+
 export const LeaseModel = mongoose.model("Lease", LeaseSchema);
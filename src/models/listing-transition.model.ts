@@ -0,0 +1,50 @@
+// models/listing-transition.model.ts
+// ============================================================================
+// Listing Transition Model
+// - One document per step of the listing review workflow
+//   (submit / approve / reject / publish / unpublish / archive)
+// - Keeps status + verificationStatus before and after, who and why
+// - Written by ListingWorkflowService; never edited
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type ListingAction = "submit" | "approve" | "reject" | "publish" | "unpublish" | "archive";
+export const LISTING_ACTIONS: ListingAction[] = ["submit", "approve", "reject", "publish", "unpublish", "archive"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface IListingTransition extends Document {
+  propertyId: string;
+  action: ListingAction;
+  fromStatus: string;
+  toStatus: string;
+  fromVerification: string;
+  toVerification: string;
+  comment?: string;
+  actor: string;               // username
+  actorRole?: string;
+  at: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const ListingTransitionSchema = new Schema<IListingTransition>(
+  {
+    propertyId: {type: String, required: true},
+    action: {type: String, enum: LISTING_ACTIONS, required: true},
+    fromStatus: {type: String, required: true},
+    toStatus: {type: String, required: true},
+    fromVerification: {type: String, required: true},
+    toVerification: {type: String, required: true},
+    comment: {type: String},
+    actor: {type: String, required: true},
+    actorRole: {type: String},
+    at: {type: Date, required: true, default: () => new Date()},
+  },
+  {versionKey: false}
+);
+
+ListingTransitionSchema.index({propertyId: 1, at: -1});
+ListingTransitionSchema.index({actor: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const ListingTransitionModel = model<IListingTransition>("ListingTransition", ListingTransitionSchema);
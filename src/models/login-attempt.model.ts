@@ -0,0 +1,39 @@
+// models/login-attempt.model.ts
+// ============================================================================
+// Login Attempt Model
+// - Failed sign-in counters per account ("user:<username>") and per client IP
+//   ("ip:<address>"), persisted so lockouts survive restarts.
+// - Documents expire on their own (TTL on expiresAt) once the window is over.
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+// -------------------------- INTERFACE (TypeScript) --------------------------
+export interface ILoginAttempt extends Document {
+  key: string;                  // "user:<username>" | "ip:<address>"
+  kind: "user" | "ip";
+  failures: number;             // failed attempts in the current window
+  lastFailureAt?: Date;         // drives the progressive delay
+  lockedUntil?: Date | null;    // temporary lockout
+  lockCount: number;            // how many times this key got locked (lock grows each time)
+  expiresAt: Date;              // TTL
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const LoginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {type: String, required: true, unique: true},
+    kind: {type: String, enum: ["user", "ip"], required: true},
+    failures: {type: Number, default: 0},
+    lastFailureAt: {type: Date},
+    lockedUntil: {type: Date, default: null},
+    lockCount: {type: Number, default: 0},
+    expiresAt: {type: Date, required: true, index: {expires: 0}},
+  },
+  {timestamps: true}
+);
+
+// -------------------------- MODEL EXPORT --------------------------
+export const LoginAttemptModel = model<ILoginAttempt>("LoginAttempt", LoginAttemptSchema);
@@ -0,0 +1,113 @@
+// models/payment.model.ts
+// ============================================================================
+// Payment Model
+// - Money received from (kind "payment") or returned to (kind "refund") a
+//   tenant on a lease
+// - A payment is split over invoices through `allocations`; whatever is not
+//   allocated stays as `unapplied` credit (overpayment) until it is applied
+//   to a later invoice or refunded
+// - Failed attempts are kept too (status "failed", nothing allocated)
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type PaymentKind = "payment" | "refund";
+export type PaymentStatus = "completed" | "failed";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+/** Payment method snapshot (taken from the lease's PaymentMethod by default). */
+export interface PaymentMethodSnapshot {
+  id: string;
+  name: string;
+  category: string;
+}
+
+export interface PaymentAllocation {
+  invoiceId: string;
+  invoiceNumber: string;
+  amount: number;
+  appliedAt: Date;
+}
+
+export interface IPayment extends Document {
+  paymentId: string;           // public id (uuid)
+  receiptNumber: string;       // e.g. "RCT-20250105-9B1C0D"
+  kind: PaymentKind;
+  status: PaymentStatus;
+
+  leaseID: string;
+  propertyID: string;
+  tenantUsername: string;
+
+  amount: number;
+  currency: string;
+  method: PaymentMethodSnapshot;
+  reference: string;           // bank / gateway transaction reference
+  note: string;
+  receivedAt: Date;
+
+  allocations: PaymentAllocation[];
+  unapplied: number;           // credit left on this payment
+  refundOf?: string;           // refunds: paymentId the credit came from
+  failureReason?: string;
+
+  recordedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const PaymentMethodSnapshotSchema = new Schema<PaymentMethodSnapshot>(
+  {
+    id: {type: String, default: ""},
+    name: {type: String, default: ""},
+    category: {type: String, default: ""},
+  },
+  {_id: false}
+);
+
+const PaymentAllocationSchema = new Schema<PaymentAllocation>(
+  {
+    invoiceId: {type: String, required: true},
+    invoiceNumber: {type: String, required: true},
+    amount: {type: Number, required: true, min: 0},
+    appliedAt: {type: Date, required: true},
+  },
+  {_id: false}
+);
+
+const PaymentSchema = new Schema<IPayment>(
+  {
+    paymentId: {type: String, required: true, unique: true},
+    receiptNumber: {type: String, required: true, unique: true},
+    kind: {type: String, enum: ["payment", "refund"], required: true},
+    status: {type: String, enum: ["completed", "failed"], default: "completed"},
+
+    leaseID: {type: String, required: true},
+    propertyID: {type: String, required: true},
+    tenantUsername: {type: String, required: true},
+
+    amount: {type: Number, required: true, min: 0},
+    currency: {type: String, default: ""},
+    method: {type: PaymentMethodSnapshotSchema, default: () => ({})},
+    reference: {type: String, default: ""},
+    note: {type: String, default: ""},
+    receivedAt: {type: Date, required: true},
+
+    allocations: {type: [PaymentAllocationSchema], default: []},
+    unapplied: {type: Number, default: 0, min: 0},
+    refundOf: {type: String},
+    failureReason: {type: String},
+
+    recordedBy: {type: String, required: true},
+  },
+  {timestamps: true}
+);
+
+PaymentSchema.index({leaseID: 1, receivedAt: 1});
+PaymentSchema.index({tenantUsername: 1, receivedAt: 1});
+PaymentSchema.index({"allocations.invoiceId": 1});
+PaymentSchema.index({leaseID: 1, unapplied: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const PaymentModel = model<IPayment>("Payment", PaymentSchema);
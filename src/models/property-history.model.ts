@@ -0,0 +1,56 @@
+// models/property-history.model.ts
+// ============================================================================
+// Property History Model
+// - One document per field-level change to a property (who, when, old, new)
+// - Written by PropertyHistoryService on create / update / delete; never edited
+// - A delete is one "status" row with newValue null (lets feeds report removals)
+// - Numeric fields also keep `delta` (new - old) so "price drops in the last
+//   30 days" is a plain indexed query
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type PropertyChangeType = "created" | "updated" | "deleted";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface IPropertyHistory extends Document {
+  propertyId: string;          // Property.id
+  field: string;               // e.g. "price", "status"
+  oldValue: unknown;           // null on "created"
+  newValue: unknown;
+  delta?: number;              // numeric fields only: newValue - oldValue
+  deltaPercent?: number;       // numeric fields only, relative to oldValue
+  changeType: PropertyChangeType;
+  changedBy: string;           // username ("system" for jobs)
+  changedByRole?: string;
+  changedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const PropertyHistorySchema = new Schema<IPropertyHistory>(
+  {
+    propertyId: {type: String, required: true},
+    field: {type: String, required: true},
+    oldValue: {type: Schema.Types.Mixed, default: null},
+    newValue: {type: Schema.Types.Mixed, default: null},
+    delta: {type: Number},
+    deltaPercent: {type: Number},
+    changeType: {type: String, enum: ["created", "updated", "deleted"], required: true},
+    changedBy: {type: String, required: true},
+    changedByRole: {type: String},
+    changedAt: {type: Date, required: true, default: () => new Date()},
+  },
+  {versionKey: false}
+);
+
+// Timeline of one property, optionally one field
+PropertyHistorySchema.index({propertyId: 1, changedAt: -1});
+PropertyHistorySchema.index({propertyId: 1, field: 1, changedAt: -1});
+// Cross-property queries ("price drops since …")
+PropertyHistorySchema.index({field: 1, changedAt: -1, delta: 1});
+PropertyHistorySchema.index({changedBy: 1});
+// Removals since a timestamp (syndication feeds)
+PropertyHistorySchema.index({changeType: 1, changedAt: -1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const PropertyHistoryModel = model<IPropertyHistory>("PropertyHistory", PropertyHistorySchema);
@@ -0,0 +1,77 @@
+// models/property-import.model.ts
+// ============================================================================
+// Property Import Model
+// - One document per bulk import (CSV / XLSX) that was committed
+// - Tracks progress of the background insert and a per-row error report
+// - Dry runs are not stored: their report is returned directly
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type PropertyImportStatus = "queued" | "running" | "completed" | "failed";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+/** Problems found on one sheet row (row = 1-based row number in the file). */
+export interface ImportRowError {
+  row: number;
+  id?: string;
+  messages: string[];
+}
+
+export interface IPropertyImport extends Document {
+  importId: string;            // public id (uuid)
+  filename: string;
+  format: "csv" | "xlsx";
+  status: PropertyImportStatus;
+  totalRows: number;           // data rows in the file
+  validRows: number;           // rows that passed validation (queued for insert)
+  invalidRows: number;         // rows rejected before the insert started
+  processed: number;           // valid rows handled so far
+  inserted: number;
+  failed: number;              // valid rows that failed on insert (e.g. duplicate id race)
+  rowErrors: ImportRowError[];
+  insertedIds: string[];
+  createdBy: string;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const ImportRowErrorSchema = new Schema<ImportRowError>(
+  {
+    row: {type: Number, required: true},
+    id: {type: String},
+    messages: {type: [String], default: []},
+  },
+  {_id: false}
+);
+
+const PropertyImportSchema = new Schema<IPropertyImport>(
+  {
+    importId: {type: String, required: true, unique: true},
+    filename: {type: String, required: true},
+    format: {type: String, enum: ["csv", "xlsx"], required: true},
+    status: {type: String, enum: ["queued", "running", "completed", "failed"], default: "queued"},
+    totalRows: {type: Number, default: 0},
+    validRows: {type: Number, default: 0},
+    invalidRows: {type: Number, default: 0},
+    processed: {type: Number, default: 0},
+    inserted: {type: Number, default: 0},
+    failed: {type: Number, default: 0},
+    rowErrors: {type: [ImportRowErrorSchema], default: []},
+    insertedIds: {type: [String], default: []},
+    createdBy: {type: String, required: true, index: true},
+    error: {type: String},
+    startedAt: {type: Date},
+    completedAt: {type: Date},
+  },
+  {timestamps: true}
+);
+
+PropertyImportSchema.index({createdAt: -1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const PropertyImportModel = model<IPropertyImport>("PropertyImport", PropertyImportSchema);
@@ -120,6 +120,21 @@ export interface GoogleMapLocation {
   embeddedUrl: string;
 }
 
+/** Review state of a listing (see ListingWorkflowService). */
+export interface ListingReview {
+  submittedAt?: Date | null;   // set while waiting for / after a review
+  submittedBy?: string;
+  reviewedAt?: Date | null;
+  reviewedBy?: string;
+  comment?: string;            // reviewer's comment (required on reject)
+}
+
+/** GeoJSON point mirrored from `location` (coordinates are [lng, lat]). */
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
 /**
  * Optional virtual (computed) fields we expose in responses.
  * They are not saved in MongoDB.
@@ -156,6 +171,7 @@ export interface IProperty extends Document, PropertyVirtuals {
   countryDetails: CountryDetails;
   address: Address;
   location?: GoogleMapLocation;
+  geo?: GeoPoint;
 
   // --- Property Specs ---
   totalArea: number; // e.g. square feet (your app defines convention)
@@ -228,6 +244,18 @@ export interface IProperty extends Document, PropertyVirtuals {
   priority: "high" | "medium" | "low";
   status: "draft" | "published" | "archived";
   internalNote: string;
+  review?: ListingReview;
+
+  // --- Change tracking (maintained by middleware, see 4b) ---
+  publishedAt?: Date;        // last time status became "published"
+  priceChangedAt?: Date;     // last time price changed
+  previousPrice?: number;    // price before that change
+
+  // --- Building / unit (optional; standalone properties have none) ---
+  buildingId?: string;       // Building.buildingId this unit belongs to
+  unitNumber?: string;       // e.g. "12B" (unique within the building)
+  floor?: number;
+  inheritedFields?: string[]; // shared fields copied from the building (others are overrides)
 }
 
 /**
@@ -342,6 +370,25 @@ const GoogleMapLocationSchema = new Schema<GoogleMapLocation>({
   embeddedUrl: {type: String, required: false, default: ""},
 });
 
+const ListingReviewSchema = new Schema<ListingReview>(
+  {
+    submittedAt: {type: Date, default: null},
+    submittedBy: {type: String},
+    reviewedAt: {type: Date, default: null},
+    reviewedBy: {type: String},
+    comment: {type: String, default: ""},
+  },
+  {_id: false}
+);
+
+const GeoPointSchema = new Schema<GeoPoint>(
+  {
+    type: {type: String, enum: ["Point"], required: true, default: "Point"},
+    coordinates: {type: [Number], required: true},
+  },
+  {_id: false}
+);
+
 // =============================================================================
 // 3) Main Property Schema (with options to include virtuals)
 // =============================================================================
@@ -369,6 +416,7 @@ const PropertySchema = new Schema<IProperty>(
     countryDetails: {type: CountryDetailsSchema, default: {}},
     address: {type: AddressSchema, default: {}},
     location: {type: GoogleMapLocationSchema, default: {}},
+    geo: {type: GeoPointSchema, default: undefined},
 
     // --- Property Specifications ---
     totalArea: {type: Number, required: true, default: 0},
@@ -463,6 +511,18 @@ const PropertySchema = new Schema<IProperty>(
       default: "published",
     },
     internalNote: {type: String, required: true, default: ""},
+    review: {type: ListingReviewSchema, default: undefined},
+
+    // --- Change tracking ---
+    publishedAt: {type: Date},
+    priceChangedAt: {type: Date},
+    previousPrice: {type: Number},
+
+    // --- Building / unit ---
+    buildingId: {type: String},
+    unitNumber: {type: String, trim: true},
+    floor: {type: Number},
+    inheritedFields: {type: [String], default: undefined},
   },
   {
     timestamps: true,
@@ -552,25 +612,98 @@ PropertySchema.virtual("daysOnMarket").get(function(this: IProperty) {
   return Math.max(0, Math.floor((now - start) / (1000 * 60 * 60 * 24)));
 });
 
+// =============================================================================
+// 4b) Change tracking (publish / price changes, used by saved-search alerts)
+// =============================================================================
+
+PropertySchema.pre("save", function(next) {
+  const now = new Date();
+  if(this.isNew) {
+    if(this.status === "published") this.publishedAt = now;
+  } else {
+    if(this.isModified("status") && this.status === "published") this.publishedAt = now;
+    if(this.isModified("price")) this.priceChangedAt = now;
+  }
+  next();
+});
+
+/** Mirror of the save hook for findOneAndUpdate({$set: ...}) (the update route). */
+PropertySchema.pre("findOneAndUpdate", async function() {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if(!update || Array.isArray(update)) return;
+  const set = (update["$set"] ?? {}) as Record<string, any>;
+  const nextPrice = set["price"] ?? update["price"];
+  const nextStatus = set["status"] ?? update["status"];
+  if(nextPrice === undefined && nextStatus === undefined) return;
+
+  const current = await this.model
+    .findOne(this.getQuery())
+    .select("price status")
+    .lean<{price?: number; status?: string}>();
+  if(!current) return;
+
+  const now = new Date();
+  const changes: Record<string, unknown> = {};
+  if(nextPrice !== undefined && Number(nextPrice) !== current.price) {
+    changes["priceChangedAt"] = now;
+    changes["previousPrice"] = current.price;
+  }
+  if(nextStatus === "published" && current.status !== "published") changes["publishedAt"] = now;
+  if(Object.keys(changes).length) this.setUpdate({...update, $set: {...set, ...changes}});
+});
+
 // =============================================================================
 // 5) Indexes (helpful for search & filtering)
 // =============================================================================
 
-// Text search on title + description, and filter fields.
+// Text search (weighted: title > address > description), and filter fields.
+// Keep the weights in sync with PropertySearchService.FIELDS.
 PropertySchema.index({
   title: "text",
   description: "text",
+  "address.street": "text",
+  "address.city": "text",
+  "address.stateOrProvince": "text",
+  "address.country": "text",
   type: 1,
   listing: 1,
-  "address.city": 1,
-  "address.country": 1,
   price: 1,
   bedrooms: 1,
   bathrooms: 1,
   priority: 1,
   status: 1,
+}, {
+  name: "property_text",
+  weights: {
+    title: 10,
+    "address.city": 5,
+    "address.street": 4,
+    "address.stateOrProvince": 3,
+    "address.country": 3,
+    description: 2,
+  },
 });
 
+// City / country drill-down (both are text fields above, so index them separately).
+PropertySchema.index({"address.city": 1, "address.country": 1});
+
+// Saved-search alerts look for recent publish / price changes.
+PropertySchema.index({publishedAt: -1});
+PropertySchema.index({priceChangedAt: -1});
+
+// Review queue: submitted listings waiting for a decision, oldest first.
+PropertySchema.index({verificationStatus: 1, "review.submittedAt": 1});
+
+// Units of a building (unit numbers are unique within one building).
+PropertySchema.index(
+  {buildingId: 1, unitNumber: 1},
+  {unique: true, partialFilterExpression: {buildingId: {$type: "string"}, unitNumber: {$type: "string"}}}
+);
+
+// Geo search (radius / bounding box / polygon). Sparse by nature: documents
+// without a valid `location` have no `geo` and are simply not indexed.
+PropertySchema.index({geo: "2dsphere"});
+
 // =============================================================================
 /**
  * PropertyModel
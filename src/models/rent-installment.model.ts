@@ -0,0 +1,68 @@
+// models/rent-installment.model.ts
+// ============================================================================
+// Rent Installment Model
+// - One document per dated rent installment of a lease
+// - Generated from the lease terms by RentScheduleService (start/end date,
+//   monthly rent, payment frequency, rent due date, currency)
+// - Regenerated whenever those terms change; `scheduleVersion` counts how
+//   many times the schedule of a lease has been rebuilt
+// - Installments that were invoiced (`invoiceId`) are kept on regeneration
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface IRentInstallment extends Document {
+  installmentId: string;       // public id (uuid)
+  leaseID: string;
+  propertyID: string;
+  tenantUsername: string;
+  sequence: number;            // 1-based position in the schedule
+
+  periodStart: Date;           // first day covered
+  periodEnd: Date;             // last day covered (inclusive)
+  dueDate: Date;
+
+  amount: number;              // amount due (prorated for partial periods)
+  fullPeriodAmount: number;    // what a complete period costs
+  prorated: boolean;
+  prorationFactor: number;     // covered days / days of the full period (1 = full)
+  currency: string;            // ISO code, e.g. "LKR"
+
+  scheduleVersion: number;
+  generatedAt: Date;
+  invoiceId?: string;          // set once BillingService invoiced the installment
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const RentInstallmentSchema = new Schema<IRentInstallment>(
+  {
+    installmentId: {type: String, required: true, unique: true},
+    leaseID: {type: String, required: true},
+    propertyID: {type: String, required: true},
+    tenantUsername: {type: String, required: true},
+    sequence: {type: Number, required: true, min: 1},
+
+    periodStart: {type: Date, required: true},
+    periodEnd: {type: Date, required: true},
+    dueDate: {type: Date, required: true},
+
+    amount: {type: Number, required: true, min: 0},
+    fullPeriodAmount: {type: Number, required: true, min: 0},
+    prorated: {type: Boolean, default: false},
+    prorationFactor: {type: Number, default: 1},
+    currency: {type: String, default: ""},
+
+    scheduleVersion: {type: Number, default: 1},
+    generatedAt: {type: Date, required: true, default: () => new Date()},
+    invoiceId: {type: String},
+  },
+  {versionKey: false}
+);
+
+RentInstallmentSchema.index({leaseID: 1, sequence: 1}, {unique: true});
+RentInstallmentSchema.index({dueDate: 1});
+RentInstallmentSchema.index({tenantUsername: 1, dueDate: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const RentInstallmentModel = model<IRentInstallment>("RentInstallment", RentInstallmentSchema);
@@ -0,0 +1,52 @@
+// models/saved-search.model.ts
+// ============================================================================
+// Saved Search Model
+// - A user's named property search: the same `search` + JSON `filter` params
+//   that /get-all-properties-with-pagination accepts.
+// - Optional alerts: a scheduled job reports properties that were published
+//   or changed price since `lastCheckedAt` (in-app and/or email digest).
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type SavedSearchChannel = "inapp" | "email";
+export const SAVED_SEARCH_CHANNELS: ReadonlyArray<SavedSearchChannel> = ["inapp", "email"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface ISavedSearch extends Document {
+  searchId: string;            // public id (uuid)
+  username: string;            // owner
+  name: string;
+  search: string;              // free-text `search` param
+  filter: string;              // JSON `filter` param, stored as sent
+  alertsEnabled: boolean;
+  channels: SavedSearchChannel[];
+  lastCheckedAt: Date;         // changes after this moment are "new"
+  lastAlertAt?: Date;
+  lastMatchCount: number;      // matches reported by the last alert
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const SavedSearchSchema = new Schema<ISavedSearch>(
+  {
+    searchId: {type: String, required: true, unique: true},
+    username: {type: String, required: true, index: true},
+    name: {type: String, required: true, trim: true},
+    search: {type: String, default: ""},
+    filter: {type: String, default: ""},
+    alertsEnabled: {type: Boolean, default: true},
+    channels: {type: [String], enum: SAVED_SEARCH_CHANNELS, default: ["inapp", "email"]},
+    lastCheckedAt: {type: Date, default: () => new Date()},
+    lastAlertAt: {type: Date},
+    lastMatchCount: {type: Number, default: 0},
+  },
+  {timestamps: true}
+);
+
+SavedSearchSchema.index({username: 1, name: 1}, {unique: true});
+SavedSearchSchema.index({alertsEnabled: 1, lastCheckedAt: 1});
+
+// -------------------------- MODEL EXPORT --------------------------
+export const SavedSearchModel = model<ISavedSearch>("SavedSearch", SavedSearchSchema);
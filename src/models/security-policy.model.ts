@@ -0,0 +1,48 @@
+// models/security-policy.model.ts
+// ============================================================================
+// Security Policy Model
+// - Single settings document (key "default") edited by admins.
+// - Holds account security rules that apply per Role (e.g. mandatory 2FA).
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+import {Role} from "../types/roles";
+
+/**
+ * How an unverified email/phone affects sign-in:
+ * - off      → ignored
+ * - restrict → login works, but permission-guarded routes answer 403 until verified
+ * - block    → /verify-user refuses the login
+ */
+export type VerificationMode = "off" | "restrict" | "block";
+export const VERIFICATION_MODES: ReadonlyArray<VerificationMode> = ["off", "restrict", "block"];
+
+// -------------------------- INTERFACE (TypeScript) --------------------------
+export interface ISecurityPolicy extends Document {
+  key: string;                      // always "default" (singleton)
+  twoFactorRequiredRoles: Role[];   // roles that must enroll TOTP before login completes
+  emailVerification: VerificationMode;
+  phoneVerification: VerificationMode; // only applies to accounts with a phone number
+  updatedBy?: string;               // admin username of the last change
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const SecurityPolicySchema = new Schema<ISecurityPolicy>(
+  {
+    key: {type: String, required: true, unique: true, default: "default"},
+    twoFactorRequiredRoles: {
+      type: [String],
+      enum: ["admin", "agent", "tenant", "owner", "operator", "manager", "developer", "user"],
+      default: [],
+    },
+    emailVerification: {type: String, enum: VERIFICATION_MODES, default: "off"},
+    phoneVerification: {type: String, enum: VERIFICATION_MODES, default: "off"},
+    updatedBy: {type: String},
+  },
+  {timestamps: true}
+);
+
+// -------------------------- MODEL EXPORT --------------------------
+export const SecurityPolicyModel = model<ISecurityPolicy>("SecurityPolicy", SecurityPolicySchema);
@@ -0,0 +1,102 @@
+// models/syndication-partner.model.ts
+// ============================================================================
+// Syndication Partner Model
+// - One document per external portal that ingests our listing feed
+// - The portal authenticates with a service-account API key; `serviceAccount`
+//   links the key owner to this partner
+// - `criteria` narrows which published properties the partner receives
+// - `lastFeed` keeps the outcome of the latest feed (incl. rejected listings)
+// ============================================================================
+
+import {Schema, model, Document} from "mongoose";
+
+export type SyndicationFormat = "xml" | "json";
+export const SYNDICATION_FORMATS: SyndicationFormat[] = ["xml", "json"];
+
+// -------------------------- INTERFACES (TypeScript) --------------------------
+export interface SyndicationCriteria {
+  listings: string[];          // e.g. ["sale", "rent"]; empty → all
+  types: string[];             // property types; empty → all
+  countries: string[];         // address.country; empty → all
+  cities: string[];            // address.city; empty → all
+  minImages: number;           // listings with fewer photos are left out
+}
+
+/** A listing left out of a feed because it failed schema validation. */
+export interface SyndicationRejection {
+  listingKey: string;
+  messages: string[];
+}
+
+export interface SyndicationFeedRun {
+  generatedAt: Date;
+  since?: Date | null;         // set for incremental feeds
+  format: SyndicationFormat;
+  listed: number;
+  removed: number;
+  rejected: number;
+  rejections: SyndicationRejection[];   // first few only
+}
+
+export interface ISyndicationPartner extends Document {
+  partnerId: string;           // public id (uuid)
+  name: string;                // e.g. "Property Finder"
+  serviceAccount: string;      // API key owner (ownerType "service")
+  format: SyndicationFormat;   // default format when ?format is not given
+  criteria: SyndicationCriteria;
+  active: boolean;
+  lastFeed?: SyndicationFeedRun | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// -------------------------- MONGOOSE SCHEMA --------------------------
+const CriteriaSchema = new Schema<SyndicationCriteria>(
+  {
+    listings: {type: [String], default: []},
+    types: {type: [String], default: []},
+    countries: {type: [String], default: []},
+    cities: {type: [String], default: []},
+    minImages: {type: Number, default: 1, min: 0},
+  },
+  {_id: false}
+);
+
+const RejectionSchema = new Schema<SyndicationRejection>(
+  {
+    listingKey: {type: String, required: true},
+    messages: {type: [String], default: []},
+  },
+  {_id: false}
+);
+
+const FeedRunSchema = new Schema<SyndicationFeedRun>(
+  {
+    generatedAt: {type: Date, required: true},
+    since: {type: Date, default: null},
+    format: {type: String, enum: SYNDICATION_FORMATS, required: true},
+    listed: {type: Number, default: 0},
+    removed: {type: Number, default: 0},
+    rejected: {type: Number, default: 0},
+    rejections: {type: [RejectionSchema], default: []},
+  },
+  {_id: false}
+);
+
+const SyndicationPartnerSchema = new Schema<ISyndicationPartner>(
+  {
+    partnerId: {type: String, required: true, unique: true},
+    name: {type: String, required: true, trim: true},
+    serviceAccount: {type: String, required: true, unique: true, trim: true},
+    format: {type: String, enum: SYNDICATION_FORMATS, default: "xml"},
+    criteria: {type: CriteriaSchema, default: () => ({})},
+    active: {type: Boolean, default: true},
+    lastFeed: {type: FeedRunSchema, default: null},
+    createdBy: {type: String, required: true},
+  },
+  {timestamps: true}
+);
+
+// -------------------------- MODEL EXPORT --------------------------
+export const SyndicationPartnerModel = model<ISyndicationPartner>("SyndicationPartner", SyndicationPartnerSchema);
@@ -3,20 +3,73 @@ import { Schema, model, Document } from "mongoose";
 interface ITokenMap extends Document {
   token: string;
   username: string;
-  type: "view" | "email" | "session" | string;
+  type: "view" | "email" | "session" | "password-reset" | "mfa" | "unlock" | "impersonation" | string;
   expiresAt: Date;
+  createdAt?: Date;
+
+  // Session (refresh token) bookkeeping — only set when type === "session".
+  // `token` holds the SHA-256 of the refresh token, never the raw value.
+  sessionId?: string; // stable across rotations (token family)
+  startedAt?: Date; // login time of the family
+  ip?: string;
+  userAgent?: string;
+  lastUsedAt?: Date;
+  rotatedAt?: Date | null; // set once this refresh token has been exchanged
+  revokedAt?: Date | null;
+  revokedReason?: string;
+
+  // Password reset bookkeeping — only set when type === "password-reset".
+  // channel "email" rows are usable reset links, "sms" rows hold the OTP hash
+  // and are exchanged for an "otp-verified" reset row.
+  channel?: "email" | "sms" | "otp-verified";
+  codeHash?: string;
+  attempts?: number;
+  usedAt?: Date | null;
+
+  // Second login step (type === "mfa"): "verify" = enter TOTP, "enroll" = role
+  // policy requires 2FA but the user has not set it up yet. Reuses attempts/usedAt.
+  purpose?: "verify" | "enroll";
+
+  // Admin "view as user" grant (type === "impersonation"): `username` is the
+  // impersonated user; reuses sessionId/startedAt/ip/userAgent/revokedAt.
+  impersonator?: string;
+  parentSessionId?: string; // the admin's own session; ending it ends the grant
+  reason?: string;
 }
 
 //Token generation
 const TokenMapSchema = new Schema<ITokenMap>({
   token: { type: String, required: true, unique: true },
   username: { type: String, required: true },
-  type: { type: String, enum: ["view", "email", "session"], default: "view" },
+  type: { type: String, enum: ["view", "email", "session", "password-reset", "mfa", "unlock", "impersonation"], default: "view" },
   expiresAt: {
     type: Date,
     required: true,
     index: { expires: 0 },
   },
+  createdAt: { type: Date, default: Date.now },
+
+  sessionId: { type: String },
+  startedAt: { type: Date },
+  ip: { type: String },
+  userAgent: { type: String },
+  lastUsedAt: { type: Date },
+  rotatedAt: { type: Date, default: null },
+  revokedAt: { type: Date, default: null },
+  revokedReason: { type: String },
+
+  channel: { type: String, enum: ["email", "sms", "otp-verified"] },
+  codeHash: { type: String },
+  attempts: { type: Number, default: 0 },
+  usedAt: { type: Date, default: null },
+  purpose: { type: String, enum: ["verify", "enroll"] },
+
+  impersonator: { type: String },
+  parentSessionId: { type: String },
+  reason: { type: String },
 });
 
-export const TokenMap = model<ITokenMap>("TokenMap", TokenMapSchema);
\ No newline at end of file
+TokenMapSchema.index({ type: 1, sessionId: 1 });
+TokenMapSchema.index({ type: 1, username: 1 });
+
+export const TokenMap = model<ITokenMap>("TokenMap", TokenMapSchema);
@@ -75,6 +75,20 @@ export interface Country {
   image: string;
 }
 
+/**
+ * TOTP two-factor settings.
+ * Secrets are stored encrypted (CryptoService) and recovery codes as Argon2 hashes;
+ * those paths are `select: false` so they never leak through user listings.
+ */
+export interface TwoFactorSettings {
+  enabled: boolean;
+  secret?: string; // encrypted base32 secret (active)
+  pendingSecret?: string; // encrypted base32 secret awaiting confirmation
+  recoveryCodes?: string[]; // Argon2 hashes, removed once used
+  lastUsedStep?: number; // last accepted TOTP time-step (replay protection)
+  enabledAt?: Date;
+}
+
 /**
  * Full Mongoose document representation for a User.
  * Includes timestamps and OTP/email verification fields.
@@ -95,11 +109,15 @@ export interface IUser extends Document {
   isActive: boolean;
   access: ROLE_ACCESS_MAP;
   otpVerifycation: boolean; // Whether user verified via OTP
-  otpToken: string;
+  otpToken: string; // Argon2 hash of the phone OTP (never the raw code)
   otpTokenExpires: Date;
+  otpAttempts?: number; // wrong codes since the last OTP was issued
+  otpLockedUntil?: Date | null; // verification locked after too many wrong codes
+  otpLastSentAt?: Date; // resend cooldown
   emailVerified: boolean;
   emailVerificationToken?: string;
   emailVerificationTokenExpires?: Date;
+  twoFactor?: TwoFactorSettings;
   autoDelete: boolean; // If true, user will be soft-deleted after inactivity
   creator: string; // Created by (username or system)
   updator?: string; // Last updated by
@@ -152,6 +170,22 @@ const AccessSchema = new Schema<ROLE_ACCESS_MAP>({
   permissions: {type: [PermissionEntrySchema], required: true},
 });
 
+/**
+ * Sub-schema for TOTP two-factor settings.
+ * Sensitive paths are excluded from queries unless explicitly selected ("+twoFactor.secret").
+ */
+const TwoFactorSchema = new Schema<TwoFactorSettings>(
+  {
+    enabled: {type: Boolean, default: false},
+    secret: {type: String, select: false},
+    pendingSecret: {type: String, select: false},
+    recoveryCodes: {type: [String], select: false, default: undefined},
+    lastUsedStep: {type: Number, select: false},
+    enabledAt: {type: Date},
+  },
+  {_id: false}
+);
+
 /**
  * Main User Schema defining all fields and relationships.
  * Includes validation, enum constraints, and timestamp metadata.
@@ -191,12 +225,18 @@ export const UserSchema = new Schema<IUser>(
 
     // ─────────────── Verification & OTP ───────────────
     otpVerifycation: {type: Boolean, default: false},
-    otpToken: {type: String},
+    otpToken: {type: String, select: false},
     otpTokenExpires: {type: Date},
+    otpAttempts: {type: Number, default: 0},
+    otpLockedUntil: {type: Date, default: null},
+    otpLastSentAt: {type: Date},
     emailVerified: {type: Boolean, default: false},
     emailVerificationToken: {type: String},
     emailVerificationTokenExpires: {type: Date},
 
+    // ─────────────── Two-factor (TOTP) ───────────────
+    twoFactor: {type: TwoFactorSchema, default: () => ({enabled: false})},
+
     // ─────────────── Admin Controls ───────────────
     autoDelete: {type: Boolean, default: true},
     creator: {type: String, required: true},
@@ -0,0 +1,177 @@
+// src/services/account-verification.service.ts
+import * as Argon2 from "argon2";
+import crypto from "crypto";
+import {UserModel} from "../models/user.model";
+import {SecurityPolicyModel, VerificationMode} from "../models/security-policy.model";
+
+export interface VerificationPolicy {
+  email: VerificationMode;
+  phone: VerificationMode;
+}
+
+/** Which verifications are still missing for a user (under the current policy). */
+export interface PendingVerification {
+  email: boolean;
+  phone: boolean;
+}
+
+export type VerificationState = "ok" | "restrict" | "block";
+
+export type VerifyOtpResult =
+  | {ok: true}
+  | {ok: false; reason: "NOT_FOUND" | "ALREADY_VERIFIED" | "EXPIRED"}
+  | {ok: false; reason: "LOCKED"; lockedUntil: Date}
+  | {ok: false; reason: "INVALID"; attemptsLeft: number};
+
+export type ResendCheck =
+  | {ok: true}
+  | {ok: false; reason: "NOT_FOUND" | "ALREADY_VERIFIED" | "NO_PHONE"}
+  | {ok: false; reason: "COOLDOWN" | "LOCKED"; retryAfterSeconds: number};
+
+/**
+ * Phone OTP verification + email/phone login policy.
+ * - The OTP is stored as an Argon2 hash on the user (otpToken, select: false)
+ * - Wrong codes are counted; MAX_ATTEMPTS locks verification for LOCK_MS
+ */
+export class AccountVerificationService {
+  public static readonly OTP_TTL_MS = 5 * 60 * 1000;
+  public static readonly MAX_ATTEMPTS = 5;
+  public static readonly LOCK_MS = 15 * 60 * 1000;
+  public static readonly RESEND_COOLDOWN_MS = 60 * 1000;
+
+  private static policyCache: {value: VerificationPolicy; expiresAt: number} | null = null;
+  private static readonly POLICY_TTL_MS = 30 * 1000;
+
+  /** 6-digit code from a CSPRNG. */
+  public static generateCode(): string {
+    return String(crypto.randomInt(100000, 1000000));
+  }
+
+  public static hashCode(code: string): Promise<string> {
+    return Argon2.hash(code);
+  }
+
+  /** Fields to $set on a user when a new OTP is issued (create-user / resend). */
+  public static async otpFields(code: string, ttlMs = this.OTP_TTL_MS): Promise<Record<string, unknown>> {
+    return {
+      otpToken: await this.hashCode(code),
+      otpTokenExpires: new Date(Date.now() + ttlMs),
+      otpAttempts: 0,
+      otpLockedUntil: null,
+      otpLastSentAt: new Date(),
+    };
+  }
+
+  /** Issue (and persist) a fresh OTP for an existing user; returns the raw code to send. */
+  public static async issueOtp(username: string, ttlMs = this.OTP_TTL_MS): Promise<string> {
+    const code = this.generateCode();
+    await UserModel.updateOne({username}, {$set: await this.otpFields(code, ttlMs)});
+    return code;
+  }
+
+  public static async canResend(username: string): Promise<ResendCheck> {
+    const user = await UserModel.findOne({username})
+      .select("phoneNumber otpVerifycation otpLockedUntil otpLastSentAt")
+      .lean();
+    if(!user) return {ok: false, reason: "NOT_FOUND"};
+    if(user.otpVerifycation) return {ok: false, reason: "ALREADY_VERIFIED"};
+    if(!user.phoneNumber) return {ok: false, reason: "NO_PHONE"};
+
+    const now = Date.now();
+    if(user.otpLockedUntil && user.otpLockedUntil.getTime() > now) {
+      return {ok: false, reason: "LOCKED", retryAfterSeconds: Math.ceil((user.otpLockedUntil.getTime() - now) / 1000)};
+    }
+    const nextAllowed = (user.otpLastSentAt?.getTime() ?? 0) + this.RESEND_COOLDOWN_MS;
+    if(nextAllowed > now) {
+      return {ok: false, reason: "COOLDOWN", retryAfterSeconds: Math.ceil((nextAllowed - now) / 1000)};
+    }
+    return {ok: true};
+  }
+
+  public static async verifyOtp(username: string, code: string): Promise<VerifyOtpResult> {
+    const user = await UserModel.findOne({username})
+      .select("+otpToken otpTokenExpires otpVerifycation otpAttempts otpLockedUntil")
+      .lean();
+    if(!user) return {ok: false, reason: "NOT_FOUND"};
+    if(user.otpVerifycation) return {ok: false, reason: "ALREADY_VERIFIED"};
+
+    const now = new Date();
+    if(user.otpLockedUntil && user.otpLockedUntil > now) {
+      return {ok: false, reason: "LOCKED", lockedUntil: user.otpLockedUntil};
+    }
+    if(!user.otpToken || !user.otpTokenExpires || user.otpTokenExpires <= now) {
+      return {ok: false, reason: "EXPIRED"};
+    }
+
+    const valid = await Argon2.verify(user.otpToken, code.trim()).catch(() => false);
+    if(!valid) {
+      const attempts = (user.otpAttempts ?? 0) + 1;
+      if(attempts >= this.MAX_ATTEMPTS) {
+        // Lock and burn the code: a new one must be requested after the lock
+        const lockedUntil = new Date(now.getTime() + this.LOCK_MS);
+        await UserModel.updateOne(
+          {username},
+          {$set: {otpAttempts: attempts, otpLockedUntil: lockedUntil}, $unset: {otpToken: "", otpTokenExpires: ""}}
+        );
+        return {ok: false, reason: "LOCKED", lockedUntil};
+      }
+      await UserModel.updateOne({username}, {$set: {otpAttempts: attempts}});
+      return {ok: false, reason: "INVALID", attemptsLeft: this.MAX_ATTEMPTS - attempts};
+    }
+
+    await UserModel.updateOne(
+      {username},
+      {
+        $set: {otpVerifycation: true, otpAttempts: 0, otpLockedUntil: null},
+        $unset: {otpToken: "", otpTokenExpires: ""},
+      }
+    );
+    return {ok: true};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Login policy
+  // ---------------------------------------------------------------------------
+  public static async policy(): Promise<VerificationPolicy> {
+    if(this.policyCache && this.policyCache.expiresAt > Date.now()) return this.policyCache.value;
+
+    const doc = await SecurityPolicyModel.findOne({key: "default"}).lean();
+    const value: VerificationPolicy = {
+      email: doc?.emailVerification ?? "off",
+      phone: doc?.phoneVerification ?? "off",
+    };
+    this.policyCache = {value, expiresAt: Date.now() + this.POLICY_TTL_MS};
+    return value;
+  }
+
+  public static async setPolicy(policy: VerificationPolicy, updatedBy: string): Promise<VerificationPolicy> {
+    await SecurityPolicyModel.updateOne(
+      {key: "default"},
+      {$set: {emailVerification: policy.email, phoneVerification: policy.phone, updatedBy}},
+      {upsert: true, setDefaultsOnInsert: true}
+    );
+    this.policyCache = null;
+    return this.policy();
+  }
+
+  /** Missing verifications that the policy cares about. */
+  public static pending(
+    user: {emailVerified?: boolean; otpVerifycation?: boolean; phoneNumber?: string},
+    policy: VerificationPolicy
+  ): PendingVerification {
+    return {
+      email: policy.email !== "off" && !user.emailVerified,
+      phone: policy.phone !== "off" && !!user.phoneNumber && !user.otpVerifycation,
+    };
+  }
+
+  /** Strictest consequence of the missing verifications. */
+  public static state(pending: PendingVerification, policy: VerificationPolicy): VerificationState {
+    const modes: VerificationMode[] = [];
+    if(pending.email) modes.push(policy.email);
+    if(pending.phone) modes.push(policy.phone);
+    if(modes.includes("block")) return "block";
+    if(modes.includes("restrict")) return "restrict";
+    return "ok";
+  }
+}
@@ -0,0 +1,235 @@
+// src/services/api-key.service.ts
+import crypto from "crypto";
+import {v4 as uuidv4} from "uuid";
+import {ApiKeyModel, ApiKeyOwnerType, ApiKeyRateLimit, IApiKey} from "../models/api-key.model";
+import {UserModel, PermissionEntry} from "../models/user.model";
+import {Role} from "../types/roles";
+import {
+  PERMISSION_ACTIONS,
+  PERMISSION_MODULES,
+  PERMISSION_WILDCARD,
+  PermissionAction,
+  PermissionModule,
+} from "../configs/permissions";
+import {PermissionService} from "./permission.service";
+
+/** What AuthMiddleware attaches to req.apiKey for key-authenticated requests. */
+export interface ApiKeyContext {
+  keyId: string;
+  name: string;
+  ownerType: ApiKeyOwnerType;
+  owner: string;
+  scopes: PermissionEntry[];
+}
+
+export interface ApiKeyRateState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+export type ApiKeyAuthResult =
+  | {ok: true; context: ApiKeyContext; user: {username: string; role: Role}; rate: ApiKeyRateState}
+  | {ok: false; reason: "INVALID" | "EXPIRED" | "REVOKED" | "OWNER_INACTIVE"}
+  | {ok: false; reason: "RATE_LIMITED"; rate: ApiKeyRateState};
+
+export interface CreateApiKeyInput {
+  name: string;
+  ownerType: ApiKeyOwnerType;
+  owner: string;
+  scopes: PermissionEntry[];
+  rateLimit?: Partial<ApiKeyRateLimit>;
+  expiresInDays?: number;
+  createdBy: string;
+}
+
+/**
+ * Scoped API keys for machine-to-machine calls.
+ * - Keys look like "pe_<random>"; only their SHA-256 is stored
+ * - Scopes use the PermissionEntry vocabulary; user-owned keys are further
+ *   limited to what the owner may do at request time
+ * - Per-key fixed-window rate limit, kept in memory (per API instance)
+ */
+export class ApiKeyService {
+  public static readonly KEY_PREFIX = "pe_";
+  public static readonly DISPLAY_PREFIX_LENGTH = 11;
+  public static readonly DEFAULT_RATE_LIMIT: ApiKeyRateLimit = {max: 60, windowSeconds: 60};
+  public static readonly MAX_RATE_LIMIT: ApiKeyRateLimit = {max: 10_000, windowSeconds: 3600};
+  public static readonly MAX_EXPIRY_DAYS = 365;
+
+  /** Role used for service-account requests (no role-gated routes). */
+  public static readonly SERVICE_ROLE: Role = "user";
+
+  private static windows: Map<string, {count: number; resetAt: number}> = new Map();
+
+  private static hash(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  public static generate(): {key: string; keyHash: string; prefix: string} {
+    const key = `${this.KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+    return {key, keyHash: this.hash(key), prefix: key.slice(0, this.DISPLAY_PREFIX_LENGTH)};
+  }
+
+  /** Validate raw scopes from a request body; returns the clean list or an error message. */
+  public static normalizeScopes(raw: unknown): PermissionEntry[] | string {
+    if(!Array.isArray(raw) || raw.length === 0) return "scopes must be a non-empty list of {module, actions}";
+
+    const modules: ReadonlyArray<string> = [...PERMISSION_MODULES, PERMISSION_WILDCARD];
+    const actions: ReadonlyArray<string> = [...PERMISSION_ACTIONS, PERMISSION_WILDCARD];
+    const byModule = new Map<string, Set<string>>();
+    for(const entry of raw) {
+      const module = String(entry?.module ?? "").trim();
+      if(!modules.includes(module)) return `Unknown module "${module}"`;
+      const acts: string[] = Array.isArray(entry?.actions) ? entry.actions.map((a: unknown) => String(a).trim()) : [];
+      if(!acts.length) return `No actions given for module "${module}"`;
+      const bad = acts.find((a) => !actions.includes(a));
+      if(bad) return `Unknown action "${bad}" for module "${module}"`;
+      const set = byModule.get(module) ?? new Set<string>();
+      acts.forEach((a) => set.add(a));
+      byModule.set(module, set);
+    }
+    return [...byModule].map(([module, acts]) => ({module, actions: [...acts]}));
+  }
+
+  /** Expand wildcards into concrete module:action pairs. */
+  private static expand(scopes: ReadonlyArray<PermissionEntry>): Array<[PermissionModule, PermissionAction]> {
+    const pairs: Array<[PermissionModule, PermissionAction]> = [];
+    for(const scope of scopes) {
+      const modules = scope.module === PERMISSION_WILDCARD ? PERMISSION_MODULES : [scope.module as PermissionModule];
+      const acts = scope.actions.includes(PERMISSION_WILDCARD)
+        ? PERMISSION_ACTIONS
+        : (scope.actions as PermissionAction[]);
+      for(const m of modules) for(const a of acts) pairs.push([m, a]);
+    }
+    return pairs;
+  }
+
+  /** Scopes the owner does not hold themselves (a user may not mint a stronger key). */
+  public static async exceedingScopes(owner: string, scopes: ReadonlyArray<PermissionEntry>): Promise<string[]> {
+    const resolved = await PermissionService.resolve(owner);
+    if(!resolved) return this.expand(scopes).map(([m, a]) => `${m}:${a}`);
+    return this.expand(scopes)
+      .filter(([m, a]) => !PermissionService.allows(resolved.permissions, m, a))
+      .map(([m, a]) => `${m}:${a}`);
+  }
+
+  public static async create(input: CreateApiKeyInput): Promise<{key: string; doc: IApiKey}> {
+    const {key, keyHash, prefix} = this.generate();
+    const rateLimit: ApiKeyRateLimit = {
+      max: Math.min(
+        Math.max(Math.floor(Number(input.rateLimit?.max) || this.DEFAULT_RATE_LIMIT.max), 1),
+        this.MAX_RATE_LIMIT.max
+      ),
+      windowSeconds: Math.min(
+        Math.max(Math.floor(Number(input.rateLimit?.windowSeconds) || this.DEFAULT_RATE_LIMIT.windowSeconds), 1),
+        this.MAX_RATE_LIMIT.windowSeconds
+      ),
+    };
+    const days = Number(input.expiresInDays);
+    const expiresAt =
+      Number.isFinite(days) && days > 0
+        ? new Date(Date.now() + Math.min(days, this.MAX_EXPIRY_DAYS) * 24 * 60 * 60 * 1000)
+        : null;
+
+    const doc = await ApiKeyModel.create({
+      keyId: uuidv4(),
+      name: input.name,
+      prefix,
+      keyHash,
+      ownerType: input.ownerType,
+      owner: input.owner,
+      scopes: input.scopes,
+      rateLimit,
+      expiresAt,
+      createdBy: input.createdBy,
+    });
+    return {key, doc};
+  }
+
+  /** Count one request against the key's window. */
+  private static consume(keyId: string, limit: ApiKeyRateLimit): {allowed: boolean; rate: ApiKeyRateState} {
+    const now = Date.now();
+    let window = this.windows.get(keyId);
+    if(!window || window.resetAt <= now) {
+      window = {count: 0, resetAt: now + limit.windowSeconds * 1000};
+      this.windows.set(keyId, window);
+      if(this.windows.size > 10_000) {
+        for(const [id, w] of this.windows) if(w.resetAt <= now) this.windows.delete(id);
+      }
+    }
+    window.count += 1;
+    const rate: ApiKeyRateState = {
+      limit: limit.max,
+      remaining: Math.max(limit.max - window.count, 0),
+      resetSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+    return {allowed: window.count <= limit.max, rate};
+  }
+
+  /** Resolve an X-API-Key header value (validity, owner, rate limit, usage tracking). */
+  public static async authenticate(rawKey: string, ip: string): Promise<ApiKeyAuthResult> {
+    const key = rawKey.trim();
+    if(!key.startsWith(this.KEY_PREFIX)) return {ok: false, reason: "INVALID"};
+
+    const doc = await ApiKeyModel.findOne({keyHash: this.hash(key)}).lean();
+    if(!doc) return {ok: false, reason: "INVALID"};
+    if(doc.revokedAt) return {ok: false, reason: "REVOKED"};
+    if(doc.expiresAt && doc.expiresAt <= new Date()) return {ok: false, reason: "EXPIRED"};
+
+    let role: Role = this.SERVICE_ROLE;
+    let username = `service:${doc.owner}`;
+    if(doc.ownerType === "user") {
+      const owner = await UserModel.findOne({username: doc.owner}).select("username role isActive").lean();
+      if(!owner || owner.isActive === false) return {ok: false, reason: "OWNER_INACTIVE"};
+      role = owner.role;
+      username = owner.username;
+    }
+
+    const {allowed, rate} = this.consume(doc.keyId, doc.rateLimit ?? this.DEFAULT_RATE_LIMIT);
+    if(!allowed) return {ok: false, reason: "RATE_LIMITED", rate};
+
+    // Usage tracking is best-effort and must not slow the request down
+    ApiKeyModel.updateOne(
+      {keyId: doc.keyId},
+      {$set: {lastUsedAt: new Date(), lastUsedIp: ip}, $inc: {usageCount: 1}}
+    ).catch((err) => console.warn("[api-key] usage update failed:", err?.message || err));
+
+    return {
+      ok: true,
+      context: {
+        keyId: doc.keyId,
+        name: doc.name,
+        ownerType: doc.ownerType,
+        owner: doc.owner,
+        scopes: doc.scopes ?? [],
+      },
+      user: {username, role},
+      rate,
+    };
+  }
+
+  public static async revoke(keyId: string, by: string): Promise<boolean> {
+    const res = await ApiKeyModel.updateOne(
+      {keyId, revokedAt: null},
+      {$set: {revokedAt: new Date(), revokedBy: by}}
+    );
+    this.windows.delete(keyId);
+    return res.modifiedCount > 0;
+  }
+
+  /** Revoke every active key of a user (deactivation / deletion). */
+  public static async revokeAllForUser(username: string, by: string): Promise<number> {
+    const res = await ApiKeyModel.updateMany(
+      {ownerType: "user", owner: username, revokedAt: null},
+      {$set: {revokedAt: new Date(), revokedBy: by}}
+    );
+    return res.modifiedCount;
+  }
+
+  /** Safe list shape (never includes keyHash). */
+  public static toView(doc: Record<string, any>) {
+    const {keyHash: _h, _id, __v, ...rest} = doc;
+    return rest;
+  }
+}
@@ -0,0 +1,751 @@
+// src/services/billing.service.ts
+import {v4 as uuidv4} from "uuid";
+import {LeaseModel} from "../models/lease.model";
+import {IInvoice, InvoiceModel, PenaltyAssessment} from "../models/invoice.model";
+import {IPayment, PaymentAllocation, PaymentMethodSnapshot, PaymentModel} from "../models/payment.model";
+import {RentInstallmentModel} from "../models/rent-installment.model";
+import {PropertyModel} from "../models/property.model";
+import {DefinedTypes, Title} from "../models/notifications/notification.model";
+import {LeaseLifecycleService} from "./lease-lifecycle.service";
+import NotificationService from "./notification.service";
+
+/** Who records a billing change (the signed-in user, or "system" for jobs). */
+export interface BillingActor {
+  username: string;
+  role?: string;
+}
+
+export type BillingEmit = (rooms: string[], payload: unknown) => void;
+
+export interface UtilityInvoiceInput {
+  leaseID: string;
+  utility: string;
+  description?: string;
+  amount: number;
+  dueDate: Date;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface PaymentInput {
+  leaseID: string;
+  amount: number;
+  receivedAt?: Date;
+  reference?: string;
+  note?: string;
+  method?: Partial<PaymentMethodSnapshot>;
+  /** Explicit split over invoices; without it the oldest open invoices are paid first. */
+  allocations?: Array<{invoiceId: string; amount: number}>;
+}
+
+export interface LedgerEntry {
+  date: Date;
+  kind: "invoice" | "payment" | "refund";
+  ref: string;                 // invoiceNumber / receiptNumber
+  id: string;                  // invoiceId / paymentId
+  leaseID: string;
+  description: string;
+  currency: string;
+  debit: number;               // increases what the tenant owes
+  credit: number;              // decreases it
+  balance: number;             // running balance in this currency (positive = owed)
+}
+
+type LeaseBilling = {
+  leaseID: string;
+  propertyID: string;
+  tenantUsername: string;
+  currency: string;
+  method: PaymentMethodSnapshot;
+  utilities: Array<{utility: string; paidBy: string}>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Invoicing and payment ledger for leases.
+ *
+ * - Rent invoices are raised from the rent schedule (one per installment, idempotent)
+ * - Utility invoices only for utilities the lease puts on the tenant (paidBy tenant / shared)
+ * - Payments are split over invoices (explicitly or oldest due first); the rest stays as
+ *   credit on the payment and is applied to later invoices or refunded
+ * - Invoice balances change through compare-and-set updates, so concurrent payments
+ *   cannot pay the same balance twice
+ * - The tenant ledger is derived from invoices, payments and refunds (never stored)
+ */
+export class BillingService {
+  /** Rent invoices are raised this many days before the installment is due. */
+  public static readonly DEFAULT_DAYS_AHEAD = 7;
+
+  private static readonly STAFF_ROLES: Array<"admin" | "manager" | "operator"> = ["admin", "manager", "operator"];
+
+  // ------------------------------- helpers -------------------------------
+  /**
+   * Properties whose billing a non-staff caller (owner / agent) may read:
+   * the ones they own or manage. `null` means no limit (staff, service keys).
+   */
+  public static async visibleProperties(user: {username: string; role?: string} | undefined, serviceKey = false): Promise<string[] | null> {
+    if(serviceKey) return null;
+    if(user?.role && (this.STAFF_ROLES as string[]).includes(user.role)) return null;
+    if(!user?.username) return [];
+    return PropertyModel.distinct("id", {$or: [{owner: user.username}, {"addedBy.username": user.username}]});
+  }
+
+  public static round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+
+  private static reference(prefix: "INV" | "RCT" | "RFD", at = new Date()): string {
+    const day = at.toISOString().slice(0, 10).replace(/-/g, "");
+    return `${prefix}-${day}-${uuidv4().replace(/-/g, "").slice(0, 8).toUpperCase()}`;
+  }
+
+  private static startOfDay(d: Date): Date {
+    return new Date(Math.floor(d.getTime() / DAY_MS) * DAY_MS);
+  }
+
+  private static async leaseBilling(leaseID: string): Promise<LeaseBilling | null> {
+    const lease = await LeaseModel.findOne({leaseID})
+      .select("leaseID propertyID tenantInformation.tenantUsername leaseAgreement.currency leaseAgreement.paymentMethod leaseAgreement.utilityResponsibilities")
+      .lean();
+    if(!lease) return null;
+    const agreement = lease.leaseAgreement;
+    return {
+      leaseID: lease.leaseID,
+      propertyID: lease.propertyID,
+      tenantUsername: lease.tenantInformation?.tenantUsername ?? "",
+      currency: agreement?.currency?.currency ?? "",
+      method: {
+        id: agreement?.paymentMethod?.id ?? "",
+        name: agreement?.paymentMethod?.name ?? "",
+        category: agreement?.paymentMethod?.category ?? "",
+      },
+      utilities: (agreement?.utilityResponsibilities ?? []).map((u) => ({utility: u.utility, paidBy: u.paidBy})),
+    };
+  }
+
+  private static async notify(
+    title: Title,
+    type: DefinedTypes,
+    body: string,
+    tenantUsername: string,
+    metadata: Record<string, unknown>,
+    emit?: BillingEmit,
+    notifyStaff = false
+  ): Promise<void> {
+    const service = new NotificationService();
+    const base = {
+      title,
+      body,
+      type,
+      severity: type === "payment_failed" || type === "invoice_overdue" ? ("warning" as const) : ("info" as const),
+      channels: ["inapp" as const, "email" as const],
+      metadata,
+      source: "billing",
+    };
+    try {
+      if(tenantUsername) {
+        await service.createNotification({...base, audience: {mode: "user", usernames: [tenantUsername]}}, emit);
+      }
+      if(notifyStaff) {
+        await service.createNotification({...base, audience: {mode: "role", roles: this.STAFF_ROLES}}, emit);
+      }
+    } catch(e: any) {
+      console.warn(`[billing] "${title}" notification failed:`, e?.message || e);
+    }
+  }
+
+  // ------------------------------- invoices -------------------------------
+  /**
+   * Raise rent invoices for installments due within `daysAhead` days (or already due).
+   * Only billable leases are invoiced; running it twice never duplicates an invoice.
+   */
+  public static async generateRentInvoices(
+    opts: {leaseID?: string; daysAhead?: number},
+    actor: BillingActor,
+    emit?: BillingEmit
+  ): Promise<IInvoice[]> {
+    const now = new Date();
+    const until = new Date(this.startOfDay(now).getTime() + (opts.daysAhead ?? this.DEFAULT_DAYS_AHEAD) * DAY_MS);
+
+    // Only leases in a billable lifecycle state are invoiced (drafts, proposals,
+    // suspended or cancelled leases keep their installments uninvoiced)
+    const pending = {
+      ...(opts.leaseID ? {leaseID: opts.leaseID} : {}),
+      invoiceId: {$not: {$type: "string"}},
+      dueDate: {$lte: until},
+    };
+    const billable = (await LeaseModel.find({
+      leaseID: {$in: await RentInstallmentModel.distinct("leaseID", pending)},
+      "systemMetadata.validationStatus": {$in: LeaseLifecycleService.BILLABLE_STATES},
+    }).select("leaseID").lean()).map((l) => l.leaseID);
+    if(!billable.length) return [];
+
+    const installments = await RentInstallmentModel.find({...pending, leaseID: {$in: billable}})
+      .sort({dueDate: 1, sequence: 1})
+      .limit(5000)
+      .lean();
+    if(!installments.length) return [];
+
+    const fmt = (d: Date) => d.toISOString().slice(0, 10);
+    const created: IInvoice[] = [];
+    const touchedLeases = new Set<string>();
+    for(const inst of installments) {
+      let invoice: IInvoice | null = null;
+      try {
+        invoice = await InvoiceModel.create({
+          invoiceId: uuidv4(),
+          invoiceNumber: this.reference("INV", now),
+          leaseID: inst.leaseID,
+          propertyID: inst.propertyID,
+          tenantUsername: inst.tenantUsername,
+          kind: "rent",
+          installmentId: inst.installmentId,
+          description: `Rent ${fmt(inst.periodStart)} – ${fmt(inst.periodEnd)}${inst.prorated ? " (prorated)" : ""}`,
+          periodStart: inst.periodStart,
+          periodEnd: inst.periodEnd,
+          issueDate: now,
+          dueDate: inst.dueDate,
+          currency: inst.currency,
+          amount: inst.amount,
+          amountPaid: 0,
+          balance: inst.amount,
+          status: inst.amount > 0 ? "open" : "paid",
+          ...(inst.amount > 0 ? {} : {paidAt: now}),
+          createdBy: actor.username,
+        });
+        created.push(invoice);
+        touchedLeases.add(inst.leaseID);
+      } catch(e: any) {
+        // Another run invoiced it first: just link the installment below
+        if(e?.code !== 11000) throw e;
+        invoice = await InvoiceModel.findOne({installmentId: inst.installmentId});
+      }
+      if(invoice) {
+        await RentInstallmentModel.updateOne({installmentId: inst.installmentId}, {$set: {invoiceId: invoice.invoiceId}});
+      }
+    }
+
+    for(const leaseID of touchedLeases) await this.applyCredit(leaseID, emit);
+    for(const inv of created) {
+      await this.notify(
+        "New Invoice",
+        "invoice_created",
+        `Invoice ${inv.invoiceNumber} for ${inv.currency} ${inv.amount.toFixed(2)} is due on ${inv.dueDate.toISOString().slice(0, 10)}.`,
+        inv.tenantUsername,
+        {invoiceId: inv.invoiceId, invoiceNumber: inv.invoiceNumber, leaseID: inv.leaseID, amount: inv.amount, dueDate: inv.dueDate},
+        emit
+      );
+    }
+    return created;
+  }
+
+  /** Raise a utility invoice; the utility must be one the lease puts on the tenant. */
+  public static async createUtilityInvoice(input: UtilityInvoiceInput, actor: BillingActor, emit?: BillingEmit): Promise<IInvoice | string> {
+    const lease = await this.leaseBilling(input.leaseID);
+    if(!lease) return "Lease not found";
+
+    const amount = this.round2(Number(input.amount));
+    if(!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+    if(Number.isNaN(input.dueDate.getTime())) return "dueDate must be a valid date";
+
+    const wanted = input.utility.trim().toLowerCase();
+    const responsibility = lease.utilities.find((u) => u.utility.trim().toLowerCase() === wanted);
+    if(!responsibility) return `"${input.utility}" is not a utility on this lease`;
+    if(responsibility.paidBy !== "tenant" && responsibility.paidBy !== "shared") {
+      return `"${responsibility.utility}" is paid by the ${responsibility.paidBy}, not the tenant`;
+    }
+
+    const now = new Date();
+    const invoice = await InvoiceModel.create({
+      invoiceId: uuidv4(),
+      invoiceNumber: this.reference("INV", now),
+      leaseID: lease.leaseID,
+      propertyID: lease.propertyID,
+      tenantUsername: lease.tenantUsername,
+      kind: "utility",
+      utility: responsibility.utility,
+      description: input.description?.trim() || `${responsibility.utility} charge`,
+      ...(input.periodStart ? {periodStart: input.periodStart} : {}),
+      ...(input.periodEnd ? {periodEnd: input.periodEnd} : {}),
+      issueDate: now,
+      dueDate: input.dueDate,
+      currency: lease.currency,
+      amount,
+      amountPaid: 0,
+      balance: amount,
+      status: "open",
+      createdBy: actor.username,
+    });
+
+    await this.applyCredit(lease.leaseID, emit);
+    await this.notify(
+      "New Invoice",
+      "invoice_created",
+      `Invoice ${invoice.invoiceNumber} (${responsibility.utility}) for ${invoice.currency} ${amount.toFixed(2)} is due on ${input.dueDate.toISOString().slice(0, 10)}.`,
+      lease.tenantUsername,
+      {invoiceId: invoice.invoiceId, invoiceNumber: invoice.invoiceNumber, leaseID: lease.leaseID, amount, dueDate: input.dueDate},
+      emit
+    );
+    return (await InvoiceModel.findOne({invoiceId: invoice.invoiceId})) ?? invoice;
+  }
+
+  /** Void an unpaid invoice (a voided rent invoice waives that installment). */
+  public static async voidInvoice(invoiceId: string, reason: string, actor: BillingActor): Promise<IInvoice | string> {
+    const updated = await InvoiceModel.findOneAndUpdate(
+      {invoiceId, status: "open", amountPaid: 0},
+      {$set: {status: "void", balance: 0, voidedAt: new Date(), voidedBy: actor.username, voidReason: reason}},
+      {new: true}
+    );
+    if(updated) return updated;
+    const existing = await InvoiceModel.findOne({invoiceId}).select("status amountPaid").lean();
+    if(!existing) return "Invoice not found";
+    if(existing.status === "void") return "Invoice is already void";
+    return "Only invoices without payments can be voided";
+  }
+
+  // ------------------------------- penalties -------------------------------
+  /**
+   * Raise (or grow) the penalty invoice of one overdue invoice and rule to `total`.
+   * Penalties never shrink and waived (void) ones stay waived; returns the amount added.
+   */
+  public static async chargePenalty(
+    overdue: Pick<IInvoice, "invoiceId" | "invoiceNumber" | "leaseID" | "propertyID" | "tenantUsername" | "currency">,
+    rule: {key: string; label: string},
+    total: number,
+    assessment: PenaltyAssessment,
+    actor: BillingActor
+  ): Promise<number> {
+    const target = this.round2(total);
+    if(target <= 0) return 0;
+
+    for(let attempt = 0; attempt < 3; attempt++) {
+      const existing = await InvoiceModel.findOne({penaltyOf: overdue.invoiceId, penaltyRule: rule.key}).lean();
+      if(!existing) {
+        try {
+          await InvoiceModel.create({
+            invoiceId: uuidv4(),
+            invoiceNumber: this.reference("INV", assessment.assessedAt),
+            leaseID: overdue.leaseID,
+            propertyID: overdue.propertyID,
+            tenantUsername: overdue.tenantUsername,
+            kind: "penalty",
+            penaltyOf: overdue.invoiceId,
+            penaltyRule: rule.key,
+            penaltyAssessment: assessment,
+            description: `${rule.label} on ${overdue.invoiceNumber}`,
+            issueDate: assessment.assessedAt,
+            dueDate: assessment.assessedAt,
+            currency: overdue.currency,
+            amount: target,
+            amountPaid: 0,
+            balance: target,
+            status: "open",
+            createdBy: actor.username,
+          });
+          return target;
+        } catch(e: any) {
+          if(e?.code !== 11000) throw e;
+          continue; // created by a parallel run: re-read and grow it instead
+        }
+      }
+      if(existing.status === "void" || target <= existing.amount) return 0;
+
+      const delta = this.round2(target - existing.amount);
+      const updated = await InvoiceModel.updateOne(
+        {invoiceId: existing.invoiceId, amount: existing.amount, amountPaid: existing.amountPaid},
+        {
+          $set: {
+            amount: target,
+            balance: this.round2(target - existing.amountPaid),
+            status: existing.amountPaid > 0 ? "partially_paid" : "open",
+            penaltyAssessment: assessment,
+          },
+          $unset: {paidAt: 1},
+        }
+      );
+      if(updated.modifiedCount) return delta;
+    }
+    return 0;
+  }
+
+  /** "Invoice Overdue" to the tenant and the landlord (property owner), once per invoice. */
+  public static async notifyOverdue(invoice: IInvoice, landlord: string, penaltyTotal: number, emit?: BillingEmit): Promise<void> {
+    const claimed = await InvoiceModel.updateOne(
+      {invoiceId: invoice.invoiceId, overdueNotifiedAt: {$exists: false}},
+      {$set: {overdueNotifiedAt: new Date()}}
+    );
+    if(!claimed.modifiedCount) return;
+
+    const due = new Date(invoice.dueDate).toISOString().slice(0, 10);
+    const amount = `${invoice.currency} ${invoice.balance.toFixed(2)}`.trim();
+    const penalty = penaltyTotal > 0 ? ` A late-payment penalty of ${invoice.currency} ${penaltyTotal.toFixed(2)} has been added.` : "";
+    const metadata = {invoiceId: invoice.invoiceId, invoiceNumber: invoice.invoiceNumber, leaseID: invoice.leaseID, balance: invoice.balance, dueDate: invoice.dueDate};
+
+    await this.notify(
+      "Invoice Overdue",
+      "invoice_overdue",
+      `Invoice ${invoice.invoiceNumber} (${amount} outstanding) was due on ${due}.${penalty}`,
+      invoice.tenantUsername,
+      metadata,
+      emit
+    );
+    if(landlord && landlord !== invoice.tenantUsername) {
+      await this.notify(
+        "Invoice Overdue",
+        "invoice_overdue",
+        `Tenant ${invoice.tenantUsername} has not paid invoice ${invoice.invoiceNumber} (${amount}, due ${due}) on lease ${invoice.leaseID}.`,
+        landlord,
+        metadata,
+        emit
+      );
+    }
+  }
+
+  // ------------------------------ allocation ------------------------------
+  /** Apply up to `max` to one invoice (compare-and-set on its balance); returns what was applied. */
+  private static async applyToInvoice(invoiceId: string, max: number, now: Date): Promise<{applied: number; invoice: IInvoice} | null> {
+    for(let attempt = 0; attempt < 3; attempt++) {
+      const inv = await InvoiceModel.findOne({invoiceId, status: {$in: ["open", "partially_paid"]}}).lean();
+      if(!inv || inv.balance <= 0) return null;
+
+      const applied = this.round2(Math.min(max, inv.balance));
+      if(applied <= 0) return null;
+      const amountPaid = this.round2(inv.amountPaid + applied);
+      const balance = this.round2(inv.amount - amountPaid);
+      const paid = balance <= 0;
+
+      const updated = await InvoiceModel.findOneAndUpdate(
+        {invoiceId, balance: inv.balance, status: inv.status},
+        {$set: {amountPaid, balance: Math.max(0, balance), status: paid ? "paid" : "partially_paid", ...(paid ? {paidAt: now} : {})}},
+        {new: true}
+      );
+      if(updated) return {applied, invoice: updated};
+    }
+    return null;
+  }
+
+  /**
+   * Spend the unapplied credit of one payment on invoices, in the order given.
+   * Returns the invoices that became fully paid.
+   */
+  private static async spend(
+    paymentId: string,
+    targets: Array<{invoiceId: string; max?: number}>
+  ): Promise<IInvoice[]> {
+    const paidOff: IInvoice[] = [];
+    const now = new Date();
+    for(const t of targets) {
+      const payment = await PaymentModel.findOne({paymentId}).select("unapplied").lean();
+      const available = payment?.unapplied ?? 0;
+      if(available <= 0) break;
+
+      // reserve the money on the payment first, so it can never be spent twice
+      const want = this.round2(Math.min(available, t.max ?? available));
+      const reserved = await PaymentModel.updateOne(
+        {paymentId, unapplied: available},
+        {$set: {unapplied: this.round2(available - want)}}
+      );
+      if(!reserved.modifiedCount) continue;
+
+      const result = await this.applyToInvoice(t.invoiceId, want, now);
+      const applied = result?.applied ?? 0;
+      const allocation: PaymentAllocation | null = result
+        ? {invoiceId: result.invoice.invoiceId, invoiceNumber: result.invoice.invoiceNumber, amount: applied, appliedAt: now}
+        : null;
+      await PaymentModel.updateOne(
+        {paymentId},
+        {
+          ...(allocation ? {$push: {allocations: allocation}} : {}),
+          $inc: {unapplied: this.round2(want - applied)},
+        }
+      );
+      if(result && result.invoice.status === "paid") paidOff.push(result.invoice);
+    }
+    // $inc can leave float dust behind
+    const after = await PaymentModel.findOne({paymentId}).select("unapplied").lean();
+    if(after) await PaymentModel.updateOne({paymentId}, {$set: {unapplied: this.round2(after.unapplied)}});
+    return paidOff;
+  }
+
+  private static async openInvoices(leaseID: string) {
+    return InvoiceModel.find({leaseID, status: {$in: ["open", "partially_paid"]}})
+      .select("invoiceId")
+      .sort({dueDate: 1, issueDate: 1})
+      .lean();
+  }
+
+  private static async notifyPaid(invoices: IInvoice[], emit?: BillingEmit): Promise<void> {
+    for(const inv of invoices) {
+      await this.notify(
+        "Invoice Paid",
+        "payment_received",
+        `Invoice ${inv.invoiceNumber} (${inv.currency} ${inv.amount.toFixed(2)}) is fully paid.`,
+        inv.tenantUsername,
+        {invoiceId: inv.invoiceId, invoiceNumber: inv.invoiceNumber, leaseID: inv.leaseID},
+        emit
+      );
+    }
+  }
+
+  /** Apply any credit left on earlier payments of a lease to its open invoices (oldest first). */
+  public static async applyCredit(leaseID: string, emit?: BillingEmit): Promise<number> {
+    const credits = await PaymentModel.find({leaseID, kind: "payment", status: "completed", unapplied: {$gt: 0}})
+      .select("paymentId")
+      .sort({receivedAt: 1})
+      .lean();
+    if(!credits.length) return 0;
+
+    const paidOff: IInvoice[] = [];
+    for(const c of credits) {
+      const open = await this.openInvoices(leaseID);
+      if(!open.length) break;
+      paidOff.push(...(await this.spend(c.paymentId, open.map((i) => ({invoiceId: i.invoiceId})))));
+    }
+    await this.notifyPaid(paidOff, emit);
+    return paidOff.length;
+  }
+
+  // ------------------------------- payments -------------------------------
+  /** Record money received; it is split over invoices and any rest is kept as credit. */
+  public static async recordPayment(input: PaymentInput, actor: BillingActor, emit?: BillingEmit): Promise<IPayment | string> {
+    const lease = await this.leaseBilling(input.leaseID);
+    if(!lease) return "Lease not found";
+
+    const amount = this.round2(Number(input.amount));
+    if(!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+
+    // Validate an explicit split before any money moves
+    const split = input.allocations ?? [];
+    if(split.length) {
+      const total = this.round2(split.reduce((sum, a) => sum + Number(a.amount), 0));
+      if(split.some((a) => !Number.isFinite(Number(a.amount)) || Number(a.amount) <= 0)) return "allocation amounts must be positive numbers";
+      if(total > amount) return `allocations (${total}) exceed the payment amount (${amount})`;
+      const ids = split.map((a) => a.invoiceId);
+      if(new Set(ids).size !== ids.length) return "an invoice may only appear once in allocations";
+      const invoices = await InvoiceModel.find({invoiceId: {$in: ids}}).select("invoiceId invoiceNumber leaseID status balance").lean();
+      for(const a of split) {
+        const inv = invoices.find((i) => i.invoiceId === a.invoiceId);
+        if(!inv || inv.leaseID !== lease.leaseID) return `Invoice ${a.invoiceId} does not belong to this lease`;
+        if(inv.status !== "open" && inv.status !== "partially_paid") return `Invoice ${inv.invoiceNumber} is ${inv.status}`;
+        if(this.round2(Number(a.amount)) > inv.balance) return `Allocation to ${inv.invoiceNumber} exceeds its balance (${inv.balance})`;
+      }
+    }
+
+    const receivedAt = input.receivedAt ?? new Date();
+    const payment = await PaymentModel.create({
+      paymentId: uuidv4(),
+      receiptNumber: this.reference("RCT", receivedAt),
+      kind: "payment",
+      status: "completed",
+      leaseID: lease.leaseID,
+      propertyID: lease.propertyID,
+      tenantUsername: lease.tenantUsername,
+      amount,
+      currency: lease.currency,
+      method: {...lease.method, ...(input.method ?? {})},
+      reference: input.reference?.trim() ?? "",
+      note: input.note?.trim() ?? "",
+      receivedAt,
+      allocations: [],
+      unapplied: amount,
+      recordedBy: actor.username,
+    });
+
+    const targets = split.length
+      ? split.map((a) => ({invoiceId: a.invoiceId, max: this.round2(Number(a.amount))}))
+      : (await this.openInvoices(lease.leaseID)).map((i) => ({invoiceId: i.invoiceId}));
+    const paidOff = await this.spend(payment.paymentId, targets);
+
+    const saved = (await PaymentModel.findOne({paymentId: payment.paymentId})) ?? payment;
+    await this.notify(
+      "Lease Payment Received",
+      "payment_received",
+      `Payment of ${saved.currency} ${amount.toFixed(2)} received (receipt ${saved.receiptNumber})` +
+        (saved.unapplied > 0 ? `; ${saved.currency} ${saved.unapplied.toFixed(2)} kept as credit.` : "."),
+      lease.tenantUsername,
+      {paymentId: saved.paymentId, receiptNumber: saved.receiptNumber, leaseID: lease.leaseID, amount, unapplied: saved.unapplied},
+      emit,
+      true
+    );
+    await this.notifyPaid(paidOff, emit);
+    return saved;
+  }
+
+  /** Keep a record of a failed payment attempt and tell the tenant and staff. */
+  public static async recordFailedPayment(
+    input: Pick<PaymentInput, "leaseID" | "amount" | "reference" | "method" | "receivedAt"> & {reason: string},
+    actor: BillingActor,
+    emit?: BillingEmit
+  ): Promise<IPayment | string> {
+    const lease = await this.leaseBilling(input.leaseID);
+    if(!lease) return "Lease not found";
+    const amount = this.round2(Number(input.amount));
+    if(!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+
+    const at = input.receivedAt ?? new Date();
+    const payment = await PaymentModel.create({
+      paymentId: uuidv4(),
+      receiptNumber: this.reference("RCT", at),
+      kind: "payment",
+      status: "failed",
+      leaseID: lease.leaseID,
+      propertyID: lease.propertyID,
+      tenantUsername: lease.tenantUsername,
+      amount,
+      currency: lease.currency,
+      method: {...lease.method, ...(input.method ?? {})},
+      reference: input.reference?.trim() ?? "",
+      receivedAt: at,
+      unapplied: 0,
+      failureReason: input.reason,
+      recordedBy: actor.username,
+    });
+    await this.notify(
+      "Payment Failed",
+      "payment_failed",
+      `A payment of ${payment.currency} ${amount.toFixed(2)} failed: ${input.reason}`,
+      lease.tenantUsername,
+      {paymentId: payment.paymentId, leaseID: lease.leaseID, amount, reason: input.reason},
+      emit,
+      true
+    );
+    return payment;
+  }
+
+  /** Refund unapplied credit of a payment back to the tenant. */
+  public static async refund(
+    paymentId: string,
+    amountIn: number,
+    reason: string,
+    actor: BillingActor,
+    emit?: BillingEmit
+  ): Promise<IPayment | string> {
+    const amount = this.round2(Number(amountIn));
+    if(!Number.isFinite(amount) || amount <= 0) return "amount must be a positive number";
+
+    const original = await PaymentModel.findOne({paymentId}).lean();
+    if(!original) return "Payment not found";
+    if(original.kind !== "payment" || original.status !== "completed") return "Only completed payments can be refunded";
+    if(amount > original.unapplied) return `Only the unapplied credit (${original.unapplied}) can be refunded`;
+
+    const reserved = await PaymentModel.updateOne(
+      {paymentId, unapplied: original.unapplied},
+      {$set: {unapplied: this.round2(original.unapplied - amount)}}
+    );
+    if(!reserved.modifiedCount) return "The payment changed meanwhile; please retry";
+
+    const now = new Date();
+    const refund = await PaymentModel.create({
+      paymentId: uuidv4(),
+      receiptNumber: this.reference("RFD", now),
+      kind: "refund",
+      status: "completed",
+      leaseID: original.leaseID,
+      propertyID: original.propertyID,
+      tenantUsername: original.tenantUsername,
+      amount,
+      currency: original.currency,
+      method: original.method,
+      note: reason,
+      receivedAt: now,
+      unapplied: 0,
+      refundOf: original.paymentId,
+      recordedBy: actor.username,
+    });
+    await this.notify(
+      "Refund Issued",
+      "refund_issued",
+      `${refund.currency} ${amount.toFixed(2)} was refunded to you (from receipt ${original.receiptNumber}).`,
+      original.tenantUsername,
+      {paymentId: refund.paymentId, refundOf: original.paymentId, leaseID: original.leaseID, amount, reason},
+      emit
+    );
+    return refund;
+  }
+
+  // -------------------------------- ledger --------------------------------
+  /** Running ledger of a tenant (optionally one lease) with balances per currency. */
+  public static async ledger(tenantUsername: string, leaseID?: string, asOf = new Date()) {
+    const filter = {tenantUsername, ...(leaseID ? {leaseID} : {})};
+    const [invoices, payments] = await Promise.all([
+      InvoiceModel.find({...filter, status: {$ne: "void"}}).select("-_id").lean(),
+      PaymentModel.find({...filter, status: "completed"}).select("-_id").lean(),
+    ]);
+
+    const entries: Omit<LedgerEntry, "balance">[] = [
+      ...invoices.map((i) => ({
+        date: i.issueDate,
+        kind: "invoice" as const,
+        ref: i.invoiceNumber,
+        id: i.invoiceId,
+        leaseID: i.leaseID,
+        description: i.description,
+        currency: i.currency,
+        debit: i.amount,
+        credit: 0,
+      })),
+      ...payments.map((p) => ({
+        date: p.receivedAt,
+        kind: p.kind,
+        ref: p.receiptNumber,
+        id: p.paymentId,
+        leaseID: p.leaseID,
+        description: p.kind === "refund" ? `Refund${p.note ? `: ${p.note}` : ""}` : `Payment${p.method?.name ? ` (${p.method.name})` : ""}`,
+        currency: p.currency,
+        debit: p.kind === "refund" ? p.amount : 0,
+        credit: p.kind === "payment" ? p.amount : 0,
+      })),
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    const running: Record<string, number> = {};
+    const rows: LedgerEntry[] = entries.map((e) => {
+      running[e.currency] = this.round2((running[e.currency] ?? 0) + e.debit - e.credit);
+      return {...e, balance: running[e.currency]!};
+    });
+
+    const today = this.startOfDay(asOf).getTime();
+    const open = invoices.filter((i) => i.status === "open" || i.status === "partially_paid");
+    const sum = <T>(list: T[], pick: (t: T) => number, currency: string, match: (t: T) => string) =>
+      this.round2(list.filter((t) => match(t) === currency).reduce((s, t) => s + pick(t), 0));
+
+    const currencies = Object.keys(running);
+    const summary = currencies.map((currency) => ({
+      currency,
+      balance: running[currency]!,
+      outstanding: sum(open, (i) => i.balance, currency, (i) => i.currency),
+      overdue: sum(open.filter((i) => new Date(i.dueDate).getTime() < today), (i) => i.balance, currency, (i) => i.currency),
+      credit: sum(payments.filter((p) => p.kind === "payment"), (p) => p.unapplied, currency, (p) => p.currency),
+    }));
+
+    return {
+      tenantUsername,
+      ...(leaseID ? {leaseID} : {}),
+      summary,
+      openInvoices: open
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+        .map((i) => ({invoiceId: i.invoiceId, invoiceNumber: i.invoiceNumber, description: i.description, dueDate: i.dueDate, currency: i.currency, amount: i.amount, balance: i.balance, status: i.status})),
+      entries: rows,
+    };
+  }
+
+  /** Data for the receipt PDF of a payment or refund. */
+  public static async receipt(paymentId: string) {
+    const payment = await PaymentModel.findOne({paymentId}).lean();
+    if(!payment) return null;
+    const lease = await LeaseModel.findOne({leaseID: payment.leaseID})
+      .select("tenantInformation.fullName tenantInformation.email tenantInformation.phoneNumber")
+      .lean();
+    const after = await this.ledger(payment.tenantUsername, payment.leaseID);
+    return {
+      payment,
+      tenant: {
+        username: payment.tenantUsername,
+        fullName: lease?.tenantInformation?.fullName ?? payment.tenantUsername,
+        email: lease?.tenantInformation?.email ?? "",
+        phoneNumber: lease?.tenantInformation?.phoneNumber ?? "",
+      },
+      balance: after.summary.find((s) => s.currency === payment.currency) ?? null,
+    };
+  }
+}
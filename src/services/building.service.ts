@@ -0,0 +1,414 @@
+// src/services/building.service.ts
+import {BuildingModel, BUILDING_KINDS, BuildingKind, IBuilding} from "../models/building.model";
+import {IProperty, PropertyModel} from "../models/property.model";
+import {LeaseModel} from "../models/lease.model";
+import {PropertyGeoService} from "./property-geo.service";
+import {LeaseLifecycleService} from "./lease-lifecycle.service";
+
+/** Unit fields stored on a Property that belongs to a building. */
+export interface UnitLink {
+  buildingId: string;
+  unitNumber?: string;
+  floor?: number;
+  inheritedFields: string[];
+}
+
+/**
+ * Outcome of reading the unit fields of a property body:
+ * - link: new unit fields, `null` to detach, `undefined` for "no change"
+ * - inherited: building values to copy into the body before validation
+ */
+export interface UnitResolution {
+  link: UnitLink | null | undefined;
+  inherited: Record<string, unknown>;
+}
+
+export interface BuildingOccupancy {
+  buildingId: string;
+  asOf: Date;
+  totalUnits: number;
+  plannedUnits: number;
+  occupied: number;            // current lease or listed as rented
+  vacant: number;
+  occupancyRate: number;       // % of units occupied
+  byListing: Record<string, number>;
+  byAvailability: Record<string, number>;
+  byFloor: Array<{floor: number | null; units: number; occupied: number}>;
+  rentRoll: Array<{currency: string; monthlyRent: number; leases: number}>;
+  units: Array<{
+    id: string;
+    unitNumber: string | null;
+    floor: number | null;
+    listing: string;
+    availabilityStatus: string;
+    occupied: boolean;
+    lease: {leaseID: string; tenantUsername: string; endDate: Date} | null;
+  }>;
+}
+
+/**
+ * Buildings and their units.
+ * - A unit is a Property with `buildingId`; the SHARED_FIELDS listed in its
+ *   `inheritedFields` are copied from the building (the rest are overrides)
+ * - Building edits are pushed to units (`propagate`), so reads, search,
+ *   exports and feeds keep using plain Property documents
+ * - Occupancy roll-ups come from current leases on the units
+ */
+export class BuildingService {
+  /** Attributes a building shares with its units. */
+  public static readonly SHARED_FIELDS: ReadonlyArray<string> = [
+    "address",
+    "countryDetails",
+    "location",
+    "developerName",
+    "projectName",
+    "builtYear",
+    "totalFloors",
+    "ownerShipType",
+    "owner",
+    "featuresAndAmenities",
+  ];
+
+  private static str(v: unknown): string {
+    return typeof v === "string" ? v.trim() : v === undefined || v === null ? "" : String(v).trim();
+  }
+
+  private static json<T>(v: unknown, fallback: T): T {
+    if(v === undefined || v === null || v === "") return fallback;
+    if(typeof v !== "string") return v as T;
+    try {
+      return JSON.parse(v) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Building payload
+  // ---------------------------------------------------------------------------
+  /** Validate a create / update body. On update only the given keys are returned. */
+  public static normalize(body: Record<string, any>, isUpdate: boolean): {data: Partial<IBuilding>; errors: string[]} {
+    const errors: string[] = [];
+    const data: Partial<IBuilding> = {};
+    const has = (k: string) => body[k] !== undefined;
+
+    if(!isUpdate || has("name")) {
+      const name = this.str(body["name"]);
+      if(!name || name.length > 150) errors.push("name is required (max 150 chars).");
+      else data.name = name;
+    }
+    if(has("kind")) {
+      const kind = this.str(body["kind"]).toLowerCase();
+      if(!(BUILDING_KINDS as string[]).includes(kind)) errors.push(`kind must be one of: ${BUILDING_KINDS.join(", ")}`);
+      else data.kind = kind as BuildingKind;
+    }
+    if(has("description")) data.description = this.str(body["description"]);
+    if(has("plannedUnits")) {
+      const n = Number(body["plannedUnits"]);
+      if(!Number.isInteger(n) || n < 0 || n > 10_000) errors.push("plannedUnits must be a whole number 0-10000.");
+      else data.plannedUnits = n;
+    }
+
+    if(!isUpdate || has("address")) {
+      const a = this.json<Record<string, unknown>>(body["address"], {});
+      const address = {
+        houseNumber: this.str(a["houseNumber"]),
+        street: this.str(a["street"]),
+        city: this.str(a["city"]),
+        stateOrProvince: this.str(a["stateOrProvince"]),
+        postcode: this.str(a["postcode"]),
+        country: this.str(a["country"]),
+      };
+      if(!address.city || !address.country) errors.push("address.city and address.country are required.");
+      else data.address = address;
+    }
+    if(has("countryDetails")) {
+      const c = this.json<unknown>(body["countryDetails"], null);
+      if(c && typeof c === "object" && !Array.isArray(c)) data.countryDetails = c as IBuilding["countryDetails"] & {};
+      else errors.push("countryDetails must be an object.");
+    }
+    if(has("location")) {
+      const loc = this.json<Record<string, unknown>>(body["location"], {});
+      const geo = PropertyGeoService.toGeoPoint(loc as any);
+      if(!geo) errors.push("location must have a valid lat / lng.");
+      else {
+        data.location = {lat: Number(loc["lat"]), lng: Number(loc["lng"]), embeddedUrl: this.str(loc["embeddedUrl"])};
+        data.geo = geo;
+      }
+    }
+
+    for(const k of ["developerName", "projectName", "ownerShipType", "owner"] as const) {
+      if(has(k)) data[k] = k === "ownerShipType" ? this.str(body[k]).toLowerCase() : this.str(body[k]);
+    }
+    for(const k of ["builtYear", "totalFloors"] as const) {
+      if(!has(k)) continue;
+      const n = Number(body[k]);
+      if(!Number.isFinite(n) || n < 0) errors.push(`${k} must be a non-negative number.`);
+      else data[k] = n;
+    }
+    if(has("featuresAndAmenities")) {
+      const list = this.json<unknown>(body["featuresAndAmenities"], []);
+      if(!Array.isArray(list)) errors.push("featuresAndAmenities must be an array of strings.");
+      else data.featuresAndAmenities = list.map((v) => this.str(v)).filter(Boolean);
+    }
+
+    return {data, errors};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Units
+  // ---------------------------------------------------------------------------
+  /** JSON array or comma list of shared field names; null when absent, string on error. */
+  public static parseInheritedFields(raw: unknown): string[] | null | string {
+    if(raw === undefined || raw === null) return null;
+    const list = Array.isArray(raw) ? raw : this.json<unknown>(raw, null) ?? String(raw).split(",");
+    if(!Array.isArray(list)) return "inheritedFields must be a list of field names.";
+    const fields = Array.from(new Set(list.map((v) => this.str(v)).filter(Boolean)));
+    const unknown = fields.filter((f) => !this.SHARED_FIELDS.includes(f));
+    if(unknown.length) return `inheritedFields may only contain: ${this.SHARED_FIELDS.join(", ")}`;
+    return fields;
+  }
+
+  /** Building values for the given shared fields, in property-body shape. */
+  public static sharedValues(building: Partial<IBuilding>, fields: ReadonlyArray<string>): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for(const f of fields) {
+      const v = (building as Record<string, unknown>)[f];
+      if(v !== undefined && v !== null) out[f] = v;
+    }
+    return out;
+  }
+
+  /** Same values as a Property `$set` (location also refreshes `geo`). */
+  private static unitSet(building: Partial<IBuilding>, fields: ReadonlyArray<string>): Record<string, unknown> {
+    const set = this.sharedValues(building, fields);
+    if(set["location"]) {
+      const geo = PropertyGeoService.toGeoPoint(set["location"] as any);
+      if(geo) set["geo"] = geo;
+    }
+    return set;
+  }
+
+  /**
+   * Read buildingId / unitNumber / floor / inheritedFields from a property body.
+   *   buildingId omitted → keep the current link (if any)
+   *   buildingId ""      → detach (the copied values stay as the unit's own)
+   * Returns an error message string when invalid.
+   */
+  public static async resolveUnit(
+    body: Record<string, any>,
+    current: Pick<IProperty, "buildingId" | "unitNumber" | "floor" | "inheritedFields"> | null
+  ): Promise<UnitResolution | string> {
+    const raw = body["buildingId"];
+    if(raw !== undefined && this.str(raw) === "") {
+      return {link: current?.buildingId ? null : undefined, inherited: {}};
+    }
+    const buildingId = raw !== undefined ? this.str(raw) : current?.buildingId;
+    if(!buildingId) return {link: undefined, inherited: {}};
+
+    const building = await BuildingModel.findOne({buildingId}).lean();
+    if(!building) return raw !== undefined ? "Building not found." : {link: undefined, inherited: {}};
+
+    const parsed = this.parseInheritedFields(body["inheritedFields"]);
+    if(typeof parsed === "string") return parsed;
+    const inheritedFields = parsed ?? current?.inheritedFields ?? [...this.SHARED_FIELDS];
+
+    const unitNumber = body["unitNumber"] !== undefined ? this.str(body["unitNumber"]) : current?.unitNumber ?? "";
+    if(unitNumber.length > 20) return "unitNumber must be at most 20 characters.";
+    let floor = current?.floor;
+    if(body["floor"] !== undefined && body["floor"] !== "") {
+      const n = Number(body["floor"]);
+      if(!Number.isInteger(n) || n < -10 || n > 300) return "floor must be a whole number between -10 and 300.";
+      floor = n;
+    }
+
+    return {
+      link: {
+        buildingId,
+        inheritedFields,
+        ...(unitNumber ? {unitNumber} : {}),
+        ...(floor !== undefined ? {floor} : {}),
+      },
+      inherited: this.sharedValues(building, inheritedFields),
+    };
+  }
+
+  /** Copy the building's shared values to its units (per their inheritedFields). */
+  public static async propagate(building: Pick<IBuilding, "buildingId"> & Partial<IBuilding>): Promise<number> {
+    const units = await PropertyModel.find({buildingId: building.buildingId}).select("id inheritedFields").lean();
+    const groups = new Map<string, {fields: string[]; ids: string[]}>();
+    for(const u of units) {
+      const fields = u.inheritedFields ?? [...this.SHARED_FIELDS];
+      const key = [...fields].sort().join(",");
+      const g = groups.get(key) ?? {fields, ids: []};
+      g.ids.push(u.id);
+      groups.set(key, g);
+    }
+
+    let modified = 0;
+    for(const g of groups.values()) {
+      const set = this.unitSet(building, g.fields);
+      if(!Object.keys(set).length) continue;
+      const res = await PropertyModel.updateMany({id: {$in: g.ids}}, {$set: set});
+      modified += res.modifiedCount;
+    }
+    return modified;
+  }
+
+  /**
+   * Turn existing standalone properties into units of a building
+   * (e.g. 40 flats that were entered as separate listings).
+   */
+  public static async attach(
+    building: IBuilding | (Pick<IBuilding, "buildingId"> & Partial<IBuilding>),
+    units: Array<{propertyId: string; unitNumber?: string; floor?: number; inheritedFields?: string[]}>
+  ): Promise<{attached: string[]; missing: string[]}> {
+    const found = await PropertyModel.find({id: {$in: units.map((u) => u.propertyId)}}).select("id").lean();
+    const exists = new Set(found.map((f) => f.id));
+    const attached: string[] = [];
+    const missing: string[] = [];
+
+    for(const u of units) {
+      if(!exists.has(u.propertyId)) {
+        missing.push(u.propertyId);
+        continue;
+      }
+      const inheritedFields = u.inheritedFields ?? [...this.SHARED_FIELDS];
+      await PropertyModel.updateOne(
+        {id: u.propertyId},
+        {
+          $set: {
+            buildingId: building.buildingId,
+            inheritedFields,
+            ...(u.unitNumber ? {unitNumber: u.unitNumber} : {}),
+            ...(u.floor !== undefined ? {floor: u.floor} : {}),
+            ...this.unitSet(building, inheritedFields),
+          },
+        }
+      );
+      attached.push(u.propertyId);
+    }
+
+    if(attached.length) await this.linkLeases(attached, building.buildingId);
+    return {attached, missing};
+  }
+
+  /** Make a unit standalone again (keeps its current values). */
+  public static async detach(propertyId: string): Promise<boolean> {
+    const res = await PropertyModel.updateOne(
+      {id: propertyId, buildingId: {$type: "string"}},
+      {$unset: {buildingId: 1, unitNumber: 1, floor: 1, inheritedFields: 1}}
+    );
+    if(res.modifiedCount) await this.linkLeases([propertyId], null);
+    return res.modifiedCount > 0;
+  }
+
+  /** Keep the building reference on leases of the given units in sync. */
+  public static async linkLeases(propertyIds: string[], buildingId: string | null): Promise<void> {
+    await LeaseModel.updateMany(
+      {propertyID: {$in: propertyIds}},
+      buildingId ? {$set: {buildingID: buildingId}} : {$unset: {buildingID: 1}}
+    );
+  }
+
+  /** Building id of a property (for leases), or null for standalone properties. */
+  public static async buildingOf(propertyId: string): Promise<string | null> {
+    if(!propertyId) return null;
+    const p = await PropertyModel.findOne({id: propertyId}).select("buildingId").lean();
+    return p?.buildingId || null;
+  }
+
+  /** Number of units per building. */
+  public static async unitCounts(buildingIds: string[]): Promise<Map<string, number>> {
+    const rows = await PropertyModel.aggregate<{_id: string; n: number}>([
+      {$match: {buildingId: {$in: buildingIds}}},
+      {$group: {_id: "$buildingId", n: {$sum: 1}}},
+    ]);
+    return new Map(rows.map((r) => [r._id, r.n]));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Occupancy
+  // ---------------------------------------------------------------------------
+  /** Leases running at `at` on the given units (one per unit, latest start wins). */
+  public static async currentLeases(propertyIds: string[], at: Date) {
+    const leases = await LeaseModel.find({
+      propertyID: {$in: propertyIds},
+      "leaseAgreement.startDate": {$lte: at},
+      "leaseAgreement.endDate": {$gte: at},
+      "systemMetadata.validationStatus": {$in: LeaseLifecycleService.OCCUPYING_STATES},
+    })
+      .select("leaseID propertyID tenantInformation.tenantUsername leaseAgreement.startDate leaseAgreement.endDate leaseAgreement.monthlyRent leaseAgreement.currency.currency")
+      .sort({"leaseAgreement.startDate": 1})
+      .lean();
+
+    const byUnit = new Map<string, (typeof leases)[number]>();
+    for(const l of leases) byUnit.set(l.propertyID, l);
+    return byUnit;
+  }
+
+  public static async occupancy(building: Pick<IBuilding, "buildingId" | "plannedUnits">, at: Date = new Date()): Promise<BuildingOccupancy> {
+    const units = await PropertyModel.find({buildingId: building.buildingId})
+      .select("id unitNumber floor listing availabilityStatus")
+      .sort({floor: 1, unitNumber: 1})
+      .lean();
+    const leases = await this.currentLeases(units.map((u) => u.id), at);
+
+    const byListing: Record<string, number> = {};
+    const byAvailability: Record<string, number> = {};
+    const floors = new Map<number | null, {units: number; occupied: number}>();
+    const rent = new Map<string, {monthlyRent: number; leases: number}>();
+    let occupied = 0;
+
+    const rows = units.map((u) => {
+      const lease = leases.get(u.id);
+      const isOccupied = !!lease || u.listing === "rented";
+      if(isOccupied) occupied++;
+
+      byListing[u.listing || "unknown"] = (byListing[u.listing || "unknown"] ?? 0) + 1;
+      byAvailability[u.availabilityStatus || "unknown"] = (byAvailability[u.availabilityStatus || "unknown"] ?? 0) + 1;
+      const floorKey = typeof u.floor === "number" ? u.floor : null;
+      const f = floors.get(floorKey) ?? {units: 0, occupied: 0};
+      f.units++;
+      if(isOccupied) f.occupied++;
+      floors.set(floorKey, f);
+
+      if(lease) {
+        const currency = String(lease.leaseAgreement?.currency?.currency || "").toUpperCase() || "N/A";
+        const r = rent.get(currency) ?? {monthlyRent: 0, leases: 0};
+        r.monthlyRent += Number(lease.leaseAgreement?.monthlyRent) || 0;
+        r.leases++;
+        rent.set(currency, r);
+      }
+
+      return {
+        id: u.id,
+        unitNumber: u.unitNumber ?? null,
+        floor: floorKey,
+        listing: u.listing,
+        availabilityStatus: u.availabilityStatus,
+        occupied: isOccupied,
+        lease: lease
+          ? {leaseID: lease.leaseID, tenantUsername: lease.tenantInformation?.tenantUsername ?? "", endDate: lease.leaseAgreement.endDate as Date}
+          : null,
+      };
+    });
+
+    return {
+      buildingId: building.buildingId,
+      asOf: at,
+      totalUnits: units.length,
+      plannedUnits: building.plannedUnits || 0,
+      occupied,
+      vacant: units.length - occupied,
+      occupancyRate: units.length ? Math.round((occupied / units.length) * 10000) / 100 : 0,
+      byListing,
+      byAvailability,
+      byFloor: [...floors.entries()]
+        .map(([floor, v]) => ({floor, ...v}))
+        .sort((a, b) => (a.floor ?? -Infinity) - (b.floor ?? -Infinity)),
+      rentRoll: [...rent.entries()].map(([currency, v]) => ({currency, ...v})),
+      units: rows,
+    };
+  }
+}
@@ -0,0 +1,415 @@
+// src/services/data-subject.service.ts
+import crypto from "crypto";
+import path from "path";
+import fse from "fs-extra";
+import {v4 as uuidv4} from "uuid";
+
+import {UserModel} from "../models/user.model";
+import {TenantModel} from "../models/tenant.model";
+import {LeaseModel} from "../models/lease.model";
+import {UserDocument} from "../models/file-upload.model";
+import {TrackingLoggedUserModel, LoggedUserActivitiesModel} from "../models/tracking.model";
+import {NotificationModel} from "../models/notifications/notification.model";
+import {UserNotificationModel} from "../models/notifications/user-notification.model";
+import {TokenMap} from "../models/token.model";
+import {ApiKeyModel} from "../models/api-key.model";
+import {InviteModel} from "../models/invite.model";
+import {LoginAttemptModel} from "../models/login-attempt.model";
+import {SavedSearchModel} from "../models/saved-search.model";
+import {PropertyHistoryModel} from "../models/property-history.model";
+import {InvoiceModel} from "../models/invoice.model";
+import {PaymentModel} from "../models/payment.model";
+import {RentInstallmentModel} from "../models/rent-installment.model";
+import {DataErasureModel, ErasureReportItem, IDataErasure} from "../models/data-erasure.model";
+import {SessionService} from "./session.service";
+import {PermissionService} from "./permission.service";
+import {ZipEntry, ZipService} from "./zip.service";
+
+/** One section of the export manifest. */
+export interface ExportSection {
+  name: string;
+  path: string;
+  records: number;
+}
+
+export interface ExportManifest {
+  subject: string;
+  generatedAt: string;
+  requestedBy: string;
+  sections: ExportSection[];
+  files: Array<{path: string; size: number; sha256: string}>;
+  skippedFiles: Array<{path: string; size: number; reason: string}>;
+}
+
+export interface ErasureOptions {
+  requestedBy: string;
+  note?: string;
+  dryRun?: boolean;
+  /** Called with the revoked session ids so callers can drop live sockets */
+  onSessionsRevoked?: (sessionIds: string[]) => void;
+}
+
+/**
+ * Data-subject requests (GDPR style) for users and tenants.
+ * - export(): everything stored about one username as a ZIP + manifest
+ * - erase():  background job that removes or anonymises PII; lease and billing
+ *   records are kept, re-keyed to a pseudonym, for legal retention
+ */
+export class DataSubjectService {
+  public static readonly PUBLIC_ROOT = path.resolve(__dirname, "../../public");
+  /** Upper bound for files bundled into one export (JSON data is always included) */
+  public static readonly MAX_EXPORT_FILE_BYTES = 200 * 1024 * 1024;
+
+  /** Lease fields holding the tenant's personal data (cleared on erasure). */
+  private static readonly LEASE_PII_FIELDS: Record<string, unknown> = {
+    "tenantInformation.fullName": "Erased tenant",
+    "tenantInformation.nicOrPassport": "",
+    "tenantInformation.gender": "",
+    "tenantInformation.nationality": "",
+    "tenantInformation.dateOfBirth": null,
+    "tenantInformation.phoneNumber": "",
+    "tenantInformation.email": "",
+    "tenantInformation.permanentAddress.houseNumber": "",
+    "tenantInformation.permanentAddress.street": "",
+    "tenantInformation.permanentAddress.city": "",
+    "tenantInformation.permanentAddress.stateOrProvince": "",
+    "tenantInformation.permanentAddress.postalCode": "",
+    "tenantInformation.emergencyContact.name": "",
+    "tenantInformation.emergencyContact.relationship": "",
+    "tenantInformation.emergencyContact.contact": "",
+    "tenantInformation.scannedDocuments": [],
+    "signatures.ipAddress": "",
+  };
+
+  private static hash(value: string | Buffer): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  /** Folders (relative to /public) that belong to one username. */
+  private static subjectDirs(username: string): string[] {
+    return [
+      `uploads/users/${username}`,
+      `uploads/users/deleted/${username}`,
+      `uploads/tenants/${username}`,
+      `recyclebin/users/${username}`,
+      `recyclebin/tenants/${username}`,
+      `recyclebin/tenants/leases/${username}`,
+    ];
+  }
+
+  /** Resolve a /public-relative folder, refusing anything that escapes /public. */
+  private static publicPath(relative: string): string | null {
+    const abs = path.resolve(this.PUBLIC_ROOT, relative);
+    return abs.startsWith(this.PUBLIC_ROOT + path.sep) ? abs : null;
+  }
+
+  private static async listFiles(dir: string): Promise<string[]> {
+    if(!(await fse.pathExists(dir))) return [];
+    const out: string[] = [];
+    for(const entry of await fse.readdir(dir, {withFileTypes: true})) {
+      const full = path.join(dir, entry.name);
+      if(entry.isDirectory()) out.push(...(await this.listFiles(full)));
+      else if(entry.isFile()) out.push(full);
+    }
+    return out;
+  }
+
+  /** True if anything at all is stored for this username. */
+  public static async exists(username: string): Promise<boolean> {
+    const [user, tenant, lease] = await Promise.all([
+      UserModel.exists({username}),
+      TenantModel.exists({username}),
+      LeaseModel.exists({"tenantInformation.tenantUsername": username}),
+    ]);
+    return !!(user || tenant || lease);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Export
+  // ---------------------------------------------------------------------------
+  public static async export(
+    username: string,
+    requestedBy: string
+  ): Promise<{filename: string; buffer: Buffer; manifest: ExportManifest}> {
+    const [
+      user, tenant, leases, documents, logins, activities, states, sessions, apiKeys, savedSearches,
+      installments, invoices, payments,
+    ] = await Promise.all([
+      UserModel.findOne({username}).select("-password -emailVerificationToken").lean(),
+      TenantModel.find({username}).lean(),
+      LeaseModel.find({"tenantInformation.tenantUsername": username}).lean(),
+      UserDocument.find({username}).lean(),
+      TrackingLoggedUserModel.find({username}).lean(),
+      LoggedUserActivitiesModel.find({username}).lean(),
+      UserNotificationModel.find({username}).lean(),
+      SessionService.list(username),
+      ApiKeyModel.find({ownerType: "user", owner: username}).select("-keyHash").lean(),
+      SavedSearchModel.find({username}).lean(),
+      RentInstallmentModel.find({tenantUsername: username}).select("-_id").sort({dueDate: 1}).lean(),
+      InvoiceModel.find({tenantUsername: username}).select("-_id").sort({issueDate: 1}).lean(),
+      PaymentModel.find({tenantUsername: username}).select("-_id").sort({receivedAt: 1}).lean(),
+    ]);
+
+    // Notification states are only meaningful with their master title/body
+    const masters = await NotificationModel.find({_id: {$in: states.map((s) => s.notificationId)}})
+      .select("title body type severity createdAt")
+      .lean();
+    const byId = new Map(masters.map((m) => [String(m._id), m]));
+    const notifications = states.map((s) => ({
+      ...byId.get(String(s.notificationId)),
+      isRead: s.isRead,
+      isArchived: s.isArchived,
+      deliveredAt: s.deliveredAt,
+      readAt: s.readAt ?? null,
+    }));
+
+    const entries: ZipEntry[] = [];
+    const sections: ExportSection[] = [];
+    const addJson = (name: string, file: string, data: unknown, records: number) => {
+      entries.push({name: file, data: Buffer.from(JSON.stringify(data, null, 2), "utf8")});
+      sections.push({name, path: file, records});
+    };
+
+    addJson("Account", "account/user.json", user ?? null, user ? 1 : 0);
+    addJson("Sessions", "account/sessions.json", sessions, sessions.length);
+    addJson("API keys", "account/api-keys.json", apiKeys, apiKeys.length);
+    addJson("Tenant profile", "tenant/tenant.json", tenant, tenant.length);
+    addJson("Leases", "leases/leases.json", leases, leases.length);
+    addJson("Rent installments", "billing/installments.json", installments, installments.length);
+    addJson("Invoices", "billing/invoices.json", invoices, invoices.length);
+    addJson("Payments", "billing/payments.json", payments, payments.length);
+    addJson("Documents", "documents/documents.json", documents, documents.length);
+    addJson("Login history", "tracking/logins.json", logins, logins.length);
+    addJson("Activity history", "tracking/activities.json", activities, activities.length);
+    addJson("Notifications", "notifications/notifications.json", notifications, notifications.length);
+    addJson("Saved searches", "searches/saved-searches.json", savedSearches, savedSearches.length);
+
+    // Uploaded files: the subject's own folders + the folders of their leases
+    const dirs = [
+      ...this.subjectDirs(username).filter((d) => !d.startsWith("recyclebin/")),
+      ...leases.map((l) => `uploads/leases/${l.leaseID}`),
+    ];
+    const files: ExportManifest["files"] = [];
+    const skippedFiles: ExportManifest["skippedFiles"] = [];
+    let budget = this.MAX_EXPORT_FILE_BYTES;
+    for(const rel of dirs) {
+      const abs = this.publicPath(rel);
+      if(!abs) continue;
+      for(const file of await this.listFiles(abs)) {
+        const relFile = path.relative(this.PUBLIC_ROOT, file).split(path.sep).join("/");
+        const stat = await fse.stat(file);
+        if(stat.size > budget) {
+          skippedFiles.push({path: relFile, size: stat.size, reason: "export size limit reached"});
+          continue;
+        }
+        const data = await fse.readFile(file);
+        budget -= data.length;
+        entries.push({name: `files/${relFile}`, data, modifiedAt: stat.mtime});
+        files.push({path: `files/${relFile}`, size: data.length, sha256: this.hash(data)});
+      }
+    }
+
+    const manifest: ExportManifest = {
+      subject: username,
+      generatedAt: new Date().toISOString(),
+      requestedBy,
+      sections,
+      files,
+      skippedFiles,
+    };
+    entries.unshift({name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2), "utf8")});
+
+    const stamp = manifest.generatedAt.slice(0, 10);
+    return {filename: `propease-data-${username}-${stamp}.zip`, buffer: ZipService.build(entries), manifest};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Erasure
+  // ---------------------------------------------------------------------------
+
+  /** Queue an erasure job; it runs in the background and fills in the report. */
+  public static async erase(username: string, options: ErasureOptions): Promise<IDataErasure> {
+    const requestId = uuidv4();
+    const job = await DataErasureModel.create({
+      requestId,
+      subjectHash: this.hash(username.toLowerCase()),
+      pseudonym: `erased-${this.hash(`${username}:${requestId}`).slice(0, 12)}`,
+      requestedBy: options.requestedBy,
+      ...(options.note ? {note: options.note} : {}),
+      dryRun: !!options.dryRun,
+      status: "queued",
+    });
+
+    setImmediate(() => {
+      this.runErasure(job.requestId, username, options).catch((err) =>
+        console.error("[data-erasure] job crashed:", err?.message || err)
+      );
+    });
+    return job;
+  }
+
+  private static async runErasure(requestId: string, username: string, options: ErasureOptions): Promise<void> {
+    const job = await DataErasureModel.findOneAndUpdate(
+      {requestId, status: "queued"},
+      {$set: {status: "running", startedAt: new Date()}},
+      {new: true}
+    );
+    if(!job) return;
+
+    const dry = job.dryRun;
+    const report: ErasureReportItem[] = [];
+    const add = (item: ErasureReportItem) => {
+      if(item.count > 0 || item.action === "retained") report.push(item);
+    };
+
+    try {
+      const user = await UserModel.findOne({username}).select("email").lean();
+
+      // 1) Sign-in material first so nothing new is created while we work
+      if(!dry) {
+        const sids = await SessionService.revokeAllForUser(username, "data-erasure");
+        options.onSessionsRevoked?.(sids);
+      }
+      const tokenFilter = {username};
+      add({source: "tokens", action: "removed", count: await this.removeMany(TokenMap, tokenFilter, dry)});
+      add({
+        source: "api-keys",
+        action: "removed",
+        count: await this.removeMany(ApiKeyModel, {ownerType: "user", owner: username}, dry),
+      });
+      add({
+        source: "login-attempts",
+        action: "removed",
+        count: await this.removeMany(LoginAttemptModel, {key: `user:${username.toLowerCase()}`}, dry),
+      });
+
+      // 2) Profile data
+      add({source: "users", action: "removed", count: await this.removeMany(UserModel, {username}, dry)});
+      add({source: "tenants", action: "removed", count: await this.removeMany(TenantModel, {username}, dry)});
+      add({source: "user-documents", action: "removed", count: await this.removeMany(UserDocument, {username}, dry)});
+      add({
+        source: "tracking/logins",
+        action: "removed",
+        count: await this.removeMany(TrackingLoggedUserModel, {username}, dry),
+      });
+      add({
+        source: "tracking/activities",
+        action: "removed",
+        count: await this.removeMany(LoggedUserActivitiesModel, {username}, dry),
+      });
+      add({
+        source: "notification-states",
+        action: "removed",
+        count: await this.removeMany(UserNotificationModel, {username}, dry),
+      });
+      add({
+        source: "saved-searches",
+        action: "removed",
+        count: await this.removeMany(SavedSearchModel, {username}, dry),
+      });
+
+      // 3) Shared records: drop the username, keep the record
+      const audienceFilter = {$or: [{"audience.usernames": username}, {readBy: username}]};
+      const audienceCount = await NotificationModel.countDocuments(audienceFilter);
+      if(!dry && audienceCount) {
+        await NotificationModel.updateMany(audienceFilter, {$pull: {"audience.usernames": username, readBy: username}});
+      }
+      add({source: "notifications", action: "anonymised", count: audienceCount, fields: ["audience.usernames", "readBy"]});
+
+      const inviteFilter = {$or: [{acceptedUsername: username}, ...(user?.email ? [{email: user.email.toLowerCase()}] : [])]};
+      const inviteCount = await InviteModel.countDocuments(inviteFilter);
+      if(!dry && inviteCount) {
+        await InviteModel.updateMany(inviteFilter, {
+          $set: {email: `${job.pseudonym}@erased.invalid`, acceptedUsername: job.pseudonym},
+          $unset: {name: "", message: ""},
+        });
+      }
+      add({source: "invites", action: "anonymised", count: inviteCount, fields: ["email", "name", "message", "acceptedUsername"]});
+
+      const historyCount = await PropertyHistoryModel.countDocuments({changedBy: username});
+      if(!dry && historyCount) {
+        await PropertyHistoryModel.updateMany({changedBy: username}, {$set: {changedBy: job.pseudonym}});
+      }
+      add({source: "property-history", action: "anonymised", count: historyCount, fields: ["changedBy"]});
+
+      // 4) Leases: financial terms are retained, the tenant's PII is scrubbed
+      const leaseFilter = {"tenantInformation.tenantUsername": username};
+      const leaseCount = await LeaseModel.countDocuments(leaseFilter);
+      if(!dry && leaseCount) {
+        await LeaseModel.updateMany(leaseFilter, {
+          $set: {...this.LEASE_PII_FIELDS, "tenantInformation.tenantUsername": job.pseudonym},
+        });
+      }
+      add({
+        source: "leases",
+        action: "anonymised",
+        count: leaseCount,
+        fields: ["tenantInformation.tenantUsername", ...Object.keys(this.LEASE_PII_FIELDS)],
+      });
+      add({
+        source: "leases",
+        action: "retained",
+        count: leaseCount,
+        reason: "Lease terms, rent amounts, signatures and lease files are kept for financial/legal retention",
+      });
+
+      // Billing: amounts and allocations are kept, re-keyed to the pseudonym
+      const billingFilter = {tenantUsername: username};
+      const billingUpdate = {$set: {tenantUsername: job.pseudonym}};
+      const [installmentCount, invoiceCount, paymentCount] = await Promise.all([
+        RentInstallmentModel.countDocuments(billingFilter),
+        InvoiceModel.countDocuments(billingFilter),
+        PaymentModel.countDocuments(billingFilter),
+      ]);
+      if(!dry) {
+        if(installmentCount) await RentInstallmentModel.updateMany(billingFilter, billingUpdate);
+        if(invoiceCount) await InvoiceModel.updateMany(billingFilter, billingUpdate);
+        if(paymentCount) await PaymentModel.updateMany(billingFilter, billingUpdate);
+      }
+      add({source: "rent-installments", action: "anonymised", count: installmentCount, fields: ["tenantUsername"]});
+      add({source: "invoices", action: "anonymised", count: invoiceCount, fields: ["tenantUsername"]});
+      add({source: "payments", action: "anonymised", count: paymentCount, fields: ["tenantUsername"]});
+      add({
+        source: "billing",
+        action: "retained",
+        count: installmentCount + invoiceCount + paymentCount,
+        reason: "Installments, invoices and payments (amounts, allocations, references) are kept for financial/legal retention",
+      });
+
+      // 5) Files on disk
+      let bytes = 0;
+      for(const rel of this.subjectDirs(username)) {
+        const abs = this.publicPath(rel);
+        if(!abs) continue;
+        const files = await this.listFiles(abs);
+        if(!files.length) continue;
+        for(const f of files) bytes += (await fse.stat(f)).size;
+        if(!dry) await fse.remove(abs);
+        add({source: path.posix.dirname(rel), action: "removed", count: files.length});
+      }
+
+      PermissionService.invalidate(username);
+      await DataErasureModel.updateOne(
+        {requestId},
+        {$set: {status: "completed", report, bytesRemoved: bytes, completedAt: new Date()}}
+      );
+    } catch(error: any) {
+      console.error("[data-erasure] error:", error?.message || error);
+      await DataErasureModel.updateOne(
+        {requestId},
+        {$set: {status: "failed", report, error: String(error?.message || error), completedAt: new Date()}}
+      );
+    }
+  }
+
+  /** deleteMany (or just count on dry runs). */
+  private static async removeMany(
+    model: {countDocuments(f: any): any; deleteMany(f: any): any},
+    filter: Record<string, unknown>,
+    dry: boolean
+  ): Promise<number> {
+    if(dry) return Number(await model.countDocuments(filter));
+    const res = await model.deleteMany(filter);
+    return Number(res?.deletedCount ?? 0);
+  }
+}
@@ -0,0 +1,128 @@
+// src/services/impersonation.service.ts
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import {v4 as uuidv4} from "uuid";
+import {TokenMap} from "../models/token.model";
+import {LoggedUserActivitiesModel} from "../models/tracking.model";
+import {Role} from "../types/roles";
+import {SessionMeta, SessionService} from "./session.service";
+
+/** Real identity behind an impersonation token (JWT "act" claim). */
+export interface ImpersonatorClaim {
+  username: string;
+  role: Role;
+  sid: string; // the admin's own session
+}
+
+export interface ImpersonationGrant {
+  accessToken: string;
+  sessionId: string;
+  expiresIn: number; // seconds
+  expiresAt: Date;
+}
+
+export interface ImpersonationAuditEntry {
+  impersonator: string;
+  target: string;
+  sessionId: string;
+  ip: string;
+  action: string; // e.g. "GET /api-lease/... → 200" or "started: <reason>"
+}
+
+/**
+ * Admin "view as user".
+ * - Issues a short-lived access token for the target user that also carries
+ *   the admin (`act` claim) and a grant id (`sid`, TokenMap type "impersonation")
+ * - No refresh token: when the grant expires the admin starts a new one
+ * - The grant dies with the admin's own session (logout/revocation)
+ * - Every impersonated request is written to the admin's activity log
+ */
+export class ImpersonationService {
+  public static readonly TTL_SECONDS = 30 * 60;
+
+  private static secret(): string {
+    return (process.env.JWT_SECRET || "defaultsecret").trim();
+  }
+
+  public static async start(
+    impersonator: ImpersonatorClaim,
+    target: {_id: unknown; username: string; role: Role},
+    reason: string,
+    meta: SessionMeta
+  ): Promise<ImpersonationGrant> {
+    const sessionId = uuidv4();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.TTL_SECONDS * 1000);
+
+    await TokenMap.create({
+      token: crypto.createHash("sha256").update(crypto.randomBytes(32)).digest("hex"),
+      username: target.username,
+      type: "impersonation",
+      expiresAt,
+      sessionId,
+      startedAt: now,
+      ip: meta.ip ?? "",
+      userAgent: (meta.userAgent ?? "").slice(0, 512),
+      impersonator: impersonator.username,
+      parentSessionId: impersonator.sid,
+      reason,
+    });
+
+    const accessToken = jwt.sign(
+      {
+        sub: String(target._id),
+        username: target.username,
+        role: target.role,
+        sid: sessionId,
+        act: impersonator,
+      },
+      this.secret(),
+      {expiresIn: this.TTL_SECONDS}
+    );
+
+    return {accessToken, sessionId, expiresIn: this.TTL_SECONDS, expiresAt};
+  }
+
+  /** Session check for any access token: a normal session or a live impersonation grant. */
+  public static async isTokenActive(payload: {sid?: string; act?: ImpersonatorClaim}): Promise<boolean> {
+    if(!payload.act) return SessionService.isActive(payload.sid);
+    if(!payload.sid) return false;
+
+    const grant = await TokenMap.findOne({
+      type: "impersonation",
+      sessionId: payload.sid,
+      impersonator: payload.act.username,
+      revokedAt: null,
+      expiresAt: {$gt: new Date()},
+    })
+      .select("parentSessionId")
+      .lean();
+    if(!grant) return false;
+    return SessionService.isActive(grant.parentSessionId);
+  }
+
+  /** End one grant (stop impersonating). */
+  public static async stop(sessionId: string, reason = "stopped"): Promise<boolean> {
+    const res = await TokenMap.updateOne(
+      {type: "impersonation", sessionId, revokedAt: null},
+      {$set: {revokedAt: new Date(), revokedReason: reason}}
+    );
+    return res.modifiedCount > 0;
+  }
+
+  /** Append to the impersonator's activity log (LoggedUserActivities). */
+  public static async audit(entry: ImpersonationAuditEntry): Promise<void> {
+    await LoggedUserActivitiesModel.updateOne(
+      {username: entry.impersonator, ip_address: entry.ip || "unknown"},
+      {
+        $push: {
+          activities: {
+            activity: `[impersonation ${entry.sessionId}] as ${entry.target}: ${entry.action}`,
+            timestamp: new Date(),
+          },
+        },
+      },
+      {upsert: true}
+    );
+  }
+}
@@ -0,0 +1,184 @@
+// src/services/late-payment-penalty.service.ts
+import cron from 'node-cron';
+import {Namespace} from 'socket.io';
+import {LatePaymentPenalty, LeaseModel} from '../models/lease.model';
+import {IInvoice, InvoiceModel, PenaltyAssessment} from '../models/invoice.model';
+import {PropertyModel} from '../models/property.model';
+import {BillingActor, BillingService} from './billing.service';
+import {LeaseLifecycleService} from './lease-lifecycle.service';
+
+/** Outcome of assessing one penalty rule against one overdue invoice. */
+export interface PenaltyResult {
+  total: number;               // penalty owed to date for this rule (after caps)
+  periods: number;
+  capped: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LatePaymentPenaltyService {
+  /** Cron expression for the penalty run (default: every day at 01:30). */
+  private readonly SCHEDULE = (process.env.LATE_PAYMENT_PENALTY_CRON || '30 1 * * *').trim();
+
+  /** Grace days for rules that do not set their own `graceDays`. */
+  private readonly DEFAULT_GRACE_DAYS = Math.max(0, Number(process.env.LATE_PAYMENT_GRACE_DAYS ?? 0) || 0);
+
+  private readonly actor: BillingActor = {username: 'system'};
+  private running = false;
+
+  constructor (private io: Namespace) {
+    this.initializeCronJob();
+  }
+
+  private initializeCronJob(): void {
+    if(!cron.validate(this.SCHEDULE)) {
+      console.error(`[LatePaymentPenalty] Invalid LATE_PAYMENT_PENALTY_CRON "${this.SCHEDULE}", job not scheduled`);
+      return;
+    }
+    cron.schedule(this.SCHEDULE, () => {
+      this.run().catch((err) => console.error('[LatePaymentPenalty] Unhandled error in run', err));
+    });
+    console.log(`[LatePaymentPenalty] Job scheduled (${this.SCHEDULE})`);
+  }
+
+  /**
+   * Penalty owed to date for one rule (pure; `daysLate` counts days past due date + grace).
+   *  - fixed:      value, charged again every `repeatEveryDays` (if set)
+   *  - percentage: value % of the outstanding balance per period; with `compounding`
+   *                each period also charges on the earlier periods' penalties
+   *  - per-day:    value for every day late
+   * The result is capped by `maxAmount` and by `maxPercent` of the invoice amount.
+   */
+  public assess(rule: LatePaymentPenalty, invoice: Pick<IInvoice, 'amount' | 'balance'>, daysLate: number): PenaltyResult | null {
+    const value = Number(rule.value);
+    if(daysLate < 1 || !Number.isFinite(value) || value <= 0) return null;
+
+    const repeat = Math.floor(Number(rule.repeatEveryDays) || 0);
+    const periods = repeat > 0 ? Math.floor((daysLate - 1) / repeat) + 1 : 1;
+
+    let total: number;
+    switch(String(rule.type || '').toLowerCase()) {
+      case 'fixed':
+        total = value * periods;
+        break;
+      case 'percentage': {
+        const rate = value / 100;
+        total = rule.compounding
+          ? invoice.balance * (Math.pow(1 + rate, periods) - 1)
+          : invoice.balance * rate * periods;
+        break;
+      }
+      case 'per-day':
+        total = value * daysLate;
+        break;
+      default:
+        return null;
+    }
+
+    let cap = Infinity;
+    if(Number(rule.maxAmount) > 0) cap = Math.min(cap, Number(rule.maxAmount));
+    if(Number(rule.maxPercent) > 0) cap = Math.min(cap, invoice.amount * Number(rule.maxPercent) / 100);
+    const capped = total > cap;
+    return {
+      total: BillingService.round2(capped ? cap : total),
+      periods: String(rule.type).toLowerCase() === 'per-day' ? daysLate : periods,
+      capped,
+    };
+  }
+
+  /**
+   * Daily run:
+   *  - raise rent invoices that are due (so unpaid installments have an invoice)
+   *  - for every unpaid rent / utility invoice past its due date + grace, charge
+   *    each of the lease's late-payment penalties as a penalty invoice
+   *  - send "Invoice Overdue" to the tenant and the landlord the first time
+   */
+  public async run(asOf = new Date()): Promise<{invoices: number; charged: number; notified: number}> {
+    if(this.running) return {invoices: 0, charged: 0, notified: 0};
+    this.running = true;
+
+    const emit = (rooms: string[], payload: unknown) => rooms.forEach((room) => this.io.to(room).emit('notification.new', payload));
+    try {
+      await BillingService.generateRentInvoices({}, this.actor, emit)
+        .catch((err) => console.error('[LatePaymentPenalty] invoice generation failed:', err?.message || err));
+
+      const today = Math.floor(asOf.getTime() / DAY_MS);
+      const overdue = await InvoiceModel.find({
+        kind: {$in: ['rent', 'utility']},
+        status: {$in: ['open', 'partially_paid']},
+        balance: {$gt: 0},
+        dueDate: {$lt: new Date(today * DAY_MS)},
+      }).sort({dueDate: 1});
+
+      const byLease = new Map<string, IInvoice[]>();
+      overdue.forEach((inv) => byLease.set(inv.leaseID, [...(byLease.get(inv.leaseID) ?? []), inv]));
+
+      let invoices = 0;
+      let charged = 0;
+      let notified = 0;
+      for(const [leaseID, list] of byLease) {
+        try {
+          const lease = await LeaseModel.findOne({
+            leaseID,
+            'systemMetadata.validationStatus': {$in: LeaseLifecycleService.BILLABLE_STATES},
+          }).select('leaseID propertyID leaseAgreement.latePaymentPenalties').lean();
+          if(!lease) continue;
+
+          const property = await PropertyModel.findOne({id: lease.propertyID}).select('owner').lean();
+          const rules = (lease.leaseAgreement?.latePaymentPenalties ?? []).filter(Boolean);
+          const grace = (r?: LatePaymentPenalty) => Math.floor(Number(r?.graceDays ?? this.DEFAULT_GRACE_DAYS) || 0);
+          const noticeGrace = rules.length ? Math.min(...rules.map((r) => grace(r))) : grace();
+
+          let leaseCharged = false;
+          for(const inv of list) {
+            const dueDay = Math.floor(new Date(inv.dueDate).getTime() / DAY_MS);
+            if(today - (dueDay + noticeGrace) < 1) continue;
+            invoices++;
+
+            let penaltyTotal = 0;
+            for(const rule of rules) {
+              const daysLate = today - (dueDay + grace(rule));
+              const result = this.assess(rule, inv, daysLate);
+              if(!result || result.total <= 0) continue;
+
+              const assessment: PenaltyAssessment = {
+                type: String(rule.type).toLowerCase(),
+                value: Number(rule.value),
+                daysLate,
+                periods: result.periods,
+                capped: result.capped,
+                assessedAt: asOf,
+              };
+              const added = await BillingService.chargePenalty(
+                inv,
+                {key: `${assessment.type}:${rule.label}`, label: rule.label || 'Late payment penalty'},
+                result.total,
+                assessment,
+                this.actor
+              );
+              if(added > 0) {
+                charged++;
+                leaseCharged = true;
+              }
+              penaltyTotal += result.total;
+            }
+
+            if(!inv.overdueNotifiedAt) {
+              await BillingService.notifyOverdue(inv, property?.owner ?? '', BillingService.round2(penaltyTotal), emit);
+              notified++;
+            }
+          }
+          // Credit left from overpayments pays the new penalties straight away
+          if(leaseCharged) await BillingService.applyCredit(leaseID, emit);
+        } catch(err: any) {
+          console.error(`[LatePaymentPenalty] lease ${leaseID} failed:`, err?.message || err);
+        }
+      }
+
+      console.log(`[LatePaymentPenalty] ${invoices} overdue invoice(s), ${charged} penalty charge(s), ${notified} overdue notice(s)`);
+      return {invoices, charged, notified};
+    } finally {
+      this.running = false;
+    }
+  }
+}
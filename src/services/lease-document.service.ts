@@ -0,0 +1,105 @@
+// src/services/lease-document.service.ts
+import fs from "fs";
+import path from "path";
+import ejs from "ejs";
+import {LeasePayload, LeasePayloadWithProperty} from "../models/lease.model";
+import {PropertyModel} from "../models/property.model";
+import {PdfService} from "./pdf.service";
+
+/**
+ * Lease agreement documents.
+ * - `data.json` snapshot per lease (what the preview + PDF are rendered from);
+ *   the previous snapshot is kept under oldAgreements/<timestamp>/
+ * - Agreement PDF rendering, and a stored `agreement.pdf` for leases created
+ *   by the system (renewals)
+ */
+export class LeaseDocumentService {
+  public static readonly LEASE_UPLOAD_ROOT = path.resolve(__dirname, "../../public/uploads/leases");
+  public static readonly LEASE_UPLOAD_DIR_URL = "uploads/leases";
+
+  /** Prevent path traversal by normalizing under the lease root. */
+  private static leasePath(leaseID: string, ...segments: string[]): string {
+    const root = path.normalize(this.LEASE_UPLOAD_ROOT);
+    const target = path.normalize(path.join(root, leaseID, ...segments));
+    if(!target.startsWith(root)) throw new Error("Unsafe path resolution detected.");
+    return target;
+  }
+
+  /** Write the snapshot used by the preview / PDF (versions the old copy). */
+  public static async writeSnapshot(data: LeasePayloadWithProperty): Promise<void> {
+    const current = this.leasePath(data.leaseID, "data.json");
+    if(fs.existsSync(current)) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-").replace("T", "_").replace("Z", "");
+      const old = this.leasePath(data.leaseID, "oldAgreements", stamp, "data.json");
+      await fs.promises.mkdir(path.dirname(old), {recursive: true});
+      await fs.promises.rename(current, old);
+    }
+    await fs.promises.mkdir(path.dirname(current), {recursive: true});
+    await fs.promises.writeFile(current, JSON.stringify(data, null, 2), "utf8");
+  }
+
+  /** Snapshot for a stored lease, with its property loaded. */
+  public static async snapshotOf(lease: LeasePayload): Promise<LeasePayloadWithProperty> {
+    const property = await PropertyModel.findOne({id: lease.propertyID}).lean();
+    if(!property) throw new Error(`Property ${lease.propertyID} not found`);
+    const {propertyID: _propertyID, buildingID: _buildingID, ...rest} = lease;
+    return {...rest, property: property as any};
+  }
+
+  public static async readSnapshot(leaseID: string): Promise<any | null> {
+    const file = this.leasePath(leaseID, "data.json");
+    if(!fs.existsSync(file)) return null;
+    return JSON.parse(await fs.promises.readFile(file, "utf8"));
+  }
+
+  /** Render the agreement PDF from a snapshot (`data.json` contents). */
+  public static async renderAgreement(leaseData: any): Promise<Uint8Array> {
+    // Attach map as data URL if location present
+    if(leaseData.property?.location) {
+      leaseData.property.location.embeddedUrl = await PdfService.staticMap(leaseData.property.location);
+    }
+
+    // Small date formatter for printable output
+    const fmt = (d: string) => {
+      const dt = new Date(d);
+      const y = dt.getFullYear();
+      const m = (dt.getMonth() + 1).toString().padStart(2, "0");
+      const dd = dt.getDate().toString().padStart(2, "0");
+      return `${y}/${m}/${dd}`;
+    };
+
+    leaseData.tenantInformation.dateOfBirth = fmt(leaseData.tenantInformation.dateOfBirth);
+    leaseData.leaseAgreement.startDate = fmt(leaseData.leaseAgreement.startDate);
+    leaseData.leaseAgreement.endDate = fmt(leaseData.leaseAgreement.endDate);
+    leaseData.signatures.signedAt = fmt(leaseData.signatures.signedAt);
+    leaseData.systemMetadata.lastUpdated = fmt(new Date(leaseData.systemMetadata.lastUpdated).toISOString());
+
+    const html = ejs.render(PdfService.template("leaseDocumentTemplates/lease-agreement-pdf.ejs"), {data: leaseData});
+    const header = ejs.render(PdfService.template("leaseDocumentTemplates/header.ejs"), {
+      logoSrc: PdfService.logoDataUrl(),
+      companyName: "PropEase Real Estate",
+    });
+    const footer = ejs.render(PdfService.template("leaseDocumentTemplates/footer.ejs"), {
+      qrCodeSrc: await PdfService.qrCode(leaseData.leaseID),
+    });
+
+    return PdfService.render({
+      html,
+      headerTemplate: header,
+      footerTemplate: footer,
+      margin: {top: "150px", bottom: "150px"},
+    });
+  }
+
+  /**
+   * Refresh the snapshot of a stored lease and render `agreement.pdf` next to it.
+   * Returns the public URL path of the PDF.
+   */
+  public static async regenerate(lease: LeasePayload): Promise<string> {
+    const snapshot = await this.snapshotOf(lease);
+    await this.writeSnapshot(snapshot);
+    const pdf = await this.renderAgreement(JSON.parse(JSON.stringify(snapshot)));
+    await fs.promises.writeFile(this.leasePath(lease.leaseID, "agreement.pdf"), pdf);
+    return [this.LEASE_UPLOAD_DIR_URL, lease.leaseID, "agreement.pdf"].join("/");
+  }
+}
@@ -0,0 +1,96 @@
+// src/services/lease-expiry.service.ts
+import cron from 'node-cron';
+import {Namespace} from 'socket.io';
+import {LeaseModel} from '../models/lease.model';
+import {LeaseCaller, LeaseLifecycleService} from './lease-lifecycle.service';
+import {LeaseRenewalService} from './lease-renewal.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LeaseExpiryService {
+  /** Cron expression for the expiry run (default: every day at 01:00). */
+  private readonly SCHEDULE = (process.env.LEASE_EXPIRY_CRON || '0 1 * * *').trim();
+
+  /** Days before the end date a running lease is marked as expiring. */
+  private readonly NOTICE_DAYS = Math.max(0, Number(process.env.LEASE_EXPIRING_NOTICE_DAYS ?? 60) || 0);
+
+  private readonly caller: LeaseCaller = {system: true};
+  private running = false;
+
+  constructor (private io: Namespace) {
+    this.initializeCronJob();
+  }
+
+  private initializeCronJob(): void {
+    if(!cron.validate(this.SCHEDULE)) {
+      console.error(`[LeaseExpiry] Invalid LEASE_EXPIRY_CRON "${this.SCHEDULE}", job not scheduled`);
+      return;
+    }
+    cron.schedule(this.SCHEDULE, () => {
+      this.run().catch((err) => console.error('[LeaseExpiry] Unhandled error in run', err));
+    });
+    console.log(`[LeaseExpiry] Job scheduled (${this.SCHEDULE})`);
+  }
+
+  /**
+   * Daily run:
+   *  - active leases ending within NOTICE_DAYS become "expiring"
+   *  - active / expiring leases whose end date has passed become "expired"
+   *  - accepted renewals become "active" on their start date
+   *  - renewal proposals not answered by their respond-by date lapse
+   */
+  public async run(asOf = new Date()): Promise<{expiring: number; expired: number; started: number; lapsed: number}> {
+    if(this.running) return {expiring: 0, expired: 0, started: 0, lapsed: 0};
+    this.running = true;
+
+    const emit = (rooms: string[], payload: unknown) => rooms.forEach((room) => this.io.to(room).emit('notification.new', payload));
+    try {
+      const today = new Date(Math.floor(asOf.getTime() / DAY_MS) * DAY_MS);
+
+      const ended = await LeaseModel.find({
+        'systemMetadata.validationStatus': {$in: ['active', 'expiring']},
+        'leaseAgreement.endDate': {$lt: today},
+      }).select('leaseID').lean();
+      let expired = 0;
+      for(const l of ended) {
+        const r = await LeaseLifecycleService.transition(l.leaseID, 'expire', this.caller, 'End date reached', emit)
+          .catch((err) => ({ok: false as const, httpStatus: 500, message: String(err?.message || err)}));
+        if(r.ok) expired++;
+      }
+
+      const ending = await LeaseModel.find({
+        'systemMetadata.validationStatus': 'active',
+        'leaseAgreement.endDate': {$gte: today, $lt: new Date(today.getTime() + (this.NOTICE_DAYS + 1) * DAY_MS)},
+      }).select('leaseID').lean();
+      let expiring = 0;
+      for(const l of ending) {
+        const r = await LeaseLifecycleService.transition(l.leaseID, 'mark_expiring', this.caller, `Ends within ${this.NOTICE_DAYS} days`, emit)
+          .catch((err) => ({ok: false as const, httpStatus: 500, message: String(err?.message || err)}));
+        if(r.ok) expiring++;
+      }
+
+      const successors = await LeaseModel.find({
+        'systemMetadata.validationStatus': 'approved',
+        'renewal.status': 'accepted',
+        'leaseAgreement.startDate': {$lte: asOf},
+      }).select('leaseID').lean();
+      let started = 0;
+      for(const l of successors) {
+        const r = await LeaseLifecycleService.transition(l.leaseID, 'activate', this.caller, 'Renewal start date reached', emit)
+          .catch((err) => ({ok: false as const, httpStatus: 500, message: String(err?.message || err)}));
+        if(r.ok) started++;
+      }
+
+      const lapsed = await LeaseRenewalService.lapse(asOf, emit)
+        .catch((err) => {
+          console.error('[LeaseExpiry] renewal lapse failed:', err?.message || err);
+          return 0;
+        });
+
+      console.log(`[LeaseExpiry] ${expiring} lease(s) expiring, ${expired} expired, ${started} renewal(s) started, ${lapsed} proposal(s) lapsed`);
+      return {expiring, expired, started, lapsed};
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,263 @@
+// src/services/lease-lifecycle.service.ts
+import {
+  LEASE_STATES,
+  LeaseAction,
+  LeaseModel,
+  LeaseState,
+  LeaseStatusChange,
+  LeaseType,
+} from "../models/lease.model";
+import type {DefinedTypes} from "../models/notifications/notification.model";
+import type {Role} from "../types/roles";
+import NotificationService from "./notification.service";
+
+/**
+ * Who is asking for a transition. `system` skips the role check: scheduled
+ * jobs and flows that did their own checks (e.g. a tenant accepting a renewal).
+ */
+export interface LeaseCaller {
+  user?: {username: string; role?: string} | undefined;
+  system?: boolean;
+}
+
+export type LeaseTransitionResult =
+  | {ok: true; lease: LeaseType}
+  | {ok: false; httpStatus: number; message: string};
+
+interface LeaseTransitionRule {
+  from: ReadonlyArray<LeaseState>;
+  to: LeaseState;
+  /** Roles allowed to take the step (admins always can; scheduled jobs bypass). */
+  roles: ReadonlyArray<Role>;
+  reasonRequired?: boolean;
+}
+
+/**
+ * Lease lifecycle on top of `systemMetadata.validationStatus`.
+ *
+ *   draft ──submit──▶ pending_review ──approve──▶ approved ──activate──▶ active ──mark_expiring──▶ expiring
+ *     ▲                    │ reject                                       │  ▲                         │
+ *     └── (submit again) ◀─┘ rejected                        suspend ◀────┘  └──── reinstate          │
+ *                                                                                       expire / renew ┘
+ *
+ * - cancel ends a lease before it starts; terminate ends a running one early
+ * - expired / terminated / renewed / rejected / cancelled leases can be archived
+ * - Every step is compare-and-set on the current state and pushed to `statusHistory`
+ */
+export class LeaseLifecycleService {
+  public static readonly RULES: Readonly<Record<LeaseAction, LeaseTransitionRule>> = {
+    submit: {from: ["draft", "rejected"], to: "pending_review", roles: ["manager", "operator", "agent"]},
+    approve: {from: ["pending_review"], to: "approved", roles: ["manager"]},
+    reject: {from: ["pending_review"], to: "rejected", roles: ["manager"], reasonRequired: true},
+    cancel: {from: ["draft", "pending_review", "approved"], to: "cancelled", roles: ["manager", "operator"], reasonRequired: true},
+    activate: {from: ["approved"], to: "active", roles: ["manager", "operator"]},
+    mark_expiring: {from: ["active"], to: "expiring", roles: ["manager", "operator"]},
+    expire: {from: ["active", "expiring"], to: "expired", roles: ["manager"]},
+    suspend: {from: ["active", "expiring"], to: "suspended", roles: ["manager"], reasonRequired: true},
+    reinstate: {from: ["suspended"], to: "active", roles: ["manager"], reasonRequired: true},
+    terminate: {from: ["active", "expiring", "suspended"], to: "terminated", roles: ["manager"], reasonRequired: true},
+    renew: {from: ["active", "expiring", "expired"], to: "renewed", roles: ["manager", "operator"]},
+    archive: {from: ["expired", "terminated", "renewed", "rejected", "cancelled"], to: "archived", roles: ["manager"]},
+  };
+
+  /** Leases that hold their unit (occupancy roll-ups). */
+  public static readonly OCCUPYING_STATES: ReadonlyArray<LeaseState> = ["active", "expiring", "renewed"];
+
+  /**
+   * Leases that are invoiced and charged late-payment penalties: the occupying
+   * ones plus expired leases, whose last installments / arrears are still owed.
+   */
+  public static readonly BILLABLE_STATES: ReadonlyArray<LeaseState> = ["active", "expiring", "renewed", "expired"];
+
+  /** States a lease may be created in. */
+  public static readonly INITIAL_STATES: ReadonlyArray<LeaseState> = ["draft", "pending_review"];
+
+  /** Free-form statuses used before the lifecycle existed, mapped onto it. */
+  public static readonly LEGACY_STATUS_MAP: Readonly<Record<string, LeaseState>> = {
+    pending: "pending_review",
+    waiting: "pending_review",
+    hold: "pending_review",
+    "under review": "pending_review",
+    processing: "pending_review",
+    flagged: "pending_review",
+    validated: "approved",
+    reviewed: "approved",
+    completed: "active",
+    cancel: "cancelled",
+    inactive: "suspended",
+    deactivated: "suspended",
+    deactive: "suspended",
+  };
+
+  private static readonly NOTIFY_TYPE: Readonly<Record<LeaseAction, DefinedTypes>> = {
+    submit: "verify",
+    approve: "approve",
+    reject: "reject",
+    cancel: "cancel",
+    activate: "start",
+    mark_expiring: "reminder",
+    expire: "expire",
+    suspend: "update",
+    reinstate: "restore",
+    terminate: "terminate",
+    renew: "renew",
+    archive: "archive",
+  };
+
+  public static isState(v: unknown): v is LeaseState {
+    return typeof v === "string" && (LEASE_STATES as readonly string[]).includes(v);
+  }
+
+  /** Lifecycle state for a new or legacy status string (null when unknown). */
+  public static normalize(raw: unknown): LeaseState | null {
+    const s = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+    if(this.isState(s)) return s;
+    return this.LEGACY_STATUS_MAP[s] ?? null;
+  }
+
+  /** State for a lease being registered (draft when not given, null when not a valid start). */
+  public static initialState(raw: unknown): LeaseState | null {
+    if(raw === undefined || raw === null || raw === "") return "draft";
+    const state = this.normalize(raw);
+    return state && this.INITIAL_STATES.includes(state) ? state : null;
+  }
+
+  /** The action that moves a lease from `from` to `to` (for callers that only send the target state). */
+  public static actionFor(from: string, to: LeaseState): LeaseAction | null {
+    return (Object.keys(this.RULES) as LeaseAction[])
+      .find((a) => this.RULES[a].to === to && (this.RULES[a].from as readonly string[]).includes(from)) ?? null;
+  }
+
+  public static canTake(action: LeaseAction, caller: LeaseCaller): boolean {
+    if(caller.system) return true;
+    const role = String(caller.user?.role || "");
+    return role === "admin" || (this.RULES[action].roles as readonly string[]).includes(role);
+  }
+
+  /** Actions the caller can take from `state`. */
+  public static availableActions(state: string, caller: LeaseCaller): LeaseAction[] {
+    return (Object.keys(this.RULES) as LeaseAction[])
+      .filter((a) => (this.RULES[a].from as readonly string[]).includes(state) && this.canTake(a, caller));
+  }
+
+  /** Apply one lifecycle step atomically (compare-and-set on the current state). */
+  public static async transition(
+    leaseID: string,
+    action: LeaseAction,
+    caller: LeaseCaller,
+    rawReason: unknown,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<LeaseTransitionResult> {
+    const rule = this.RULES[action];
+    const reason = typeof rawReason === "string" ? rawReason.trim().slice(0, 2000) : "";
+
+    if(rule.reasonRequired && !reason) return {ok: false, httpStatus: 400, message: `A reason is required to ${action.replace("_", " ")} a lease.`};
+    if(!this.canTake(action, caller)) {
+      return {ok: false, httpStatus: 403, message: `Your role cannot ${action.replace("_", " ")} a lease.`};
+    }
+
+    const before = await LeaseModel.findOne({leaseID}).select("systemMetadata.validationStatus").lean();
+    if(!before) return {ok: false, httpStatus: 404, message: "No lease agreement found for this lease ID."};
+    const from = String(before.systemMetadata?.validationStatus ?? "");
+
+    const now = new Date();
+    const change: LeaseStatusChange = {
+      action,
+      from,
+      to: rule.to,
+      ...(reason ? {reason} : {}),
+      actor: caller.user?.username || "system",
+      ...(caller.user?.role ? {actorRole: String(caller.user.role)} : {}),
+      at: now,
+    };
+    const lease = await LeaseModel.findOneAndUpdate(
+      {leaseID, "systemMetadata.validationStatus": {$in: rule.from}},
+      {
+        $set: {"systemMetadata.validationStatus": rule.to, "systemMetadata.lastUpdated": now.toISOString()},
+        $push: {statusHistory: change},
+      },
+      {new: true}
+    );
+    if(!lease) {
+      return {
+        ok: false,
+        httpStatus: 409,
+        message: `Cannot ${action.replace("_", " ")}: the lease must be ${rule.from.join(" / ")} (now ${from || "unset"}).`,
+      };
+    }
+
+    await this.notify(action, lease, change, emit)
+      .catch((e) => console.warn("[lease-lifecycle] notification failed:", e?.message || e));
+    return {ok: true, lease};
+  }
+
+  private static async notify(
+    action: LeaseAction,
+    lease: LeaseType,
+    change: LeaseStatusChange,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<void> {
+    const tenant = lease.tenantInformation?.tenantUsername;
+    const label = change.to.replace("_", " ");
+    const title = action === "terminate" ? "Lease Terminated" as const
+      : action === "renew" ? "Lease Renewed" as const
+        : "Update Lease" as const;
+
+    await new NotificationService().createNotification(
+      {
+        title,
+        body: `Lease ${lease.leaseID} is now ${label}${change.reason ? `: ${change.reason}` : "."}`,
+        type: this.NOTIFY_TYPE[action],
+        severity: ["reject", "cancel", "suspend", "terminate", "expire"].includes(action) ? "warning" : "info",
+        audience: {mode: "role", ...(tenant ? {usernames: [tenant]} : {}), roles: ["admin", "manager"]},
+        channels: ["inapp", "email"],
+        metadata: {leaseID: lease.leaseID, action, from: change.from, to: change.to, by: change.actor, ...(change.reason ? {reason: change.reason} : {})},
+        target: {kind: "Lease" as const, refId: lease.leaseID},
+        source: "lease-lifecycle",
+      },
+      emit
+    );
+  }
+
+  public static async history(leaseID: string) {
+    return LeaseModel.findOne({leaseID})
+      .select("-_id leaseID systemMetadata.validationStatus statusHistory")
+      .lean();
+  }
+
+  /**
+   * One-off migration of legacy statuses (idempotent, runs at boot).
+   * Mapped leases get a "migrate" entry in their history; anything not
+   * recognised becomes a draft so it has to be reviewed again.
+   */
+  public static async migrateLegacyStatuses(): Promise<number> {
+    const at = new Date();
+    let migrated = 0;
+    for(const [legacy, state] of Object.entries(this.LEGACY_STATUS_MAP)) {
+      const res = await LeaseModel.updateMany(
+        {"systemMetadata.validationStatus": legacy},
+        {
+          $set: {"systemMetadata.validationStatus": state},
+          $push: {statusHistory: {action: "migrate", from: legacy, to: state, reason: "Legacy status mapped to the lease lifecycle", actor: "system", at}},
+        }
+      );
+      migrated += res.modifiedCount;
+    }
+
+    const unknown = await LeaseModel.find({"systemMetadata.validationStatus": {$nin: LEASE_STATES}})
+      .select("leaseID systemMetadata.validationStatus")
+      .lean();
+    for(const l of unknown) {
+      const from = String(l.systemMetadata?.validationStatus ?? "");
+      const res = await LeaseModel.updateOne(
+        {leaseID: l.leaseID, "systemMetadata.validationStatus": {$nin: LEASE_STATES}},
+        {
+          $set: {"systemMetadata.validationStatus": "draft"},
+          $push: {statusHistory: {action: "migrate", from, to: "draft", reason: "Unknown legacy status, back to draft", actor: "system", at}},
+        }
+      );
+      migrated += res.modifiedCount;
+    }
+    return migrated;
+  }
+}
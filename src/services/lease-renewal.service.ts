@@ -0,0 +1,463 @@
+// src/services/lease-renewal.service.ts
+import {
+  LeaseModel,
+  LeasePayload,
+  LeaseRenewal,
+  LeaseType,
+  RentEscalation,
+  RentIndexPoint,
+} from "../models/lease.model";
+import {BillingService} from "./billing.service";
+import {LeaseDocumentService} from "./lease-document.service";
+import {LeaseCaller, LeaseLifecycleService} from "./lease-lifecycle.service";
+import {RentScheduleService} from "./rent-schedule.service";
+import NotificationService from "./notification.service";
+
+export type RenewalResult =
+  | {ok: true; lease: LeaseType}
+  | {ok: false; httpStatus: number; message: string};
+
+/** What staff send when proposing (or quoting) a renewal. */
+export interface RenewalInput {
+  escalation: RentEscalation;
+  startDate?: string;          // default: the day after the current lease ends
+  durationMonths?: number;     // default: the current lease's duration
+  respondBy?: string;          // tenant must answer before this date
+  note?: string;
+}
+
+export interface RenewalQuote {
+  startDate: Date;
+  endDate: Date;
+  durationMonths: number;
+  previousRent: number;
+  proposedRent: number;
+  changePercent: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Lease renewals.
+ *
+ *   propose ──▶ successor lease (pending_review, renewal.status "proposed")
+ *                 ├─ tenant accepts ─▶ successor approved, predecessor renewed
+ *                 ├─ tenant declines / staff withdraw ─▶ successor cancelled
+ *                 └─ no answer by respondBy ─▶ successor cancelled ("lapsed")
+ *
+ * - The successor is a copy of the current lease with new dates and the
+ *   escalated rent; `renewal.predecessorLeaseID` / `successorLeaseID` link them
+ * - One open proposal per lease; answers are compare-and-set on renewal.status
+ * - The agreement snapshot + PDF are regenerated on proposal and acceptance
+ */
+export class LeaseRenewalService {
+  public static readonly ESCALATION_TYPES: ReadonlyArray<RentEscalation["type"]> = ["fixed", "percentage", "index"];
+
+  private static readonly OPEN: ReadonlyArray<LeaseRenewal["status"]> = ["proposed", "accepted"];
+
+  private static isoDay(d: Date): Date {
+    return new Date(Math.floor(d.getTime() / DAY_MS) * DAY_MS);
+  }
+
+  private static period(d: Date): string {
+    return d.toISOString().slice(0, 7);
+  }
+
+  /** Add months in UTC, clamping to the end of shorter months (Jan 31 + 1 → Feb 28/29). */
+  private static addMonths(d: Date, months: number): Date {
+    const y = d.getUTCFullYear();
+    const m = d.getUTCMonth() + months;
+    const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(y, m, Math.min(d.getUTCDate(), last)));
+  }
+
+  /** Whole months between two dates (end inclusive, as stored on leases). */
+  private static monthsBetween(start: Date, endInclusive: Date): number {
+    const end = new Date(endInclusive.getTime() + DAY_MS);
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    return Math.max(1, months - (end.getUTCDate() < start.getUTCDate() ? 1 : 0));
+  }
+
+  /** Validation errors for an escalation (empty when valid). */
+  public static escalationErrors(e: Partial<RentEscalation> | null | undefined): string[] {
+    if(!e || typeof e !== "object") return ["escalation is required"];
+    const errors: string[] = [];
+    if(!this.ESCALATION_TYPES.includes(e.type as RentEscalation["type"])) {
+      errors.push(`escalation.type must be one of: ${this.ESCALATION_TYPES.join(", ")}`);
+    }
+    if(e.type === "fixed" || e.type === "percentage") {
+      if(!Number.isFinite(Number(e.value)) || e.value === null || e.value === undefined) errors.push("escalation.value must be a number");
+      if(e.type === "percentage" && Number(e.value) <= -100) errors.push("escalation.value must be above -100 (%)");
+    }
+    if(e.type === "index") {
+      const table = Array.isArray(e.indexTable) ? e.indexTable : [];
+      if(!table.length) errors.push("escalation.indexTable must list at least one {period, value}");
+      table.forEach((p, i) => {
+        if(!PERIOD_RE.test(String(p?.period))) errors.push(`escalation.indexTable[${i}].period must be YYYY-MM`);
+        if(!(Number(p?.value) > 0)) errors.push(`escalation.indexTable[${i}].value must be a positive number`);
+      });
+      if(e.basePeriod !== undefined && !PERIOD_RE.test(String(e.basePeriod))) errors.push("escalation.basePeriod must be YYYY-MM");
+      if(e.currentPeriod !== undefined && !PERIOD_RE.test(String(e.currentPeriod))) errors.push("escalation.currentPeriod must be YYYY-MM");
+    }
+    if(e.capPercent !== undefined && !Number.isFinite(Number(e.capPercent))) errors.push("escalation.capPercent must be a number");
+    if(e.floorPercent !== undefined && !Number.isFinite(Number(e.floorPercent))) errors.push("escalation.floorPercent must be a number");
+    if(e.capPercent !== undefined && e.floorPercent !== undefined && Number(e.capPercent) < Number(e.floorPercent)) {
+      errors.push("escalation.capPercent cannot be below escalation.floorPercent");
+    }
+    return errors;
+  }
+
+  /** Latest index point on or before `period` (table sorted by period). */
+  private static indexAt(table: RentIndexPoint[], period: string): RentIndexPoint | null {
+    let found: RentIndexPoint | null = null;
+    for(const p of table) {
+      if(p.period <= period) found = p;
+      else break;
+    }
+    return found;
+  }
+
+  /**
+   * Escalated rent (pure). `defaultBase` is the index month of the current rent
+   * and `asOf` the month to escalate to, unless the escalation names them.
+   * Returns an error message string when the index table does not cover them.
+   */
+  public static escalate(rent: number, e: RentEscalation, defaultBase: string, asOf: string): {rent: number; changePercent: number} | string {
+    let next: number;
+    switch(e.type) {
+      case "fixed":
+        next = rent + Number(e.value);
+        break;
+      case "percentage":
+        next = rent * (1 + Number(e.value) / 100);
+        break;
+      case "index": {
+        const table = [...(e.indexTable ?? [])].sort((a, b) => a.period.localeCompare(b.period));
+        const base = this.indexAt(table, e.basePeriod ?? defaultBase);
+        const current = this.indexAt(table, e.currentPeriod ?? asOf);
+        if(!base) return `The index table has no value on or before ${e.basePeriod ?? defaultBase}`;
+        if(!current) return `The index table has no value on or before ${e.currentPeriod ?? asOf}`;
+        next = rent * (current.value / base.value);
+        break;
+      }
+      default:
+        return "Unknown escalation type";
+    }
+
+    let change = rent > 0 ? (next - rent) / rent * 100 : 0;
+    if(e.capPercent !== undefined && change > Number(e.capPercent)) change = Number(e.capPercent);
+    if(e.floorPercent !== undefined && change < Number(e.floorPercent)) change = Number(e.floorPercent);
+    if(rent > 0) next = rent * (1 + change / 100);
+    if(next < 0) return "The escalated rent would be negative";
+
+    return {rent: BillingService.round2(next), changePercent: Math.round(change * 100) / 100};
+  }
+
+  /** Dates + rent of the renewal of `lease` (no side effects). */
+  public static quote(lease: Pick<LeasePayload, "leaseAgreement">, input: RenewalInput, now = new Date()): RenewalQuote | string {
+    const errors = this.escalationErrors(input.escalation);
+    if(errors.length) return errors.join("; ");
+
+    const currentStart = new Date(lease.leaseAgreement.startDate);
+    const currentEnd = new Date(lease.leaseAgreement.endDate);
+    if(Number.isNaN(currentStart.getTime()) || Number.isNaN(currentEnd.getTime())) return "The current lease has no valid start / end date";
+
+    const startDate = input.startDate ? new Date(input.startDate) : this.isoDay(new Date(currentEnd.getTime() + DAY_MS));
+    if(Number.isNaN(startDate.getTime())) return "startDate must be an ISO date";
+    if(startDate.getTime() <= currentStart.getTime()) return "startDate must be after the start of the current lease";
+
+    const durationMonths = input.durationMonths !== undefined
+      ? Math.floor(Number(input.durationMonths))
+      : Number(lease.leaseAgreement.durationMonths) > 0
+        ? Math.floor(Number(lease.leaseAgreement.durationMonths))
+        : this.monthsBetween(currentStart, currentEnd);
+    if(!(durationMonths >= 1 && durationMonths <= 600)) return "durationMonths must be between 1 and 600";
+    const endDate = new Date(this.addMonths(startDate, durationMonths).getTime() - DAY_MS);
+
+    const previousRent = Number(lease.leaseAgreement.monthlyRent) || 0;
+    const escalated = this.escalate(previousRent, input.escalation, this.period(currentStart), this.period(now));
+    if(typeof escalated === "string") return escalated;
+
+    return {startDate, endDate, durationMonths, previousRent, proposedRent: escalated.rent, changePercent: escalated.changePercent};
+  }
+
+  /** Renewal proposal still waiting for (or accepted by) the tenant, if any. */
+  public static async openRenewalOf(leaseID: string) {
+    return LeaseModel.findOne({"renewal.predecessorLeaseID": leaseID, "renewal.status": {$in: this.OPEN}})
+      .select("leaseID renewal.status")
+      .lean();
+  }
+
+  /** Next free lease id for a renewal: <root>-R<generation>, suffixed when declined attempts exist. */
+  private static async successorId(root: string, generation: number): Promise<string> {
+    const base = `${root}-R${generation}`;
+    for(let attempt = 1; attempt < 100; attempt++) {
+      const id = attempt === 1 ? base : `${base}-${attempt}`;
+      if(!(await LeaseModel.exists({leaseID: id}))) return id;
+    }
+    throw new Error("Too many renewal attempts for this lease");
+  }
+
+  /** Store the agreement snapshot + PDF of a lease (best effort). */
+  private static async refreshDocuments(lease: LeaseType): Promise<void> {
+    try {
+      const url = await LeaseDocumentService.regenerate(lease.toObject() as LeasePayload);
+      await LeaseModel.updateOne({leaseID: lease.leaseID}, {$set: {"systemMetadata.pdfDownloadUrl": url}});
+      lease.systemMetadata.pdfDownloadUrl = url;
+    } catch(e: any) {
+      console.warn(`[lease-renewal] agreement PDF for ${lease.leaseID} not generated:`, e?.message || e);
+    }
+  }
+
+  /** Create the successor lease as a proposal the tenant can accept or decline. */
+  public static async propose(
+    leaseID: string,
+    input: RenewalInput,
+    caller: LeaseCaller,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<RenewalResult> {
+    // Accepting renews the current lease as system, so the proposer must be allowed to renew
+    if(!LeaseLifecycleService.canTake("renew", caller)) return {ok: false, httpStatus: 403, message: "Your role cannot renew a lease."};
+
+    const current = await LeaseModel.findOne({leaseID}).lean();
+    if(!current) return {ok: false, httpStatus: 404, message: "No lease agreement found for this lease ID."};
+
+    const state = String(current.systemMetadata?.validationStatus ?? "");
+    if(!LeaseLifecycleService.RULES.renew.from.includes(state as any)) {
+      return {ok: false, httpStatus: 409, message: `Only ${LeaseLifecycleService.RULES.renew.from.join(" / ")} leases can be renewed (now ${state || "unset"}).`};
+    }
+    if(current.successorLeaseID) return {ok: false, httpStatus: 409, message: `This lease was already renewed as ${current.successorLeaseID}.`};
+    const open = await this.openRenewalOf(leaseID);
+    if(open) return {ok: false, httpStatus: 409, message: `A renewal (${open.leaseID}) is already ${open.renewal?.status}.`};
+
+    const quote = this.quote(current, input);
+    if(typeof quote === "string") return {ok: false, httpStatus: 400, message: quote};
+
+    let respondBy: Date | undefined;
+    if(input.respondBy) {
+      respondBy = new Date(input.respondBy);
+      if(Number.isNaN(respondBy.getTime()) || respondBy.getTime() <= Date.now()) {
+        return {ok: false, httpStatus: 400, message: "respondBy must be a date in the future"};
+      }
+    }
+
+    const rootLeaseID = current.renewal?.rootLeaseID ?? current.leaseID;
+    const generation = (current.renewal?.generation ?? 0) + 1;
+    const successorID = await this.successorId(rootLeaseID, generation);
+    const now = new Date();
+    const actor = caller.user?.username || "system";
+    const note = typeof input.note === "string" ? input.note.trim().slice(0, 2000) : "";
+
+    const {_id, createdAt: _c, updatedAt: _u, statusHistory: _h, renewal: _r, successorLeaseID: _s, ...base} = current as any;
+    const leaseAgreement = {
+      ...current.leaseAgreement,
+      startDate: quote.startDate,
+      endDate: quote.endDate,
+      durationMonths: quote.durationMonths,
+      monthlyRent: quote.proposedRent,
+    };
+    const rentTermsError = RentScheduleService.expand(leaseAgreement);
+    if(typeof rentTermsError === "string") return {ok: false, httpStatus: 400, message: `Invalid rent terms: ${rentTermsError}`};
+
+    const {pdfDownloadUrl: _pdf, ...systemMetadata} = current.systemMetadata;
+    const successor = await LeaseModel.create({
+      ...base,
+      leaseID: successorID,
+      leaseAgreement,
+      systemMetadata: {...systemMetadata, validationStatus: "pending_review", lastUpdated: now.toISOString()},
+      statusHistory: [{
+        action: "create",
+        from: "",
+        to: "pending_review",
+        reason: `Renewal of ${leaseID}`,
+        actor,
+        ...(caller.user?.role ? {actorRole: String(caller.user.role)} : {}),
+        at: now,
+      }],
+      renewal: {
+        predecessorLeaseID: leaseID,
+        rootLeaseID,
+        generation,
+        status: "proposed",
+        escalation: input.escalation,
+        previousRent: quote.previousRent,
+        proposedRent: quote.proposedRent,
+        changePercent: quote.changePercent,
+        ...(respondBy ? {respondBy} : {}),
+        ...(note ? {note} : {}),
+        proposedBy: actor,
+        proposedAt: now,
+      },
+    });
+
+    await this.refreshDocuments(successor);
+    await this.notifyProposal(successor, emit)
+      .catch((e) => console.warn("[lease-renewal] notification failed:", e?.message || e));
+    return {ok: true, lease: successor};
+  }
+
+  private static async notifyProposal(lease: LeaseType, emit?: (rooms: string[], payload: unknown) => void): Promise<void> {
+    const r = lease.renewal;
+    const tenant = lease.tenantInformation?.tenantUsername;
+    if(!r || !tenant) return;
+    const currency = lease.leaseAgreement?.currency?.currency ?? "";
+    const fmt = (d: Date | string) => new Date(d).toISOString().slice(0, 10);
+
+    await new NotificationService().createNotification(
+      {
+        title: "Update Lease",
+        body: `Renewal of lease ${r.predecessorLeaseID} proposed: ${fmt(lease.leaseAgreement.startDate)} to ${fmt(lease.leaseAgreement.endDate)}, ` +
+          `rent ${currency} ${r.proposedRent} (was ${r.previousRent}).${r.respondBy ? ` Please respond by ${fmt(r.respondBy)}.` : ""}`,
+        type: "renew",
+        severity: "info",
+        audience: {mode: "user", usernames: [tenant]},
+        channels: ["inapp", "email"],
+        metadata: {
+          leaseID: lease.leaseID,
+          predecessorLeaseID: r.predecessorLeaseID,
+          previousRent: r.previousRent,
+          proposedRent: r.proposedRent,
+          changePercent: r.changePercent,
+          ...(lease.systemMetadata?.pdfDownloadUrl ? {pdfDownloadUrl: lease.systemMetadata.pdfDownloadUrl} : {}),
+        },
+        target: {kind: "Lease" as const, refId: lease.leaseID},
+        source: "lease-renewal",
+      },
+      emit
+    );
+  }
+
+  /**
+   * Tenant answer to a proposal. Only the tenant of the lease (or an admin on
+   * their behalf) can answer; `username` is the tenant named in the route.
+   */
+  public static async respond(
+    successorID: string,
+    username: string,
+    decision: "accept" | "decline",
+    caller: LeaseCaller,
+    rawNote: unknown,
+    client: {ipAddress: string; userAgent: string},
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<RenewalResult> {
+    const lease = await LeaseModel.findOne({leaseID: successorID}).select("leaseID tenantInformation.tenantUsername renewal").lean();
+    if(!lease?.renewal || lease.tenantInformation?.tenantUsername !== username) {
+      return {ok: false, httpStatus: 404, message: "No renewal proposal found for this tenant."};
+    }
+    if(caller.user?.username !== username && caller.user?.role !== "admin") {
+      return {ok: false, httpStatus: 403, message: "Only the tenant can answer a renewal proposal."};
+    }
+    const note = typeof rawNote === "string" ? rawNote.trim().slice(0, 2000) : "";
+    const predecessorID = lease.renewal.predecessorLeaseID;
+
+    if(decision === "accept") {
+      const predecessor = await LeaseModel.findOne({leaseID: predecessorID}).select("systemMetadata.validationStatus").lean();
+      const state = String(predecessor?.systemMetadata?.validationStatus ?? "");
+      if(!LeaseLifecycleService.RULES.renew.from.includes(state as any)) {
+        return {ok: false, httpStatus: 409, message: `The current lease can no longer be renewed (now ${state || "missing"}).`};
+      }
+    }
+
+    const now = new Date();
+    const claimed = await LeaseModel.findOneAndUpdate(
+      {leaseID: successorID, "renewal.status": "proposed"},
+      {
+        $set: {
+          "renewal.status": decision === "accept" ? "accepted" : "declined",
+          "renewal.respondedBy": caller.user?.username || username,
+          "renewal.respondedAt": now,
+          ...(note ? {"renewal.responseNote": note} : {}),
+          ...(decision === "accept"
+            ? {
+              "renewal.acceptedFrom": {ipAddress: client.ipAddress, userAgent: client.userAgent.slice(0, 500)},
+              "signatures.signedAt": now,
+              "signatures.ipAddress": client.ipAddress,
+            }
+            : {}),
+        },
+      },
+      {new: true}
+    );
+    if(!claimed) {
+      return {ok: false, httpStatus: 409, message: `This renewal was already ${lease.renewal.status}.`};
+    }
+
+    // The tenant's answer is the check here, so the lifecycle steps skip role rules
+    const asTenant: LeaseCaller = {user: caller.user, system: true};
+    if(decision === "decline") {
+      const result = await LeaseLifecycleService.transition(successorID, "cancel", asTenant, `Renewal declined by the tenant${note ? `: ${note}` : ""}`, emit);
+      return result.ok ? result : {ok: false, httpStatus: result.httpStatus, message: result.message};
+    }
+
+    const approved = await LeaseLifecycleService.transition(successorID, "approve", asTenant, "Renewal accepted by the tenant", emit);
+    if(!approved.ok) return approved;
+    const renewed = await LeaseLifecycleService.transition(predecessorID, "renew", asTenant, `Renewed as ${successorID}`, emit);
+    if(!renewed.ok) console.warn(`[lease-renewal] ${predecessorID} not marked renewed:`, renewed.message);
+    await LeaseModel.updateOne({leaseID: predecessorID}, {$set: {successorLeaseID: successorID}});
+
+    await RentScheduleService.regenerate(approved.lease.toObject() as LeasePayload)
+      .catch((e) => console.warn("[lease-renewal] rent schedule not generated:", e?.message || e));
+    await this.refreshDocuments(approved.lease);
+    return {ok: true, lease: approved.lease};
+  }
+
+  /** Staff take back a proposal the tenant has not answered. */
+  public static async withdraw(
+    successorID: string,
+    caller: LeaseCaller,
+    rawReason: unknown,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<RenewalResult> {
+    const reason = typeof rawReason === "string" ? rawReason.trim().slice(0, 2000) : "";
+    if(!reason) return {ok: false, httpStatus: 400, message: "A reason is required to withdraw a renewal."};
+
+    const claimed = await LeaseModel.findOneAndUpdate(
+      {leaseID: successorID, "renewal.status": "proposed"},
+      {$set: {"renewal.status": "withdrawn", "renewal.respondedBy": caller.user?.username || "system", "renewal.respondedAt": new Date(), "renewal.responseNote": reason}},
+      {new: true}
+    );
+    if(!claimed) {
+      const exists = await LeaseModel.exists({leaseID: successorID, renewal: {$exists: true}});
+      return exists
+        ? {ok: false, httpStatus: 409, message: "Only proposals waiting for the tenant can be withdrawn."}
+        : {ok: false, httpStatus: 404, message: "No renewal proposal found for this lease ID."};
+    }
+    return LeaseLifecycleService.transition(successorID, "cancel", {user: caller.user, system: true}, `Renewal withdrawn: ${reason}`, emit);
+  }
+
+  /** Proposals past their respond-by date lapse (called by the daily lease job). */
+  public static async lapse(asOf: Date, emit?: (rooms: string[], payload: unknown) => void): Promise<number> {
+    const due = await LeaseModel.find({"renewal.status": "proposed", "renewal.respondBy": {$lt: asOf}}).select("leaseID").lean();
+    let lapsed = 0;
+    for(const l of due) {
+      const claimed = await LeaseModel.updateOne(
+        {leaseID: l.leaseID, "renewal.status": "proposed"},
+        {$set: {"renewal.status": "lapsed", "renewal.respondedAt": asOf}}
+      );
+      if(!claimed.modifiedCount) continue;
+      await LeaseLifecycleService.transition(l.leaseID, "cancel", {system: true}, "Renewal not answered in time", emit);
+      lapsed++;
+    }
+    return lapsed;
+  }
+
+  /** Renewal proposals of a tenant (newest first). */
+  public static async forTenant(username: string) {
+    return LeaseModel.find({"tenantInformation.tenantUsername": username, renewal: {$exists: true}})
+      .select("-_id leaseID propertyID leaseAgreement.startDate leaseAgreement.endDate leaseAgreement.monthlyRent leaseAgreement.currency systemMetadata renewal")
+      .sort({"renewal.proposedAt": -1})
+      .lean();
+  }
+
+  /** The whole renewal chain a lease belongs to, oldest first. */
+  public static async chain(leaseID: string) {
+    const lease = await LeaseModel.findOne({leaseID}).select("leaseID renewal.rootLeaseID").lean();
+    if(!lease) return null;
+    const root = lease.renewal?.rootLeaseID ?? lease.leaseID;
+    return LeaseModel.find({$or: [{leaseID: root}, {"renewal.rootLeaseID": root}]})
+      .select("-_id leaseID leaseAgreement.startDate leaseAgreement.endDate leaseAgreement.monthlyRent systemMetadata.validationStatus renewal successorLeaseID")
+      .sort({"leaseAgreement.startDate": 1, "renewal.proposedAt": 1})
+      .lean();
+  }
+}
@@ -0,0 +1,284 @@
+// src/services/listing-workflow.service.ts
+import {FilterQuery} from "mongoose";
+import {IProperty, PropertyModel} from "../models/property.model";
+import {ListingAction, ListingTransitionModel} from "../models/listing-transition.model";
+import {ApiKeyContext} from "./api-key.service";
+import {PermissionService} from "./permission.service";
+import {PropertyActor, PropertyHistoryService} from "./property-history.service";
+import NotificationService from "./notification.service";
+
+/** Who is calling (the same shape AuthMiddleware puts on the request). */
+export interface WorkflowCaller {
+  user?: {username: string; role?: string} | undefined;
+  apiKey?: ApiKeyContext | undefined;
+}
+
+export type TransitionResult =
+  | {ok: true; property: IProperty}
+  | {ok: false; httpStatus: number; message: string};
+
+interface TransitionRule {
+  /** Reviewer permission ("review:edit") needed. */
+  review: boolean;
+  commentRequired?: boolean;
+  /** Current state the listing must be in (checked atomically). */
+  from: FilterQuery<IProperty>;
+  /** Human-readable form of `from` for error messages. */
+  fromLabel: string;
+  set: (actor: PropertyActor, now: Date, comment: string) => Record<string, unknown>;
+}
+
+/**
+ * Listing review workflow on top of `status` + `verificationStatus`.
+ *
+ *   draft/pending ──submit──▶ draft/pending (submitted) ──approve──▶ draft/approved ──publish──▶ published
+ *        ▲                               │                                                 │
+ *        └──────── submit ◀── rejected ◀─┘ reject                          unpublish / archive
+ *
+ * - Only approved (or legacy "verified") listings can be published
+ * - Reviewers need "review:edit" and cannot decide on their own submissions (admins can)
+ * - Every step is stored in ListingTransitionModel and in the field history
+ * - Approvals / rejections notify the submitter; submissions notify reviewers
+ */
+export class ListingWorkflowService {
+  public static readonly PUBLISHABLE: ReadonlyArray<string> = ["approved", "verified"];
+
+  private static readonly AWAITING_REVIEW: FilterQuery<IProperty> = {
+    verificationStatus: "pending",
+    "review.submittedAt": {$ne: null},
+  };
+
+  public static readonly RULES: Readonly<Record<ListingAction, TransitionRule>> = {
+    submit: {
+      review: false,
+      from: {
+        status: "draft",
+        $or: [{verificationStatus: "rejected"}, {verificationStatus: "pending", "review.submittedAt": null}],
+      },
+      fromLabel: "a draft that is not yet submitted (or was rejected)",
+      set: (actor, now) => ({
+        verificationStatus: "pending",
+        review: {submittedAt: now, submittedBy: actor.username, reviewedAt: null, comment: ""},
+      }),
+    },
+    approve: {
+      review: true,
+      from: ListingWorkflowService.AWAITING_REVIEW,
+      fromLabel: "a listing waiting for review",
+      set: (actor, now, comment) => ({
+        verificationStatus: "approved",
+        "review.reviewedAt": now,
+        "review.reviewedBy": actor.username,
+        "review.comment": comment,
+      }),
+    },
+    reject: {
+      review: true,
+      commentRequired: true,
+      from: ListingWorkflowService.AWAITING_REVIEW,
+      fromLabel: "a listing waiting for review",
+      set: (actor, now, comment) => ({
+        verificationStatus: "rejected",
+        "review.reviewedAt": now,
+        "review.reviewedBy": actor.username,
+        "review.comment": comment,
+      }),
+    },
+    publish: {
+      review: false,
+      from: {verificationStatus: {$in: ListingWorkflowService.PUBLISHABLE}, status: {$in: ["draft", "archived"]}},
+      fromLabel: "an approved listing that is not published",
+      set: () => ({status: "published"}),
+    },
+    unpublish: {
+      review: false,
+      from: {status: "published"},
+      fromLabel: "a published listing",
+      set: () => ({status: "draft"}),
+    },
+    archive: {
+      review: false,
+      from: {status: {$in: ["draft", "published"]}},
+      fromLabel: "a draft or published listing",
+      set: () => ({status: "archived"}),
+    },
+  };
+
+  /** Whether the caller may review listings ("review:edit"). */
+  public static async canReview(caller: WorkflowCaller): Promise<boolean> {
+    if(!caller.user?.username) return false;
+    if(caller.apiKey) {
+      if(!PermissionService.allows(caller.apiKey.scopes, "review", "edit")) return false;
+      if(caller.apiKey.ownerType === "service") return true;
+    }
+    const decision = await PermissionService.check(caller.user.username, "review", "edit");
+    return decision.allowed;
+  }
+
+  /**
+   * Rules for listings created outside the workflow (insert / bulk import):
+   * non-reviewers always start with an unsubmitted draft; reviewers may set
+   * both fields but can only publish approved listings.
+   */
+  public static applyCreateRules(data: Partial<IProperty>, canReview: boolean, actor: PropertyActor, now = new Date()): string[] {
+    if(!canReview) {
+      data.status = "draft";
+      data.verificationStatus = "pending";
+      return [];
+    }
+    if(data.status === "published" && !this.PUBLISHABLE.includes(String(data.verificationStatus))) {
+      return ["Only approved listings can be published (verificationStatus must be approved)."];
+    }
+    if(data.verificationStatus && data.verificationStatus !== "pending") {
+      data.review = {submittedAt: now, submittedBy: actor.username, reviewedAt: now, reviewedBy: actor.username, comment: ""};
+    }
+    return [];
+  }
+
+  /** Plain edits may not change the workflow fields; returns errors when they try to. */
+  public static updateErrors(current: Pick<IProperty, "status" | "verificationStatus">, data: Partial<IProperty>): string[] {
+    const errors: string[] = [];
+    if(data.status !== undefined && data.status !== current.status) {
+      errors.push("status changes go through the review workflow (POST /api-listing-review/publish|unpublish|archive/:id).");
+    }
+    if(data.verificationStatus !== undefined && data.verificationStatus !== current.verificationStatus) {
+      errors.push("verificationStatus changes go through the review workflow (submit / approve / reject).");
+    }
+    return errors;
+  }
+
+  /** Apply one workflow step atomically (compare-and-set on the current state). */
+  public static async transition(
+    propertyId: string,
+    action: ListingAction,
+    caller: WorkflowCaller,
+    rawComment: unknown,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<TransitionResult> {
+    const rule = this.RULES[action];
+    const actor: PropertyActor = caller.user?.role
+      ? {username: caller.user.username, role: String(caller.user.role)}
+      : {username: caller.user?.username || "system"};
+    const comment = typeof rawComment === "string" ? rawComment.trim().slice(0, 2000) : "";
+
+    if(rule.commentRequired && !comment) return {ok: false, httpStatus: 400, message: `A comment is required to ${action} a listing.`};
+    if(rule.review && !(await this.canReview(caller))) {
+      return {ok: false, httpStatus: 403, message: `Missing permission "review:edit"`};
+    }
+
+    const before = await PropertyModel.findOne({id: propertyId})
+      .select(`${PropertyHistoryService.snapshotProjection()} review`)
+      .lean();
+    if(!before) return {ok: false, httpStatus: 404, message: "Property not found."};
+
+    if(rule.review && before.review?.submittedBy === actor.username && actor.role !== "admin") {
+      return {ok: false, httpStatus: 403, message: "You cannot review your own submission."};
+    }
+
+    const now = new Date();
+    const updated = await PropertyModel.findOneAndUpdate(
+      {$and: [{id: propertyId}, rule.from]},
+      {$set: rule.set(actor, now, comment)},
+      {new: true}
+    );
+    if(!updated) {
+      return {
+        ok: false,
+        httpStatus: 409,
+        message: `Cannot ${action}: only ${rule.fromLabel} can be ${action === "submit" ? "submitted" : `${action}d`} (now ${before.status} / ${before.verificationStatus}).`,
+      };
+    }
+
+    await ListingTransitionModel.create({
+      propertyId,
+      action,
+      fromStatus: before.status,
+      toStatus: updated.status,
+      fromVerification: before.verificationStatus,
+      toVerification: updated.verificationStatus,
+      ...(comment ? {comment} : {}),
+      actor: actor.username,
+      ...(actor.role ? {actorRole: actor.role} : {}),
+      at: now,
+    });
+    await PropertyHistoryService.record(propertyId, before, updated.toObject(), actor, now)
+      .catch((e) => console.warn("[listing-workflow] history not recorded:", e?.message || e));
+    await this.notify(action, updated, actor, comment, emit)
+      .catch((e) => console.warn("[listing-workflow] notification failed:", e?.message || e));
+
+    return {ok: true, property: updated};
+  }
+
+  private static async notify(
+    action: ListingAction,
+    p: IProperty,
+    actor: PropertyActor,
+    comment: string,
+    emit?: (rooms: string[], payload: unknown) => void
+  ): Promise<void> {
+    const submitter = p.review?.submittedBy;
+    const base = {
+      severity: "info" as const,
+      channels: ["inapp" as const, "email" as const],
+      metadata: {propertyId: p.id, title: p.title, action, by: actor.username, ...(comment ? {comment} : {})},
+      target: {kind: "Property" as const, refId: p.id},
+      source: "listing-workflow",
+    };
+    const service = new NotificationService();
+
+    if(action === "submit") {
+      await service.createNotification(
+        {
+          ...base,
+          title: "Update Property" as const,
+          body: `"${p.title}" was submitted for review by ${actor.username}.`,
+          type: "verify" as const,
+          audience: {mode: "role", roles: ["admin", "manager"]},
+        },
+        emit
+      );
+      return;
+    }
+    if((action === "approve" || action === "reject") && submitter) {
+      await service.createNotification(
+        {
+          ...base,
+          ...(action === "approve"
+            ? {
+              title: "Property Approved" as const,
+              body: `Your listing "${p.title}" was approved by ${actor.username}${comment ? `: ${comment}` : "."} It can now be published.`,
+              type: "approve" as const,
+              severity: "success" as const,
+            }
+            : {
+              title: "Update Property" as const,
+              body: `Your listing "${p.title}" was rejected by ${actor.username}: ${comment}`,
+              type: "reject" as const,
+              severity: "warning" as const,
+            }),
+          audience: {mode: "user", usernames: [submitter]},
+        },
+        emit
+      );
+    }
+  }
+
+  /** Submitted listings waiting for a decision (oldest first). */
+  public static async queue(skip: number, limit: number) {
+    const filter = this.AWAITING_REVIEW;
+    const [items, total] = await Promise.all([
+      PropertyModel.find(filter)
+        .select("-_id id title type listing price currency status verificationStatus review address.city addedBy.username images")
+        .sort({"review.submittedAt": 1})
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      PropertyModel.countDocuments(filter),
+    ]);
+    return {items, total};
+  }
+
+  public static async transitions(propertyId: string) {
+    return ListingTransitionModel.find({propertyId}).select("-_id").sort({at: -1}).lean();
+  }
+}
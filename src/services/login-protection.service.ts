@@ -0,0 +1,146 @@
+// src/services/login-protection.service.ts
+import crypto from "crypto";
+import {LoginAttemptModel} from "../models/login-attempt.model";
+import {TokenMap} from "../models/token.model";
+
+export type LoginGate =
+  | {allowed: true}
+  | {allowed: false; reason: "LOCKED" | "THROTTLED"; retryAfterSeconds: number};
+
+export interface FailureOutcome {
+  /** True only on the attempt that triggered the account lock (send alerts once) */
+  accountLockedNow: boolean;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Brute-force protection for /verify-user.
+ * - Counts failures per account and per IP (LoginAttempt collection)
+ * - Progressive delay between attempts, then a temporary lock that grows
+ *   with every repeated lock of the same key
+ * - Accounts can be unlocked early through a single-use email link
+ */
+export class LoginProtectionService {
+  public static readonly USER_MAX_FAILURES = 5;
+  public static readonly IP_MAX_FAILURES = 20;
+  public static readonly WINDOW_MS = 30 * 60 * 1000;
+  public static readonly BASE_LOCK_MS = 15 * 60 * 1000;
+  public static readonly MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+  public static readonly DELAY_AFTER_FAILURES = 2;
+  public static readonly MAX_DELAY_MS = 30 * 1000;
+  public static readonly UNLOCK_TTL_MS = 24 * 60 * 60 * 1000;
+
+  private static userKey(username: string): string {
+    return `user:${username.trim().toLowerCase()}`;
+  }
+
+  private static ipKey(ip: string): string {
+    return `ip:${ip || "unknown"}`;
+  }
+
+  /** 1s, 2s, 4s … (capped) once DELAY_AFTER_FAILURES failures are recorded. */
+  private static delayMs(failures: number): number {
+    if(failures < this.DELAY_AFTER_FAILURES) return 0;
+    return Math.min(1000 * 2 ** (failures - this.DELAY_AFTER_FAILURES), this.MAX_DELAY_MS);
+  }
+
+  private static lockMs(lockCount: number): number {
+    return Math.min(this.BASE_LOCK_MS * 2 ** Math.max(0, lockCount - 1), this.MAX_LOCK_MS);
+  }
+
+  /** May this username/IP try to sign in right now? */
+  public static async check(username: string, ip: string): Promise<LoginGate> {
+    const now = Date.now();
+    const docs = await LoginAttemptModel.find({
+      key: {$in: [this.userKey(username), this.ipKey(ip)]},
+    }).lean();
+
+    let lockedWait = 0;
+    let throttleWait = 0;
+    for(const doc of docs) {
+      if(doc.lockedUntil && doc.lockedUntil.getTime() > now) {
+        lockedWait = Math.max(lockedWait, doc.lockedUntil.getTime() - now);
+        continue;
+      }
+      const nextAt = (doc.lastFailureAt?.getTime() ?? 0) + this.delayMs(doc.failures);
+      if(nextAt > now) throttleWait = Math.max(throttleWait, nextAt - now);
+    }
+
+    if(lockedWait > 0) return {allowed: false, reason: "LOCKED", retryAfterSeconds: Math.ceil(lockedWait / 1000)};
+    if(throttleWait > 0) return {allowed: false, reason: "THROTTLED", retryAfterSeconds: Math.ceil(throttleWait / 1000)};
+    return {allowed: true};
+  }
+
+  /** Increment one counter and lock it when the threshold is hit. Returns lockedUntil if locked now. */
+  private static async bump(key: string, kind: "user" | "ip", max: number): Promise<Date | null> {
+    const now = new Date();
+    const doc = await LoginAttemptModel.findOneAndUpdate(
+      {key},
+      {
+        $inc: {failures: 1},
+        $set: {kind, lastFailureAt: now},
+        $max: {expiresAt: new Date(now.getTime() + this.WINDOW_MS)},
+      },
+      {upsert: true, new: true, setDefaultsOnInsert: true}
+    );
+    if(!doc || doc.failures < max) return null;
+
+    const lockCount = (doc.lockCount ?? 0) + 1;
+    const lockedUntil = new Date(now.getTime() + this.lockMs(lockCount));
+    await LoginAttemptModel.updateOne(
+      {key},
+      {
+        $set: {
+          failures: 0,
+          lockedUntil,
+          lockCount,
+          expiresAt: new Date(lockedUntil.getTime() + this.WINDOW_MS),
+        },
+      }
+    );
+    return lockedUntil;
+  }
+
+  public static async recordFailure(username: string, ip: string): Promise<FailureOutcome> {
+    const [lockedUntil] = await Promise.all([
+      this.bump(this.userKey(username), "user", this.USER_MAX_FAILURES),
+      this.bump(this.ipKey(ip), "ip", this.IP_MAX_FAILURES),
+    ]);
+    return {accountLockedNow: !!lockedUntil, lockedUntil};
+  }
+
+  /** Successful sign-in clears the account counter (IP counter just decays). */
+  public static async recordSuccess(username: string): Promise<void> {
+    await LoginAttemptModel.deleteOne({key: this.userKey(username)});
+  }
+
+  // ---------------------------------------------------------------------------
+  // Unlock by email
+  // ---------------------------------------------------------------------------
+  private static hash(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  public static async createUnlockToken(username: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    await TokenMap.create({
+      token: this.hash(token),
+      username,
+      type: "unlock",
+      expiresAt: new Date(Date.now() + this.UNLOCK_TTL_MS),
+    });
+    return token;
+  }
+
+  /** Consume an unlock link; clears the account lock. Returns the username or null. */
+  public static async unlockWithToken(token: string): Promise<string | null> {
+    const row = await TokenMap.findOneAndDelete({
+      token: this.hash(token),
+      type: "unlock",
+      expiresAt: {$gt: new Date()},
+    }).lean();
+    if(!row) return null;
+    await LoginAttemptModel.deleteOne({key: this.userKey(row.username)});
+    return row.username;
+  }
+}
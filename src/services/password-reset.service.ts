@@ -0,0 +1,143 @@
+// src/services/password-reset.service.ts
+import crypto from "crypto";
+import {TokenMap} from "../models/token.model";
+
+export type ResetChannel = "email" | "sms";
+
+export type VerifyCodeResult =
+  | {ok: true; resetToken: string}
+  | {ok: false; reason: "INVALID" | "EXPIRED" | "TOO_MANY_ATTEMPTS"};
+
+/**
+ * Single-use, expiring password reset tokens persisted in TokenMap (type "password-reset").
+ * - email: the link token itself is the reset token
+ * - sms:   a 6-digit OTP is exchanged (verify-code) for a short-lived reset token
+ * Only hashes are stored; raw tokens/codes exist in the email/SMS and the response.
+ */
+export class PasswordResetService {
+  public static readonly REQUEST_WINDOW_MS = 10 * 60 * 1000;
+  public static readonly MAX_REQUESTS_PER_WINDOW = 3;
+  public static readonly MAX_CODE_ATTEMPTS = 5;
+  public static readonly LINK_TTL_MS = 30 * 60 * 1000;
+  public static readonly CODE_TTL_MS = 10 * 60 * 1000;
+  public static readonly RESET_TTL_MS = 15 * 60 * 1000;
+
+  private static hash(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  private static randomToken(): string {
+    return crypto.randomBytes(32).toString("base64url");
+  }
+
+  /** Per-account throttle: number of reset requests inside the current window. */
+  public static async isRateLimited(username: string): Promise<boolean> {
+    const since = new Date(Date.now() - this.REQUEST_WINDOW_MS);
+    const count = await TokenMap.countDocuments({
+      type: "password-reset",
+      username,
+      channel: {$in: ["email", "sms"]},
+      createdAt: {$gte: since},
+    });
+    return count >= this.MAX_REQUESTS_PER_WINDOW;
+  }
+
+  /** Email flow: returns the raw link token. */
+  public static async createEmailReset(username: string): Promise<string> {
+    const token = this.randomToken();
+    await TokenMap.create({
+      token: this.hash(token),
+      username,
+      type: "password-reset",
+      channel: "email",
+      expiresAt: new Date(Date.now() + this.LINK_TTL_MS),
+    });
+    return token;
+  }
+
+  /** SMS flow: returns the raw 6-digit code (caller delivers it). */
+  public static async createSmsReset(username: string): Promise<string> {
+    const code = String(crypto.randomInt(100000, 1000000));
+    // Older pending codes become useless once a new one is sent
+    await TokenMap.updateMany(
+      {type: "password-reset", username, channel: "sms", usedAt: null},
+      {$set: {usedAt: new Date()}}
+    );
+    await TokenMap.create({
+      token: this.hash(this.randomToken()),
+      username,
+      type: "password-reset",
+      channel: "sms",
+      codeHash: this.hash(`${username}:${code}`),
+      attempts: 0,
+      expiresAt: new Date(Date.now() + this.CODE_TTL_MS),
+    });
+    return code;
+  }
+
+  /** Check an SMS code; on success it is consumed and a reset token is issued. */
+  public static async verifyCode(username: string, code: string): Promise<VerifyCodeResult> {
+    const now = new Date();
+    const row = await TokenMap.findOne({
+      type: "password-reset",
+      username,
+      channel: "sms",
+      usedAt: null,
+    }).sort({createdAt: -1});
+
+    if(!row || !row.codeHash) return {ok: false, reason: "INVALID"};
+    if(row.expiresAt <= now) return {ok: false, reason: "EXPIRED"};
+    if((row.attempts ?? 0) >= this.MAX_CODE_ATTEMPTS) return {ok: false, reason: "TOO_MANY_ATTEMPTS"};
+
+    const expected = Buffer.from(row.codeHash, "hex");
+    const actual = Buffer.from(this.hash(`${username}:${code.trim()}`), "hex");
+    if(expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      const attempts = (row.attempts ?? 0) + 1;
+      const update: Record<string, unknown> = {attempts};
+      if(attempts >= this.MAX_CODE_ATTEMPTS) update["usedAt"] = now; // burn the code
+      await TokenMap.updateOne({_id: row._id}, {$set: update});
+      return {ok: false, reason: attempts >= this.MAX_CODE_ATTEMPTS ? "TOO_MANY_ATTEMPTS" : "INVALID"};
+    }
+
+    // Consume atomically (guards against double submit)
+    const claimed = await TokenMap.findOneAndUpdate(
+      {_id: row._id, usedAt: null},
+      {$set: {usedAt: now}}
+    );
+    if(!claimed) return {ok: false, reason: "INVALID"};
+
+    const resetToken = this.randomToken();
+    await TokenMap.create({
+      token: this.hash(resetToken),
+      username,
+      type: "password-reset",
+      channel: "otp-verified",
+      expiresAt: new Date(Date.now() + this.RESET_TTL_MS),
+    });
+    return {ok: true, resetToken};
+  }
+
+  /** Consume a reset token (email link or verified OTP). Returns the username or null. */
+  public static async consume(resetToken: string): Promise<string | null> {
+    const now = new Date();
+    const row = await TokenMap.findOneAndUpdate(
+      {
+        token: this.hash(resetToken),
+        type: "password-reset",
+        channel: {$in: ["email", "otp-verified"]},
+        usedAt: null,
+        expiresAt: {$gt: now},
+      },
+      {$set: {usedAt: now}}
+    ).lean();
+    return row?.username ?? null;
+  }
+
+  /** Burn every outstanding reset token of a user (after a successful reset). */
+  public static async invalidateAll(username: string): Promise<void> {
+    await TokenMap.updateMany(
+      {type: "password-reset", username, usedAt: null},
+      {$set: {usedAt: new Date()}}
+    );
+  }
+}
@@ -0,0 +1,155 @@
+// src/services/pdf.service.ts
+import fs from "fs";
+import path from "path";
+import * as os from "os";
+import axios from "axios";
+import * as puppeteer from "puppeteer";
+import QRCode from "qrcode";
+
+export interface RenderPdfOptions {
+  html: string;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  margin?: {top?: string; bottom?: string; left?: string; right?: string};
+}
+
+/**
+ * Shared HTML → PDF rendering (lease agreements, property brochures).
+ * - One headless Chrome for the whole process, relaunched if it disconnects
+ * - QR codes and Google Static Maps images as data URLs for templates
+ * - Common header/footer templates + company logo, read once and cached
+ */
+export class PdfService {
+  private static browser: puppeteer.Browser | null = null;
+  private static launching: Promise<puppeteer.Browser> | null = null;
+  private static templateCache = new Map<string, string>();
+  private static logo: string | null = null;
+
+  public static readonly TEMPLATE_ROOT = path.join(__dirname, "../../public/view");
+
+  public static async getBrowser(): Promise<puppeteer.Browser> {
+    if(this.browser && this.browser.isConnected()) return this.browser;
+    if(this.launching) return this.launching;
+
+    const launchOptions: puppeteer.LaunchOptions = {
+      headless: true,
+      args: ["--no-sandbox", "--disable-setuid-sandbox"],
+    };
+
+    // Resolve Chrome path cross-platform if available
+    const getChromePath = (): string | undefined => {
+      const platform = os.platform();
+      if(platform === "win32") {
+        const paths = [
+          "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+          "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+        ];
+        return paths.find((p) => fs.existsSync(p));
+      }
+      if(platform === "darwin") {
+        const mac = "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome";
+        return fs.existsSync(mac) ? mac : undefined;
+      }
+      if(platform === "linux") {
+        const linux = ["/usr/bin/google-chrome", "/usr/bin/chromium-browser", "/usr/bin/chromium"];
+        return linux.find((p) => fs.existsSync(p));
+      }
+      return undefined;
+    };
+
+    const chromePath = getChromePath();
+    if(chromePath) launchOptions.executablePath = chromePath;
+
+    this.launching = puppeteer.launch(launchOptions);
+    try {
+      this.browser = await this.launching;
+      return this.browser;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  /** Render HTML to an A4 PDF (header/footer templates are optional). */
+  public static async render(opts: RenderPdfOptions): Promise<Uint8Array> {
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    try {
+      await page.setContent(opts.html, {waitUntil: "networkidle0"});
+      await page.emulateMediaType("screen");
+      const withChrome = !!(opts.headerTemplate || opts.footerTemplate);
+      return await page.pdf({
+        format: "A4",
+        printBackground: true,
+        displayHeaderFooter: withChrome,
+        ...(withChrome ? {headerTemplate: opts.headerTemplate || "<span></span>", footerTemplate: opts.footerTemplate || "<span></span>"} : {}),
+        ...(opts.margin ? {margin: opts.margin} : {}),
+        preferCSSPageSize: true,
+      });
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  /** Read a template under public/view once (e.g. "leaseDocumentTemplates/header.ejs"). */
+  public static template(relPath: string): string {
+    const cached = this.templateCache.get(relPath);
+    if(cached !== undefined) return cached;
+    const content = fs.readFileSync(path.join(this.TEMPLATE_ROOT, relPath), "utf8");
+    this.templateCache.set(relPath, content);
+    return content;
+  }
+
+  /** Company logo as a data URL (empty string if the file is missing). */
+  public static logoDataUrl(): string {
+    if(this.logo === null) {
+      try {
+        const file = path.join(__dirname, "../../public/companyData/images/PropEase.png");
+        this.logo = `data:image/png;base64,${fs.readFileSync(file).toString("base64")}`;
+      } catch(e) {
+        console.error("[PdfService] Logo not found:", e);
+        this.logo = "";
+      }
+    }
+    return this.logo;
+  }
+
+  /** Generate a base64 PNG QR code from input text. */
+  public static async qrCode(data: string): Promise<string> {
+    try {
+      return await QRCode.toDataURL(data, {
+        errorCorrectionLevel: "H",
+        type: "image/png",
+        margin: 2,
+        width: 512,
+        color: {dark: "#000000", light: "#ffffff"},
+      });
+    } catch(error) {
+      console.error("QR code generation failed:", error);
+      return "";
+    }
+  }
+
+  /** Build a Static Maps image (base64) for PDFs. Falls back to embeddedUrl string. */
+  public static async staticMap(input: {lat?: number; lng?: number; embeddedUrl?: string}): Promise<string> {
+    try {
+      const APIkey = process.env.GOOGLE_API_KEY;
+      const {lat, lng, embeddedUrl} = input;
+      const staticMapUrl = `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=14&size=800x300&maptype=roadmap&markers=color:red%7C${lat},${lng}&key=${APIkey}`;
+      const response = await axios.get(staticMapUrl, {responseType: "arraybuffer", timeout: 15_000});
+      if(response.status === 200) {
+        return `data:image/png;base64,${Buffer.from(response.data).toString("base64")}`;
+      }
+      return embeddedUrl || "";
+    } catch(error) {
+      console.error("Error generating map URL:", error);
+      return "";
+    }
+  }
+
+  /** Close the shared browser (graceful shutdown). */
+  public static async close(): Promise<void> {
+    const b = this.browser;
+    this.browser = null;
+    if(b) await b.close().catch(() => {});
+  }
+}
@@ -0,0 +1,125 @@
+// src/services/permission.service.ts
+import {UserModel, PermissionEntry} from "../models/user.model";
+import {Role} from "../types/roles";
+import {
+  PermissionAction,
+  PermissionModule,
+  PERMISSION_WILDCARD,
+  ROLE_DEFAULT_PERMISSIONS,
+} from "../configs/permissions";
+import {AccountVerificationService} from "./account-verification.service";
+
+/** Effective permissions for one user (stored access merged over role defaults). */
+export interface ResolvedPermissions {
+  username: string;
+  role: Role;
+  isActive: boolean;
+  /** True when the verification policy is "restrict" and email/phone is unverified */
+  restricted: boolean;
+  permissions: PermissionEntry[];
+}
+
+export type PermissionDecision =
+  | {allowed: true}
+  | {allowed: false; reason: "USER_NOT_FOUND" | "USER_INACTIVE" | "ACCOUNT_NOT_VERIFIED" | "MISSING_PERMISSION"};
+
+interface CacheEntry {
+  value: ResolvedPermissions | null;
+  expiresAt: number;
+}
+
+/**
+ * Resolves and checks per-user module permissions.
+ * - Reads role + access from the DB (not the JWT), so changes apply without re-login
+ * - Short in-memory cache; call invalidate() after editing a user's role/access
+ */
+export class PermissionService {
+  private static cache: Map<string, CacheEntry> = new Map();
+  private static readonly TTL_MS = 30 * 1000;
+
+  /**
+   * Merge rules:
+   *  - a stored entry for a module replaces the role default for that module
+   *    (an entry with empty actions therefore revokes the module)
+   *  - modules with no stored entry fall back to the role defaults
+   */
+  public static merge(role: Role, stored: ReadonlyArray<PermissionEntry> = []): PermissionEntry[] {
+    const byModule = new Map<string, Set<string>>();
+
+    for(const entry of ROLE_DEFAULT_PERMISSIONS[role] ?? []) {
+      byModule.set(entry.module, new Set(entry.actions));
+    }
+
+    const storedByModule = new Map<string, Set<string>>();
+    for(const entry of stored) {
+      const module = String(entry?.module ?? "").trim();
+      if(!module) continue;
+      const set = storedByModule.get(module) ?? new Set<string>();
+      for(const action of entry.actions ?? []) set.add(String(action).trim());
+      storedByModule.set(module, set);
+    }
+    for(const [module, actions] of storedByModule) byModule.set(module, actions);
+
+    return [...byModule].map(([module, actions]) => ({module, actions: [...actions]}));
+  }
+
+  /** Pure check against an already-resolved permission list. */
+  public static allows(
+    permissions: ReadonlyArray<PermissionEntry>,
+    module: PermissionModule,
+    action: PermissionAction
+  ): boolean {
+    // Exact module entry wins over a wildcard module entry
+    const exact = permissions.find((p) => p.module === module);
+    const entry = exact ?? permissions.find((p) => p.module === PERMISSION_WILDCARD);
+    if(!entry) return false;
+    return entry.actions.includes(action) || entry.actions.includes(PERMISSION_WILDCARD);
+  }
+
+  /** Load (or reuse cached) effective permissions for a username. */
+  public static async resolve(username: string): Promise<ResolvedPermissions | null> {
+    const key = username.trim().toLowerCase();
+    const hit = this.cache.get(key);
+    if(hit && hit.expiresAt > Date.now()) return hit.value;
+
+    const user = await UserModel.findOne({username: username.trim()})
+      .select("username role isActive access emailVerified otpVerifycation phoneNumber")
+      .lean();
+
+    let value: ResolvedPermissions | null = null;
+    if(user) {
+      const policy = await AccountVerificationService.policy();
+      const pending = AccountVerificationService.pending(user, policy);
+      value = {
+        username: user.username,
+        role: user.role,
+        isActive: user.isActive !== false,
+        restricted: AccountVerificationService.state(pending, policy) !== "ok",
+        permissions: this.merge(user.role, user.access?.permissions ?? []),
+      };
+    }
+
+    this.cache.set(key, {value, expiresAt: Date.now() + this.TTL_MS});
+    return value;
+  }
+
+  public static async check(
+    username: string,
+    module: PermissionModule,
+    action: PermissionAction
+  ): Promise<PermissionDecision> {
+    const resolved = await this.resolve(username);
+    if(!resolved) return {allowed: false, reason: "USER_NOT_FOUND"};
+    if(!resolved.isActive) return {allowed: false, reason: "USER_INACTIVE"};
+    if(resolved.restricted) return {allowed: false, reason: "ACCOUNT_NOT_VERIFIED"};
+    if(!this.allows(resolved.permissions, module, action)) {
+      return {allowed: false, reason: "MISSING_PERMISSION"};
+    }
+    return {allowed: true};
+  }
+
+  /** Drop cached permissions for one user (after update/delete). */
+  public static invalidate(username: string): void {
+    this.cache.delete(username.trim().toLowerCase());
+  }
+}
@@ -0,0 +1,157 @@
+// src/services/property-geo.service.ts
+import {PropertyModel, GeoPoint, GoogleMapLocation} from "../models/property.model";
+
+/** A parsed geo search: the `$geoWithin` shape plus the point distances are measured from. */
+export interface GeoSearch {
+  mode: "radius" | "bbox" | "polygon";
+  within: Record<string, unknown>;
+  near: GeoPoint;
+}
+
+/**
+ * Geo helpers for properties.
+ * - `geo` is a GeoJSON mirror of `location` ({lat, lng} → [lng, lat])
+ * - Parses radius / bounding box / polygon queries into `$geoWithin` shapes
+ * - One-off backfill of `geo` for documents saved before it existed
+ */
+export class PropertyGeoService {
+  public static readonly EARTH_RADIUS_KM = 6378.1;
+  public static readonly MAX_RADIUS_KM = 500;
+  public static readonly MAX_POLYGON_POINTS = 200;
+
+  private static isLat(v: number): boolean {
+    return Number.isFinite(v) && v >= -90 && v <= 90;
+  }
+
+  private static isLng(v: number): boolean {
+    return Number.isFinite(v) && v >= -180 && v <= 180;
+  }
+
+  /** GeoJSON point for a stored location, or null when it is missing / out of range / 0,0. */
+  public static toGeoPoint(location: Partial<GoogleMapLocation> | null | undefined): GeoPoint | null {
+    const lat = Number(location?.lat);
+    const lng = Number(location?.lng);
+    if(!this.isLat(lat) || !this.isLng(lng)) return null;
+    if(lat === 0 && lng === 0) return null; // schema default, not a real place
+    return {type: "Point", coordinates: [lng, lat]};
+  }
+
+  /**
+   * Build a geo search from query params. Returns an error message string when invalid.
+   *   radius : lat, lng, radiusKm
+   *   bbox   : swLat, swLng, neLat, neLng   (map viewport)
+   *   polygon: polygon = JSON [[lng, lat], ...]  (drawn shape, closed automatically)
+   * bbox/polygon accept an optional lat/lng reference point for distances,
+   * otherwise the centre of the shape is used.
+   */
+  public static parse(query: Record<string, unknown>): GeoSearch | string {
+    const num = (k: string) => {
+      const v = query[k];
+      return typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+    };
+    const mode = String(query["mode"] || "").trim().toLowerCase();
+
+    const lat = num("lat");
+    const lng = num("lng");
+    const hasRef = this.isLat(lat) && this.isLng(lng);
+    const ref: GeoPoint | null = hasRef ? {type: "Point", coordinates: [lng, lat]} : null;
+
+    if(mode === "radius") {
+      const radiusKm = num("radiusKm");
+      if(!ref) return "lat and lng are required for radius search";
+      if(!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > this.MAX_RADIUS_KM)
+        return `radiusKm must be between 0 and ${this.MAX_RADIUS_KM}`;
+      return {
+        mode,
+        within: {$centerSphere: [ref.coordinates, radiusKm / this.EARTH_RADIUS_KM]},
+        near: ref,
+      };
+    }
+
+    if(mode === "bbox") {
+      const swLat = num("swLat");
+      const swLng = num("swLng");
+      const neLat = num("neLat");
+      const neLng = num("neLng");
+      if(!this.isLat(swLat) || !this.isLat(neLat) || !this.isLng(swLng) || !this.isLng(neLng))
+        return "swLat, swLng, neLat and neLng are required for bbox search";
+      if(swLat >= neLat) return "swLat must be lower than neLat";
+
+      // A viewport crossing the antimeridian has swLng > neLng: unwrap it so the
+      // ring still goes the short way round.
+      const east = neLng < swLng ? neLng + 360 : neLng;
+      const midLng = (swLng + east) / 2;
+      const ring: [number, number][] = [
+        [swLng, swLat],
+        [midLng, swLat],
+        [east, swLat],
+        [east, neLat],
+        [midLng, neLat],
+        [swLng, neLat],
+        [swLng, swLat],
+      ].map(([x, y]) => [x! > 180 ? x! - 360 : x!, y!]);
+      const centre: [number, number] = [midLng > 180 ? midLng - 360 : midLng, (swLat + neLat) / 2];
+
+      return {
+        mode,
+        within: {$geometry: {type: "Polygon", coordinates: [ring]}},
+        near: ref ?? {type: "Point", coordinates: centre},
+      };
+    }
+
+    if(mode === "polygon") {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(String(query["polygon"] || ""));
+      } catch {
+        return "polygon must be a JSON array of [lng, lat] points";
+      }
+      if(!Array.isArray(raw)) return "polygon must be a JSON array of [lng, lat] points";
+
+      const ring: [number, number][] = [];
+      for(const p of raw) {
+        const x = Array.isArray(p) ? Number(p[0]) : NaN;
+        const y = Array.isArray(p) ? Number(p[1]) : NaN;
+        if(!this.isLng(x) || !this.isLat(y)) return "polygon points must be [lng, lat] within range";
+        ring.push([x, y]);
+      }
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if(first && last && (first[0] !== last[0] || first[1] !== last[1])) ring.push([first[0], first[1]]);
+      if(ring.length < 4) return "polygon needs at least 3 distinct points";
+      if(ring.length > this.MAX_POLYGON_POINTS) return `polygon may have at most ${this.MAX_POLYGON_POINTS} points`;
+
+      // Vertex average (closing point excluded) is close enough as a reference
+      const open = ring.slice(0, -1);
+      const centre: [number, number] = [
+        open.reduce((n, p) => n + p[0], 0) / open.length,
+        open.reduce((n, p) => n + p[1], 0) / open.length,
+      ];
+
+      return {
+        mode,
+        within: {$geometry: {type: "Polygon", coordinates: [ring]}},
+        near: ref ?? {type: "Point", coordinates: centre},
+      };
+    }
+
+    return "mode must be one of: radius, bbox, polygon";
+  }
+
+  /**
+   * Fill `geo` from `location` on documents that don't have it yet.
+   * Idempotent; safe to run at every boot.
+   */
+  public static async backfill(): Promise<number> {
+    const res = await PropertyModel.updateMany(
+      {
+        geo: {$exists: false},
+        "location.lat": {$type: "number", $gte: -90, $lte: 90},
+        "location.lng": {$type: "number", $gte: -180, $lte: 180},
+        $nor: [{"location.lat": 0, "location.lng": 0}],
+      },
+      [{$set: {geo: {type: "Point", coordinates: ["$location.lng", "$location.lat"]}}}]
+    );
+    return res.modifiedCount;
+  }
+}
@@ -0,0 +1,188 @@
+// src/services/property-history.service.ts
+import {IPropertyHistory, PropertyHistoryModel} from "../models/property-history.model";
+
+/** Who made a change (the signed-in user, or "system" for jobs). */
+export interface PropertyActor {
+  username: string;
+  role?: string;
+}
+
+/** Filters for cross-property change queries. */
+export interface PropertyChangeQuery {
+  field: string;
+  since?: Date;
+  until?: Date;
+  direction?: "up" | "down";
+  minPercent?: number;     // |deltaPercent| threshold (numeric fields)
+  changedBy?: string;
+  propertyId?: string;
+  skip: number;
+  limit: number;
+}
+
+/**
+ * Field-level change history for properties.
+ * - `record` diffs the tracked fields of two snapshots and stores one row per change
+ * - Timeline and cross-property queries read from PropertyHistoryModel
+ */
+export class PropertyHistoryService {
+  /** Fields whose changes are recorded. Numeric ones also get delta / deltaPercent. */
+  public static readonly TRACKED_FIELDS: ReadonlyArray<string> = [
+    "price",
+    "currency",
+    "listing",
+    "availabilityStatus",
+    "status",
+    "verificationStatus",
+    "priority",
+    "title",
+    "expectedRentMonthly",
+    "expectedRentYearly",
+    "maintenanceFees",
+    "serviceCharges",
+  ];
+  public static readonly NUMERIC_FIELDS: ReadonlySet<string> = new Set([
+    "price",
+    "expectedRentMonthly",
+    "expectedRentYearly",
+    "maintenanceFees",
+    "serviceCharges",
+  ]);
+
+  private static same(a: unknown, b: unknown): boolean {
+    if(a instanceof Date || b instanceof Date) return new Date(a as any).getTime() === new Date(b as any).getTime();
+    return (a ?? null) === (b ?? null);
+  }
+
+  /**
+   * Store one history row per tracked field that differs between `before` and `after`.
+   * `before = null` records the initial values of a new property.
+   */
+  public static async record(
+    propertyId: string,
+    before: Record<string, any> | null,
+    after: Record<string, any>,
+    actor: PropertyActor,
+    at: Date = new Date()
+  ): Promise<number> {
+    const rows: Partial<IPropertyHistory>[] = [];
+    for(const field of this.TRACKED_FIELDS) {
+      const oldValue = before ? before[field] ?? null : null;
+      const newValue = after[field] ?? null;
+      if(before && this.same(oldValue, newValue)) continue;
+      if(!before && newValue === null) continue;
+
+      const row: Partial<IPropertyHistory> = {
+        propertyId,
+        field,
+        oldValue,
+        newValue,
+        changeType: before ? "updated" : "created",
+        changedBy: actor.username || "system",
+        changedAt: at,
+      };
+      if(actor.role) row.changedByRole = actor.role;
+      if(before && this.NUMERIC_FIELDS.has(field) && typeof newValue === "number" && typeof oldValue === "number") {
+        row.delta = newValue - oldValue;
+        if(oldValue !== 0) row.deltaPercent = Math.round(((newValue - oldValue) / oldValue) * 10000) / 100;
+      }
+      rows.push(row);
+    }
+    if(!rows.length) return 0;
+    await PropertyHistoryModel.insertMany(rows, {ordered: false});
+    return rows.length;
+  }
+
+  /** Mark a property as deleted (one "status" row; the snapshot lives in the recycle bin). */
+  public static async recordDeletion(
+    propertyId: string,
+    before: Record<string, any>,
+    actor: PropertyActor,
+    at: Date = new Date()
+  ): Promise<void> {
+    await PropertyHistoryModel.create({
+      propertyId,
+      field: "status",
+      oldValue: before["status"] ?? null,
+      newValue: null,
+      changeType: "deleted",
+      changedBy: actor.username || "system",
+      ...(actor.role ? {changedByRole: actor.role} : {}),
+      changedAt: at,
+    });
+  }
+
+  /** Ids of properties deleted since a moment (oldest first). */
+  public static async deletedSince(since: Date): Promise<Array<{propertyId: string; changedAt: Date}>> {
+    return PropertyHistoryModel.find({changeType: "deleted", changedAt: {$gt: since}})
+      .select("-_id propertyId changedAt")
+      .sort({changedAt: 1})
+      .lean();
+  }
+
+  /** Projection with just the tracked fields, for the "before" snapshot. */
+  public static snapshotProjection(): string {
+    return this.TRACKED_FIELDS.join(" ");
+  }
+
+  /** Timeline of one property (newest first), optionally limited to some fields / a period. */
+  public static async timeline(
+    propertyId: string,
+    opts: {fields?: string[]; since?: Date; until?: Date; skip: number; limit: number}
+  ) {
+    const filter: Record<string, unknown> = {propertyId};
+    if(opts.fields?.length) filter["field"] = {$in: opts.fields};
+    if(opts.since || opts.until) {
+      filter["changedAt"] = {
+        ...(opts.since ? {$gte: opts.since} : {}),
+        ...(opts.until ? {$lte: opts.until} : {}),
+      };
+    }
+    const [items, total] = await Promise.all([
+      PropertyHistoryModel.find(filter).select("-_id").sort({changedAt: -1, field: 1}).skip(opts.skip).limit(opts.limit).lean(),
+      PropertyHistoryModel.countDocuments(filter),
+    ]);
+    return {items, total};
+  }
+
+  /**
+   * Changes to one field across properties, e.g. price drops in the last 30 days:
+   *   {field: "price", direction: "down", since: now - 30d}
+   * Each row is joined with the property's current title / price / status.
+   */
+  public static async changes(q: PropertyChangeQuery) {
+    const match: Record<string, any> = {field: q.field, changeType: "updated"};
+    if(q.since || q.until) {
+      match["changedAt"] = {...(q.since ? {$gte: q.since} : {}), ...(q.until ? {$lte: q.until} : {})};
+    }
+    if(q.direction === "down") match["delta"] = {$lt: 0};
+    if(q.direction === "up") match["delta"] = {$gt: 0};
+    if(q.minPercent && q.minPercent > 0) {
+      match["$or"] = [{deltaPercent: {$lte: -q.minPercent}}, {deltaPercent: {$gte: q.minPercent}}];
+    }
+    if(q.changedBy) match["changedBy"] = q.changedBy;
+    if(q.propertyId) match["propertyId"] = q.propertyId;
+
+    const [items, total] = await Promise.all([
+      PropertyHistoryModel.aggregate([
+        {$match: match},
+        {$sort: {changedAt: -1}},
+        {$skip: q.skip},
+        {$limit: q.limit},
+        {
+          $lookup: {
+            from: "properties",
+            localField: "propertyId",
+            foreignField: "id",
+            pipeline: [{$project: {_id: 0, id: 1, title: 1, price: 1, currency: 1, status: 1, "address.city": 1}}],
+            as: "property",
+          },
+        },
+        {$set: {property: {$ifNull: [{$first: "$property"}, null]}}},
+        {$project: {_id: 0}},
+      ]),
+      PropertyHistoryModel.countDocuments(match),
+    ]);
+    return {items, total};
+  }
+}
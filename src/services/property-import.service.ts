@@ -0,0 +1,142 @@
+// src/services/property-import.service.ts
+import {v4 as uuidv4} from "uuid";
+import {IProperty, PropertyModel} from "../models/property.model";
+import {ImportRowError, IPropertyImport, PropertyImportModel} from "../models/property-import.model";
+import {PropertyActor, PropertyHistoryService} from "./property-history.service";
+import NotificationService from "./notification.service";
+
+/** A validated row ready to insert. */
+export interface ImportPayload {
+  row: number;
+  data: Partial<IProperty>;
+}
+
+/** Progress snapshot pushed to the client while an import runs. */
+export interface ImportProgress {
+  importId: string;
+  status: IPropertyImport["status"];
+  validRows: number;
+  processed: number;
+  inserted: number;
+  failed: number;
+  percent: number;
+}
+
+export interface StartImportInput {
+  filename: string;
+  format: "csv" | "xlsx";
+  totalRows: number;
+  rowErrors: ImportRowError[];
+  payloads: ImportPayload[];
+  actor: PropertyActor;
+  onProgress?: (p: ImportProgress) => void;
+  emitNotification?: (rooms: string[], payload: unknown) => void;
+}
+
+/**
+ * Commits validated bulk-import rows as a tracked background job.
+ * - Rows are inserted one by one (a failing row never aborts the rest)
+ * - Progress is saved on the job and pushed through `onProgress`
+ * - History rows are recorded like single inserts
+ */
+export class PropertyImportService {
+  /** Save / push progress every N rows (and always on the last one). */
+  private static readonly PROGRESS_EVERY = 10;
+
+  public static toProgress(job: Pick<IPropertyImport, "importId" | "status" | "validRows" | "processed" | "inserted" | "failed">): ImportProgress {
+    return {
+      importId: job.importId,
+      status: job.status,
+      validRows: job.validRows,
+      processed: job.processed,
+      inserted: job.inserted,
+      failed: job.failed,
+      percent: job.validRows ? Math.round((job.processed / job.validRows) * 100) : 100,
+    };
+  }
+
+  /** Create the job and start inserting in the background; returns immediately. */
+  public static async start(input: StartImportInput): Promise<IPropertyImport> {
+    const job = await PropertyImportModel.create({
+      importId: uuidv4(),
+      filename: input.filename,
+      format: input.format,
+      status: "queued",
+      totalRows: input.totalRows,
+      validRows: input.payloads.length,
+      invalidRows: input.rowErrors.length,
+      rowErrors: input.rowErrors,
+      createdBy: input.actor.username,
+    });
+
+    setImmediate(() => {
+      this.run(job.importId, input).catch(async (err) => {
+        console.error(`[property-import] job ${job.importId} failed:`, err?.message || err);
+        await PropertyImportModel.updateOne(
+          {importId: job.importId},
+          {$set: {status: "failed", error: String(err?.message || err), completedAt: new Date()}}
+        ).catch(() => {});
+        input.onProgress?.({...this.toProgress(job), status: "failed"});
+      });
+    });
+
+    return job;
+  }
+
+  private static async run(importId: string, input: StartImportInput): Promise<void> {
+    const startedAt = new Date();
+    await PropertyImportModel.updateOne({importId}, {$set: {status: "running", startedAt}});
+
+    const state = {importId, status: "running" as IPropertyImport["status"], validRows: input.payloads.length, processed: 0, inserted: 0, failed: 0};
+    const insertedIds: string[] = [];
+    const rowErrors: ImportRowError[] = [];
+    input.onProgress?.(this.toProgress(state));
+
+    for(const [i, p] of input.payloads.entries()) {
+      try {
+        const doc = await new PropertyModel(p.data as IProperty).save();
+        insertedIds.push(doc.id);
+        state.inserted++;
+        await PropertyHistoryService.record(doc.id, null, doc.toObject(), input.actor)
+          .catch((e) => console.warn("[property-import] history not recorded:", e?.message || e));
+      } catch(err: any) {
+        state.failed++;
+        const message = err?.code === 11000 ? "A property with this id already exists" : String(err?.message || err);
+        rowErrors.push({row: p.row, ...(p.data.id ? {id: p.data.id} : {}), messages: [message]});
+      }
+      state.processed++;
+
+      const last = i === input.payloads.length - 1;
+      if(last || state.processed % this.PROGRESS_EVERY === 0) {
+        await PropertyImportModel.updateOne(
+          {importId},
+          {
+            $set: {processed: state.processed, inserted: state.inserted, failed: state.failed},
+            $push: {insertedIds: {$each: insertedIds.splice(0)}, rowErrors: {$each: rowErrors.splice(0)}},
+          }
+        );
+        if(!last) input.onProgress?.(this.toProgress(state));
+      }
+    }
+
+    state.status = "completed";
+    await PropertyImportModel.updateOne({importId}, {$set: {status: "completed", completedAt: new Date()}});
+    input.onProgress?.(this.toProgress(state));
+
+    if(state.inserted) {
+      await new NotificationService().createNotification(
+        {
+          title: "New Property" as const,
+          body: `${state.inserted} propert${state.inserted === 1 ? "y was" : "ies were"} imported from "${input.filename}" by ${input.actor.username}.`,
+          type: "create" as const,
+          severity: "info" as const,
+          audience: {mode: "role", roles: ["admin", "agent", "manager", "operator"]},
+          channels: ["inapp" as const],
+          metadata: {importId, inserted: state.inserted, failed: state.failed, filename: input.filename},
+          source: "property-import",
+        },
+        input.emitNotification
+      ).catch((e) => console.warn("[property-import] notification failed:", e?.message || e));
+    }
+  }
+}
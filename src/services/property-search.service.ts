@@ -0,0 +1,303 @@
+// src/services/property-search.service.ts
+import {PropertyModel} from "../models/property.model";
+
+/** Parsed free-text query: what $text receives plus the terms used for fallback and highlighting. */
+export interface TextQuery {
+  text: string;        // passed to $text.$search as-is (phrases / negations kept)
+  terms: string[];     // positive single words
+  phrases: string[];   // "quoted phrases"
+  excluded: string[];  // -negated words
+}
+
+export interface SearchHighlight {
+  field: string;
+  /** HTML-escaped excerpt with matches wrapped in <mark></mark> */
+  snippet: string;
+}
+
+/**
+ * Search helpers for properties.
+ * - The list's `search` + JSON `filter` params → Mongo filter
+ * - Relevance search runs on the weighted text index ("property_text")
+ * - When $text finds nothing, a typo-tolerant regex fallback is used
+ *   (one substituted / missing / extra character per word)
+ * - Builds highlighted snippets for the fields that matched
+ */
+export class PropertySearchService {
+  public static readonly TEXT_INDEX_NAME = "property_text";
+  public static readonly MAX_QUERY_LENGTH = 200;
+  public static readonly MAX_TERMS = 8;
+  public static readonly MIN_FUZZY_LENGTH = 4;
+  public static readonly SNIPPET_RADIUS = 60;
+
+  private static readonly PROPERTY_TYPES = new Set(["apartment", "house", "villa", "commercial", "land", "studio"]);
+  private static readonly LISTINGS = new Set(["sale", "rent", "sold", "rented"]);
+  private static readonly FURNISHING = new Set(["furnished", "semi-furnished", "unfurnished"]);
+  private static readonly STATUS = new Set(["draft", "published", "archived"]);
+
+  /** Searchable fields and their weights (kept in line with the schema's text index). */
+  public static readonly FIELDS: ReadonlyArray<{path: string; weight: number}> = [
+    {path: "title", weight: 10},
+    {path: "address.city", weight: 5},
+    {path: "address.street", weight: 4},
+    {path: "address.stateOrProvince", weight: 3},
+    {path: "address.country", weight: 3},
+    {path: "description", weight: 2},
+  ];
+
+  public static escapeRegex(v: string): string {
+    return v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  private static escapeHtml(v: string): string {
+    return v
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  private static parseFilter<T>(raw: string, fallback: T): T {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" ? (parsed as T) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * Mongo filter for the `search` + JSON `filter` params of the property list.
+   * Shared by the paginated list, geo / text search and saved-search alerts.
+   */
+  public static listFilter(rawSearch: string, rawFilter: string): Record<string, any> {
+    const filterData = this.parseFilter<{
+      minPrice: number;
+      maxPrice: number;
+      beds: string;
+      bathrooms: string;
+      amenities: string[];
+      type: string;
+      status: string;
+      listing: string;
+      furnishingStatus: string;
+      city: string;
+      buildingId: string;
+    }>(rawFilter, {
+      minPrice: 0,
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      beds: "",
+      bathrooms: "",
+      amenities: [],
+      type: "",
+      status: "",
+      listing: "",
+      furnishingStatus: "",
+      city: "",
+      buildingId: "",
+    });
+
+    const and: any[] = [];
+
+    if(rawSearch) {
+      const rx = new RegExp(this.escapeRegex(rawSearch), "i");
+      and.push({
+        $or: [
+          {title: {$regex: rx}},
+          {type: {$regex: rx}},
+          {status: {$regex: rx}},
+          {"address.country": {$regex: rx}},
+        ],
+      });
+    }
+
+    and.push({
+      price: {
+        $gte: Number(filterData.minPrice) || 0,
+        $lte: Number(filterData.maxPrice) || Number.MAX_SAFE_INTEGER,
+      },
+    });
+
+    if(filterData.beds === "10+") and.push({bedrooms: {$gte: 10}});
+    else if(filterData.beds)
+      and.push({bedrooms: Number.parseInt(filterData.beds, 10) || 0});
+
+    if(filterData.bathrooms === "10+")
+      and.push({bathrooms: {$gte: 10}});
+    else if(filterData.bathrooms)
+      and.push({
+        bathrooms: Number.parseInt(filterData.bathrooms, 10) || 0,
+      });
+
+    if(filterData.type) {
+      const t = String(filterData.type).toLowerCase();
+      if(this.PROPERTY_TYPES.has(t)) and.push({type: t});
+    }
+
+    if(filterData.status) {
+      const st = String(filterData.status).toLowerCase();
+      if(this.STATUS.has(st)) and.push({status: st});
+    }
+
+    if(filterData.listing) {
+      const l = String(filterData.listing).toLowerCase();
+      if(this.LISTINGS.has(l)) and.push({listing: l});
+    }
+
+    if(filterData.furnishingStatus) {
+      const f = String(filterData.furnishingStatus).toLowerCase();
+      if(this.FURNISHING.has(f)) and.push({furnishingStatus: f});
+    }
+
+    const city = typeof filterData.city === "string" ? filterData.city.trim() : "";
+    if(city) and.push({"address.city": city});
+
+    const buildingId = typeof filterData.buildingId === "string" ? filterData.buildingId.trim() : "";
+    if(buildingId) and.push({buildingId});
+
+    if(Array.isArray(filterData.amenities) && filterData.amenities.length) {
+      and.push({featuresAndAmenities: {$all: filterData.amenities}});
+    }
+
+    return and.length ? {$and: and} : {};
+  }
+
+  /** Split the user's query into phrases, negations and plain terms. */
+  public static parse(raw: string): TextQuery | null {
+    const text = String(raw || "").trim().slice(0, this.MAX_QUERY_LENGTH);
+    if(!text) return null;
+
+    const phrases: string[] = [];
+    const rest = text.replace(/"([^"]+)"/g, (_m, p: string) => {
+      if(p.trim()) phrases.push(p.trim());
+      return " ";
+    });
+
+    const terms: string[] = [];
+    const excluded: string[] = [];
+    for(const token of rest.split(/\s+/)) {
+      const word = token.replace(/^-+/, "").trim();
+      if(!word) continue;
+      if(token.startsWith("-")) excluded.push(word);
+      else terms.push(word);
+    }
+
+    if(!terms.length && !phrases.length) return null; // negations alone match nothing in $text
+    return {
+      text,
+      terms: terms.slice(0, this.MAX_TERMS),
+      phrases: phrases.slice(0, this.MAX_TERMS),
+      excluded: excluded.slice(0, this.MAX_TERMS),
+    };
+  }
+
+  /**
+   * Regex source matching `word` with at most one typo
+   * (substitution, deletion or insertion). Short words must match exactly.
+   */
+  public static fuzzyPattern(word: string): string {
+    const chars = Array.from(word.toLowerCase());
+    if(chars.length < this.MIN_FUZZY_LENGTH) return this.escapeRegex(word);
+
+    const variants = new Set<string>([chars.map((c) => this.escapeRegex(c)).join("")]);
+    for(let i = 0; i < chars.length; i++) {
+      const before = chars.slice(0, i).map((c) => this.escapeRegex(c)).join("");
+      const after = chars.slice(i + 1).map((c) => this.escapeRegex(c)).join("");
+      const self = this.escapeRegex(chars[i]!);
+      variants.add(`${before}.${after}`);            // substitution
+      variants.add(`${before}${after}`);             // deletion
+      variants.add(`${before}${self}.${after}`);     // insertion
+    }
+    return `(?:${Array.from(variants).join("|")})`;
+  }
+
+  /**
+   * Mongo filter for the typo-tolerant fallback: every term / phrase must
+   * appear in at least one searchable field; negated words in none.
+   */
+  public static fuzzyFilter(q: TextQuery): Record<string, unknown> {
+    const and: Record<string, unknown>[] = [];
+    const anyField = (source: string) => ({
+      $or: this.FIELDS.map((f) => ({[f.path]: {$regex: source, $options: "i"}})),
+    });
+    for(const term of q.terms) and.push(anyField(this.fuzzyPattern(term)));
+    for(const phrase of q.phrases) and.push(anyField(this.escapeRegex(phrase)));
+    for(const word of q.excluded) {
+      and.push({
+        $nor: this.FIELDS.map((f) => ({[f.path]: {$regex: this.escapeRegex(word), $options: "i"}})),
+      });
+    }
+    return and.length ? {$and: and} : {};
+  }
+
+  /** Aggregation expression scoring fallback hits with the same field weights as $text. */
+  public static fuzzyScoreExpr(q: TextQuery): Record<string, unknown> {
+    const sources = [...q.terms.map((t) => this.fuzzyPattern(t)), ...q.phrases.map((p) => this.escapeRegex(p))];
+    const parts: unknown[] = [];
+    for(const f of this.FIELDS) {
+      for(const source of sources) {
+        parts.push({
+          $cond: [
+            {$regexMatch: {input: {$toString: {$ifNull: [`$${f.path}`, ""]}}, regex: source, options: "i"}},
+            f.weight,
+            0,
+          ],
+        });
+      }
+    }
+    return parts.length ? {$add: parts} : {$literal: 0};
+  }
+
+  /** Highlighted excerpts for each searchable field that contains a match. */
+  public static highlight(doc: Record<string, any>, q: TextQuery, fuzzy: boolean): SearchHighlight[] {
+    const sources = [
+      ...q.phrases.map((p) => this.escapeRegex(p)),
+      // $text stems words ("villas" ↔ "villa"), so highlight the whole word around a prefix hit
+      ...q.terms.map((t) => `\\w*${fuzzy ? this.fuzzyPattern(t) : this.escapeRegex(t)}\\w*`),
+    ];
+    if(!sources.length) return [];
+    const rx = new RegExp(sources.join("|"), "gi");
+
+    const out: SearchHighlight[] = [];
+    for(const f of this.FIELDS) {
+      const value = f.path.split(".").reduce<any>((v, k) => (v == null ? v : v[k]), doc);
+      if(typeof value !== "string" || !value) continue;
+
+      const matches = Array.from(value.matchAll(rx)).filter((m) => m[0].length > 0);
+      const first = matches[0];
+      if(!first || first.index === undefined) continue;
+
+      const from = Math.max(0, first.index - this.SNIPPET_RADIUS);
+      const to = Math.min(value.length, first.index + first[0].length + this.SNIPPET_RADIUS);
+      let snippet = "";
+      let cursor = from;
+      for(const m of matches) {
+        const at = m.index ?? 0;
+        if(at < cursor || at + m[0].length > to) continue;
+        snippet += this.escapeHtml(value.slice(cursor, at)) + `<mark>${this.escapeHtml(m[0])}</mark>`;
+        cursor = at + m[0].length;
+      }
+      snippet += this.escapeHtml(value.slice(cursor, to));
+      out.push({
+        field: f.path,
+        snippet: `${from > 0 ? "…" : ""}${snippet}${to < value.length ? "…" : ""}`,
+      });
+    }
+    return out;
+  }
+
+  /**
+   * Replace any older text index (a collection may only have one) with the
+   * weighted one declared on the schema. Safe to run at every boot.
+   */
+  public static async ensureTextIndex(): Promise<void> {
+    const indexes = await PropertyModel.collection.indexes();
+    for(const idx of indexes) {
+      if(idx.name && idx.name !== this.TEXT_INDEX_NAME && idx["textIndexVersion"] !== undefined) {
+        await PropertyModel.collection.dropIndex(idx.name);
+      }
+    }
+    await PropertyModel.createIndexes();
+  }
+}
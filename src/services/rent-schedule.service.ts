@@ -0,0 +1,292 @@
+// src/services/rent-schedule.service.ts
+import {v4 as uuidv4} from "uuid";
+import {LeaseAgreement} from "../models/lease.model";
+import {IRentInstallment, RentInstallmentModel} from "../models/rent-installment.model";
+
+/** Lease terms the schedule is built from. */
+export type RentTerms = Pick<LeaseAgreement, "startDate" | "endDate" | "monthlyRent" | "paymentFrequency" | "rentDueDate" | "currency">;
+
+/** Parsed payment frequency: whole months, whole days, or one payment for the whole term. */
+export type RentPeriod = {kind: "months"; months: number} | {kind: "days"; days: number} | {kind: "once"};
+
+/** One generated installment before it is stored. */
+export interface RentInstallmentDraft {
+  sequence: number;
+  periodStart: Date;
+  periodEnd: Date;          // inclusive
+  dueDate: Date;
+  amount: number;
+  fullPeriodAmount: number;
+  prorated: boolean;
+  prorationFactor: number;
+  currency: string;
+}
+
+/** Minimal lease shape needed to (re)build a stored schedule. */
+export interface ScheduledLease {
+  leaseID: string;
+  propertyID: string;
+  tenantInformation: {tenantUsername: string};
+  leaseAgreement: RentTerms;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rent schedule engine: expands lease terms into dated installments.
+ *
+ * - Dates are whole UTC days; the lease `endDate` is the last day covered (inclusive)
+ * - Month frequencies (P1M, P3M, P1Y …) step by calendar months from an anchor day,
+ *   clamped to month end (a 31st anchor gives Feb 28/29, Apr 30, then back to the 31st)
+ * - `rentDueDate.day` aligns periods to that day of the month: rent is due on the
+ *   period start and a lease starting between two due days gets a prorated first period
+ * - Without a due day, periods start on the lease start and fall due `offsetDays` later
+ * - A period cut short by the end date is prorated by days covered / days of the full period
+ * - Day / week frequencies (P14D, P1W) cost monthlyRent × 12 / 365 per day
+ */
+export class RentScheduleService {
+  /** Hard cap so odd terms (daily rent over decades) cannot explode the collection. */
+  public static readonly MAX_INSTALLMENTS = 1200;
+
+  // ----------------------------- day arithmetic -----------------------------
+  private static toDay(value: Date | string): number | null {
+    const d = value instanceof Date ? value : new Date(value);
+    if(Number.isNaN(d.getTime())) return null;
+    return Math.floor(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / DAY_MS);
+  }
+
+  private static fromDay(day: number): Date {
+    return new Date(day * DAY_MS);
+  }
+
+  private static daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  }
+
+  /** `year`/`month` + `n` months on `anchorDay`, clamped to the month's last day. */
+  private static monthDay(year: number, month: number, anchorDay: number, n: number): number {
+    const total = year * 12 + month + n;
+    const y = Math.floor(total / 12);
+    const m = total - y * 12;
+    const d = Math.min(anchorDay, this.daysInMonth(y, m));
+    return Math.floor(Date.UTC(y, m, d) / DAY_MS);
+  }
+
+  private static round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+
+  // ------------------------------- parsing -------------------------------
+  /** Parse the payment frequency (`duration` such as "P1M", "P3M", "P1Y", "P2W"; unit "one-time"). */
+  public static parseFrequency(freq: RentTerms["paymentFrequency"] | undefined): RentPeriod | string {
+    if(!freq) return "paymentFrequency is required";
+    if(String(freq.unit || "").toLowerCase() === "one-time") return {kind: "once"};
+
+    const raw = String(freq.duration || "").trim().toUpperCase();
+    const m = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/.exec(raw);
+    if(!m || raw === "P") return `paymentFrequency.duration "${freq.duration}" is not a valid duration (e.g. P1M, P3M, P1Y)`;
+
+    const months = Number(m[1] || 0) * 12 + Number(m[2] || 0);
+    const days = Number(m[3] || 0) * 7 + Number(m[4] || 0);
+    if(months && days) return `paymentFrequency.duration "${freq.duration}" mixes months and days`;
+    if(months) return {kind: "months", months};
+    if(days) return {kind: "days", days};
+    return {kind: "once"};
+  }
+
+  // ------------------------------- engine -------------------------------
+  /** Expand lease terms into installments; returns an error message for unusable terms. */
+  public static expand(terms: RentTerms): RentInstallmentDraft[] | string {
+    const start = this.toDay(terms.startDate);
+    const last = this.toDay(terms.endDate);
+    if(start === null) return "startDate is not a valid date";
+    if(last === null) return "endDate is not a valid date";
+    if(last < start) return "endDate must not be before startDate";
+    const endExcl = last + 1;
+
+    const monthlyRent = Number(terms.monthlyRent);
+    if(!Number.isFinite(monthlyRent) || monthlyRent < 0) return "monthlyRent must be a non-negative number";
+
+    const period = this.parseFrequency(terms.paymentFrequency);
+    if(typeof period === "string") return period;
+
+    const dueDay = Number(terms.rentDueDate?.day || 0);
+    if(!Number.isInteger(dueDay) || dueDay < 0 || dueDay > 31) return "rentDueDate.day must be 1-31 (or 0 for none)";
+    const offsetDays = Number(terms.rentDueDate?.offsetDays || 0);
+    if(!Number.isInteger(offsetDays) || offsetDays < 0 || offsetDays > 365) return "rentDueDate.offsetDays must be 0-365";
+
+    const currency = String(terms.currency?.currency || "");
+    const out: RentInstallmentDraft[] = [];
+
+    if(period.kind === "once") {
+      // One payment covering the whole term, priced month by month
+      const monthly = this.expand({...terms, paymentFrequency: {...terms.paymentFrequency, unit: "month", duration: "P1M"}, rentDueDate: {...terms.rentDueDate, day: 0}});
+      if(typeof monthly === "string") return monthly;
+      const amount = this.round2(monthly.reduce((sum, i) => sum + i.amount, 0));
+      out.push({
+        sequence: 1,
+        periodStart: this.fromDay(start),
+        periodEnd: this.fromDay(last),
+        dueDate: this.fromDay(start + offsetDays),
+        amount,
+        fullPeriodAmount: amount,
+        prorated: false,
+        prorationFactor: 1,
+        currency,
+      });
+      return out;
+    }
+
+    // Period boundaries: boundary(k) is the start of period k (boundary(0) = first full period)
+    let boundary: (k: number) => number;
+    let fullAmount: number;
+    let aligned = false;
+    if(period.kind === "months") {
+      fullAmount = monthlyRent * period.months;
+      const s = this.fromDay(start);
+      const sy = s.getUTCFullYear();
+      const sm = s.getUTCMonth();
+      if(dueDay) {
+        aligned = true;
+        // first due day on / after the start
+        const shift = this.monthDay(sy, sm, dueDay, 0) >= start ? 0 : 1;
+        boundary = (k) => this.monthDay(sy, sm, dueDay, shift + k * period.months);
+      } else {
+        boundary = (k) => this.monthDay(sy, sm, s.getUTCDate(), k * period.months);
+      }
+    } else {
+      fullAmount = (monthlyRent * 12 / 365) * period.days;
+      boundary = (k) => start + k * period.days;
+    }
+
+    // Partial first period (aligned schedules starting between two due days)
+    let k = 0;
+    if(aligned && boundary(0) > start) k = -1;
+
+    while(out.length < this.MAX_INSTALLMENTS) {
+      const nominalStart = boundary(k);
+      const nominalEnd = boundary(k + 1);
+      const ps = Math.max(nominalStart, start);
+      const pe = Math.min(nominalEnd, endExcl);
+      if(ps >= endExcl) break;
+
+      const fullDays = nominalEnd - nominalStart;
+      const covered = pe - ps;
+      const factor = covered === fullDays ? 1 : covered / fullDays;
+      out.push({
+        sequence: out.length + 1,
+        periodStart: this.fromDay(ps),
+        periodEnd: this.fromDay(pe - 1),
+        dueDate: this.fromDay(aligned ? ps : ps + offsetDays),
+        amount: this.round2(fullAmount * factor),
+        fullPeriodAmount: this.round2(fullAmount),
+        prorated: factor !== 1,
+        prorationFactor: Math.round(factor * 10000) / 10000,
+        currency,
+      });
+      k++;
+    }
+    if(out.length >= this.MAX_INSTALLMENTS && boundary(k) < endExcl) {
+      return `The schedule would exceed ${this.MAX_INSTALLMENTS} installments; use a longer payment frequency`;
+    }
+    return out;
+  }
+
+  /** Whether two sets of terms produce different schedules. */
+  public static termsChanged(a: RentTerms | undefined, b: RentTerms | undefined): boolean {
+    const key = (t: RentTerms | undefined) => JSON.stringify([
+      t ? this.toDay(t.startDate) : null,
+      t ? this.toDay(t.endDate) : null,
+      Number(t?.monthlyRent ?? 0),
+      t?.paymentFrequency?.duration ?? "",
+      t?.paymentFrequency?.unit ?? "",
+      Number(t?.rentDueDate?.day || 0),
+      Number(t?.rentDueDate?.offsetDays || 0),
+      t?.currency?.currency ?? "",
+    ]);
+    return key(a) !== key(b);
+  }
+
+  // ------------------------------ persistence ------------------------------
+  /**
+   * Replace the stored schedule of a lease with a fresh expansion of its terms.
+   * Installments that were already invoiced stay as they are; the new schedule
+   * picks up the day after the last invoiced period (a period that straddles
+   * that day is trimmed and prorated).
+   */
+  public static async regenerate(lease: ScheduledLease): Promise<{count: number; kept: number; version: number} | string> {
+    const expanded = this.expand(lease.leaseAgreement);
+    if(typeof expanded === "string") return expanded;
+
+    const previous = await RentInstallmentModel.findOne({leaseID: lease.leaseID})
+      .sort({scheduleVersion: -1})
+      .select("scheduleVersion")
+      .lean();
+    const version = (previous?.scheduleVersion ?? 0) + 1;
+    const now = new Date();
+
+    const kept = await RentInstallmentModel.find({leaseID: lease.leaseID, invoiceId: {$type: "string"}})
+      .select("sequence periodEnd")
+      .lean();
+    const keptEnd = kept.reduce((max, i) => Math.max(max, this.toDay(i.periodEnd) ?? max), -Infinity);
+    const keptSeq = kept.reduce((max, i) => Math.max(max, i.sequence), 0);
+
+    const drafts: RentInstallmentDraft[] = [];
+    for(const d of expanded) {
+      const ps = this.toDay(d.periodStart)!;
+      const pe = this.toDay(d.periodEnd)!;
+      if(pe <= keptEnd) continue;
+      if(ps <= keptEnd) {
+        const share = (pe - keptEnd) / (pe - ps + 1);
+        drafts.push({
+          ...d,
+          periodStart: this.fromDay(keptEnd + 1),
+          dueDate: new Date(Math.max(d.dueDate.getTime(), this.fromDay(keptEnd + 1).getTime())),
+          amount: this.round2(d.amount * share),
+          prorated: true,
+          prorationFactor: Math.round(d.prorationFactor * share * 10000) / 10000,
+        });
+      } else {
+        drafts.push(d);
+      }
+    }
+
+    await RentInstallmentModel.deleteMany({leaseID: lease.leaseID, invoiceId: {$not: {$type: "string"}}});
+    if(drafts.length) {
+      await RentInstallmentModel.insertMany(
+        drafts.map((d, i) => ({
+          ...d,
+          sequence: keptSeq + i + 1,
+          installmentId: uuidv4(),
+          leaseID: lease.leaseID,
+          propertyID: lease.propertyID,
+          tenantUsername: lease.tenantInformation.tenantUsername,
+          scheduleVersion: version,
+          generatedAt: now,
+        })),
+        {ordered: true}
+      );
+    }
+    return {count: kept.length + drafts.length, kept: kept.length, version};
+  }
+
+  /** Stored installments of a lease in order. */
+  public static async forLease(leaseID: string): Promise<IRentInstallment[]> {
+    return RentInstallmentModel.find({leaseID}).select("-_id").sort({sequence: 1}).lean<IRentInstallment[]>();
+  }
+
+  public static async exists(leaseID: string): Promise<boolean> {
+    return !!(await RentInstallmentModel.exists({leaseID}));
+  }
+
+  /** Totals of a schedule (amount over all installments, next one due on / after `from`). */
+  public static summarize(items: Array<Pick<IRentInstallment, "amount" | "dueDate">>, from = new Date()) {
+    const today = this.toDay(from) ?? 0;
+    const next = items.find((i) => (this.toDay(i.dueDate) ?? 0) >= today) ?? null;
+    return {
+      installments: items.length,
+      total: this.round2(items.reduce((sum, i) => sum + i.amount, 0)),
+      nextDue: next ? {dueDate: next.dueDate, amount: next.amount} : null,
+    };
+  }
+}
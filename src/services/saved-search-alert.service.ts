@@ -0,0 +1,222 @@
+// src/services/saved-search-alert.service.ts
+import cron from 'node-cron';
+import nodemailer from 'nodemailer';
+import {Namespace} from 'socket.io';
+import {ISavedSearch, SavedSearchModel} from '../models/saved-search.model';
+import {PropertyModel} from '../models/property.model';
+import {UserModel} from '../models/user.model';
+import NotificationService from './notification.service';
+import {PropertySearchService} from './property-search.service';
+
+/** One property reported by an alert. */
+export interface SavedSearchMatch {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  city: string;
+  reason: 'new' | 'price';
+  previousPrice?: number;
+}
+
+/** What one saved search found in a run. */
+export interface SavedSearchAlert {
+  searchId: string;
+  name: string;
+  total: number;
+  matches: SavedSearchMatch[];
+}
+
+export class SavedSearchAlertService {
+  /** Cron expression for the alert run (default: every day at 07:00). */
+  private readonly SCHEDULE = (process.env.SAVED_SEARCH_ALERT_CRON || '0 7 * * *').trim();
+
+  /** Properties listed per search in a notification / email (the total is always reported). */
+  private readonly MAX_MATCHES = 20;
+
+  private readonly notificationService = new NotificationService();
+  private running = false;
+
+  constructor (private io: Namespace) {
+    this.initializeCronJob();
+  }
+
+  private initializeCronJob(): void {
+    if(!cron.validate(this.SCHEDULE)) {
+      console.error(`[SavedSearchAlert] Invalid SAVED_SEARCH_ALERT_CRON "${this.SCHEDULE}", job not scheduled`);
+      return;
+    }
+    cron.schedule(this.SCHEDULE, () => {
+      this.run().catch((err) => console.error('[SavedSearchAlert] Unhandled error in run', err));
+    });
+    console.log(`[SavedSearchAlert] Job scheduled (${this.SCHEDULE})`);
+  }
+
+  /**
+   * Check every saved search with alerts on:
+   *  - published properties matching its filters that were published or
+   *    changed price after the search's lastCheckedAt
+   *  - one in-app notification per search, one email digest per user
+   *  - lastCheckedAt moves to the start of this run (nothing is reported twice)
+   */
+  public async run(): Promise<{searches: number; alerts: number}> {
+    if(this.running) return {searches: 0, alerts: 0};
+    this.running = true;
+    const startedAt = new Date();
+
+    try {
+      const byUser = new Map<string, SavedSearchAlert[]>();
+      const emailUsers = new Set<string>();
+      let searches = 0;
+      let alerts = 0;
+
+      const cursor = SavedSearchModel.find({alertsEnabled: true, channels: {$ne: []}}).cursor();
+      for await(const saved of cursor) {
+        searches++;
+        try {
+          const alert = await this.check(saved, startedAt);
+          if(alert) {
+            alerts++;
+            if(saved.channels.includes('inapp')) await this.notify(saved.username, alert);
+            if(saved.channels.includes('email')) {
+              byUser.set(saved.username, [...(byUser.get(saved.username) ?? []), alert]);
+              emailUsers.add(saved.username);
+            }
+          }
+          await SavedSearchModel.updateOne(
+            {_id: saved._id},
+            {
+              $set: {
+                lastCheckedAt: startedAt,
+                ...(alert ? {lastAlertAt: startedAt, lastMatchCount: alert.total} : {}),
+              },
+            }
+          );
+        } catch(err: any) {
+          console.error(`[SavedSearchAlert] search ${saved.searchId} failed:`, err?.message || err);
+        }
+      }
+
+      for(const username of emailUsers) {
+        await this.sendDigest(username, byUser.get(username) ?? []).catch((err) =>
+          console.error(`[SavedSearchAlert] digest for ${username} failed:`, err?.message || err)
+        );
+      }
+
+      console.log(`[SavedSearchAlert] Checked ${searches} saved search(es), ${alerts} with new matches`);
+      return {searches, alerts};
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** New / price-changed published properties for one saved search (null when none). */
+  private async check(saved: ISavedSearch, until: Date): Promise<SavedSearchAlert | null> {
+    const since = saved.lastCheckedAt ?? saved.createdAt;
+    const match = {
+      $and: [
+        PropertySearchService.listFilter(saved.search || '', saved.filter || ''),
+        {status: 'published'},
+        {
+          $or: [
+            {publishedAt: {$gt: since, $lte: until}},
+            {priceChangedAt: {$gt: since, $lte: until}},
+          ],
+        },
+      ],
+    };
+
+    const [docs, total] = await Promise.all([
+      PropertyModel.find(match)
+        .select('id title price currency address.city publishedAt priceChangedAt previousPrice')
+        .sort({updatedAt: -1})
+        .limit(this.MAX_MATCHES)
+        .lean(),
+      PropertyModel.countDocuments(match),
+    ]);
+    if(!total) return null;
+
+    const matches = docs.map((p): SavedSearchMatch => {
+      const isNew = !!p.publishedAt && p.publishedAt > since;
+      const m: SavedSearchMatch = {
+        id: p.id,
+        title: p.title,
+        price: p.price,
+        currency: p.currency || '',
+        city: p.address?.city || '',
+        reason: isNew ? 'new' : 'price',
+      };
+      if(!isNew && typeof p.previousPrice === 'number') m.previousPrice = p.previousPrice;
+      return m;
+    });
+
+    return {searchId: saved.searchId, name: saved.name, total, matches};
+  }
+
+  private async notify(username: string, alert: SavedSearchAlert): Promise<void> {
+    await this.notificationService.createNotification(
+      {
+        title: 'New Notification' as const,
+        body: `${alert.total} new or updated propert${alert.total === 1 ? 'y' : 'ies'} match your saved search "${alert.name}".`,
+        type: 'notify' as const,
+        severity: 'info' as const,
+        audience: {mode: 'user', usernames: [username]},
+        channels: ['inapp' as const],
+        metadata: {searchId: alert.searchId, name: alert.name, total: alert.total, matches: alert.matches},
+        source: 'saved-search-alert',
+        tags: ['saved-search'],
+      },
+      (rooms, payload) => rooms.forEach((room) => this.io.to(room).emit('notification.new', payload))
+    );
+  }
+
+  private escapeHtml(v: string): string {
+    return v.replace(/[&<>"']/g, (c) => ({'&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'})[c]!);
+  }
+
+  /** One email per user listing every saved search that found something. */
+  private async sendDigest(username: string, alerts: SavedSearchAlert[]): Promise<void> {
+    if(!alerts.length) return;
+    const user = await UserModel.findOne({username, isActive: true}).select('email name').lean();
+    if(!user?.email) return;
+
+    const front = (process.env.FRONTEND_ORIGIN || 'http://localhost:4200').trim();
+    const sections = alerts.map((a) => {
+      const rows = a.matches.map((m) => {
+        const price = `${m.currency} ${m.price.toLocaleString('en-US')}`.trim();
+        const change = m.reason === 'price'
+          ? ` <span style="color:#888">(was ${m.currency} ${(m.previousPrice ?? 0).toLocaleString('en-US')})</span>`
+          : ' <span style="color:#28a745">new</span>';
+        return `<li><strong>${this.escapeHtml(m.title)}</strong>${m.city ? `, ${this.escapeHtml(m.city)}` : ''} – ${this.escapeHtml(price)}${change}</li>`;
+      }).join('');
+      const more = a.total > a.matches.length ? `<p style="color:#888">…and ${a.total - a.matches.length} more.</p>` : '';
+      return `<h3 style="margin-bottom:4px">${this.escapeHtml(a.name)} (${a.total})</h3><ul>${rows}</ul>${more}`;
+    }).join('');
+
+    const html = `
+      <div style="font-family:Arial,sans-serif;line-height:1.6">
+        <h2>Your saved search updates</h2>
+        <p>Hello ${this.escapeHtml(user.name || username)},</p>
+        <p>These properties were published or changed price since your last update:</p>
+        ${sections}
+        <p><a href="${front}">Open PropEase</a> to view them.</p>
+        <p style="color:#888;font-size:12px">You can turn these emails off in your saved search settings.</p>
+      </div>
+    `;
+
+    const transporter = nodemailer.createTransport({
+      service: 'gmail',
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+
+    await transporter.sendMail({
+      from: '"PropEase Real Estate" <no-reply@propease.com>',
+      to: user.email,
+      subject: 'New matches for your saved searches',
+      html,
+    });
+  }
+}
@@ -0,0 +1,251 @@
+// src/services/session.service.ts
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import {v4 as uuidv4} from "uuid";
+import {TokenMap} from "../models/token.model";
+import {UserModel} from "../models/user.model";
+import {Role} from "../types/roles";
+
+/** Request metadata stored alongside a session (shown in "my sessions"). */
+export interface SessionMeta {
+  ip?: string;
+  userAgent?: string;
+}
+
+/** Tokens handed to the client after login or refresh. */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+  accessExpiresIn: number; // seconds
+  refreshExpiresAt: Date;
+}
+
+/** JWT claims of an access token. */
+export interface AccessTokenPayload {
+  sub?: string;
+  username: string;
+  role: Role;
+  sid: string;
+}
+
+export type RotateResult =
+  | {ok: true; tokens: SessionTokens; username: string}
+  | {ok: false; reason: "INVALID" | "EXPIRED" | "REVOKED" | "REUSED" | "USER_INACTIVE"};
+
+export interface SessionSummary {
+  sessionId: string;
+  ip: string;
+  userAgent: string;
+  startedAt: Date | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * Access + refresh token sessions persisted in TokenMap (type "session").
+ * - Access tokens are short-lived JWTs carrying the session id (`sid`)
+ * - Refresh tokens rotate on every use; presenting an already-rotated token
+ *   is treated as theft and revokes the whole token family
+ * - Revocation is checked by AuthMiddleware and the socket handshake
+ */
+export class SessionService {
+  public static readonly ACCESS_TTL_SECONDS = 15 * 60;
+  public static readonly REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+  private static secret(): string {
+    return (process.env.JWT_SECRET || "defaultsecret").trim();
+  }
+
+  private static hash(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private static signAccess(payload: AccessTokenPayload): string {
+    return jwt.sign(payload, this.secret(), {expiresIn: this.ACCESS_TTL_SECONDS});
+  }
+
+  /** Persist one refresh token row of a family and return the raw value. */
+  private static async storeRefresh(
+    username: string,
+    sessionId: string,
+    startedAt: Date,
+    meta: SessionMeta
+  ): Promise<{refreshToken: string; expiresAt: Date}> {
+    const refreshToken = crypto.randomBytes(48).toString("base64url");
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.REFRESH_TTL_MS);
+
+    await TokenMap.create({
+      token: this.hash(refreshToken),
+      username,
+      type: "session",
+      expiresAt,
+      sessionId,
+      startedAt,
+      ip: meta.ip ?? "",
+      userAgent: (meta.userAgent ?? "").slice(0, 512),
+      lastUsedAt: now,
+    });
+
+    return {refreshToken, expiresAt};
+  }
+
+  /** Start a new session (login). */
+  public static async issue(
+    user: {_id: unknown; username: string; role: Role},
+    meta: SessionMeta
+  ): Promise<SessionTokens> {
+    const sessionId = uuidv4();
+    const {refreshToken, expiresAt} = await this.storeRefresh(user.username, sessionId, new Date(), meta);
+
+    const accessToken = this.signAccess({
+      sub: String(user._id),
+      username: user.username,
+      role: user.role,
+      sid: sessionId,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      sessionId,
+      accessExpiresIn: this.ACCESS_TTL_SECONDS,
+      refreshExpiresAt: expiresAt,
+    };
+  }
+
+  /** Exchange a refresh token for a new access/refresh pair (one-time use). */
+  public static async rotate(refreshToken: string, meta: SessionMeta): Promise<RotateResult> {
+    const hashed = this.hash(refreshToken);
+    const now = new Date();
+
+    // Atomically claim the token so two parallel refreshes cannot both succeed
+    const row = await TokenMap.findOneAndUpdate(
+      {token: hashed, type: "session", rotatedAt: null, revokedAt: null, expiresAt: {$gt: now}},
+      {$set: {rotatedAt: now, lastUsedAt: now}},
+      {new: true}
+    ).lean();
+
+    if(!row || !row.sessionId) {
+      const existing = await TokenMap.findOne({token: hashed, type: "session"}).lean();
+      if(!existing) return {ok: false, reason: "INVALID"};
+      if(existing.revokedAt) return {ok: false, reason: "REVOKED"};
+      if(existing.expiresAt <= now) return {ok: false, reason: "EXPIRED"};
+
+      // Already rotated → someone replayed an old token: kill the family
+      if(existing.sessionId) await this.revoke(existing.sessionId, "refresh-token-reuse");
+      console.warn(
+        `[session] refresh token reuse detected user=${existing.username} sid=${existing.sessionId}`
+      );
+      return {ok: false, reason: "REUSED"};
+    }
+
+    // Re-read the user so role changes / deactivation apply on refresh
+    const user = await UserModel.findOne({username: row.username})
+      .select("_id username role isActive")
+      .lean();
+    if(!user || user.isActive === false) {
+      await this.revoke(row.sessionId, "user-inactive");
+      return {ok: false, reason: "USER_INACTIVE"};
+    }
+
+    const {refreshToken: nextRefresh, expiresAt} = await this.storeRefresh(
+      user.username,
+      row.sessionId,
+      row.startedAt ?? now,
+      {ip: meta.ip ?? row.ip ?? "", userAgent: meta.userAgent ?? row.userAgent ?? ""}
+    );
+
+    const accessToken = this.signAccess({
+      sub: String(user._id),
+      username: user.username,
+      role: user.role,
+      sid: row.sessionId,
+    });
+
+    return {
+      ok: true,
+      username: user.username,
+      tokens: {
+        accessToken,
+        refreshToken: nextRefresh,
+        sessionId: row.sessionId,
+        accessExpiresIn: this.ACCESS_TTL_SECONDS,
+        refreshExpiresAt: expiresAt,
+      },
+    };
+  }
+
+  /** True while the session family has a live (not revoked/expired) row. */
+  public static async isActive(sessionId: string | undefined): Promise<boolean> {
+    if(!sessionId) return false;
+    const hit = await TokenMap.exists({
+      type: "session",
+      sessionId,
+      revokedAt: null,
+      expiresAt: {$gt: new Date()},
+    });
+    return !!hit;
+  }
+
+  /** Revoke a whole session family. */
+  public static async revoke(sessionId: string, reason = "logout"): Promise<number> {
+    const result = await TokenMap.updateMany(
+      {type: "session", sessionId, revokedAt: null},
+      {$set: {revokedAt: new Date(), revokedReason: reason}}
+    );
+    return result.modifiedCount;
+  }
+
+  /** Revoke every session of a user (optionally keeping one). Returns revoked session ids. */
+  public static async revokeAllForUser(
+    username: string,
+    reason = "logout-all",
+    exceptSessionId?: string
+  ): Promise<string[]> {
+    const filter: Record<string, unknown> = {type: "session", username, revokedAt: null};
+    if(exceptSessionId) filter["sessionId"] = {$ne: exceptSessionId};
+
+    const sessionIds = (await TokenMap.distinct("sessionId", filter)).filter(
+      (id): id is string => typeof id === "string" && !!id
+    );
+    if(sessionIds.length) {
+      await TokenMap.updateMany(
+        {type: "session", sessionId: {$in: sessionIds}, revokedAt: null},
+        {$set: {revokedAt: new Date(), revokedReason: reason}}
+      );
+    }
+    return sessionIds;
+  }
+
+  /** Active sessions of a user (one entry per family, newest activity first). */
+  public static async list(username: string): Promise<SessionSummary[]> {
+    const rows = await TokenMap.find({
+      type: "session",
+      username,
+      rotatedAt: null,
+      revokedAt: null,
+      expiresAt: {$gt: new Date()},
+    })
+      .sort({lastUsedAt: -1})
+      .lean();
+
+    return rows
+      .filter((r) => !!r.sessionId)
+      .map((r) => ({
+        sessionId: r.sessionId as string,
+        ip: r.ip ?? "",
+        userAgent: r.userAgent ?? "",
+        startedAt: r.startedAt ?? null,
+        lastUsedAt: r.lastUsedAt ?? null,
+        expiresAt: r.expiresAt,
+      }));
+  }
+
+  /** Owner of a session family (for ownership checks before revoking). */
+  public static async ownerOf(sessionId: string): Promise<string | null> {
+    const row = await TokenMap.findOne({type: "session", sessionId}).select("username").lean();
+    return row?.username ?? null;
+  }
+}
@@ -0,0 +1,308 @@
+// src/services/spreadsheet.service.ts
+import {ZipService} from "./zip.service";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+/** One data row keyed by header; `row` is its 1-based row number in the sheet. */
+export interface SheetRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+/** A parsed sheet: header row + data rows. */
+export interface ParsedSheet {
+  format: SpreadsheetFormat;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+/** A cell value for export (numbers stay numeric in XLSX). */
+export type SheetCell = string | number | boolean | null | undefined;
+
+/**
+ * Reads and writes tabular files without external dependencies.
+ * - CSV: RFC 4180 quoting, BOM, CRLF, delimiter sniffed from the header (, ; tab)
+ * - XLSX: first worksheet, shared / inline strings, booleans and numbers
+ *   (date cells arrive as Excel serial numbers, see `excelSerialToDate`)
+ * Blank rows are skipped; every value is returned as a trimmed string.
+ * Writers produce UTF-8 CSV (with BOM, for Excel) and a single-sheet XLSX.
+ */
+export class SpreadsheetService {
+  /** XLSX column limit (A..XFD). */
+  private static readonly XLSX_MAX_COLUMNS = 16_384;
+
+  public static detectFormat(filename: string, mimetype = ""): SpreadsheetFormat | null {
+    const name = filename.toLowerCase();
+    if(name.endsWith(".csv") || mimetype === "text/csv") return "csv";
+    if(name.endsWith(".xlsx") || mimetype === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") return "xlsx";
+    return null;
+  }
+
+  public static parse(buffer: Buffer, format: SpreadsheetFormat, maxRows = 5000): ParsedSheet {
+    const grid = format === "csv" ? this.readCsv(buffer.toString("utf8")) : this.readXlsx(buffer, maxRows);
+    const numbered = grid
+      .map((cells, i) => ({row: i + 1, cells}))
+      .filter((r) => r.cells.some((c) => c.trim() !== ""));
+    const [head, ...body] = numbered;
+    if(!head) throw new Error("The file is empty");
+    if(body.length > maxRows) throw new Error(`Too many rows (max ${maxRows})`);
+
+    const headers = head.cells.map((h) => h.trim());
+    const rows = body.map(({row, cells}): SheetRow => {
+      const values: Record<string, string> = {};
+      headers.forEach((h, i) => {
+        if(h) values[h] = (cells[i] ?? "").trim();
+      });
+      return {row, values};
+    });
+    return {format, headers, rows};
+  }
+
+  /** Excel stores dates as days since 1899-12-30 (with the 1900 leap-year bug baked in). */
+  public static excelSerialToDate(serial: number): Date {
+    return new Date(Math.round((serial - 25569) * 86400 * 1000));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Writers
+  // ---------------------------------------------------------------------------
+  public static toCsv(headers: string[], rows: SheetCell[][]): Buffer {
+    const cell = (v: SheetCell) => {
+      const str = v === null || v === undefined ? "" : String(v);
+      // Quote when needed; prefix formula-looking text so spreadsheets don't evaluate it
+      const safe = /^[=+\-@\t\r]/.test(str) && typeof v === "string" ? `'${str}` : str;
+      return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, "\"\"")}"` : safe;
+    };
+    const lines = [headers, ...rows].map((r) => r.map(cell).join(","));
+    return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8");
+  }
+
+  public static toXlsx(headers: string[], rows: SheetCell[][], sheetName = "Sheet1"): Buffer {
+    const esc = (v: string) =>
+      v.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+        // XML 1.0 forbids most control characters
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+    const colName = (i: number) => {
+      let n = i + 1;
+      let out = "";
+      while(n > 0) {
+        const m = (n - 1) % 26;
+        out = String.fromCharCode(65 + m) + out;
+        n = Math.floor((n - 1) / 26);
+      }
+      return out;
+    };
+    const cellXml = (v: SheetCell, ref: string, header = false) => {
+      if(v === null || v === undefined || v === "") return "";
+      const style = header ? ` s="1"` : "";
+      if(typeof v === "number" && Number.isFinite(v)) return `<c r="${ref}"${style}><v>${v}</v></c>`;
+      if(typeof v === "boolean") return `<c r="${ref}" t="b"${style}><v>${v ? 1 : 0}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${esc(String(v))}</t></is></c>`;
+    };
+
+    const sheetRows = [headers, ...rows].map((r, ri) =>
+      `<row r="${ri + 1}">${r.map((v, ci) => cellXml(v, `${colName(ci)}${ri + 1}`, ri === 0)).join("")}</row>`
+    ).join("");
+
+    const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`, "utf8");
+    const safeSheetName = esc(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Sheet1");
+
+    return ZipService.build([
+      {
+        name: "[Content_Types].xml",
+        data: xml(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`),
+      },
+      {
+        name: "_rels/.rels",
+        data: xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+      },
+      {
+        name: "xl/workbook.xml",
+        data: xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`),
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        data: xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+      },
+      {
+        name: "xl/styles.xml",
+        data: xml(`<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`),
+      },
+      {
+        name: "xl/worksheets/sheet1.xml",
+        data: xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows}</sheetData></worksheet>`),
+      },
+    ]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // CSV
+  // ---------------------------------------------------------------------------
+  private static readCsv(text: string): string[][] {
+    const src = text.replace(/^\uFEFF/, "");
+    const firstLine = src.slice(0, src.search(/\r?\n|$/));
+    const delimiter = [",", ";", "\t"]
+      .map((d) => ({d, n: firstLine.split(d).length}))
+      .sort((a, b) => b.n - a.n)[0]!.d;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for(let i = 0; i < src.length; i++) {
+      const ch = src[i]!;
+      if(quoted) {
+        if(ch === "\"") {
+          if(src[i + 1] === "\"") {
+            field += "\"";
+            i++;
+          } else {
+            quoted = false;
+          }
+        } else {
+          field += ch;
+        }
+        continue;
+      }
+      if(ch === "\"" && field === "") quoted = true;
+      else if(ch === delimiter) {
+        row.push(field);
+        field = "";
+      } else if(ch === "\n" || ch === "\r") {
+        if(ch === "\r" && src[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += ch;
+      }
+    }
+    if(field !== "" || row.length) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  // ---------------------------------------------------------------------------
+  // XLSX (Office Open XML)
+  // ---------------------------------------------------------------------------
+  private static unescapeXml(v: string): string {
+    return v
+      .replace(/&#x([0-9a-f]+);/gi, (_m, h: string) => String.fromCodePoint(parseInt(h, 16)))
+      .replace(/&#(\d+);/g, (_m, d: string) => String.fromCodePoint(parseInt(d, 10)))
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, "\"")
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+
+  /** Concatenate every <t> run inside a string item (rich text has several). */
+  private static textRuns(xml: string): string {
+    let out = "";
+    for(const m of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) out += m[1] ?? "";
+    return this.unescapeXml(out);
+  }
+
+  /** "BC12" → 54 (zero-based column index). */
+  private static columnIndex(ref: string): number {
+    const letters = (ref.match(/^[A-Z]+/i)?.[0] ?? "").toUpperCase();
+    let n = 0;
+    for(const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+    return n - 1;
+  }
+
+  /** Path of the first worksheet, following workbook.xml → workbook.xml.rels. */
+  private static firstSheetPath(files: Map<string, Buffer>): string {
+    const workbook = files.get("xl/workbook.xml")?.toString("utf8") ?? "";
+    const rels = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8") ?? "";
+    const rid = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    if(rid) {
+      for(const m of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+        const tag = m[0];
+        if(tag.includes(`Id="${rid}"`)) {
+          const target = tag.match(/Target="([^"]+)"/)?.[1] ?? "";
+          const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+          if(files.has(path)) return path;
+        }
+      }
+    }
+    const fallback = Array.from(files.keys()).filter((k) => /^xl\/worksheets\/[^/]+\.xml$/.test(k)).sort()[0];
+    if(!fallback) throw new Error("The workbook has no worksheet");
+    return fallback;
+  }
+
+  /**
+   * Row numbers and cell references come from the file and drive the padding
+   * below, so they are bounded (header + maxRows, XFD) before anything is allocated.
+   */
+  private static readXlsx(buffer: Buffer, maxRows: number): string[][] {
+    let files: Map<string, Buffer>;
+    try {
+      files = ZipService.read(buffer);
+    } catch(e: any) {
+      throw new Error(`Invalid XLSX file: ${e?.message || e}`);
+    }
+
+    const shared: string[] = [];
+    const sst = files.get("xl/sharedStrings.xml")?.toString("utf8");
+    if(sst) for(const m of sst.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)) shared.push(this.textRuns(m[1] ?? ""));
+
+    const sheet = files.get(this.firstSheetPath(files))!.toString("utf8");
+    const rows: string[][] = [];
+
+    for(const rm of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const rowNumber = Number(rm[1]?.match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+      if(rowNumber > maxRows + 1) throw new Error(`Too many rows (max ${maxRows})`);
+      const cells: string[] = [];
+      let next = 0;
+
+      for(const cm of (rm[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attrs = cm[1] ?? "";
+        const inner = cm[2] ?? "";
+        const ref = attrs.match(/\br="([^"]+)"/)?.[1];
+        const col = ref ? this.columnIndex(ref) : next;
+        if(!Number.isFinite(col) || col < 0 || col >= this.XLSX_MAX_COLUMNS) throw new Error(`Invalid cell reference "${ref ?? col}"`);
+        next = col + 1;
+
+        const type = attrs.match(/\bt="([^"]+)"/)?.[1] ?? "n";
+        const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "";
+        let value: string;
+        if(type === "s") value = shared[Number(raw)] ?? "";
+        else if(type === "inlineStr") value = this.textRuns(inner);
+        else if(type === "b") value = raw === "1" ? "true" : "false";
+        else value = this.unescapeXml(raw);
+
+        while(cells.length < col) cells.push("");
+        cells[col] = value;
+      }
+
+      // Keep row positions stable if the sheet skips empty rows
+      while(rows.length < rowNumber - 1) rows.push([]);
+      rows.push(cells);
+    }
+    return rows;
+  }
+}
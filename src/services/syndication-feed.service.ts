@@ -0,0 +1,497 @@
+// src/services/syndication-feed.service.ts
+import {FilterQuery} from "mongoose";
+import {IProperty, PropertyModel} from "../models/property.model";
+import {
+  ISyndicationPartner,
+  SyndicationCriteria,
+  SyndicationFeedRun,
+  SyndicationFormat,
+  SyndicationRejection,
+} from "../models/syndication-partner.model";
+import {PropertyHistoryService} from "./property-history.service";
+
+type FeedScalar = string | number | boolean;
+export interface FeedMedia {
+  MediaKey: string;
+  MediaURL: string;
+  Order: number;
+  MediaCategory: "Photo";
+}
+export type FeedValue = FeedScalar | string[] | FeedMedia[];
+/** One listing in feed format (RESO Data Dictionary field names). */
+export type FeedListing = Record<string, FeedValue>;
+
+/** Field rule of the feed schema; the array order is the XML element order. */
+export interface FeedField {
+  name: string;
+  type: "string" | "number" | "integer" | "date" | "datetime" | "url" | "string[]" | "media";
+  required?: boolean;
+  enum?: ReadonlyArray<string>;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+}
+
+export interface FeedDocument {
+  partner: string;
+  generatedAt: Date;
+  since: Date | null;
+  listings: FeedListing[];
+  removed: string[];
+  /** Set when more listings match than fit one page: pass it back as `cursor` */
+  nextCursor: string | null;
+}
+
+/** Position after the last listing of a page (feeds are ordered by updatedAt, then id). */
+export interface FeedCursor {
+  updatedAt: Date;
+  id: string;
+}
+
+export interface FeedResult {
+  body: string;
+  contentType: string;
+  nextCursor: string | null;
+  run: SyndicationFeedRun;
+}
+
+/**
+ * Listing syndication for external portals.
+ * - Maps IProperty to a RESO-style listing record (`toListing`)
+ * - Every record is checked against FEED_SCHEMA; invalid ones are left out
+ *   of the feed and reported (`lastFeed.rejections` on the partner)
+ * - Full feeds: all published listings matching the partner's criteria.
+ *   Incremental feeds (`since`): listings modified after it, plus the keys of
+ *   listings removed since (unpublished, no longer matching, or deleted)
+ * - Feeds are paged (MAX_LISTINGS per page); `nextCursor` continues a feed,
+ *   removals are listed on its first page
+ */
+export class SyndicationFeedService {
+  public static readonly FEED_VERSION = "1.0";
+  /** Listings per feed page. */
+  public static readonly MAX_LISTINGS = 10_000;
+  /** Property fields `toListing` reads (the feed never loads full documents). */
+  private static readonly LISTING_PROJECTION = [
+    "id", "referenceCode", "type", "listing", "availabilityStatus", "title", "description",
+    "price", "currency", "expectedRentMonthly", "address", "location", "bedrooms", "bathrooms",
+    "builtInArea", "totalArea", "totalFloors", "numberOfParking", "builtYear", "furnishingStatus",
+    "featuresAndAmenities", "virtualTour", "videoTour", "listingDate", "availabilityDate",
+    "listingExpiryDate", "addedBy.name", "addedBy.email", "addedBy.contactNumber", "images",
+    "createdAt", "updatedAt",
+  ].join(" ");
+  /** Rejections kept on the partner's last feed run. */
+  private static readonly MAX_REPORTED_REJECTIONS = 50;
+
+  public static readonly STANDARD_STATUS = ["Active", "Pending", "Withdrawn", "Closed"] as const;
+  public static readonly PROPERTY_TYPES = [
+    "Residential", "ResidentialLease", "CommercialSale", "CommercialLease", "Land",
+  ] as const;
+
+  public static readonly FEED_SCHEMA: ReadonlyArray<FeedField> = [
+    {name: "ListingKey", type: "string", required: true, maxLength: 100},
+    {name: "ListingId", type: "string", required: true, maxLength: 100},
+    {name: "StandardStatus", type: "string", required: true, enum: SyndicationFeedService.STANDARD_STATUS},
+    {name: "PropertyType", type: "string", required: true, enum: SyndicationFeedService.PROPERTY_TYPES},
+    {name: "PropertySubType", type: "string", maxLength: 50},
+    {name: "ListingTitle", type: "string", required: true, maxLength: 200},
+    {name: "PublicRemarks", type: "string", maxLength: 10_000},
+    {name: "ListPrice", type: "number", required: true, min: 0},
+    {name: "CurrencyCode", type: "string", required: true, maxLength: 3},
+    {name: "LeaseAmountFrequency", type: "string", enum: ["Monthly"]},
+    {name: "UnparsedAddress", type: "string", maxLength: 500},
+    {name: "StreetNumber", type: "string", maxLength: 50},
+    {name: "StreetName", type: "string", maxLength: 200},
+    {name: "City", type: "string", required: true, maxLength: 100},
+    {name: "StateOrProvince", type: "string", maxLength: 100},
+    {name: "PostalCode", type: "string", maxLength: 20},
+    {name: "Country", type: "string", required: true, maxLength: 100},
+    {name: "Latitude", type: "number", min: -90, max: 90},
+    {name: "Longitude", type: "number", min: -180, max: 180},
+    {name: "BedroomsTotal", type: "integer", min: 0},
+    {name: "BathroomsTotalInteger", type: "integer", min: 0},
+    {name: "LivingArea", type: "number", min: 0},
+    {name: "LivingAreaUnits", type: "string", enum: ["Square Feet"]},
+    {name: "LotSizeSquareFeet", type: "number", min: 0},
+    {name: "StoriesTotal", type: "integer", min: 0},
+    {name: "ParkingTotal", type: "integer", min: 0},
+    {name: "YearBuilt", type: "integer", min: 1800, max: 2100},
+    {name: "Furnished", type: "string", enum: ["Furnished", "Partially", "Unfurnished"]},
+    {name: "Amenities", type: "string[]"},
+    {name: "VirtualTourURLUnbranded", type: "url"},
+    {name: "ListingContractDate", type: "date"},
+    {name: "AvailabilityDate", type: "date"},
+    {name: "ExpirationDate", type: "date"},
+    {name: "ListAgentFullName", type: "string", maxLength: 150},
+    {name: "ListAgentEmail", type: "string", maxLength: 200},
+    {name: "ListAgentDirectPhone", type: "string", maxLength: 50},
+    {name: "OriginalEntryTimestamp", type: "datetime"},
+    {name: "ModificationTimestamp", type: "datetime", required: true},
+    {name: "Media", type: "media", required: true},
+  ];
+
+  // ---------------------------------------------------------------------------
+  // Mapping
+  // ---------------------------------------------------------------------------
+  private static propertyType(p: Pick<IProperty, "type" | "listing">): string {
+    const lease = p.listing === "rent" || p.listing === "rented";
+    switch(String(p.type).toLowerCase()) {
+      case "commercial": return lease ? "CommercialLease" : "CommercialSale";
+      case "land": return "Land";
+      default: return lease ? "ResidentialLease" : "Residential";
+    }
+  }
+
+  private static propertySubType(type: string): string | undefined {
+    const map: Record<string, string> = {
+      apartment: "Apartment",
+      studio: "Apartment",
+      house: "Single Family Residence",
+      villa: "Single Family Residence",
+      commercial: "Commercial",
+      land: "Unimproved Land",
+    };
+    return map[String(type).toLowerCase()];
+  }
+
+  private static standardStatus(p: Pick<IProperty, "listing" | "availabilityStatus">): string {
+    if(p.listing === "sold" || p.listing === "rented") return "Closed";
+    switch(String(p.availabilityStatus).toLowerCase()) {
+      case "pending": return "Pending";
+      case "not available": return "Withdrawn";
+      default: return "Active";
+    }
+  }
+
+  private static furnished(v: string | undefined): string | undefined {
+    const map: Record<string, string> = {furnished: "Furnished", "semi-furnished": "Partially", unfurnished: "Unfurnished"};
+    return v ? map[v.toLowerCase()] : undefined;
+  }
+
+  private static day(d: unknown): string | undefined {
+    if(!d) return undefined;
+    const dt = new Date(d as any);
+    return Number.isNaN(dt.getTime()) ? undefined : dt.toISOString().slice(0, 10);
+  }
+
+  /** Map a property (lean or hydrated) to a feed listing; empty values are omitted. */
+  public static toListing(p: IProperty & {createdAt?: Date; updatedAt?: Date}): FeedListing {
+    const lease = p.listing === "rent" || p.listing === "rented";
+    const address = p.address || ({} as IProperty["address"]);
+    const lat = Number(p.location?.lat);
+    const lng = Number(p.location?.lng);
+    const hasPoint = Number.isFinite(lat) && Number.isFinite(lng) && !(lat === 0 && lng === 0);
+    const fullAddress = [address.houseNumber, address.street, address.city, address.stateOrProvince, address.postcode, address.country]
+      .filter(Boolean).join(", ");
+
+    const raw: Record<string, FeedValue | undefined | null> = {
+      ListingKey: p.id,
+      ListingId: p.referenceCode || p.id,
+      StandardStatus: this.standardStatus(p),
+      PropertyType: this.propertyType(p),
+      PropertySubType: this.propertySubType(p.type),
+      ListingTitle: p.title,
+      PublicRemarks: p.description,
+      ListPrice: lease && p.expectedRentMonthly ? p.expectedRentMonthly : p.price,
+      CurrencyCode: p.currency ? p.currency.toUpperCase() : undefined,
+      LeaseAmountFrequency: lease ? "Monthly" : undefined,
+      UnparsedAddress: fullAddress,
+      StreetNumber: address.houseNumber,
+      StreetName: address.street,
+      City: address.city,
+      StateOrProvince: address.stateOrProvince,
+      PostalCode: address.postcode,
+      Country: address.country,
+      Latitude: hasPoint ? lat : undefined,
+      Longitude: hasPoint ? lng : undefined,
+      BedroomsTotal: p.bedrooms,
+      BathroomsTotalInteger: typeof p.bathrooms === "number" ? Math.floor(p.bathrooms) : undefined,
+      LivingArea: p.builtInArea || p.totalArea || undefined,
+      LivingAreaUnits: p.builtInArea || p.totalArea ? "Square Feet" : undefined,
+      LotSizeSquareFeet: p.type === "land" || p.type === "villa" || p.type === "house" ? p.totalArea || undefined : undefined,
+      StoriesTotal: p.totalFloors || undefined,
+      ParkingTotal: p.numberOfParking,
+      YearBuilt: p.builtYear || undefined,
+      Furnished: this.furnished(p.furnishingStatus),
+      Amenities: p.featuresAndAmenities?.length ? p.featuresAndAmenities : undefined,
+      VirtualTourURLUnbranded: p.virtualTour || p.videoTour,
+      ListingContractDate: this.day(p.listingDate),
+      AvailabilityDate: this.day(p.availabilityDate),
+      ExpirationDate: this.day(p.listingExpiryDate),
+      ListAgentFullName: p.addedBy?.name,
+      ListAgentEmail: p.addedBy?.email,
+      ListAgentDirectPhone: p.addedBy?.contactNumber,
+      OriginalEntryTimestamp: p.createdAt ? new Date(p.createdAt).toISOString() : undefined,
+      ModificationTimestamp: new Date(p.updatedAt || p.createdAt || Date.now()).toISOString(),
+      Media: (p.images || []).map((img, i): FeedMedia => ({
+        MediaKey: img.filename || `${p.id}-${i + 1}`,
+        MediaURL: img.imageURL,
+        Order: i + 1,
+        MediaCategory: "Photo",
+      })),
+    };
+
+    const listing: FeedListing = {};
+    for(const [k, v] of Object.entries(raw)) {
+      if(v === undefined || v === null || v === "") continue;
+      listing[k] = v;
+    }
+    return listing;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Validation
+  // ---------------------------------------------------------------------------
+  private static isUrl(v: unknown): boolean {
+    try {
+      const u = new URL(String(v));
+      return u.protocol === "http:" || u.protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+
+  /** Check one listing against FEED_SCHEMA; returns the problems found (empty → valid). */
+  public static validate(listing: FeedListing): string[] {
+    const errors: string[] = [];
+    const known = new Set(this.FEED_SCHEMA.map((f) => f.name));
+    for(const key of Object.keys(listing)) {
+      if(!known.has(key)) errors.push(`${key}: not part of the feed schema`);
+    }
+
+    for(const f of this.FEED_SCHEMA) {
+      const v = listing[f.name];
+      if(v === undefined) {
+        if(f.required) errors.push(`${f.name}: required`);
+        continue;
+      }
+      switch(f.type) {
+        case "string":
+          if(typeof v !== "string") errors.push(`${f.name}: must be text`);
+          else {
+            if(f.maxLength && v.length > f.maxLength) errors.push(`${f.name}: longer than ${f.maxLength} characters`);
+            if(f.enum && !f.enum.includes(v)) errors.push(`${f.name}: must be one of ${f.enum.join(", ")}`);
+          }
+          break;
+        case "number":
+        case "integer":
+          if(typeof v !== "number" || !Number.isFinite(v)) errors.push(`${f.name}: must be a number`);
+          else {
+            if(f.type === "integer" && !Number.isInteger(v)) errors.push(`${f.name}: must be a whole number`);
+            if(f.min !== undefined && v < f.min) errors.push(`${f.name}: must be ≥ ${f.min}`);
+            if(f.max !== undefined && v > f.max) errors.push(`${f.name}: must be ≤ ${f.max}`);
+          }
+          break;
+        case "date":
+          if(typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v)) errors.push(`${f.name}: must be YYYY-MM-DD`);
+          break;
+        case "datetime":
+          if(typeof v !== "string" || Number.isNaN(Date.parse(v))) errors.push(`${f.name}: must be an ISO timestamp`);
+          break;
+        case "url":
+          if(!this.isUrl(v)) errors.push(`${f.name}: must be an http(s) URL`);
+          break;
+        case "string[]":
+          if(!Array.isArray(v) || v.some((x) => typeof x !== "string")) errors.push(`${f.name}: must be a list of text`);
+          break;
+        case "media":
+          if(!Array.isArray(v) || !v.length) {
+            errors.push(`${f.name}: at least one photo is required`);
+            break;
+          }
+          (v as FeedMedia[]).forEach((m, i) => {
+            if(!m || typeof m !== "object" || !this.isUrl(m.MediaURL)) errors.push(`${f.name}[${i + 1}]: MediaURL must be an http(s) URL`);
+          });
+          break;
+      }
+    }
+    return errors;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Selection
+  // ---------------------------------------------------------------------------
+  /** Mongo filter for what a partner may receive (always published only). */
+  public static partnerFilter(criteria: Partial<SyndicationCriteria> | undefined): FilterQuery<IProperty> {
+    const match: FilterQuery<IProperty> = {status: "published"};
+    if(criteria?.listings?.length) match["listing"] = {$in: criteria.listings};
+    if(criteria?.types?.length) match["type"] = {$in: criteria.types};
+    if(criteria?.countries?.length) match["address.country"] = {$in: criteria.countries};
+    if(criteria?.cities?.length) match["address.city"] = {$in: criteria.cities};
+    if(criteria?.minImages && criteria.minImages > 0) match[`images.${criteria.minImages - 1}`] = {$exists: true};
+    return match;
+  }
+
+  public static encodeCursor(cursor: FeedCursor): string {
+    return Buffer.from(JSON.stringify([cursor.updatedAt.toISOString(), cursor.id]), "utf8").toString("base64url");
+  }
+
+  /** `cursor` query → FeedCursor, null when malformed. */
+  public static decodeCursor(raw: string): FeedCursor | null {
+    try {
+      const [at, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+      const updatedAt = new Date(at);
+      if(typeof id !== "string" || !id || Number.isNaN(updatedAt.getTime())) return null;
+      return {updatedAt, id};
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collect one page of the feed for a partner. Invalid listings are dropped
+   * (and, for incremental feeds, reported as removed so the portal takes them down).
+   */
+  public static async collect(
+    partner: Pick<ISyndicationPartner, "name" | "criteria">,
+    since: Date | null,
+    cursor: FeedCursor | null = null
+  ): Promise<{feed: FeedDocument; rejections: SyndicationRejection[]}> {
+    const match = this.partnerFilter(partner.criteria);
+    const listed: FilterQuery<IProperty>[] = [match];
+    if(since) listed.push({updatedAt: {$gt: since}});
+    if(cursor) {
+      listed.push({$or: [{updatedAt: {$gt: cursor.updatedAt}}, {updatedAt: cursor.updatedAt, id: {$gt: cursor.id}}]});
+    }
+
+    // Stream one page (+1 to know whether another follows) with only the mapped fields
+    const listings: FeedListing[] = [];
+    const rejections: SyndicationRejection[] = [];
+    let last: FeedCursor | null = null;
+    let more = false;
+    let seen = 0;
+    const docs = PropertyModel.find({$and: listed})
+      .select(this.LISTING_PROJECTION)
+      .sort({updatedAt: 1, id: 1})
+      .limit(this.MAX_LISTINGS + 1)
+      .lean()
+      .cursor();
+    for await (const doc of docs) {
+      if(++seen > this.MAX_LISTINGS) {
+        more = true;
+        break;
+      }
+      const listing = this.toListing(doc as unknown as IProperty);
+      const messages = this.validate(listing);
+      if(messages.length) rejections.push({listingKey: doc.id, messages});
+      else listings.push(listing);
+      last = {updatedAt: new Date((doc as {updatedAt?: Date}).updatedAt ?? 0), id: doc.id};
+    }
+    await docs.close();
+
+    const removed = new Set<string>();
+    if(since && !cursor) {
+      const [unlisted, deleted] = await Promise.all([
+        PropertyModel.find({updatedAt: {$gt: since}, $nor: [match]}).select("id").lean(),
+        PropertyHistoryService.deletedSince(since),
+      ]);
+      unlisted.forEach((d) => removed.add(d.id));
+      deleted.forEach((d) => removed.add(d.propertyId));
+      rejections.forEach((r) => removed.add(r.listingKey));
+    }
+
+    return {
+      feed: {
+        partner: partner.name,
+        generatedAt: new Date(),
+        since,
+        listings,
+        removed: [...removed],
+        nextCursor: more && last ? this.encodeCursor(last) : null,
+      },
+      rejections,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Serialization
+  // ---------------------------------------------------------------------------
+  private static xmlEscape(v: unknown): string {
+    return String(v)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+      // XML 1.0 forbids most control characters
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+  }
+
+  public static toXml(feed: FeedDocument): string {
+    const el = (name: string, v: unknown, indent: string) => `${indent}<${name}>${this.xmlEscape(v)}</${name}>`;
+    const out: string[] = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<ListingFeed version="${this.FEED_VERSION}" partner="${this.xmlEscape(feed.partner)}" generatedAt="${feed.generatedAt.toISOString()}"${feed.since ? ` since="${feed.since.toISOString()}"` : ""} type="${feed.since ? "incremental" : "full"}"${feed.nextCursor ? ` nextCursor="${feed.nextCursor}"` : ""}>`,
+      `  <Listings count="${feed.listings.length}">`,
+    ];
+    for(const listing of feed.listings) {
+      out.push("    <Listing>");
+      for(const f of this.FEED_SCHEMA) {
+        const v = listing[f.name];
+        if(v === undefined) continue;
+        if(f.type === "media") {
+          out.push("      <Media>");
+          for(const m of v as FeedMedia[]) {
+            out.push("        <MediaItem>");
+            out.push(el("MediaKey", m.MediaKey, "          "), el("MediaURL", m.MediaURL, "          "));
+            out.push(el("Order", m.Order, "          "), el("MediaCategory", m.MediaCategory, "          "));
+            out.push("        </MediaItem>");
+          }
+          out.push("      </Media>");
+        } else if(f.type === "string[]") {
+          out.push(`      <${f.name}>`);
+          (v as string[]).forEach((x) => out.push(el("Item", x, "        ")));
+          out.push(`      </${f.name}>`);
+        } else {
+          out.push(el(f.name, v, "      "));
+        }
+      }
+      out.push("    </Listing>");
+    }
+    out.push("  </Listings>");
+    if(feed.since) {
+      out.push(`  <Removed count="${feed.removed.length}">`);
+      feed.removed.forEach((k) => out.push(el("ListingKey", k, "    ")));
+      out.push("  </Removed>");
+    }
+    out.push("</ListingFeed>");
+    return out.join("\n");
+  }
+
+  public static toJson(feed: FeedDocument): string {
+    return JSON.stringify({
+      "@reso.context": "urn:reso:metadata:1.7:resource:property",
+      version: this.FEED_VERSION,
+      partner: feed.partner,
+      type: feed.since ? "incremental" : "full",
+      generatedAt: feed.generatedAt.toISOString(),
+      since: feed.since ? feed.since.toISOString() : null,
+      count: feed.listings.length,
+      value: feed.listings,
+      nextCursor: feed.nextCursor,
+      ...(feed.since ? {removed: feed.removed} : {}),
+    });
+  }
+
+  /** Collect, validate and serialize a partner's feed. */
+  public static async build(
+    partner: Pick<ISyndicationPartner, "name" | "criteria">,
+    opts: {format: SyndicationFormat; since: Date | null; cursor?: FeedCursor | null}
+  ): Promise<FeedResult> {
+    const {feed, rejections} = await this.collect(partner, opts.since, opts.cursor ?? null);
+    const body = opts.format === "json" ? this.toJson(feed) : this.toXml(feed);
+    return {
+      body,
+      contentType: opts.format === "json" ? "application/json; charset=utf-8" : "application/xml; charset=utf-8",
+      nextCursor: feed.nextCursor,
+      run: {
+        generatedAt: feed.generatedAt,
+        since: feed.since,
+        format: opts.format,
+        listed: feed.listings.length,
+        removed: feed.removed.length,
+        rejected: rejections.length,
+        rejections: rejections.slice(0, this.MAX_REPORTED_REJECTIONS),
+      },
+    };
+  }
+}
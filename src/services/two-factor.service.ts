@@ -0,0 +1,225 @@
+// src/services/two-factor.service.ts
+import crypto from "crypto";
+import * as Argon2 from "argon2";
+import QRCode from "qrcode";
+import {TokenMap} from "../models/token.model";
+import {SecurityPolicyModel} from "../models/security-policy.model";
+import {CryptoService} from "./crypto.service";
+import {Role} from "../types/roles";
+
+export type MfaPurpose = "verify" | "enroll";
+
+export type ChallengeLookup =
+  | {ok: true; username: string; purpose: MfaPurpose}
+  | {ok: false; reason: "INVALID" | "EXPIRED" | "TOO_MANY_ATTEMPTS"};
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * TOTP (RFC 6238, SHA-1 / 30s / 6 digits) + login challenges + per-role policy.
+ * - Secrets are encrypted with CryptoService before they hit the DB
+ * - A login challenge ("mfa" TokenMap row) bridges password check → TOTP check
+ */
+export class TwoFactorService {
+  public static readonly ISSUER = "PropEase";
+  public static readonly STEP_SECONDS = 30;
+  public static readonly DIGITS = 6;
+  public static readonly WINDOW = 1; // accept ±1 step for clock drift
+  public static readonly RECOVERY_CODE_COUNT = 10;
+  public static readonly CHALLENGE_TTL_MS = 5 * 60 * 1000;
+  public static readonly MAX_CHALLENGE_ATTEMPTS = 5;
+
+  private static readonly crypto = new CryptoService();
+
+  // ---------------------------------------------------------------------------
+  // Base32 (RFC 4648, no padding) — authenticator apps expect this encoding
+  // ---------------------------------------------------------------------------
+  private static base32Encode(buf: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let out = "";
+    for(const byte of buf) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while(bits >= 5) {
+        out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if(bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return out;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const out: number[] = [];
+    for(const ch of clean) {
+      const idx = BASE32_ALPHABET.indexOf(ch);
+      if(idx === -1) throw new Error("Invalid base32 secret");
+      value = (value << 5) | idx;
+      bits += 5;
+      if(bits >= 8) {
+        out.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(out);
+  }
+
+  // ---------------------------------------------------------------------------
+  // TOTP primitives
+  // ---------------------------------------------------------------------------
+  public static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  private static hotp(secret: Buffer, counter: number): string {
+    const msg = Buffer.alloc(8);
+    msg.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac("sha1", secret).update(msg).digest();
+    const offset = (hmac[hmac.length - 1] ?? 0) & 0x0f;
+    const binary =
+      (((hmac[offset] ?? 0) & 0x7f) << 24) |
+      (((hmac[offset + 1] ?? 0) & 0xff) << 16) |
+      (((hmac[offset + 2] ?? 0) & 0xff) << 8) |
+      ((hmac[offset + 3] ?? 0) & 0xff);
+    return String(binary % 10 ** this.DIGITS).padStart(this.DIGITS, "0");
+  }
+
+  public static currentStep(now = Date.now()): number {
+    return Math.floor(now / 1000 / this.STEP_SECONDS);
+  }
+
+  /**
+   * Verify a code against a base32 secret.
+   * Returns the matched time-step (store it to block replays) or null.
+   */
+  public static verifyCode(secretBase32: string, code: string, lastUsedStep?: number): number | null {
+    const clean = String(code ?? "").replace(/\s+/g, "");
+    if(!new RegExp(`^\\d{${this.DIGITS}}$`).test(clean)) return null;
+
+    const secret = this.base32Decode(secretBase32);
+    const current = this.currentStep();
+    for(let delta = -this.WINDOW; delta <= this.WINDOW; delta++) {
+      const step = current + delta;
+      if(lastUsedStep !== undefined && step <= lastUsedStep) continue;
+      const expected = Buffer.from(this.hotp(secret, step));
+      if(crypto.timingSafeEqual(expected, Buffer.from(clean))) return step;
+    }
+    return null;
+  }
+
+  /** otpauth:// URI understood by Google Authenticator, Authy, 1Password, ... */
+  public static otpauthUrl(username: string, secretBase32: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${username}`);
+    const params = new URLSearchParams({
+      secret: secretBase32,
+      issuer: this.ISSUER,
+      algorithm: "SHA1",
+      digits: String(this.DIGITS),
+      period: String(this.STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  public static async qrDataUrl(otpauthUrl: string): Promise<string> {
+    return QRCode.toDataURL(otpauthUrl, {errorCorrectionLevel: "M", margin: 1, width: 240});
+  }
+
+  public static async encryptSecret(secretBase32: string): Promise<string> {
+    return this.crypto.encrypt(secretBase32);
+  }
+
+  public static async decryptSecret(cipherText: string): Promise<string> {
+    return String(await this.crypto.decrypt(cipherText));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Recovery codes (shown once, stored as Argon2 hashes)
+  // ---------------------------------------------------------------------------
+  public static async generateRecoveryCodes(): Promise<{codes: string[]; hashes: string[]}> {
+    const codes = Array.from({length: this.RECOVERY_CODE_COUNT}, () => {
+      const raw = crypto.randomBytes(5).toString("hex"); // 10 hex chars
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    const hashes = await Promise.all(codes.map((c) => Argon2.hash(c)));
+    return {codes, hashes};
+  }
+
+  /** Returns the index of the matching hash (so the caller can remove it) or -1. */
+  public static async matchRecoveryCode(hashes: ReadonlyArray<string>, code: string): Promise<number> {
+    const clean = String(code ?? "").trim().toLowerCase();
+    if(!clean) return -1;
+    for(let i = 0; i < hashes.length; i++) {
+      const hash = hashes[i];
+      if(hash && (await Argon2.verify(hash, clean).catch(() => false))) return i;
+    }
+    return -1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Login challenges (password ok → waiting for TOTP / enrollment)
+  // ---------------------------------------------------------------------------
+  private static hash(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  public static async createChallenge(username: string, purpose: MfaPurpose): Promise<string> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    await TokenMap.create({
+      token: this.hash(token),
+      username,
+      type: "mfa",
+      purpose,
+      attempts: 0,
+      expiresAt: new Date(Date.now() + this.CHALLENGE_TTL_MS),
+    });
+    return token;
+  }
+
+  /** Look up a live challenge without consuming it. */
+  public static async findChallenge(token: string): Promise<ChallengeLookup> {
+    const row = await TokenMap.findOne({token: this.hash(token), type: "mfa", usedAt: null}).lean();
+    if(!row) return {ok: false, reason: "INVALID"};
+    if(row.expiresAt <= new Date()) return {ok: false, reason: "EXPIRED"};
+    if((row.attempts ?? 0) >= this.MAX_CHALLENGE_ATTEMPTS) return {ok: false, reason: "TOO_MANY_ATTEMPTS"};
+    return {ok: true, username: row.username, purpose: row.purpose ?? "verify"};
+  }
+
+  /** Count a wrong code; the challenge is burnt after MAX_CHALLENGE_ATTEMPTS. */
+  public static async failChallenge(token: string): Promise<void> {
+    await TokenMap.updateOne({token: this.hash(token), type: "mfa"}, {$inc: {attempts: 1}});
+  }
+
+  /** Single use: returns false if someone else already consumed it. */
+  public static async consumeChallenge(token: string): Promise<boolean> {
+    const res = await TokenMap.updateOne(
+      {token: this.hash(token), type: "mfa", usedAt: null},
+      {$set: {usedAt: new Date()}}
+    );
+    return res.modifiedCount === 1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Per-role policy
+  // ---------------------------------------------------------------------------
+  public static async requiredRoles(): Promise<Role[]> {
+    const policy = await SecurityPolicyModel.findOne({key: "default"}).lean();
+    return (policy?.twoFactorRequiredRoles ?? []) as Role[];
+  }
+
+  public static async isRequiredFor(role: Role): Promise<boolean> {
+    return (await this.requiredRoles()).includes(role);
+  }
+
+  public static async setRequiredRoles(roles: Role[], updatedBy: string): Promise<Role[]> {
+    const policy = await SecurityPolicyModel.findOneAndUpdate(
+      {key: "default"},
+      {$set: {twoFactorRequiredRoles: [...new Set(roles)], updatedBy}},
+      {new: true, upsert: true, setDefaultsOnInsert: true}
+    ).lean();
+    return (policy?.twoFactorRequiredRoles ?? []) as Role[];
+  }
+}
@@ -0,0 +1,129 @@
+// src/services/zip.service.ts
+import zlib from "zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive ("/" separated, no leading slash) */
+  name: string;
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+/**
+ * Minimal in-memory ZIP writer/reader (deflate or stored, UTF-8 names, no ZIP64).
+ * Enough for per-user exports and reading XLSX uploads; not meant for multi-GB archives.
+ */
+export class ZipService {
+  /** MS-DOS date/time fields used by the ZIP headers. */
+  private static dosDateTime(d: Date): {time: number; date: number} {
+    const year = Math.max(d.getFullYear(), 1980);
+    return {
+      time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+      date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    };
+  }
+
+  public static build(entries: ReadonlyArray<ZipEntry>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for(const entry of entries) {
+      const name = Buffer.from(entry.name.replace(/^\/+/, ""), "utf8");
+      const deflated = zlib.deflateRawSync(entry.data);
+      // Keep already-compressed files (images, PDFs) stored when deflate doesn't help
+      const useDeflate = deflated.length < entry.data.length;
+      const body = useDeflate ? deflated : entry.data;
+      const crc = zlib.crc32(entry.data) >>> 0;
+      const {time, date} = this.dosDateTime(entry.modifiedAt ?? new Date());
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4);                  // version needed
+      local.writeUInt16LE(0x0800, 6);              // UTF-8 file names
+      local.writeUInt16LE(useDeflate ? 8 : 0, 8);  // method
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(body.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);                  // extra length
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(20, 4);                // version made by
+      central.writeUInt16LE(20, 6);                // version needed
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(useDeflate ? 8 : 0, 10);
+      central.writeUInt16LE(time, 12);
+      central.writeUInt16LE(date, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(body.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      // extra/comment length, disk start, internal/external attrs stay 0
+      central.writeUInt32LE(offset, 42);
+
+      locals.push(local, name, body);
+      centrals.push(central, name);
+      offset += local.length + name.length + body.length;
+    }
+
+    const centralSize = centrals.reduce((n, b) => n + b.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, ...centrals, end]);
+  }
+
+  /**
+   * Read every file of an archive into memory.
+   * `maxBytes` caps the total uncompressed size (guards against zip bombs).
+   */
+  public static read(buffer: Buffer, maxBytes = 50 * 1024 * 1024): Map<string, Buffer> {
+    // End of central directory: last 22 bytes + up to 64KB of comment
+    let eocd = -1;
+    for(let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+      if(buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if(eocd < 0) throw new Error("Not a ZIP archive");
+
+    const count = buffer.readUInt16LE(eocd + 10);
+    let ptr = buffer.readUInt32LE(eocd + 16);
+    const files = new Map<string, Buffer>();
+    let total = 0;
+
+    for(let n = 0; n < count; n++) {
+      if(ptr + 46 > buffer.length || buffer.readUInt32LE(ptr) !== 0x02014b50) throw new Error("Corrupt ZIP directory");
+      const method = buffer.readUInt16LE(ptr + 10);
+      const compressedSize = buffer.readUInt32LE(ptr + 20);
+      const size = buffer.readUInt32LE(ptr + 24);
+      const nameLength = buffer.readUInt16LE(ptr + 28);
+      const extraLength = buffer.readUInt16LE(ptr + 30);
+      const commentLength = buffer.readUInt16LE(ptr + 32);
+      const localOffset = buffer.readUInt32LE(ptr + 42);
+      const name = buffer.subarray(ptr + 46, ptr + 46 + nameLength).toString("utf8");
+      ptr += 46 + nameLength + extraLength + commentLength;
+
+      if(name.endsWith("/")) continue; // directory entry
+      total += size;
+      if(total > maxBytes) throw new Error("ZIP archive is too large once extracted");
+
+      if(localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) throw new Error("Corrupt ZIP entry");
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const body = buffer.subarray(start, start + compressedSize);
+
+      if(method === 0) files.set(name, Buffer.from(body));
+      else if(method === 8) files.set(name, zlib.inflateRawSync(body, {maxOutputLength: Math.max(size, 1)}));
+      else throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+    return files;
+  }
+}
@@ -2,6 +2,7 @@
 import {Server as HttpServer} from 'http';
 import {Server as IOServer, Socket, Namespace} from 'socket.io';
 import jwt from 'jsonwebtoken';
+import {ImpersonationService, ImpersonatorClaim} from '../services/impersonation.service';
 
 export type Role =
   | 'admin' | 'agent' | 'tenant' | 'owner'
@@ -18,16 +19,27 @@ type JwtPayload = {
   sub?: string;
   username: string;
   role: Role;
+  sid?: string;
+  act?: ImpersonatorClaim; // present on admin "view as user" tokens
   iat?: number;
   exp?: number;
 };
 
-type AuthUser = {username: string; role: Role; sub?: string};
+type AuthUser = {
+  username: string;
+  role: Role;
+  sub?: string;
+  sid?: string;
+  impersonator?: {username: string; role: Role}; // real admin behind an impersonated socket
+};
 
 // Small helper to safely build AuthUser without ever assigning `undefined`
 function toAuthUser(p: JwtPayload): AuthUser {
-  const base = {username: p.username, role: p.role} as const;
-  return p.sub ? {...base, sub: p.sub} : base;
+  const user: AuthUser = {username: p.username, role: p.role};
+  if(p.sub) user.sub = p.sub;
+  if(p.sid) user.sid = p.sid;
+  if(p.act) user.impersonator = {username: p.act.username, role: p.act.role};
+  return user;
 }
 
 
@@ -67,12 +79,14 @@ export default class SocketServer {
     this.nsp = this.opts.namespace === '/' ? io.sockets : io.of(this.opts.namespace);
 
     // -------- Auth middleware --------
-    this.nsp.use((socket, next) => {
+    this.nsp.use(async (socket, next) => {
       try {
         const token = this.extractToken(socket);
         if(!token) return next(new Error('Unauthorized: no token'));
         const payload = jwt.verify(token, this.opts.jwtSecret) as JwtPayload;
         if(!payload.username || !payload.role) return next(new Error('Unauthorized: bad payload'));
+        // reject logged-out / revoked sessions (and legacy tokens without a session id)
+        if(!(await ImpersonationService.isTokenActive(payload))) return next(new Error('Unauthorized: session revoked'));
 
         socket.data.authUser = toAuthUser(payload);   // ✅ omit sub if undefined
         next();
@@ -85,7 +99,7 @@ export default class SocketServer {
     // -------- Connection lifecycle --------
     this.nsp.on('connection', (socket: Socket) => {
       // ---------- auth from handshake (your middleware already verified the token) ----------
-      const auth = socket.data.authUser as {username: string; role: Role} | undefined;
+      const auth = socket.data.authUser as AuthUser | undefined;
       if(!auth?.username || !auth?.role) return socket.disconnect(true);
 
       // keep the canonical copy on socket.data
@@ -93,7 +107,8 @@ export default class SocketServer {
 
       // ---------- join base rooms & greet ----------
       this.joinBaseRooms(socket, auth);
-      console.log(`✅ Socket connected: ${auth.username} (role=${auth.role}) id=${socket.id}`);
+      const via = auth.impersonator ? ` impersonated by ${auth.impersonator.username}` : '';
+      console.log(`✅ Socket connected: ${auth.username} (role=${auth.role})${via} id=${socket.id}`);
 
       // track liveness/latency for this socket
       let lastClientPongAt = Date.now();
@@ -104,6 +119,7 @@ export default class SocketServer {
         sid: socket.id,
         username: auth.username,
         role: auth.role,
+        impersonator: auth.impersonator ?? null,
         ts: Date.now(),
         server: {name: 'prop-ease-api', version: '1.0.0'},
       });
@@ -150,10 +166,11 @@ export default class SocketServer {
       });
 
       // ---------- runtime auth/token update ----------
-      socket.on('auth:update', (token: string, ack?: (res: {ok: boolean; reason?: string}) => void) => {
+      socket.on('auth:update', async (token: string, ack?: (res: {ok: boolean; reason?: string}) => void) => {
         try {
           const payload = jwt.verify(token, this.opts.jwtSecret) as JwtPayload;
           if(!payload.username || !payload.role) throw new Error('bad token');
+          if(!(await ImpersonationService.isTokenActive(payload))) throw new Error('session revoked');
 
           const prev = socket.data.authUser as AuthUser | undefined;
           if(prev) this.leaveBaseRooms(socket, prev);
@@ -239,11 +256,13 @@ export default class SocketServer {
     socket.join(`user:${user.username}`);
     socket.join(`role:${user.role}`);
     socket.join('broadcast');
+    if(user.sid) socket.join(`session:${user.sid}`); // lets logout/revocation drop live sockets
   }
 
   private leaveBaseRooms(socket: Socket, user: AuthUser) {
     socket.leave(`user:${user.username}`);
     socket.leave(`role:${user.role}`);
     socket.leave('broadcast');
+    if(user.sid) socket.leave(`session:${user.sid}`);
   }
 }